@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import { SafetyReviewConsole } from "@/components/safety-review-console";
+
+export const metadata: Metadata = {
+  title: "Safety review · SoulAware",
+  robots: { index: false, follow: false },
+};
+
+export default function SafetyReviewPage() {
+  return (
+    <main className="min-h-screen bg-stone-100 px-4 py-8 md:px-10">
+      <div className="mx-auto w-full max-w-6xl space-y-8 rounded-3xl border border-stone-200 bg-white p-6 shadow-sm md:p-10">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold text-stone-900">Safety review</h1>
+          <p className="text-sm text-stone-700">
+            Triage flagged turns with their surrounding conversation. Requires the admin
+            secret (<code>SOULAWARE_ADMIN_SECRET</code>).
+          </p>
+        </header>
+        <SafetyReviewConsole />
+      </div>
+    </main>
+  );
+}
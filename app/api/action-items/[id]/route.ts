@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readOwnerId } from "@/lib/server/auth";
+import { trackEvent, updateActionItem } from "@/lib/server/repository";
+import type { ActionItem, ActionItemStatus, ActionItemUpdateRequest } from "@/types/domain";
+
+const STATUSES: ActionItemStatus[] = ["open", "done", "dropped"];
+const MAX_NOTES_LENGTH = 2000;
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const guestId = readOwnerId(request);
+    const { id } = await context.params;
+    const payload = (await request.json()) as ActionItemUpdateRequest;
+
+    if (payload.status !== undefined && !STATUSES.includes(payload.status)) {
+      return NextResponse.json(
+        { error: "Status must be open, done, or dropped." },
+        { status: 400 },
+      );
+    }
+
+    if (
+      payload.dueAt !== undefined &&
+      payload.dueAt !== null &&
+      (typeof payload.dueAt !== "string" || Number.isNaN(Date.parse(payload.dueAt)))
+    ) {
+      return NextResponse.json({ error: "Due date must be a valid date." }, { status: 400 });
+    }
+
+    if (payload.notes !== undefined && typeof payload.notes !== "string") {
+      return NextResponse.json({ error: "Notes must be text." }, { status: 400 });
+    }
+
+    if (payload.status === undefined && payload.dueAt === undefined && payload.notes === undefined) {
+      return NextResponse.json(
+        { error: "Provide a status, due date, or notes to update." },
+        { status: 400 },
+      );
+    }
+
+    const actionItem = await updateActionItem({
+      actionItemId: id,
+      guestId,
+      status: payload.status,
+      dueAt:
+        payload.dueAt === undefined || payload.dueAt === null
+          ? payload.dueAt
+          : new Date(payload.dueAt).toISOString(),
+      notes: payload.notes?.trim().slice(0, MAX_NOTES_LENGTH),
+    });
+
+    if (!actionItem) {
+      return NextResponse.json({ error: "Action item not found." }, { status: 404 });
+    }
+
+    if (payload.status === "done") {
+      await trackEvent({
+        guestId,
+        eventName: "action_item_completed",
+        metadata: { actionItemId: actionItem.id },
+      });
+    }
+
+    const response: ActionItem = actionItem;
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to update action item.",
+      },
+      { status: 500 },
+    );
+  }
+}
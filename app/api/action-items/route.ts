@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readOwnerId } from "@/lib/server/auth";
+import { listActionItems, resolveSessionForGuest } from "@/lib/server/repository";
+import type { ActionItemListResponse } from "@/types/domain";
+
+export async function GET(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    const session = await resolveSessionForGuest({
+      guestId,
+      sessionId: request.nextUrl.searchParams.get("conversationId"),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+
+    const response: ActionItemListResponse = {
+      actionItems: await listActionItems(session.id, {
+        snapshotId: request.nextUrl.searchParams.get("snapshotId") ?? undefined,
+      }),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load action items.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { isAdminAuthorized } from "@/lib/server/admin";
+import { getSafetyEvent, listMessages, updateSafetyEventReview } from "@/lib/server/repository";
+import { buildReviewContext, isSafetyReviewStatus } from "@/lib/server/safety-review";
+import type { SafetyReviewDetailResponse, SafetyReviewUpdateRequest } from "@/types/domain";
+
+const MAX_NOTES_LENGTH = 2000;
+const MAX_REVIEWER_LENGTH = 120;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!isAdminAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const event = await getSafetyEvent(id);
+
+    if (!event) {
+      return NextResponse.json({ error: "Safety event not found." }, { status: 404 });
+    }
+
+    const response: SafetyReviewDetailResponse = {
+      event,
+      context: buildReviewContext(event, await listMessages(event.sessionId)),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load safety event.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!isAdminAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const payload = (await request.json()) as SafetyReviewUpdateRequest;
+
+    if (payload.status !== undefined && !isSafetyReviewStatus(payload.status)) {
+      return NextResponse.json(
+        { error: "Status must be new, reviewed, false_positive or escalated." },
+        { status: 400 },
+      );
+    }
+
+    if (payload.notes !== undefined && typeof payload.notes !== "string") {
+      return NextResponse.json({ error: "Notes must be text." }, { status: 400 });
+    }
+
+    if (payload.status === undefined && payload.notes === undefined) {
+      return NextResponse.json(
+        { error: "Provide a status or notes to update." },
+        { status: 400 },
+      );
+    }
+
+    const reviewer =
+      typeof payload.reviewer === "string"
+        ? payload.reviewer.trim().slice(0, MAX_REVIEWER_LENGTH) || null
+        : null;
+
+    const event = await updateSafetyEventReview({
+      eventId: id,
+      status: payload.status,
+      notes: payload.notes?.trim().slice(0, MAX_NOTES_LENGTH),
+      reviewer,
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Safety event not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to update safety event.",
+      },
+      { status: 500 },
+    );
+  }
+}
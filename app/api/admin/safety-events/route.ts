@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { isAdminAuthorized } from "@/lib/server/admin";
+import { listSafetyEventsForReview, listSafetyEventTallies } from "@/lib/server/repository";
+import { isSafetyReviewStatus, summarizeSafetyEvents } from "@/lib/server/safety-review";
+import type { SafetyReviewQueueResponse } from "@/types/domain";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const DEFAULT_COUNT_DAYS = 30;
+const MAX_COUNT_DAYS = 365;
+
+function readBoundedInt(value: string | null, fallback: number, max: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get("status");
+
+    if (status && !isSafetyReviewStatus(status)) {
+      return NextResponse.json(
+        { error: "Status must be new, reviewed, false_positive or escalated." },
+        { status: 400 },
+      );
+    }
+
+    const days = readBoundedInt(params.get("days"), DEFAULT_COUNT_DAYS, MAX_COUNT_DAYS);
+    const sinceIso = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const [events, tallies] = await Promise.all([
+      listSafetyEventsForReview({
+        status: status && isSafetyReviewStatus(status) ? status : undefined,
+        reasonPrefix: params.get("reason")?.trim() || undefined,
+        before: params.get("before") ?? undefined,
+        limit: readBoundedInt(params.get("limit"), DEFAULT_LIMIT, MAX_LIMIT),
+      }),
+      listSafetyEventTallies(sinceIso),
+    ]);
+
+    const response: SafetyReviewQueueResponse = {
+      events,
+      counts: summarizeSafetyEvents(tallies, sinceIso),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load safety events.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { readGuestId } from "@/lib/server/guest";
+import { readOwnerId } from "@/lib/server/auth";
+import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
 import { trackEvent } from "@/lib/server/repository";
 import type { AnalyticsEventName } from "@/types/domain";
 
@@ -10,7 +16,6 @@ const allowedEvents: AnalyticsEventName[] = [
   "snapshot_created",
   "safety_triggered",
   "returned_within_7d",
-  "chat_model_selected",
   "chat_retry_for_uniqueness",
   "chat_clarifier_triggered",
   "chat_summary_updated",
@@ -19,7 +24,16 @@ const allowedEvents: AnalyticsEventName[] = [
 
 export async function POST(request: NextRequest) {
   try {
-    const guestId = readGuestId(request);
+    const guestId = readOwnerId(request);
+    const rateLimit = await enforceRateLimit("analytics", {
+      guest: guestId,
+      ip: resolveClientIp(request),
+    });
+
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many analytics events. Please slow down.");
+    }
+
     const payload = (await request.json()) as {
       eventName?: AnalyticsEventName;
       metadata?: Record<string, unknown>;
@@ -38,7 +52,7 @@ export async function POST(request: NextRequest) {
       metadata: payload.metadata,
     });
 
-    return NextResponse.json({ ok: true });
+    return applyRateLimitHeaders(NextResponse.json({ ok: true }), rateLimit);
   } catch (error) {
     return NextResponse.json(
       {
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { MAGIC_LINK_TTL_MINUTES, createMagicLinkToken } from "@/lib/server/auth";
+import { env } from "@/lib/server/env";
+import { guestCookieName } from "@/lib/server/guest";
+import { normalizeEmail, sendMail } from "@/lib/server/mailer";
+import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import { createMagicLink } from "@/lib/server/repository";
+import type { MagicLinkRequest } from "@/types/domain";
+
+export async function POST(request: NextRequest) {
+  try {
+    const payload = (await request.json()) as Partial<MagicLinkRequest>;
+    const email = normalizeEmail(payload.email);
+
+    if (!email) {
+      return NextResponse.json({ error: "Enter a valid email address." }, { status: 400 });
+    }
+
+    const rateLimit = await enforceRateLimit("magic_link", {
+      email,
+      ip: resolveClientIp(request),
+    });
+
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many sign-in requests. Please wait and try again.");
+    }
+
+    const { token, tokenHash } = createMagicLinkToken();
+
+    await createMagicLink({
+      tokenHash,
+      email,
+      guestId: request.cookies.get(guestCookieName)?.value ?? null,
+      expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+    });
+
+    const link = new URL("/auth/verify", env.appUrl);
+    link.searchParams.set("token", token);
+
+    await sendMail({
+      to: email,
+      subject: "Your SoulAware sign-in link",
+      text: [
+        "Use this link to sign in to SoulAware:",
+        "",
+        link.toString(),
+        "",
+        `It expires in ${MAGIC_LINK_TTL_MINUTES} minutes. Open it in the browser you requested it from to move that browser's conversations into your account.`,
+        "If you did not request it, you can ignore this email.",
+      ].join("\n"),
+    });
+
+    return applyRateLimitHeaders(NextResponse.json({ ok: true }), rateLimit);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to send sign-in link.",
+      },
+      { status: 500 },
+    );
+  }
+}
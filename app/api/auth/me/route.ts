@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readAccountId } from "@/lib/server/auth";
+import { getAccount } from "@/lib/server/repository";
+import type { AccountResponse } from "@/types/domain";
+
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = readAccountId(request);
+    const response: AccountResponse = {
+      account: accountId ? await getAccount(accountId) : null,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load account.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { clearAccountCookie } from "@/lib/server/auth";
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  clearAccountCookie(response);
+  return response;
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { accountOwnerId, hashToken, setAccountCookie } from "@/lib/server/auth";
+import { guestCookieName } from "@/lib/server/guest";
+import {
+  claimGuestData,
+  consumeMagicLink,
+  findOrCreateAccount,
+  trackEvent,
+} from "@/lib/server/repository";
+import { isSameOriginRequest } from "@/lib/server/same-origin";
+
+async function readToken(request: NextRequest): Promise<string | null> {
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const payload = (await request.json()) as { token?: unknown } | null;
+    return typeof payload?.token === "string" ? payload.token : null;
+  }
+
+  const token = (await request.formData()).get("token");
+  return typeof token === "string" ? token : null;
+}
+
+/** Links sent before the confirmation page existed land there instead of signing in. */
+export function GET(request: NextRequest) {
+  const page = new URL("/auth/verify", request.url);
+  const token = request.nextUrl.searchParams.get("token");
+
+  if (token) {
+    page.searchParams.set("token", token);
+  }
+
+  return NextResponse.redirect(page);
+}
+
+export async function POST(request: NextRequest) {
+  // 303 so the browser follows the form post with a plain GET of the settings page.
+  const redirectTo = (status: string) =>
+    NextResponse.redirect(new URL(`/settings?account=${status}`, request.url), 303);
+
+  // Another site could otherwise auto-submit its own token and sign the visitor into an
+  // account it controls. The token is left unused.
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json({ error: "Sign-in must be confirmed on this site." }, { status: 403 });
+  }
+
+  try {
+    const token = await readToken(request);
+
+    if (!token) {
+      return redirectTo("invalid");
+    }
+
+    const link = await consumeMagicLink(hashToken(token));
+
+    if (!link) {
+      return redirectTo("invalid");
+    }
+
+    const account = await findOrCreateAccount(link.email);
+    const ownerId = accountOwnerId(account.id);
+    // Only the browser that asked for the link hands over its guest data, so a link requested
+    // for someone else's address cannot plant the requester's history in their account.
+    const guestId = request.cookies.get(guestCookieName)?.value;
+    const claimedSessions =
+      link.guestId && link.guestId === guestId
+        ? await claimGuestData({ guestId: link.guestId, ownerId })
+        : 0;
+
+    await trackEvent({
+      guestId: ownerId,
+      eventName: "account_signed_in",
+      metadata: { claimedSessions },
+    }).catch(() => undefined);
+
+    const response = redirectTo("signed-in");
+    setAccountCookie(response, account.id);
+    return response;
+  } catch {
+    return redirectTo("error");
+  }
+}
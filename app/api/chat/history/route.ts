@@ -1,13 +1,21 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { readGuestId } from "@/lib/server/guest";
-import { getOrCreateSession, listMessages } from "@/lib/server/repository";
+import { readOwnerId } from "@/lib/server/auth";
+import { listMessages, resolveSessionForGuest } from "@/lib/server/repository";
 import type { ChatHistoryResponse } from "@/types/domain";
 
 export async function GET(request: NextRequest) {
   try {
-    const guestId = readGuestId(request);
-    const session = await getOrCreateSession(guestId);
+    const guestId = readOwnerId(request);
+    const session = await resolveSessionForGuest({
+      guestId,
+      sessionId: request.nextUrl.searchParams.get("conversationId"),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+
     const messages = await listMessages(session.id);
 
     const response: ChatHistoryResponse = {
@@ -3,24 +3,61 @@ import type { NextRequest } from "next/server";
 import {
   generateCoachReply,
   generateCoachReplyV2,
-  renderCoachReply,
+  renderCoachReplySegments,
 } from "@/lib/server/ai";
+import { countLinks, recordChatActivity } from "@/lib/server/abuse";
+import { readOwnerId } from "@/lib/server/auth";
+import { BUDGET_EXHAUSTED_REPLY, getGuestBudget, type GuestBudget } from "@/lib/server/budget";
+import { normalizeConversationTitle } from "@/lib/server/conversation";
+import { resolveCrisisResources } from "@/lib/server/crisis-resources";
 import { env } from "@/lib/server/env";
-import { readGuestId } from "@/lib/server/guest";
-import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { getModerationFailurePolicy } from "@/lib/server/moderation";
 import {
+  getOutputSafetyPolicy,
+  screenReplySegments,
+  type OutputScreenResult,
+} from "@/lib/server/output-safety";
+import {
+  applyRateLimitHeaders,
+  cooldownDecision,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import { createReplyStream } from "@/lib/server/reply-stream";
+import {
+  DEFAULT_CONVERSATION_TITLE,
   createMessage,
   createSafetyEvent,
   getLatestSnapshotForSession,
-  getOrCreateSession,
   getOrCreateSessionState,
+  listActionItems,
   listMessages,
   listRecentMessages,
+  resolveSessionForGuest,
   trackEvent,
+  updateSession,
   updateSessionState,
 } from "@/lib/server/repository";
-import { evaluateSafety, getSafetyResponseText } from "@/lib/server/safety";
-import type { ChatMessageRequest, ChatMessageResponse } from "@/types/domain";
+import {
+  advancePostCrisis,
+  evaluateConversationSafety,
+  getSafetyResponseText,
+  getSupportResourcesText,
+} from "@/lib/server/safety";
+import {
+  getSpendBreakerStatus,
+  isSpendStepAtLeast,
+  recordModelUsage,
+  type SpendDegradationStep,
+} from "@/lib/server/spend-breaker";
+import type {
+  ChatMessageRequest,
+  ChatMessageResponse,
+  ChatReplySegment,
+  ChatStreamEvent,
+  CrisisResources,
+} from "@/types/domain";
 
 function rolloutBucket(value: string): number {
   let hash = 0;
@@ -61,7 +98,11 @@ async function safeTrackEvent(params: {
     | "chat_clarifier_triggered"
     | "chat_summary_updated"
     | "chat_low_quality_fallback"
-    | "safety_triggered";
+    | "safety_triggered"
+    | "moderation_failed"
+    | "chat_output_blocked"
+    | "chat_budget_limited"
+    | "abuse_cooldown";
   metadata?: Record<string, unknown>;
 }): Promise<void> {
   try {
@@ -71,9 +112,344 @@ async function safeTrackEvent(params: {
   }
 }
 
+async function trackOutputScreen(
+  guestId: string,
+  engine: "v1" | "v2",
+  screen: OutputScreenResult | null,
+): Promise<void> {
+  if (!screen || screen.action === "allow") {
+    return;
+  }
+
+  await safeTrackEvent({
+    guestId,
+    eventName: "chat_output_blocked",
+    metadata: {
+      engine,
+      action: screen.action,
+      categories: screen.categories,
+      ruleIds: screen.ruleIds,
+      policy: getOutputSafetyPolicy(),
+    },
+  });
+}
+
+type TurnEmitter = {
+  segment: (segment: ChatReplySegment) => void;
+  /** Tells the client to drop what it has so far, e.g. after a uniqueness retry. */
+  reset: () => void;
+};
+
+function appendSupportResources(
+  reply: string,
+  crisisResources: CrisisResources,
+  emit?: TurnEmitter,
+): string {
+  const resources = getSupportResourcesText(crisisResources);
+  emit?.segment({ kind: "support", text: resources });
+  return `${reply}\n\n${resources}`;
+}
+
+async function generateCoachTurn(params: {
+  guestId: string;
+  sessionId: string;
+  text: string;
+  supportive: boolean;
+  /** Post-crisis turns drop the action step on top of supportive coaching. */
+  postCrisis: boolean;
+  budget: GuestBudget;
+  /** Global spend breaker step; stacks with the guest's own budget. */
+  degradation: SpendDegradationStep;
+  crisisResources: CrisisResources;
+  emit?: TurnEmitter;
+}): Promise<ChatMessageResponse> {
+  const {
+    guestId,
+    sessionId,
+    text,
+    supportive,
+    postCrisis,
+    budget,
+    degradation,
+    crisisResources,
+    emit,
+  } = params;
+
+  if (budget.status !== "ok") {
+    await safeTrackEvent({
+      guestId,
+      eventName: "chat_budget_limited",
+      metadata: {
+        status: budget.status,
+        spentUsd: budget.spentUsd,
+        spentTokens: budget.spentTokens,
+        limitUsd: budget.limitUsd,
+        limitTokens: budget.limitTokens,
+      },
+    });
+  }
+
+  if (budget.status === "exhausted") {
+    emit?.segment({ kind: "support", text: BUDGET_EXHAUSTED_REPLY });
+    const replyText = supportive
+      ? appendSupportResources(BUDGET_EXHAUSTED_REPLY, crisisResources, emit)
+      : BUDGET_EXHAUSTED_REPLY;
+    const assistantMessage = await createMessage({
+      sessionId,
+      role: "assistant",
+      content: replyText,
+      mode: "coach",
+    });
+
+    return {
+      reply: replyText,
+      mode: "coach",
+      messageId: assistantMessage.id,
+      safetyTriggered: false,
+      supportMode: supportive,
+      postCrisis,
+      budgetStatus: budget.status,
+      responseKind: "coach",
+      modelUsed: "budget-guardrail",
+      clarifierPending: false,
+    };
+  }
+
+  const forceFastModel =
+    budget.status === "downgrade" || isSpendStepAtLeast(degradation, "fast_model");
+  const forceFallback = isSpendStepAtLeast(degradation, "fallback_only");
+  const deliverable = (segments: ChatReplySegment[]) =>
+    postCrisis ? segments.filter((segment) => segment.kind !== "action") : segments;
+  const stream = emit
+    ? createReplyStream({
+        onSegment: emit.segment,
+        onReset: emit.reset,
+        prepare: (segments) => deliverable(screenReplySegments(segments).segments),
+      })
+    : undefined;
+  const latestSnapshot = await getLatestSnapshotForSession(sessionId);
+
+  if (shouldUseChatV2(guestId)) {
+    const messageSlices = await listRecentMessages(sessionId, 24);
+    const sessionState = await getOrCreateSessionState(sessionId);
+    const actionItems = await listActionItems(sessionId);
+    const startedAt = Date.now();
+    let outputScreen: OutputScreenResult | null = null;
+
+    const v2Result = await generateCoachReplyV2({
+      text,
+      history: messageSlices.allMessages,
+      latestSnapshot,
+      sessionState,
+      actionItems,
+      supportive,
+      forceFastModel,
+      skipSummary: isSpendStepAtLeast(degradation, "no_summaries"),
+      forceFallback,
+      stream,
+      screenSegments: (segments) => {
+        outputScreen = screenReplySegments(segments);
+        return deliverable(outputScreen.segments);
+      },
+    });
+    const replyText = supportive
+      ? appendSupportResources(v2Result.reply, crisisResources, emit)
+      : v2Result.reply;
+
+    await recordModelUsage(guestId, "chat_v2", v2Result);
+    await updateSessionState(sessionId, v2Result.sessionStatePatch);
+
+    const assistantMessage = await createMessage({
+      sessionId,
+      role: "assistant",
+      content: replyText,
+      mode: "coach",
+    });
+
+    const latencyMs = Date.now() - startedAt;
+
+    await trackOutputScreen(guestId, "v2", outputScreen);
+
+    await safeTrackEvent({
+      guestId,
+      eventName: "chat_model_selected",
+      metadata: {
+        engine: "v2",
+        modelUsed: v2Result.modelUsed,
+        lens: v2Result.lens,
+        responseKind: v2Result.responseKind,
+        retryCount: v2Result.retryCount,
+        approximateTokens: v2Result.approximateTokens,
+        estimatedCostUsd: v2Result.estimatedCostUsd,
+        degradation,
+        latencyMs,
+        streamed: Boolean(emit),
+      },
+    });
+
+    if (v2Result.retryCount > 0) {
+      await safeTrackEvent({
+        guestId,
+        eventName: "chat_retry_for_uniqueness",
+        metadata: {
+          engine: "v2",
+          retryCount: v2Result.retryCount,
+          modelUsed: v2Result.modelUsed,
+        },
+      });
+    }
+
+    if (v2Result.responseKind === "clarify") {
+      await safeTrackEvent({
+        guestId,
+        eventName: "chat_clarifier_triggered",
+        metadata: {
+          engine: "v2",
+          lens: v2Result.lens,
+        },
+      });
+    }
+
+    if (v2Result.summaryUpdated) {
+      await safeTrackEvent({
+        guestId,
+        eventName: "chat_summary_updated",
+        metadata: {
+          engine: "v2",
+          modelUsed: env.openAiSummaryModel,
+        },
+      });
+    }
+
+    if (v2Result.lowQualityFallback) {
+      await safeTrackEvent({
+        guestId,
+        eventName: "chat_low_quality_fallback",
+        metadata: {
+          engine: "v2",
+          lens: v2Result.lens,
+          modelUsed: v2Result.modelUsed,
+        },
+      });
+    }
+
+    return {
+      reply: replyText,
+      mode: "coach",
+      messageId: assistantMessage.id,
+      safetyTriggered: false,
+      supportMode: supportive,
+      postCrisis,
+      budgetStatus: budget.status,
+      responseKind: v2Result.responseKind,
+      modelUsed: v2Result.modelUsed,
+      lens: v2Result.lens,
+      clarifierPending: v2Result.clarifierPending,
+    };
+  }
+
+  const history = await listMessages(sessionId, 12);
+  const v1Result = await generateCoachReply({
+    text,
+    history,
+    latestSnapshot,
+    role: forceFastModel ? "fast" : "primary",
+    supportive,
+    forceFallback,
+    stream,
+  });
+  const draft = v1Result.reply;
+
+  await recordModelUsage(guestId, "chat_v1", v1Result);
+
+  // Drafts were screened one by one while streaming; the settled reply is screened whole.
+  const outputScreen = screenReplySegments(renderCoachReplySegments(draft));
+  const segments = deliverable(outputScreen.segments);
+  stream?.settle(segments);
+
+  const coachText = segments.map((segment) => segment.text).join("\n\n");
+  const replyText = supportive
+    ? appendSupportResources(coachText, crisisResources, emit)
+    : coachText;
+
+  const assistantMessage = await createMessage({
+    sessionId,
+    role: "assistant",
+    content: replyText,
+    mode: "coach",
+  });
+
+  await trackOutputScreen(guestId, "v1", outputScreen);
+
+  await safeTrackEvent({
+    guestId,
+    eventName: "chat_model_selected",
+    metadata: {
+      engine: "v1",
+      modelUsed: v1Result.modelUsed,
+      responseKind: "coach",
+      approximateTokens: v1Result.approximateTokens,
+      estimatedCostUsd: v1Result.estimatedCostUsd,
+      degradation,
+      streamed: Boolean(emit),
+    },
+  });
+
+  return {
+    reply: replyText,
+    mode: "coach",
+    messageId: assistantMessage.id,
+    safetyTriggered: false,
+    supportMode: supportive,
+    postCrisis,
+    budgetStatus: budget.status,
+    responseKind: "coach",
+    modelUsed: v1Result.modelUsed,
+    clarifierPending: false,
+  };
+}
+
+function encodeStreamEvent(event: ChatStreamEvent): Uint8Array {
+  const { type, ...data } = event;
+  return new TextEncoder().encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function streamTurn(run: (emit: TurnEmitter) => Promise<ChatMessageResponse>): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const response = await run({
+          segment: (segment) => controller.enqueue(encodeStreamEvent({ type: "segment", segment })),
+          reset: () => controller.enqueue(encodeStreamEvent({ type: "reset" })),
+        });
+
+        controller.enqueue(encodeStreamEvent({ type: "done", response }));
+      } catch (error) {
+        controller.enqueue(
+          encodeStreamEvent({
+            type: "error",
+            error:
+              error instanceof Error ? error.message : "Unable to process chat message.",
+          }),
+        );
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const guestId = readGuestId(request);
+    const guestId = readOwnerId(request);
     const payload = (await request.json()) as ChatMessageRequest;
     const text = payload?.text?.trim();
 
@@ -88,46 +464,110 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const linkCount = (text.match(/https?:\/\/|www\./gi) ?? []).length;
+    const clientIp = resolveClientIp(request);
+    const rateLimit = await enforceRateLimit("chat_message", { guest: guestId, ip: clientIp });
 
-    if (linkCount > 2) {
-      return NextResponse.json(
-        { error: "Too many links in one message." },
-        { status: 400 },
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many messages. Please wait and try again.");
+    }
+
+    const session = await resolveSessionForGuest({
+      guestId,
+      sessionId: payload.conversationId,
+    });
+
+    if (!session) {
+      return applyRateLimitHeaders(
+        NextResponse.json({ error: "Conversation not found." }, { status: 404 }),
+        rateLimit,
       );
     }
 
-    const forwardedFor = request.headers.get("x-forwarded-for");
-    const resolvedIp =
-      forwardedFor?.split(",")[0]?.trim() ?? request.headers.get("x-real-ip") ?? "unknown";
+    if (session.archivedAt) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "This conversation is archived. Restore it to keep chatting." },
+          { status: 409 },
+        ),
+        rateLimit,
+      );
+    }
 
-    const [guestLimit, ipLimit] = await Promise.all([
-      enforceRateLimit(`guest:${guestId}`),
-      enforceRateLimit(`ip:${resolvedIp}`),
+    // Safety runs before any model output so a streamed turn can never leak coaching text.
+    // It also runs before the user turn is stored so a refused turn can simply be resent.
+    const [recent, sessionState] = await Promise.all([
+      listRecentMessages(session.id, 12),
+      getOrCreateSessionState(session.id),
     ]);
+    const safety = await evaluateConversationSafety({
+      text,
+      recentUserMessages: [...recent.userMessages.map((message) => message.content), text],
+      riskTrajectory: sessionState.riskTrajectory,
+    });
+
+    if (safety.moderationFailure) {
+      await safeTrackEvent({
+        guestId,
+        eventName: "moderation_failed",
+        metadata: {
+          failure: safety.moderationFailure,
+          policy: getModerationFailurePolicy(),
+          blocked: safety.blocked,
+        },
+      });
+    }
+
+    // Abuse heuristics run after safety so a repeated message about being in danger is never
+    // cooled down. Link-heavy messages still count toward a link burst though refused below.
+    const cooldowns = await recordChatActivity({
+      guestId,
+      ip: clientIp,
+      text,
+      flagged: safety.level !== "none",
+    });
+
+    for (const { signal, keyType, cooldown } of cooldowns) {
+      await safeTrackEvent({
+        guestId,
+        eventName: "abuse_cooldown",
+        metadata: { signal, keyType, until: new Date(cooldown.until).toISOString() },
+      });
+    }
+
+    const [tripped] = cooldowns;
+
+    if (tripped) {
+      return rateLimitExceeded(
+        cooldownDecision("chat_message", tripped.keyType, tripped.cooldown),
+        "Too many messages. Please wait and try again.",
+      );
+    }
 
-    if (!guestLimit.success || !ipLimit.success) {
-      const blockedBy = guestLimit.success ? ipLimit : guestLimit;
-      const retryAfterSeconds = Math.max(
-        1,
-        Math.ceil((blockedBy.reset - Date.now()) / 1000),
+    if (countLinks(text) > 2) {
+      return applyRateLimitHeaders(
+        NextResponse.json({ error: "Too many links in one message." }, { status: 400 }),
+        rateLimit,
       );
+    }
 
-      return NextResponse.json(
-        { error: "Too many messages. Please wait and try again." },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": String(retryAfterSeconds),
-            "X-RateLimit-Limit": String(blockedBy.limit),
-            "X-RateLimit-Remaining": String(blockedBy.remaining),
-            "X-RateLimit-Reset": String(Math.floor(blockedBy.reset / 1000)),
-          },
-        },
+    if (safety.blocked) {
+      // A passing decision adds no Retry-After, so the outage's own one stands.
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "Safety checks are temporarily unavailable. Please try again in a minute." },
+          { status: 503, headers: { "Retry-After": "60" } },
+        ),
+        rateLimit,
       );
     }
 
-    const session = await getOrCreateSession(guestId);
+    if (session.title === DEFAULT_CONVERSATION_TITLE) {
+      await updateSession({
+        sessionId: session.id,
+        guestId,
+        title: normalizeConversationTitle(text) ?? DEFAULT_CONVERSATION_TITLE,
+      });
+    }
 
     await createMessage({
       sessionId: session.id,
@@ -136,17 +576,28 @@ export async function POST(request: NextRequest) {
       mode: "coach",
     });
 
-    const safety = await evaluateSafety(text);
+    const postCrisis = advancePostCrisis(sessionState.postCrisisTurnsRemaining, safety, text);
 
-    if (safety.isTriggered) {
-      const safetyReply = getSafetyResponseText();
+    await updateSessionState(session.id, {
+      riskTrajectory: safety.riskTrajectory,
+      postCrisisTurnsRemaining: postCrisis.turnsRemaining,
+    });
 
+    if (safety.level !== "none") {
       await createSafetyEvent({
         sessionId: session.id,
         guestId,
         level: safety.level,
+        action: safety.action,
+        reason: safety.reason,
         triggerText: text,
       });
+    }
+
+    const crisisResources = resolveCrisisResources(request.headers, request.cookies);
+
+    if (safety.isTriggered) {
+      const safetyReply = getSafetyResponseText(crisisResources);
 
       const assistantMessage = await createMessage({
         sessionId: session.id,
@@ -158,7 +609,7 @@ export async function POST(request: NextRequest) {
       await safeTrackEvent({
         guestId,
         eventName: "safety_triggered",
-        metadata: { reason: safety.reason, engine: "safety" },
+        metadata: { reason: safety.reason, level: safety.level, engine: "safety" },
       });
 
       const response: ChatMessageResponse = {
@@ -171,146 +622,57 @@ export async function POST(request: NextRequest) {
         clarifierPending: false,
       };
 
-      return NextResponse.json(response);
-    }
-
-    const latestSnapshot = await getLatestSnapshotForSession(session.id);
-
-    if (shouldUseChatV2(guestId)) {
-      const messageSlices = await listRecentMessages(session.id, 24);
-      const sessionState = await getOrCreateSessionState(session.id);
-      const startedAt = Date.now();
-
-      const v2Result = await generateCoachReplyV2({
-        text,
-        history: messageSlices.allMessages,
-        latestSnapshot,
-        sessionState,
-      });
-
-      await updateSessionState(session.id, v2Result.sessionStatePatch);
-
-      const assistantMessage = await createMessage({
-        sessionId: session.id,
-        role: "assistant",
-        content: v2Result.reply,
-        mode: "coach",
-      });
-
-      const latencyMs = Date.now() - startedAt;
-
-      await safeTrackEvent({
-        guestId,
-        eventName: "chat_model_selected",
-        metadata: {
-          engine: "v2",
-          modelUsed: v2Result.modelUsed,
-          lens: v2Result.lens,
-          responseKind: v2Result.responseKind,
-          retryCount: v2Result.retryCount,
-          approximateTokens: v2Result.approximateTokens,
-          estimatedCostUsd: v2Result.estimatedCostUsd,
-          latencyMs,
-        },
-      });
-
-      if (v2Result.retryCount > 0) {
-        await safeTrackEvent({
-          guestId,
-          eventName: "chat_retry_for_uniqueness",
-          metadata: {
-            engine: "v2",
-            retryCount: v2Result.retryCount,
-            modelUsed: v2Result.modelUsed,
-          },
-        });
-      }
-
-      if (v2Result.responseKind === "clarify") {
-        await safeTrackEvent({
-          guestId,
-          eventName: "chat_clarifier_triggered",
-          metadata: {
-            engine: "v2",
-            lens: v2Result.lens,
-          },
-        });
+      if (payload.stream) {
+        return applyRateLimitHeaders(
+          streamTurn(async (emit) => {
+            emit.segment({ kind: "safety", text: safetyReply });
+            return response;
+          }),
+          rateLimit,
+        );
       }
 
-      if (v2Result.summaryUpdated) {
-        await safeTrackEvent({
-          guestId,
-          eventName: "chat_summary_updated",
-          metadata: {
-            engine: "v2",
-            modelUsed: env.openAiSummaryModel,
-          },
-        });
-      }
-
-      if (v2Result.lowQualityFallback) {
-        await safeTrackEvent({
-          guestId,
-          eventName: "chat_low_quality_fallback",
-          metadata: {
-            engine: "v2",
-            lens: v2Result.lens,
-            modelUsed: v2Result.modelUsed,
-          },
-        });
-      }
-
-      const response: ChatMessageResponse = {
-        reply: v2Result.reply,
-        mode: "coach",
-        messageId: assistantMessage.id,
-        safetyTriggered: false,
-        responseKind: v2Result.responseKind,
-        modelUsed: v2Result.modelUsed,
-        lens: v2Result.lens,
-        clarifierPending: v2Result.clarifierPending,
-      };
-
-      return NextResponse.json(response);
+      return applyRateLimitHeaders(NextResponse.json(response), rateLimit);
     }
 
-    const history = await listMessages(session.id, 12);
-    const draft = await generateCoachReply({
-      text,
-      history,
-      latestSnapshot,
-    });
-
-    const replyText = renderCoachReply(draft);
+    // Post-crisis turns always get resources again, even when this message reads as clear.
+    const supportive = safety.action === "support" || postCrisis.active;
+    // Checked after the crisis branch so a guest over budget can always reach crisis help.
+    const [budget, spend] = await Promise.all([
+      getGuestBudget(guestId),
+      getSpendBreakerStatus(),
+    ]);
 
-    const assistantMessage = await createMessage({
-      sessionId: session.id,
-      role: "assistant",
-      content: replyText,
-      mode: "coach",
-    });
+    if (payload.stream) {
+      return applyRateLimitHeaders(
+        streamTurn((emit) =>
+          generateCoachTurn({
+            guestId,
+            sessionId: session.id,
+            text,
+            supportive,
+            postCrisis: postCrisis.active,
+            budget,
+            degradation: spend.step,
+            crisisResources,
+            emit,
+          }),
+        ),
+        rateLimit,
+      );
+    }
 
-    await safeTrackEvent({
+    const response = await generateCoachTurn({
       guestId,
-      eventName: "chat_model_selected",
-      metadata: {
-        engine: "v1",
-        modelUsed: env.openAiModel,
-        responseKind: "coach",
-      },
+      sessionId: session.id,
+      text,
+      supportive,
+      postCrisis: postCrisis.active,
+      budget,
+      degradation: spend.step,
+      crisisResources,
     });
-
-    const response: ChatMessageResponse = {
-      reply: replyText,
-      mode: "coach",
-      messageId: assistantMessage.id,
-      safetyTriggered: false,
-      responseKind: "coach",
-      modelUsed: env.openAiModel,
-      clarifierPending: false,
-    };
-
-    return NextResponse.json(response);
+    return applyRateLimitHeaders(NextResponse.json(response), rateLimit);
   } catch (error) {
     return NextResponse.json(
       {
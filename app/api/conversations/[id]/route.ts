@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readOwnerId } from "@/lib/server/auth";
+import { normalizeConversationTitle, toConversation } from "@/lib/server/conversation";
+import { updateSession } from "@/lib/server/repository";
+import type { Conversation, ConversationUpdateRequest } from "@/types/domain";
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const guestId = readOwnerId(request);
+    const { id } = await context.params;
+    const payload = (await request.json()) as ConversationUpdateRequest;
+
+    const title =
+      payload.title === undefined ? undefined : normalizeConversationTitle(payload.title);
+
+    if (title === null) {
+      return NextResponse.json(
+        { error: "Conversation title cannot be empty." },
+        { status: 400 },
+      );
+    }
+
+    if (title === undefined && typeof payload.archived !== "boolean") {
+      return NextResponse.json(
+        { error: "Provide a title or archived flag to update." },
+        { status: 400 },
+      );
+    }
+
+    const session = await updateSession({
+      sessionId: id,
+      guestId,
+      title,
+      archived: payload.archived,
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+
+    const response: Conversation = toConversation(session);
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to update conversation.",
+      },
+      { status: 500 },
+    );
+  }
+}
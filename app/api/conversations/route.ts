@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readOwnerId } from "@/lib/server/auth";
+import { normalizeConversationTitle, toConversation } from "@/lib/server/conversation";
+import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import { createSession, listSessions } from "@/lib/server/repository";
+import type { Conversation, ConversationListResponse } from "@/types/domain";
+
+export async function GET(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    const includeArchived = request.nextUrl.searchParams.get("archived") === "1";
+    const sessions = await listSessions(guestId, { includeArchived });
+
+    const response: ConversationListResponse = {
+      conversations: sessions.map(toConversation),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load conversations.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    const rateLimit = await enforceRateLimit("conversation_create", {
+      guest: guestId,
+      ip: resolveClientIp(request),
+    });
+
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many new conversations. Please wait and try again.");
+    }
+
+    const payload = (await request.json().catch(() => ({}))) as { title?: unknown };
+    const title = normalizeConversationTitle(payload.title);
+
+    const session = await createSession(guestId, title ?? undefined);
+    const response: Conversation = toConversation(session);
+
+    return applyRateLimitHeaders(NextResponse.json(response, { status: 201 }), rateLimit);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to create conversation.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import {
+  crisisRegionCookieName,
+  getCrisisResources,
+  isSupportedCrisisRegion,
+  listCrisisRegions,
+  normalizeCountryCode,
+  resolveCrisisResources,
+  setCrisisRegionCookie,
+} from "@/lib/server/crisis-resources";
+import type {
+  CrisisRegionUpdateRequest,
+  CrisisResources,
+  CrisisResourcesResponse,
+} from "@/types/domain";
+
+function resourcesResponse(
+  resources: CrisisResources,
+  selectedCountry: string | null,
+): CrisisResourcesResponse {
+  return { resources, selectedCountry, regions: listCrisisRegions() };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const selected = normalizeCountryCode(request.cookies.get(crisisRegionCookieName)?.value);
+
+    return NextResponse.json(
+      resourcesResponse(
+        resolveCrisisResources(request.headers, request.cookies),
+        isSupportedCrisisRegion(selected) ? selected : null,
+      ),
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load crisis resources.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const payload = (await request.json()) as CrisisRegionUpdateRequest;
+    const country = payload?.country ? normalizeCountryCode(payload.country) : null;
+
+    if (payload?.country && !isSupportedCrisisRegion(country)) {
+      return NextResponse.json(
+        { error: "Choose one of the supported crisis resource regions." },
+        { status: 400 },
+      );
+    }
+
+    // Clearing the setting falls back to the geo header and browser language.
+    const resources = country
+      ? getCrisisResources(country, "setting")
+      : resolveCrisisResources(request.headers, { get: () => undefined });
+    const response = NextResponse.json(resourcesResponse(resources, country));
+    setCrisisRegionCookie(response, country);
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to save crisis resource region.",
+      },
+      { status: 500 },
+    );
+  }
+}
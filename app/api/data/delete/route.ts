@@ -1,23 +1,26 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { guestCookieName, readGuestId } from "@/lib/server/guest";
-import { deleteGuestData } from "@/lib/server/repository";
+import { accountOwnerId, clearAccountCookie, readAccountId } from "@/lib/server/auth";
+import { readGuestId, setGuestCookie } from "@/lib/server/guest";
+import { deleteAccount, deleteGuestData } from "@/lib/server/repository";
 
 export async function POST(request: NextRequest) {
   try {
-    const guestId = readGuestId(request);
-    await deleteGuestData(guestId);
+    const accountId = readAccountId(request);
+
+    if (accountId) {
+      await deleteGuestData(accountOwnerId(accountId));
+      await deleteAccount(accountId);
+    } else {
+      await deleteGuestData(readGuestId(request));
+    }
 
     const response = NextResponse.json({ ok: true });
-    response.cookies.set({
-      name: guestCookieName,
-      value: crypto.randomUUID(),
-      httpOnly: true,
-      sameSite: "lax",
-      secure: process.env.NODE_ENV === "production",
-      path: "/",
-      maxAge: 60 * 60 * 24 * 365,
-    });
+    setGuestCookie(response, crypto.randomUUID());
+
+    if (accountId) {
+      clearAccountCookie(response);
+    }
 
     return response;
   } catch (error) {
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readOwnerId } from "@/lib/server/auth";
+import { buildExportArchive, renderExportMarkdown } from "@/lib/server/data-export";
+
+export async function GET(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    const format = request.nextUrl.searchParams.get("format") === "markdown" ? "markdown" : "json";
+    const archive = await buildExportArchive(guestId);
+    const filename = `soulaware-export-${archive.exportedAt.slice(0, 10)}`;
+
+    if (format === "markdown") {
+      return new Response(renderExportMarkdown(archive), {
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.md"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return new Response(`${JSON.stringify(archive, null, 2)}\n`, {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to export data.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readAccountId } from "@/lib/server/auth";
+import { parseExportArchive } from "@/lib/server/data-export";
+import { guestCookieName, setGuestCookie } from "@/lib/server/guest";
+import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import { restoreGuestData } from "@/lib/server/repository";
+import type { DataImportResponse } from "@/types/domain";
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    if (readAccountId(request)) {
+      return NextResponse.json(
+        { error: "Sign out before importing an export into a new guest profile." },
+        { status: 400 },
+      );
+    }
+
+    const rateLimit = await enforceRateLimit("data_import", {
+      guest: request.cookies.get(guestCookieName)?.value,
+      ip: resolveClientIp(request),
+    });
+
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many imports. Please wait and try again.");
+    }
+
+    const raw = await request.text();
+
+    if (raw.length > MAX_IMPORT_BYTES) {
+      return applyRateLimitHeaders(
+        NextResponse.json({ error: "Export file is too large to import." }, { status: 413 }),
+        rateLimit,
+      );
+    }
+
+    let archive;
+
+    try {
+      archive = parseExportArchive(JSON.parse(raw));
+    } catch (parseError) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          {
+            error:
+              parseError instanceof SyntaxError
+                ? "Export file is not valid JSON."
+                : parseError instanceof Error
+                  ? parseError.message
+                  : "Invalid export archive.",
+          },
+          { status: 400 },
+        ),
+        rateLimit,
+      );
+    }
+
+    // Imports always land in a brand-new guest so they can never mix with existing data.
+    const guestId = crypto.randomUUID();
+    const restored = await restoreGuestData(guestId, archive);
+
+    const response = NextResponse.json<DataImportResponse>(restored);
+    setGuestCookie(response, guestId);
+    return applyRateLimitHeaders(response, rateLimit);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to import data.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,66 +1,11 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { getUtcDayStartIso, loadModelSpendSince } from "@/lib/server/budget";
+import { isCronAuthorized } from "@/lib/server/cron";
 import { env } from "@/lib/server/env";
+import { isModerationCircuitOpen } from "@/lib/server/moderation";
 import { getAnalyticsEventsSince } from "@/lib/server/repository";
 
-function isAuthorized(request: NextRequest): boolean {
-  const expected = env.cronSecret;
-
-  if (!expected) {
-    return false;
-  }
-
-  const cronHeader = request.headers.get("x-cron-secret");
-  const authHeader = request.headers.get("authorization");
-  const bearerToken = authHeader?.startsWith("Bearer ")
-    ? authHeader.slice("Bearer ".length)
-    : "";
-
-  return cronHeader === expected || bearerToken === expected;
-}
-
-function getDailyStartIso(): string {
-  const now = new Date();
-  const utcStart = new Date(
-    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
-  );
-
-  return utcStart.toISOString();
-}
-
-function estimateCostFromMetadata(metadata: Record<string, unknown>): number {
-  const explicit = metadata.estimatedCostUsd;
-
-  if (typeof explicit === "number" && Number.isFinite(explicit)) {
-    return explicit;
-  }
-
-  const model = typeof metadata.modelUsed === "string" ? metadata.modelUsed : "";
-  const tokensRaw = metadata.approximateTokens;
-  const tokens =
-    typeof tokensRaw === "number" && Number.isFinite(tokensRaw)
-      ? Math.max(0, tokensRaw)
-      : 0;
-
-  if (!model || tokens <= 0) {
-    return 0;
-  }
-
-  const promptTokens = tokens * 0.7;
-  const completionTokens = tokens * 0.3;
-
-  const pricing = model.includes("mini")
-    ? { promptPer1k: 0.0008, completionPer1k: 0.0032 }
-    : { promptPer1k: 0.005, completionPer1k: 0.015 };
-
-  return Number(
-    (
-      (promptTokens / 1000) * pricing.promptPer1k +
-      (completionTokens / 1000) * pricing.completionPer1k
-    ).toFixed(6),
-  );
-}
-
 async function sendWebhookAlert(payload: Record<string, unknown>): Promise<boolean> {
   if (!env.soulawareCostAlertWebhookUrl) {
     return false;
@@ -79,12 +24,48 @@ async function sendWebhookAlert(payload: Record<string, unknown>): Promise<boole
   }
 }
 
+/** Counts `moderation_failed` events in the recent window and pages on-call past the threshold. */
+async function evaluateModerationAlert() {
+  const windowMinutes = Math.max(1, env.soulawareModerationAlertWindowMinutes || 15);
+  const thresholdCount = Math.max(1, env.soulawareModerationAlertThreshold || 3);
+  const sinceIso = new Date(Date.now() - windowMinutes * 60_000).toISOString();
+  const failures = await getAnalyticsEventsSince(sinceIso, { eventName: "moderation_failed" });
+  const blockedTurns = failures.filter((event) => event.metadata.blocked === true).length;
+  const exceeded = failures.length >= thresholdCount;
+
+  const webhookNotified = exceeded
+    ? await sendWebhookAlert({
+        service: "soulaware",
+        alertType: "moderation_failures",
+        failures: failures.length,
+        blockedTurns,
+        thresholdCount,
+        windowMinutes,
+        circuitOpen: isModerationCircuitOpen(),
+        observedAt: new Date().toISOString(),
+        sinceIso,
+      })
+    : false;
+
+  return {
+    exceeded,
+    failures: failures.length,
+    blockedTurns,
+    thresholdCount,
+    windowMinutes,
+    sinceIso,
+    circuitOpen: isModerationCircuitOpen(),
+    webhookNotified,
+  };
+}
+
 export async function GET(request: NextRequest) {
   try {
-    if (!isAuthorized(request)) {
+    if (!isCronAuthorized(request)) {
       return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
     }
 
+    const moderation = await evaluateModerationAlert();
     const threshold = Number.isFinite(env.soulawareCostAlertDailyUsd)
       ? Math.max(0, env.soulawareCostAlertDailyUsd)
       : 0;
@@ -94,19 +75,14 @@ export async function GET(request: NextRequest) {
         ok: true,
         enabled: false,
         reason: "SOULAWARE_COST_ALERT_DAILY_USD is not configured.",
+        moderation,
       });
     }
 
-    const sinceIso = getDailyStartIso();
-    const events = await getAnalyticsEventsSince(sinceIso);
-
-    const chatEvents = events.filter((event) => event.eventName === "chat_model_selected");
-
-    const estimatedCostUsd = Number(
-      chatEvents
-        .reduce((sum, event) => sum + estimateCostFromMetadata(event.metadata), 0)
-        .toFixed(6),
-    );
+    // Reads the same server-recorded usage as the spend breaker, snapshots included.
+    const sinceIso = getUtcDayStartIso();
+    const spend = await loadModelSpendSince(sinceIso);
+    const estimatedCostUsd = Number(spend.spentUsd.toFixed(6));
 
     const exceeded = estimatedCostUsd >= threshold;
     let webhookNotified = false;
@@ -119,7 +95,7 @@ export async function GET(request: NextRequest) {
         thresholdUsd: threshold,
         observedAt: new Date().toISOString(),
         sinceIso,
-        eventsEvaluated: chatEvents.length,
+        eventsEvaluated: spend.events,
       });
     }
 
@@ -130,8 +106,9 @@ export async function GET(request: NextRequest) {
       estimatedCostUsd,
       thresholdUsd: threshold,
       sinceIso,
-      eventsEvaluated: chatEvents.length,
+      eventsEvaluated: spend.events,
       webhookNotified,
+      moderation,
     });
   } catch (error) {
     return NextResponse.json(
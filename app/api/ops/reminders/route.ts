@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { isCronAuthorized } from "@/lib/server/cron";
+import { dispatchDueReminders } from "@/lib/server/reminders";
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    const summary = await dispatchDueReminders();
+
+    return NextResponse.json({
+      ok: true,
+      observedAt: new Date().toISOString(),
+      ...summary,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to dispatch reminders.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { isCronAuthorized } from "@/lib/server/cron";
+import { isModerationCircuitOpen } from "@/lib/server/moderation";
+import { getSpendBreakerStatus } from "@/lib/server/spend-breaker";
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      spend: await getSpendBreakerStatus(),
+      moderation: { circuitOpen: isModerationCircuitOpen() },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load ops status.",
+      },
+      { status: 500 },
+    );
+  }
+}
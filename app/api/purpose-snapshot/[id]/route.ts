@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { readGuestId } from "@/lib/server/guest";
+import { readOwnerId } from "@/lib/server/auth";
 import { getSnapshotForGuest } from "@/lib/server/repository";
 import type { PurposeSnapshotResponse } from "@/types/domain";
 
@@ -9,7 +9,7 @@ export async function GET(
   context: { params: Promise<{ id: string }> },
 ) {
   try {
-    const guestId = readGuestId(request);
+    const guestId = readOwnerId(request);
     const { id } = await context.params;
 
     const snapshot = await getSnapshotForGuest({ snapshotId: id, guestId });
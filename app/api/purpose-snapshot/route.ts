@@ -1,41 +1,123 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { generatePurposeSnapshot } from "@/lib/server/ai";
-import { readGuestId } from "@/lib/server/guest";
+import { readOwnerId } from "@/lib/server/auth";
+import { getGuestBudget } from "@/lib/server/budget";
 import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import {
+  createActionItems,
   createMessage,
   createPurposeSnapshot,
   getLatestSnapshotForSession,
-  getOrCreateSession,
   listMessages,
+  listSnapshotsForSession,
+  resolveSessionForGuest,
   trackEvent,
 } from "@/lib/server/repository";
-import type { PurposeSnapshotRequest, PurposeSnapshotResponse } from "@/types/domain";
+import { buildSnapshotHistory } from "@/lib/server/snapshot-diff";
+import {
+  getSpendBreakerStatus,
+  isSpendStepAtLeast,
+  recordModelUsage,
+} from "@/lib/server/spend-breaker";
+import type {
+  PurposeSnapshotHistoryResponse,
+  PurposeSnapshotRequest,
+  PurposeSnapshotResponse,
+} from "@/types/domain";
+
+const ACTION_ITEM_DUE_DAYS = 7;
+
+export async function GET(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    const session = await resolveSessionForGuest({
+      guestId,
+      sessionId: request.nextUrl.searchParams.get("conversationId"),
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+
+    const response: PurposeSnapshotHistoryResponse = {
+      sessionId: session.id,
+      snapshots: buildSnapshotHistory(await listSnapshotsForSession(session.id)),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load snapshot history.",
+      },
+      { status: 500 },
+    );
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const guestId = readGuestId(request);
+    const guestId = readOwnerId(request);
     const payload = (await request.json()) as PurposeSnapshotRequest;
+    const rateLimit = await enforceRateLimit("purpose_snapshot", {
+      guest: guestId,
+      ip: resolveClientIp(request),
+    });
+
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many snapshot requests. Please wait and try again.");
+    }
 
     const contextWindow =
       typeof payload.contextWindow === "number" && payload.contextWindow > 0
         ? Math.min(payload.contextWindow, 24)
         : 12;
 
-    const session = await getOrCreateSession(guestId);
+    const session = await resolveSessionForGuest({
+      guestId,
+      sessionId: payload.conversationId,
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+
     const history = await listMessages(session.id, contextWindow);
     const latestSnapshot = await getLatestSnapshotForSession(session.id);
+    // Snapshots draw on the same guest budget and spend breaker as chat turns.
+    const budget = await getGuestBudget(guestId);
+    const { step } = await getSpendBreakerStatus();
 
     const generated = await generatePurposeSnapshot({
       history,
       latestSnapshot,
+      role:
+        budget.status === "downgrade" || isSpendStepAtLeast(step, "fast_model")
+          ? "fast"
+          : "primary",
+      forceFallback: budget.status === "exhausted" || isSpendStepAtLeast(step, "fallback_only"),
     });
 
+    await recordModelUsage(guestId, "purpose_snapshot", generated);
+
     const snapshot = await createPurposeSnapshot({
       sessionId: session.id,
-      mission: generated.mission,
-      values: generated.values,
-      nextActions: generated.nextActions,
+      mission: generated.snapshot.mission,
+      values: generated.snapshot.values,
+      nextActions: generated.snapshot.nextActions,
+    });
+
+    await createActionItems({
+      sessionId: session.id,
+      snapshotId: snapshot.id,
+      titles: snapshot.nextActions,
+      dueAt: new Date(Date.now() + ACTION_ITEM_DUE_DAYS * 24 * 60 * 60 * 1000).toISOString(),
     });
 
     await createMessage({
@@ -58,7 +140,7 @@ export async function POST(request: NextRequest) {
       nextActions: snapshot.nextActions,
     };
 
-    return NextResponse.json(response);
+    return applyRateLimitHeaders(NextResponse.json(response), rateLimit);
   } catch (error) {
     return NextResponse.json(
       {
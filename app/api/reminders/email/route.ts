@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readReminderLinkToken, verifyReminderLinkToken } from "@/lib/server/auth";
+import {
+  confirmReminderSubscription,
+  deleteReminderSubscription,
+  getReminderSubscriptionById,
+} from "@/lib/server/repository";
+
+// Mail clients' one-click unsubscribe posts to the header URL, so the token can arrive there.
+async function readToken(request: NextRequest): Promise<string | null> {
+  const fromUrl = request.nextUrl.searchParams.get("token");
+
+  if (fromUrl) {
+    return fromUrl;
+  }
+
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const payload = (await request.json()) as { token?: unknown } | null;
+    return typeof payload?.token === "string" ? payload.token : null;
+  }
+
+  const token = (await request.formData()).get("token");
+  return typeof token === "string" ? token : null;
+}
+
+/** Opening a link from the email only shows the page that asks before acting. */
+export function GET(request: NextRequest) {
+  const page = new URL("/reminders/email", request.url);
+  const token = request.nextUrl.searchParams.get("token");
+
+  if (token) {
+    page.searchParams.set("token", token);
+  }
+
+  return NextResponse.redirect(page);
+}
+
+export async function POST(request: NextRequest) {
+  // 303 so the browser follows the form post with a plain GET of the settings page.
+  const redirectTo = (status: string) =>
+    NextResponse.redirect(new URL(`/settings?reminders=${status}`, request.url), 303);
+
+  try {
+    const token = await readToken(request);
+    const link = token ? readReminderLinkToken(token) : null;
+    const reminder = link ? await getReminderSubscriptionById(link.reminderId) : null;
+
+    if (!token || !link || !reminder || !verifyReminderLinkToken(token, reminder.destination)) {
+      return redirectTo("invalid");
+    }
+
+    if (link.action === "stop") {
+      await deleteReminderSubscription(reminder.guestId);
+      return redirectTo("stopped");
+    }
+
+    await confirmReminderSubscription(reminder.id);
+    return redirectTo("confirmed");
+  } catch {
+    return redirectTo("error");
+  }
+}
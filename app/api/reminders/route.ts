@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readAccountId, readOwnerId } from "@/lib/server/auth";
+import { env } from "@/lib/server/env";
+import { normalizeEmail } from "@/lib/server/mailer";
+import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import {
+  nextReminderRun,
+  sendReminderConfirmation,
+  toReminderSettings,
+} from "@/lib/server/reminders";
+import {
+  deleteReminderSubscription,
+  getAccount,
+  getReminderSubscription,
+  resolveSessionForGuest,
+  upsertReminderSubscription,
+} from "@/lib/server/repository";
+import type {
+  ReminderCadence,
+  ReminderChannel,
+  ReminderSettingsResponse,
+  ReminderSubscription,
+  ReminderUpdateRequest,
+  WebPushSubscriptionPayload,
+} from "@/types/domain";
+
+const CADENCES: ReminderCadence[] = ["daily", "weekly"];
+const CHANNELS: ReminderChannel[] = ["email", "push"];
+
+/**
+ * The cron job POSTs to whatever endpoint is saved, so only the browsers' push services are
+ * accepted: FCM (Chrome, Edge, Opera), Mozilla autopush, Apple and WNS.
+ */
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "updates.push.services.mozilla.com",
+  "web.push.apple.com",
+];
+const PUSH_SERVICE_HOST_SUFFIXES = [".notify.windows.com"];
+
+function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  return (
+    url.protocol === "https:" &&
+    !url.port &&
+    !url.username &&
+    !url.password &&
+    (PUSH_SERVICE_HOSTS.includes(url.hostname) ||
+      PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => url.hostname.endsWith(suffix)))
+  );
+}
+
+function isPushSubscription(value: unknown): value is WebPushSubscriptionPayload {
+  const candidate = value as WebPushSubscriptionPayload | undefined;
+
+  return (
+    typeof candidate?.endpoint === "string" &&
+    isPushServiceEndpoint(candidate.endpoint) &&
+    typeof candidate.keys?.p256dh === "string" &&
+    typeof candidate.keys?.auth === "string"
+  );
+}
+
+function settingsResponse(reminder: ReminderSubscription | null): ReminderSettingsResponse {
+  return {
+    reminder: reminder ? toReminderSettings(reminder) : null,
+    pushPublicKey: env.vapidPublicKey ?? null,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    return NextResponse.json(settingsResponse(await getReminderSubscription(guestId)));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load reminder settings.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    const payload = (await request.json()) as ReminderUpdateRequest;
+
+    if (!payload.cadence || !CADENCES.includes(payload.cadence)) {
+      return NextResponse.json({ error: "Cadence must be daily or weekly." }, { status: 400 });
+    }
+
+    if (!payload.channel || !CHANNELS.includes(payload.channel)) {
+      return NextResponse.json({ error: "Channel must be email or push." }, { status: 400 });
+    }
+
+    const existing = await getReminderSubscription(guestId);
+    let destination: string | null = null;
+    let confirmedAt: string | null = new Date().toISOString();
+
+    if (payload.channel === "email") {
+      const accountId = readAccountId(request);
+      const account = accountId ? await getAccount(accountId) : null;
+      destination = normalizeEmail(payload.email ?? account?.email);
+
+      if (!destination) {
+        return NextResponse.json({ error: "Enter a valid email address." }, { status: 400 });
+      }
+
+      // Signing in already proved the account's own address; any other one confirms first.
+      if (destination !== account?.email) {
+        confirmedAt =
+          existing?.channel === "email" && existing.destination === destination
+            ? existing.confirmedAt
+            : null;
+      }
+    } else {
+      if (!env.vapidPublicKey) {
+        return NextResponse.json(
+          { error: "Push reminders are not available on this server." },
+          { status: 400 },
+        );
+      }
+
+      if (!isPushSubscription(payload.pushSubscription)) {
+        return NextResponse.json(
+          { error: "A browser push subscription from a known push service is required." },
+          { status: 400 },
+        );
+      }
+
+      destination = JSON.stringify({
+        endpoint: payload.pushSubscription.endpoint,
+        keys: payload.pushSubscription.keys,
+      });
+    }
+
+    const rateLimit = await enforceRateLimit("reminder_update", {
+      guest: guestId,
+      ip: resolveClientIp(request),
+      // Only saves that send a confirmation email count against the address.
+      email: confirmedAt ? null : destination,
+    });
+
+    if (!rateLimit.success) {
+      return rateLimitExceeded(rateLimit, "Too many reminder changes. Please wait and try again.");
+    }
+
+    let sessionId: string | null = null;
+
+    if (payload.conversationId) {
+      const session = await resolveSessionForGuest({
+        guestId,
+        sessionId: payload.conversationId,
+      });
+
+      if (!session) {
+        return applyRateLimitHeaders(
+          NextResponse.json({ error: "Conversation not found." }, { status: 404 }),
+          rateLimit,
+        );
+      }
+
+      sessionId = session.id;
+    }
+
+    const reminder = await upsertReminderSubscription({
+      guestId,
+      sessionId,
+      cadence: payload.cadence,
+      channel: payload.channel,
+      destination,
+      nextRunAt: nextReminderRun(payload.cadence),
+      confirmedAt,
+    });
+
+    if (!reminder.confirmedAt) {
+      await sendReminderConfirmation(reminder);
+    }
+
+    return applyRateLimitHeaders(NextResponse.json(settingsResponse(reminder)), rateLimit);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to save reminder settings.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const guestId = readOwnerId(request);
+    await deleteReminderSubscription(guestId);
+    return NextResponse.json(settingsResponse(null));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to stop reminders.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,12 +1,27 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { readGuestId } from "@/lib/server/guest";
-import { clearSessionData } from "@/lib/server/repository";
+import { readOwnerId } from "@/lib/server/auth";
+import { clearSessionData, getSessionForGuest } from "@/lib/server/repository";
 
 export async function POST(request: NextRequest) {
   try {
-    const guestId = readGuestId(request);
-    await clearSessionData(guestId);
+    const guestId = readOwnerId(request);
+    const payload = (await request.json().catch(() => ({}))) as {
+      conversationId?: string;
+    };
+
+    if (payload.conversationId) {
+      const session = await getSessionForGuest({
+        sessionId: payload.conversationId,
+        guestId,
+      });
+
+      if (!session) {
+        return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+      }
+    }
+
+    await clearSessionData(guestId, payload.conversationId);
 
     return NextResponse.json({ ok: true });
   } catch (error) {
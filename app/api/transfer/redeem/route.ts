@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readAccountId } from "@/lib/server/auth";
+import { readGuestId, setGuestCookie } from "@/lib/server/guest";
+import {
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  rateLimitExceeded,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import {
+  claimGuestData,
+  recordTransferAudit,
+  redeemTransferCode,
+} from "@/lib/server/repository";
+import { hashTransferCode, normalizeTransferCode } from "@/lib/server/transfer";
+import type { TransferRedeemRequest } from "@/types/domain";
+
+export async function POST(request: NextRequest) {
+  try {
+    if (readAccountId(request)) {
+      return NextResponse.json(
+        { error: "Sign out before redeeming a transfer code." },
+        { status: 400 },
+      );
+    }
+
+    const guestId = readGuestId(request);
+    const ip = resolveClientIp(request);
+    const payload = (await request.json()) as Partial<TransferRedeemRequest>;
+
+    const rateLimit = await enforceRateLimit("transfer_redeem", { guest: guestId, ip });
+
+    if (!rateLimit.success) {
+      await recordTransferAudit({
+        event: "rejected",
+        guestId,
+        ip,
+        metadata: { reason: "rate_limited" },
+      });
+
+      return rateLimitExceeded(rateLimit, "Too many transfer attempts. Please wait and try again.");
+    }
+
+    const code = normalizeTransferCode(payload.code);
+    const sourceGuestId = code
+      ? await redeemTransferCode({ codeHash: hashTransferCode(code), redeemedBy: guestId })
+      : null;
+
+    if (!sourceGuestId) {
+      await recordTransferAudit({
+        event: "rejected",
+        guestId,
+        ip,
+        metadata: { reason: code ? "invalid_or_expired" : "malformed" },
+      });
+
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "That transfer code is invalid or has expired." },
+          { status: 400 },
+        ),
+        rateLimit,
+      );
+    }
+
+    // Anything this browser started on its own joins the transferred profile.
+    const mergedSessions =
+      sourceGuestId === guestId
+        ? 0
+        : await claimGuestData({ guestId, ownerId: sourceGuestId });
+
+    await recordTransferAudit({
+      event: "redeemed",
+      guestId: sourceGuestId,
+      ip,
+      metadata: { redeemedBy: guestId, mergedSessions },
+    });
+
+    const response = applyRateLimitHeaders(NextResponse.json({ ok: true }), rateLimit);
+    setGuestCookie(response, sourceGuestId);
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to redeem transfer code.",
+      },
+      { status: 500 },
+    );
+  }
+}
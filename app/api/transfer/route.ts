@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { readAccountId } from "@/lib/server/auth";
+import { readGuestId } from "@/lib/server/guest";
+import { resolveClientIp } from "@/lib/server/rate-limit";
+import {
+  createTransferCode,
+  listTransferAuditEvents,
+  recordTransferAudit,
+} from "@/lib/server/repository";
+import { TRANSFER_CODE_TTL_MINUTES, generateTransferCode } from "@/lib/server/transfer";
+import type { TransferAuditResponse, TransferCodeResponse } from "@/types/domain";
+
+export async function GET(request: NextRequest) {
+  try {
+    const guestId = readGuestId(request);
+    const response: TransferAuditResponse = {
+      events: await listTransferAuditEvents(guestId),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to load transfer activity.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (readAccountId(request)) {
+      return NextResponse.json(
+        { error: "Signed-in accounts move between devices by signing in there instead." },
+        { status: 400 },
+      );
+    }
+
+    const guestId = readGuestId(request);
+    const { code, codeHash } = generateTransferCode();
+    const expiresAt = new Date(
+      Date.now() + TRANSFER_CODE_TTL_MINUTES * 60 * 1000,
+    ).toISOString();
+
+    await createTransferCode({ codeHash, guestId, expiresAt });
+    await recordTransferAudit({
+      event: "issued",
+      guestId,
+      ip: resolveClientIp(request),
+      metadata: { expiresAt },
+    });
+
+    const response: TransferCodeResponse = { code, expiresAt };
+    return NextResponse.json(response);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unable to create transfer code.",
+      },
+      { status: 500 },
+    );
+  }
+}
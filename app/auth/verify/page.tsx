@@ -0,0 +1,47 @@
+import Link from "next/link";
+
+// Opening the emailed link only shows this page; signing in takes the POST below, so mail
+// scanners and link prefetchers cannot use the token up before the person clicks.
+export default async function VerifySignInPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-stone-100 px-4 py-8 md:px-10">
+      <div className="mx-auto w-full max-w-xl space-y-6 rounded-3xl border border-stone-200 bg-white p-6 shadow-sm md:p-10">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold text-stone-900">Sign in to SoulAware</h1>
+          <p className="text-sm leading-7 text-stone-700">
+            Confirm to finish signing in. Guest conversations move into your account only
+            when you confirm in the same browser that asked for this link.
+          </p>
+        </header>
+
+        {token ? (
+          <form method="post" action="/api/auth/verify">
+            <input type="hidden" name="token" value={token} />
+            <button
+              type="submit"
+              className="rounded-full bg-stone-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-stone-800"
+            >
+              Confirm sign-in
+            </button>
+          </form>
+        ) : (
+          <p className="text-sm text-stone-700">
+            This sign-in link is incomplete. Request a new one from settings.
+          </p>
+        )}
+
+        <footer>
+          <Link href="/settings" className="font-semibold text-stone-900 hover:underline">
+            Back to settings
+          </Link>
+        </footer>
+      </div>
+    </main>
+  );
+}
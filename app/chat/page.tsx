@@ -1,8 +1,12 @@
 import Link from "next/link";
+import { cookies, headers } from "next/headers";
 import { ChatClient } from "@/components/chat-client";
 import { BrandWordmark } from "@/components/brand-wordmark";
+import { resolveCrisisResources } from "@/lib/server/crisis-resources";
+
+export default async function ChatPage() {
+  const crisisResources = resolveCrisisResources(await headers(), await cookies());
 
-export default function ChatPage() {
   return (
     <main className="sa-chat-shell min-h-screen px-4 pb-10 pt-5 md:px-8 md:pb-12 md:pt-8">
       <div className="mx-auto w-full max-w-6xl space-y-4">
@@ -22,7 +26,7 @@ export default function ChatPage() {
           </div>
         </header>
 
-        <ChatClient />
+        <ChatClient crisisResources={crisisResources} />
       </div>
     </main>
   );
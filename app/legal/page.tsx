@@ -1,7 +1,12 @@
 import Link from "next/link";
+import { cookies, headers } from "next/headers";
+import { CrisisHotlineContact, DirectoryLink } from "@/components/crisis-resources-notice";
 import { DeleteDataButton } from "@/components/delete-data-button";
+import { resolveCrisisResources } from "@/lib/server/crisis-resources";
+
+export default async function LegalPage() {
+  const resources = resolveCrisisResources(await headers(), await cookies());
 
-export default function LegalPage() {
   return (
     <main className="min-h-screen bg-stone-100 px-4 py-8 md:px-10">
       <div className="mx-auto w-full max-w-3xl space-y-8 rounded-3xl border border-stone-200 bg-white p-6 shadow-sm md:p-10">
@@ -23,16 +28,38 @@ export default function LegalPage() {
         </section>
 
         <section className="space-y-3 rounded-2xl border border-rose-300 bg-rose-50 p-5">
-          <h2 className="text-lg font-semibold text-rose-900">US crisis resources</h2>
+          <h2 className="text-lg font-semibold text-rose-900">
+            {resources.countryName ? `Crisis resources (${resources.countryName})` : "Crisis resources"}
+          </h2>
           <ul className="space-y-2 text-sm leading-7 text-rose-900">
             <li>
-              If you are in immediate danger, call <strong>911</strong> now.
+              {resources.emergencyNumber ? (
+                <>
+                  If you are in immediate danger, call <strong>{resources.emergencyNumber}</strong>{" "}
+                  now.
+                </>
+              ) : (
+                "If you are in immediate danger, call your local emergency number now."
+              )}
             </li>
+            {resources.hotlines.map((hotline) => (
+              <li key={hotline.name}>
+                {hotline.name} ({hotline.hours}): <CrisisHotlineContact hotline={hotline} />.
+              </li>
+            ))}
             <li>
-              Suicide & Crisis Lifeline (US): call or text <strong>988</strong>.
+              {resources.hotlines.length > 0 ? "Elsewhere" : "Anywhere"}, find a free,
+              confidential helpline at <DirectoryLink resources={resources} />.
             </li>
             <li>Tell a trusted person and avoid being alone if you feel at risk.</li>
           </ul>
+          <p className="text-xs text-rose-800">
+            Wrong country?{" "}
+            <Link href="/settings" className="font-semibold underline">
+              Choose your region in settings
+            </Link>
+            .
+          </p>
         </section>
 
         <section className="space-y-3">
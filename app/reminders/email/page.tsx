@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { readReminderLinkToken } from "@/lib/server/auth";
+
+// Like sign-in links, reminder links only act on the POST below so mail scanners that open
+// every link cannot confirm or stop reminders on their own.
+export default async function ReminderEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const link = token ? readReminderLinkToken(token) : null;
+
+  return (
+    <main className="min-h-screen bg-stone-100 px-4 py-8 md:px-10">
+      <div className="mx-auto w-full max-w-xl space-y-6 rounded-3xl border border-stone-200 bg-white p-6 shadow-sm md:p-10">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold text-stone-900">
+            {link?.action === "stop" ? "Stop check-in emails" : "Confirm check-in emails"}
+          </h1>
+          <p className="text-sm leading-7 text-stone-700">
+            {link?.action === "stop"
+              ? "SoulAware will stop sending check-ins to this address."
+              : "Check-ins list your open action items, so SoulAware only sends them once you confirm this address."}
+          </p>
+        </header>
+
+        {token && link ? (
+          <form method="post" action="/api/reminders/email">
+            <input type="hidden" name="token" value={token} />
+            <button
+              type="submit"
+              className="rounded-full bg-stone-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-stone-800"
+            >
+              {link.action === "stop" ? "Stop emails" : "Confirm emails"}
+            </button>
+          </form>
+        ) : (
+          <p className="text-sm text-stone-700">
+            This link is incomplete. Manage check-ins from settings instead.
+          </p>
+        )}
+
+        <footer>
+          <Link href="/settings" className="font-semibold text-stone-900 hover:underline">
+            Back to settings
+          </Link>
+        </footer>
+      </div>
+    </main>
+  );
+}
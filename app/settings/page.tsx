@@ -1,22 +1,80 @@
 import Link from "next/link";
+import { AccountPanel } from "@/components/account-panel";
+import { CrisisRegionSettings } from "@/components/crisis-region-settings";
+import { DataPortability } from "@/components/data-portability";
+import { ReminderSettings } from "@/components/reminder-settings";
 import { SettingsActions } from "@/components/settings-actions";
+import { TransferPanel } from "@/components/transfer-panel";
+
+export default async function SettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ account?: string; reminders?: string; transfer?: string }>;
+}) {
+  const { account, reminders, transfer } = await searchParams;
 
-export default function SettingsPage() {
   return (
     <main className="min-h-screen bg-stone-100 px-4 py-8 md:px-10">
       <div className="mx-auto w-full max-w-3xl space-y-8 rounded-3xl border border-stone-200 bg-white p-6 shadow-sm md:p-10">
         <header className="space-y-2">
-          <h1 className="text-3xl font-semibold text-stone-900">Guest Settings</h1>
+          <h1 className="text-3xl font-semibold text-stone-900">Settings</h1>
           <p className="text-sm text-stone-700">
-            Manage your current SoulAware guest session and data controls.
+            Manage your SoulAware account, current session, and data controls.
           </p>
         </header>
 
+        <section className="space-y-4 rounded-2xl border border-stone-200 bg-stone-50 p-5">
+          <h2 className="text-lg font-semibold text-stone-900">Account</h2>
+          <p className="text-sm leading-7 text-stone-700">
+            Sign in with your email to keep your conversations across devices. Anything
+            you started as a guest in this browser moves into your account.
+          </p>
+          <AccountPanel linkStatus={account} />
+        </section>
+
+        <section className="space-y-4 rounded-2xl border border-stone-200 bg-stone-50 p-5">
+          <h2 className="text-lg font-semibold text-stone-900">Check-in reminders</h2>
+          <p className="text-sm leading-7 text-stone-700">
+            Get a daily or weekly nudge about your open action items and the threads you
+            left open in your current conversation. Stop them here any time.
+          </p>
+          <ReminderSettings linkStatus={reminders} />
+        </section>
+
+        <section className="space-y-4 rounded-2xl border border-stone-200 bg-stone-50 p-5">
+          <h2 className="text-lg font-semibold text-stone-900">Crisis resources region</h2>
+          <p className="text-sm leading-7 text-stone-700">
+            SoulAware shows local hotline and emergency numbers when a conversation turns
+            heavy. Pick your country if the detected one is wrong.
+          </p>
+          <CrisisRegionSettings />
+        </section>
+
+        <section className="space-y-4 rounded-2xl border border-stone-200 bg-stone-50 p-5">
+          <h2 className="text-lg font-semibold text-stone-900">Move to another device</h2>
+          <p className="text-sm leading-7 text-stone-700">
+            No account needed: create a one-time code here, then enter it on your other
+            browser within 10 minutes to continue the same guest profile there.
+          </p>
+          <TransferPanel initialCode={transfer} />
+        </section>
+
+        <section className="space-y-4 rounded-2xl border border-stone-200 bg-stone-50 p-5">
+          <h2 className="text-lg font-semibold text-stone-900">Export and import</h2>
+          <p className="text-sm leading-7 text-stone-700">
+            Download every conversation, snapshot, coaching memory, safety event, and
+            analytics event we store for you. A JSON archive can be imported later into a
+            fresh guest profile.
+          </p>
+          <DataPortability />
+        </section>
+
         <section className="space-y-4 rounded-2xl border border-stone-200 bg-stone-50 p-5">
           <h2 className="text-lg font-semibold text-stone-900">Data controls</h2>
           <p className="text-sm leading-7 text-stone-700">
-            Clear local session starts fresh while keeping your guest profile. Delete all
-            data removes chat messages, snapshots, and safety events tied to this guest.
+            Clear local session starts fresh while keeping your profile. Delete all data
+            removes chat messages, snapshots, and safety events tied to this guest
+            profile or signed-in account, and deletes the account itself.
           </p>
           <SettingsActions />
         </section>
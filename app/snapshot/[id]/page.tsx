@@ -1,8 +1,9 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { cookies } from "next/headers";
-import { guestCookieName } from "@/lib/server/guest";
-import { getSnapshotForGuest } from "@/lib/server/repository";
+import { ActionItemList } from "@/components/action-item-list";
+import { ownerIdFromCookies } from "@/lib/server/auth";
+import { getSnapshotForGuest, listActionItems } from "@/lib/server/repository";
 
 export default async function SnapshotPage({
   params,
@@ -11,7 +12,7 @@ export default async function SnapshotPage({
 }) {
   const { id } = await params;
   const cookieStore = await cookies();
-  const guestId = cookieStore.get(guestCookieName)?.value;
+  const guestId = ownerIdFromCookies(cookieStore);
 
   if (!guestId) {
     notFound();
@@ -26,6 +27,8 @@ export default async function SnapshotPage({
     notFound();
   }
 
+  const actionItems = await listActionItems(snapshot.sessionId, { snapshotId: snapshot.id });
+
   return (
     <main className="min-h-screen bg-[radial-gradient(circle_at_top,#fff3cf,#f4efe8,#ece6dc)] px-4 py-8 md:px-10">
       <div className="mx-auto w-full max-w-3xl space-y-6 rounded-3xl border border-stone-200 bg-white/90 p-6 shadow-sm md:p-10">
@@ -57,14 +60,18 @@ export default async function SnapshotPage({
 
         <section className="space-y-3 rounded-2xl border border-stone-200 bg-white p-5">
           <h2 className="text-lg font-semibold text-stone-900">Next 3 actions</h2>
-          <ol className="space-y-2 text-sm leading-7 text-stone-700">
-            {snapshot.nextActions.map((action) => (
-              <li key={action} className="flex items-start gap-3">
-                <span className="mt-1 h-4 w-4 rounded border border-stone-400" />
-                <span>{action}</span>
-              </li>
-            ))}
-          </ol>
+          {actionItems.length > 0 ? (
+            <ActionItemList initialItems={actionItems} />
+          ) : (
+            <ol className="space-y-2 text-sm leading-7 text-stone-700">
+              {snapshot.nextActions.map((action) => (
+                <li key={action} className="flex items-start gap-3">
+                  <span className="mt-1 h-4 w-4 rounded border border-stone-400" />
+                  <span>{action}</span>
+                </li>
+              ))}
+            </ol>
+          )}
         </section>
 
         <footer className="flex flex-wrap gap-3">
@@ -74,6 +81,12 @@ export default async function SnapshotPage({
           >
             Back to chat
           </Link>
+          <Link
+            href={`/snapshots?conversationId=${snapshot.sessionId}`}
+            className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800"
+          >
+            How this evolved
+          </Link>
           <Link
             href="/settings"
             className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800"
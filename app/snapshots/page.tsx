@@ -0,0 +1,174 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cookies } from "next/headers";
+import { ownerIdFromCookies } from "@/lib/server/auth";
+import { listSnapshotsForSession, resolveSessionForGuest } from "@/lib/server/repository";
+import { buildSnapshotHistory } from "@/lib/server/snapshot-diff";
+import type { PurposeSnapshotDiff } from "@/types/domain";
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function ChipList({ items, tone }: { items: string[]; tone: "added" | "removed" | "kept" }) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const styles = {
+    added: "border-emerald-300 bg-emerald-50 text-emerald-900",
+    removed: "border-rose-300 bg-rose-50 text-rose-900 line-through",
+    kept: "border-stone-300 bg-stone-50 text-stone-700",
+  }[tone];
+
+  return (
+    <ul className="flex flex-wrap gap-2">
+      {items.map((item) => (
+        <li key={`${tone}-${item}`} className={`rounded-full border px-3 py-1 text-xs font-medium ${styles}`}>
+          {tone === "added" ? "+ " : tone === "removed" ? "− " : ""}
+          {item}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SnapshotDiffView({ diff }: { diff: PurposeSnapshotDiff }) {
+  return (
+    <div className="space-y-4 rounded-2xl border border-amber-200 bg-amber-50/60 p-4 text-sm">
+      <div className="space-y-1">
+        <h4 className="text-xs font-semibold uppercase tracking-[0.1em] text-amber-800">
+          Mission wording
+        </h4>
+        {diff.missionChanged ? (
+          <p className="leading-7 text-stone-700">
+            {diff.mission.map((segment, index) => (
+              <span
+                key={index}
+                className={
+                  segment.kind === "added"
+                    ? "rounded bg-emerald-100 px-0.5 text-emerald-900"
+                    : segment.kind === "removed"
+                      ? "rounded bg-rose-100 px-0.5 text-rose-900 line-through"
+                      : undefined
+                }
+              >
+                {segment.text}{" "}
+              </span>
+            ))}
+          </p>
+        ) : (
+          <p className="text-stone-600">Unchanged.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-[0.1em] text-amber-800">Values</h4>
+        <ChipList items={diff.valuesAdded} tone="added" />
+        <ChipList items={diff.valuesDropped} tone="removed" />
+        <ChipList items={diff.valuesKept} tone="kept" />
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-[0.1em] text-amber-800">Actions</h4>
+        <ul className="space-y-1 text-stone-700">
+          {diff.actionsCarriedOver.map((action) => (
+            <li key={`carried-${action}`}>↻ Carried over: {action}</li>
+          ))}
+          {diff.actionsAdded.map((action) => (
+            <li key={`added-${action}`} className="text-emerald-800">
+              + New: {action}
+            </li>
+          ))}
+          {diff.actionsDropped.map((action) => (
+            <li key={`dropped-${action}`} className="text-rose-800 line-through">
+              {action}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default async function SnapshotHistoryPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ conversationId?: string }>;
+}) {
+  const { conversationId } = await searchParams;
+  const guestId = ownerIdFromCookies(await cookies());
+
+  if (!guestId) {
+    notFound();
+  }
+
+  const session = await resolveSessionForGuest({ guestId, sessionId: conversationId });
+
+  if (!session) {
+    notFound();
+  }
+
+  const history = buildSnapshotHistory(await listSnapshotsForSession(session.id)).reverse();
+
+  return (
+    <main className="min-h-screen bg-[radial-gradient(circle_at_top,#fff3cf,#f4efe8,#ece6dc)] px-4 py-8 md:px-10">
+      <div className="mx-auto w-full max-w-3xl space-y-6 rounded-3xl border border-stone-200 bg-white/90 p-6 shadow-sm md:p-10">
+        <header className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.2em] text-amber-700">
+            Purpose Snapshot history
+          </p>
+          <h1 className="text-3xl font-semibold text-stone-900">{session.title}</h1>
+          <p className="text-sm text-stone-600">
+            Newest first. Each snapshot shows what changed since the one before it.
+          </p>
+        </header>
+
+        {history.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-stone-300 bg-stone-50 px-4 py-4 text-sm text-stone-700">
+            No snapshots in this conversation yet. Create one from the chat.
+          </p>
+        ) : null}
+
+        <ol className="space-y-6">
+          {history.map((entry, index) => (
+            <li key={entry.snapshotId} className="space-y-3 rounded-2xl border border-stone-200 bg-white p-5">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-lg font-semibold text-stone-900">
+                  Version {history.length - index}
+                </h2>
+                <Link
+                  href={`/snapshot/${entry.snapshotId}`}
+                  className="text-xs font-semibold text-stone-600 hover:underline"
+                >
+                  {formatDate(entry.createdAt)}
+                </Link>
+              </div>
+              <p className="text-sm leading-7 text-stone-700">{entry.mission}</p>
+              {entry.diff ? (
+                <SnapshotDiffView diff={entry.diff} />
+              ) : (
+                <p className="text-xs text-stone-500">First snapshot in this conversation.</p>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <footer className="flex flex-wrap gap-3">
+          <Link
+            href="/chat"
+            className="rounded-full bg-stone-900 px-5 py-2 text-sm font-semibold text-white"
+          >
+            Back to chat
+          </Link>
+        </footer>
+      </div>
+    </main>
+  );
+}
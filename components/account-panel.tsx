@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Account, AccountResponse } from "@/types/domain";
+
+const STATUS_MESSAGES: Record<string, string> = {
+  "signed-in": "You are signed in. Your guest conversations now belong to your account.",
+  invalid: "That sign-in link is invalid or has expired. Request a new one below.",
+  error: "Something went wrong while signing you in. Please try again.",
+};
+
+export function AccountPanel({ linkStatus }: { linkStatus?: string }) {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [email, setEmail] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string>(
+    linkStatus ? (STATUS_MESSAGES[linkStatus] ?? "") : "",
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/auth/me", { cache: "no-store" })
+      .then((response) => response.json() as Promise<AccountResponse>)
+      .then((payload) => {
+        if (!cancelled) {
+          setAccount(payload.account ?? null);
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoaded(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function requestLink(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsBusy(true);
+    setStatus("");
+
+    try {
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to send sign-in link.");
+      }
+
+      setStatus(`Check ${email.trim()} for a sign-in link.`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to send sign-in link.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function signOut() {
+    setIsBusy(true);
+
+    try {
+      await fetch("/api/auth/sign-out", { method: "POST" });
+      window.location.href = "/chat";
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  if (!isLoaded) {
+    return <p className="text-sm text-stone-500">Loading account...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {account ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-stone-700">
+            Signed in as <strong>{account.email}</strong>
+          </p>
+          <button
+            type="button"
+            onClick={signOut}
+            disabled={isBusy}
+            className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800 transition hover:bg-stone-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Sign out
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={requestLink} className="flex flex-wrap gap-3">
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="you@example.com"
+            className="min-w-0 flex-1 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900 outline-none focus:border-stone-400 focus:ring-2 focus:ring-stone-200"
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !email.trim()}
+            className="rounded-full bg-stone-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-stone-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isBusy ? "Sending..." : "Email me a sign-in link"}
+          </button>
+        </form>
+      )}
+
+      {status ? <p className="text-sm text-stone-700">{status}</p> : null}
+    </div>
+  );
+}
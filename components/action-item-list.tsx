@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import type { ActionItem, ActionItemUpdateRequest } from "@/types/domain";
+
+function formatDue(item: ActionItem): string {
+  if (item.status === "done" && item.completedAt) {
+    return `Done ${new Date(item.completedAt).toLocaleDateString()}`;
+  }
+
+  if (!item.dueAt) {
+    return "";
+  }
+
+  const overdue = item.status === "open" && Date.parse(item.dueAt) < Date.now();
+  return `${overdue ? "Overdue since" : "Due"} ${new Date(item.dueAt).toLocaleDateString()}`;
+}
+
+export function ActionItemList({ initialItems }: { initialItems: ActionItem[] }) {
+  const [items, setItems] = useState(initialItems);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [status, setStatus] = useState("");
+
+  async function updateItem(item: ActionItem, update: ActionItemUpdateRequest) {
+    setBusyId(item.id);
+    setStatus("");
+
+    try {
+      const response = await fetch(`/api/action-items/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to update action item.");
+      }
+
+      const updated = (await response.json()) as ActionItem;
+      setItems((current) => current.map((entry) => (entry.id === updated.id ? updated : entry)));
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to update action item.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function editNotes(item: ActionItem) {
+    const notes = window.prompt("Notes for this action", item.notes);
+
+    if (notes !== null && notes !== item.notes) {
+      void updateItem(item, { notes });
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-2 text-sm leading-7 text-stone-700">
+        {items.map((item) => {
+          const done = item.status === "done";
+          const dropped = item.status === "dropped";
+
+          return (
+            <li key={item.id} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={done}
+                disabled={busyId === item.id || dropped}
+                onChange={() => void updateItem(item, { status: done ? "open" : "done" })}
+                className="mt-2 h-4 w-4 accent-amber-600"
+                aria-label={`Mark "${item.title}" ${done ? "open" : "done"}`}
+              />
+              <div className="flex-1">
+                <p className={done || dropped ? "text-stone-400 line-through" : ""}>{item.title}</p>
+                {item.notes ? <p className="text-xs text-stone-500">{item.notes}</p> : null}
+                <div className="flex flex-wrap gap-3 text-[11px] text-stone-500">
+                  {formatDue(item) ? <span>{formatDue(item)}</span> : null}
+                  <button
+                    type="button"
+                    onClick={() => editNotes(item)}
+                    disabled={busyId === item.id}
+                    className="hover:text-stone-800"
+                  >
+                    {item.notes ? "Edit notes" : "Add notes"}
+                  </button>
+                  {done ? null : (
+                    <button
+                      type="button"
+                      onClick={() => void updateItem(item, { status: dropped ? "open" : "dropped" })}
+                      disabled={busyId === item.id}
+                      className="hover:text-stone-800"
+                    >
+                      {dropped ? "Restore" : "Drop"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {status ? <p className="text-xs text-rose-700">{status}</p> : null}
+    </div>
+  );
+}
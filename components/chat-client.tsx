@@ -4,10 +4,16 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { trackClientEvent } from "@/lib/client/analytics";
+import { readChatStream } from "@/lib/client/chat-stream";
+import { ConversationSidebar } from "@/components/conversation-sidebar";
+import { CrisisResourcesSummary } from "@/components/crisis-resources-notice";
 import type {
   ChatHistoryMessage,
   ChatHistoryResponse,
   ChatMessageResponse,
+  Conversation,
+  ConversationListResponse,
+  CrisisResources,
   PurposeSnapshotResponse,
 } from "@/types/domain";
 
@@ -15,6 +21,25 @@ type UiMessage = ChatHistoryMessage;
 
 const DISCLAIMER_KEY = "soulaware_disclaimer_accepted";
 const LAST_SEEN_KEY = "soulaware_last_seen_at";
+const ACTIVE_CONVERSATION_KEY = "soulaware_active_conversation";
+
+async function fetchHistory(conversationId: string | null): Promise<ChatHistoryResponse | null> {
+  const query = conversationId ? `?conversationId=${encodeURIComponent(conversationId)}` : "";
+  const response = await fetch(`/api/chat/history${query}`, {
+    method: "GET",
+    cache: "no-store",
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error("Could not load chat history.");
+  }
+
+  return (await response.json()) as ChatHistoryResponse;
+}
 
 function formatTimestamp(value: string): string {
   const date = new Date(value);
@@ -55,13 +80,15 @@ function MessageContent({ content }: { content: string }) {
   );
 }
 
-export function ChatClient() {
+export function ChatClient({ crisisResources }: { crisisResources: CrisisResources }) {
   const router = useRouter();
   const transcriptRef = useRef<HTMLDivElement | null>(null);
   const [sessionId, setSessionId] = useState<string>("");
   const [messages, setMessages] = useState<UiMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string>("");
   const [isSnapshotLoading, setIsSnapshotLoading] = useState(false);
   const [error, setError] = useState<string>("");
   const [isDisclaimerAccepted, setIsDisclaimerAccepted] = useState(false);
@@ -108,23 +135,22 @@ export function ChatClient() {
 
     async function loadHistory() {
       try {
-        const response = await fetch("/api/chat/history", {
-          method: "GET",
-          cache: "no-store",
-        });
+        const storedId = window.localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+        const payload =
+          (await fetchHistory(storedId)) ?? (storedId ? await fetchHistory(null) : null);
 
-        if (!response.ok) {
+        if (!payload) {
           throw new Error("Could not load chat history.");
         }
 
-        const payload = (await response.json()) as ChatHistoryResponse;
-
         if (cancelled) {
           return;
         }
 
+        window.localStorage.setItem(ACTIVE_CONVERSATION_KEY, payload.sessionId);
         setSessionId(payload.sessionId);
         setMessages(payload.messages);
+        await refreshConversations();
       } catch (loadError) {
         if (!cancelled) {
           setError(
@@ -148,6 +174,127 @@ export function ChatClient() {
     [input, isLoading, isSnapshotLoading],
   );
 
+  async function refreshConversations() {
+    const response = await fetch("/api/conversations", {
+      method: "GET",
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      throw new Error("Could not load conversations.");
+    }
+
+    const payload = (await response.json()) as ConversationListResponse;
+    setConversations(payload.conversations);
+  }
+
+  function activateConversation(conversationId: string, nextMessages: UiMessage[]) {
+    window.localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversationId);
+    setSessionId(conversationId);
+    setMessages(nextMessages);
+    setSafetyPanel("");
+  }
+
+  async function handleSelectConversation(conversationId: string) {
+    setError("");
+
+    try {
+      const payload = await fetchHistory(conversationId);
+
+      if (!payload) {
+        throw new Error("That conversation is no longer available.");
+      }
+
+      activateConversation(payload.sessionId, payload.messages);
+    } catch (selectError) {
+      setError(
+        selectError instanceof Error ? selectError.message : "Could not open conversation.",
+      );
+    }
+  }
+
+  async function handleCreateConversation() {
+    setError("");
+
+    try {
+      const response = await fetch("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error("Could not start a new conversation.");
+      }
+
+      const conversation = (await response.json()) as Conversation;
+      activateConversation(conversation.id, []);
+      await refreshConversations();
+    } catch (createError) {
+      setError(
+        createError instanceof Error
+          ? createError.message
+          : "Could not start a new conversation.",
+      );
+    }
+  }
+
+  async function updateConversation(conversationId: string, body: Record<string, unknown>) {
+    const response = await fetch(`/api/conversations/${conversationId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const payload = (await response.json()) as { error?: string };
+      throw new Error(payload.error ?? "Could not update conversation.");
+    }
+  }
+
+  async function handleRenameConversation(conversation: Conversation) {
+    const title = window.prompt("Rename conversation", conversation.title)?.trim();
+
+    if (!title || title === conversation.title) {
+      return;
+    }
+
+    setError("");
+
+    try {
+      await updateConversation(conversation.id, { title });
+      await refreshConversations();
+    } catch (renameError) {
+      setError(
+        renameError instanceof Error ? renameError.message : "Could not rename conversation.",
+      );
+    }
+  }
+
+  async function handleArchiveConversation(conversation: Conversation) {
+    setError("");
+
+    try {
+      await updateConversation(conversation.id, { archived: true });
+
+      if (conversation.id === sessionId) {
+        const payload = await fetchHistory(null);
+
+        if (payload) {
+          activateConversation(payload.sessionId, payload.messages);
+        }
+      }
+
+      await refreshConversations();
+    } catch (archiveError) {
+      setError(
+        archiveError instanceof Error
+          ? archiveError.message
+          : "Could not archive conversation.",
+      );
+    }
+  }
+
   function acceptDisclaimer() {
     window.localStorage.setItem(DISCLAIMER_KEY, "true");
     setIsDisclaimerAccepted(true);
@@ -186,11 +333,13 @@ export function ChatClient() {
       sessionId,
     }).catch(() => undefined);
 
+    const streamingId = `temp-assistant-${Date.now()}`;
+
     try {
       const response = await fetch("/api/chat/message", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text }),
+        body: JSON.stringify({ text, stream: true, conversationId: sessionId || undefined }),
       });
 
       if (!response.ok) {
@@ -198,7 +347,62 @@ export function ChatClient() {
         throw new Error(payload.error ?? "Unable to send message.");
       }
 
-      const payload = (await response.json()) as ChatMessageResponse;
+      let finalPayload: ChatMessageResponse | null = null;
+      let streamError = "";
+
+      await readChatStream(response, (streamEvent) => {
+        if (streamEvent.type === "segment") {
+          setStreamingMessageId(streamingId);
+          setMessages((previous) => {
+            const existing = previous.find((message) => message.id === streamingId);
+
+            if (!existing) {
+              return [
+                ...previous,
+                {
+                  id: streamingId,
+                  role: "assistant",
+                  content: streamEvent.segment.text,
+                  createdAt: new Date().toISOString(),
+                  mode: streamEvent.segment.kind === "safety" ? "safety" : "coach",
+                },
+              ];
+            }
+
+            return previous.map((message) =>
+              message.id === streamingId
+                ? {
+                    ...message,
+                    content: `${message.content}\n\n${streamEvent.segment.text}`,
+                  }
+                : message,
+            );
+          });
+          return;
+        }
+
+        if (streamEvent.type === "reset") {
+          setMessages((previous) => previous.filter((message) => message.id !== streamingId));
+          return;
+        }
+
+        if (streamEvent.type === "done") {
+          finalPayload = streamEvent.response;
+          return;
+        }
+
+        streamError = streamEvent.error;
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+
+      const payload = finalPayload as ChatMessageResponse | null;
+
+      if (!payload) {
+        throw new Error("Unable to send message.");
+      }
 
       const assistantMessage: UiMessage = {
         id: payload.messageId,
@@ -208,14 +412,21 @@ export function ChatClient() {
         mode: payload.mode,
       };
 
-      setMessages((previous) => [...previous, assistantMessage]);
+      setMessages((previous) => [
+        ...previous.filter((message) => message.id !== streamingId),
+        assistantMessage,
+      ]);
 
       if (payload.safetyTriggered) {
         setSafetyPanel(payload.reply);
       }
+
+      refreshConversations().catch(() => undefined);
     } catch (sendError) {
+      setMessages((previous) => previous.filter((message) => message.id !== streamingId));
       setError(sendError instanceof Error ? sendError.message : "Unable to send message.");
     } finally {
+      setStreamingMessageId("");
       setIsLoading(false);
     }
   }
@@ -232,7 +443,7 @@ export function ChatClient() {
       const response = await fetch("/api/purpose-snapshot", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ contextWindow: 12 }),
+        body: JSON.stringify({ contextWindow: 12, conversationId: sessionId || undefined }),
       });
 
       if (!response.ok) {
@@ -265,14 +476,24 @@ export function ChatClient() {
               Strategic life guidance for direction, decisions, and follow-through.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={handleCreateSnapshot}
-            disabled={isLoading || isSnapshotLoading}
-            className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
-          >
-            {isSnapshotLoading ? "Creating..." : "Create Purpose Snapshot"}
-          </button>
+          <div className="flex flex-wrap items-center gap-2">
+            {sessionId ? (
+              <Link
+                href={`/snapshots?conversationId=${sessionId}`}
+                className="rounded-full border border-slate-300 px-4 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100"
+              >
+                Snapshot history
+              </Link>
+            ) : null}
+            <button
+              type="button"
+              onClick={handleCreateSnapshot}
+              disabled={isLoading || isSnapshotLoading}
+              className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              {isSnapshotLoading ? "Creating..." : "Create Purpose Snapshot"}
+            </button>
+          </div>
         </div>
 
         <header className="rounded-2xl border border-amber-200 bg-gradient-to-r from-amber-50 via-amber-50 to-white px-4 py-3 text-sm text-slate-700">
@@ -280,8 +501,7 @@ export function ChatClient() {
             SoulAware is non-clinical guidance.
           </p>
           <p>
-            If you are in immediate danger, call <strong>911</strong>. For emotional
-            crisis support in the US, call or text <strong>988</strong>.
+            <CrisisResourcesSummary resources={crisisResources} />
           </p>
         </header>
 
@@ -292,7 +512,25 @@ export function ChatClient() {
           </section>
         ) : null}
 
-        <div className="mt-4 grid gap-4 lg:grid-cols-[minmax(0,1fr)_240px]">
+        <div className="mt-4 grid gap-4 lg:grid-cols-[220px_minmax(0,1fr)_240px]">
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={sessionId}
+            disabled={isLoading || isSnapshotLoading}
+            onSelect={(conversationId) => {
+              handleSelectConversation(conversationId).catch(() => undefined);
+            }}
+            onCreate={() => {
+              handleCreateConversation().catch(() => undefined);
+            }}
+            onRename={(conversation) => {
+              handleRenameConversation(conversation).catch(() => undefined);
+            }}
+            onArchive={(conversation) => {
+              handleArchiveConversation(conversation).catch(() => undefined);
+            }}
+          />
+
           <section className="space-y-4">
             <div
               ref={transcriptRef}
@@ -340,7 +578,7 @@ export function ChatClient() {
                 </article>
               ))}
 
-              {isLoading ? (
+              {isLoading && !streamingMessageId ? (
                 <p className="text-xs text-slate-500">SoulAware is thinking...</p>
               ) : null}
             </div>
@@ -414,8 +652,7 @@ export function ChatClient() {
               professional mental health care.
             </p>
             <p className="mt-2 text-sm text-slate-700">
-              If you may harm yourself or others, call <strong>911</strong> now or
-              call/text <strong>988</strong> in the US.
+              <CrisisResourcesSummary resources={crisisResources} />
             </p>
             <button
               type="button"
@@ -0,0 +1,88 @@
+"use client";
+
+import type { Conversation } from "@/types/domain";
+
+type ConversationSidebarProps = {
+  conversations: Conversation[];
+  activeId: string;
+  disabled: boolean;
+  onSelect: (conversationId: string) => void;
+  onCreate: () => void;
+  onRename: (conversation: Conversation) => void;
+  onArchive: (conversation: Conversation) => void;
+};
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+}: ConversationSidebarProps) {
+  return (
+    <aside className="rounded-2xl border border-slate-200 bg-white p-3">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold tracking-[0.06em] uppercase text-slate-500">
+          Threads
+        </h2>
+        <button
+          type="button"
+          onClick={onCreate}
+          disabled={disabled}
+          className="rounded-full bg-slate-900 px-3 py-1 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          New
+        </button>
+      </div>
+
+      {conversations.length === 0 ? (
+        <p className="text-xs text-slate-500">No threads yet.</p>
+      ) : null}
+
+      <ul className="space-y-1">
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeId;
+
+          return (
+            <li
+              key={conversation.id}
+              className={`rounded-xl border px-3 py-2 ${
+                isActive ? "border-amber-300 bg-amber-50" : "border-transparent hover:bg-slate-50"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(conversation.id)}
+                disabled={disabled || isActive}
+                className="block w-full truncate text-left text-sm font-medium text-slate-800 disabled:cursor-default"
+                title={conversation.title}
+              >
+                {conversation.title}
+              </button>
+              <div className="mt-1 flex gap-3 text-[11px] text-slate-500">
+                <button
+                  type="button"
+                  onClick={() => onRename(conversation)}
+                  disabled={disabled}
+                  className="hover:text-slate-800"
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onArchive(conversation)}
+                  disabled={disabled}
+                  className="hover:text-slate-800"
+                >
+                  Archive
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  CrisisRegionUpdateRequest,
+  CrisisResourcesResponse,
+} from "@/types/domain";
+
+const AUTOMATIC = "auto";
+
+function describeSource(payload: CrisisResourcesResponse): string {
+  const { resources } = payload;
+
+  if (!resources.countryName) {
+    return "We couldn't tell where you are, so crisis replies point to an international helpline directory.";
+  }
+
+  const via = {
+    setting: "your choice",
+    geo: "your network location",
+    language: "your browser language",
+    fallback: "a default",
+  }[resources.source];
+
+  return `Crisis replies currently show resources for ${resources.countryName} (from ${via}).`;
+}
+
+export function CrisisRegionSettings() {
+  const [payload, setPayload] = useState<CrisisResourcesResponse | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/crisis-resources", { cache: "no-store" })
+      .then((response) => response.json() as Promise<CrisisResourcesResponse>)
+      .then((result) => {
+        if (!cancelled) {
+          setPayload(result);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function choose(value: string) {
+    setIsBusy(true);
+    setStatus("");
+
+    try {
+      const body: CrisisRegionUpdateRequest = { country: value === AUTOMATIC ? null : value };
+      const response = await fetch("/api/crisis-resources", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const result = (await response.json()) as { error?: string };
+        throw new Error(result.error ?? "Unable to save your region.");
+      }
+
+      setPayload((await response.json()) as CrisisResourcesResponse);
+      setStatus("Region saved.");
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to save your region.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  if (!payload) {
+    return <p className="text-sm text-stone-500">Loading crisis resources...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-stone-700">{describeSource(payload)}</p>
+      <select
+        value={payload.selectedCountry ?? AUTOMATIC}
+        onChange={(event) => void choose(event.target.value)}
+        disabled={isBusy}
+        className="rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900 disabled:opacity-60"
+      >
+        <option value={AUTOMATIC}>Detect automatically</option>
+        {payload.regions.map((region) => (
+          <option key={region.code} value={region.code}>
+            {region.name}
+          </option>
+        ))}
+      </select>
+      {status ? <p className="text-sm text-stone-700">{status}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { CrisisHotline, CrisisResources } from "@/types/domain";
+
+export function CrisisHotlineContact({ hotline }: { hotline: CrisisHotline }) {
+  const textsPhone = hotline.phone !== null && hotline.textTo === hotline.phone && !hotline.textKeyword;
+
+  if (textsPhone) {
+    return (
+      <>
+        call or text <strong>{hotline.phone}</strong>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {hotline.phone ? (
+        <>
+          call <strong>{hotline.phone}</strong>
+        </>
+      ) : null}
+      {hotline.phone && hotline.textTo ? " or " : null}
+      {hotline.textTo ? (
+        hotline.textKeyword ? (
+          <>
+            text <strong>{hotline.textKeyword}</strong> to <strong>{hotline.textTo}</strong>
+          </>
+        ) : (
+          <>
+            text <strong>{hotline.textTo}</strong>
+          </>
+        )
+      ) : null}
+    </>
+  );
+}
+
+export function DirectoryLink({ resources }: { resources: CrisisResources }) {
+  return (
+    <a
+      href={resources.directoryUrl}
+      target="_blank"
+      rel="noreferrer"
+      className="font-semibold underline"
+    >
+      {resources.directoryUrl.replace(/^https?:\/\//, "")}
+    </a>
+  );
+}
+
+/** One-sentence emergency and hotline reminder for banners and dialogs. */
+export function CrisisResourcesSummary({ resources }: { resources: CrisisResources }) {
+  const primary = resources.hotlines[0];
+
+  if (!primary || !resources.emergencyNumber) {
+    return (
+      <>
+        If you are in immediate danger, call your local emergency number. For emotional
+        crisis support, find a free helpline in your country at{" "}
+        <DirectoryLink resources={resources} />.
+      </>
+    );
+  }
+
+  return (
+    <>
+      If you are in immediate danger, call <strong>{resources.emergencyNumber}</strong>. For
+      emotional crisis support in {resources.countryName}, <CrisisHotlineContact hotline={primary} />{" "}
+      ({primary.name}).
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import type { DataImportResponse } from "@/types/domain";
+
+export function DataPortability() {
+  const [status, setStatus] = useState<string>("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  async function importArchive(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    const shouldContinue = window.confirm(
+      "Import this export into a new guest profile? This browser will switch to the imported data.",
+    );
+
+    if (!shouldContinue) {
+      return;
+    }
+
+    setIsImporting(true);
+    setStatus("");
+
+    try {
+      const response = await fetch("/api/data/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to import data.");
+      }
+
+      const payload = (await response.json()) as DataImportResponse;
+      window.localStorage.removeItem("soulaware_active_conversation");
+      setStatus(
+        `Imported ${payload.conversations} conversation(s) and ${payload.messages} message(s).`,
+      );
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to import data.");
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <a
+          href="/api/data/export?format=json"
+          className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800 transition hover:bg-stone-100"
+        >
+          Download JSON archive
+        </a>
+        <a
+          href="/api/data/export?format=markdown"
+          className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800 transition hover:bg-stone-100"
+        >
+          Download Markdown transcript
+        </a>
+      </div>
+
+      <label className="inline-flex cursor-pointer items-center gap-3 text-sm text-stone-700">
+        <span className="rounded-full bg-stone-900 px-5 py-2 font-semibold text-white transition hover:bg-stone-800">
+          {isImporting ? "Importing..." : "Import JSON archive"}
+        </span>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={importArchive}
+          disabled={isImporting}
+          className="sr-only"
+        />
+      </label>
+
+      {status ? <p className="text-sm text-stone-700">{status}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  ReminderCadence,
+  ReminderChannel,
+  ReminderSettings as ReminderSettingsValue,
+  ReminderSettingsResponse,
+  ReminderUpdateRequest,
+  WebPushSubscriptionPayload,
+} from "@/types/domain";
+
+const LINK_STATUS_MESSAGES: Record<string, string> = {
+  confirmed: "Email confirmed. Check-ins will start on schedule.",
+  stopped: "Check-in emails stopped.",
+  invalid: "That reminder link is invalid or out of date.",
+  error: "Something went wrong with that reminder link. Please try again.",
+};
+
+function decodeVapidKey(base64Url: string): Uint8Array<ArrayBuffer> {
+  const padded = `${base64Url}${"=".repeat((4 - (base64Url.length % 4)) % 4)}`;
+  const raw = window.atob(padded.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function subscribeToPush(publicKey: string): Promise<WebPushSubscriptionPayload> {
+  if (!("serviceWorker" in navigator) || !("PushManager" in window)) {
+    throw new Error("This browser does not support push notifications.");
+  }
+
+  const registration = await navigator.serviceWorker.register("/reminder-sw.js");
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeVapidKey(publicKey),
+    }));
+
+  return subscription.toJSON() as WebPushSubscriptionPayload;
+}
+
+export function ReminderSettings({ linkStatus }: { linkStatus?: string }) {
+  const [reminder, setReminder] = useState<ReminderSettingsValue | null>(null);
+  const [pushPublicKey, setPushPublicKey] = useState<string | null>(null);
+  const [cadence, setCadence] = useState<ReminderCadence>("weekly");
+  const [channel, setChannel] = useState<ReminderChannel>("email");
+  const [email, setEmail] = useState("");
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState(
+    linkStatus ? (LINK_STATUS_MESSAGES[linkStatus] ?? "") : "",
+  );
+
+  function applySettings(payload: ReminderSettingsResponse) {
+    setReminder(payload.reminder);
+    setPushPublicKey(payload.pushPublicKey);
+
+    if (payload.reminder) {
+      setCadence(payload.reminder.cadence);
+      setChannel(payload.reminder.channel);
+      setEmail(payload.reminder.email ?? "");
+    }
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/reminders", { cache: "no-store" })
+      .then((response) => response.json() as Promise<ReminderSettingsResponse>)
+      .then((payload) => {
+        if (!cancelled) {
+          applySettings(payload);
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoaded(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function save(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsBusy(true);
+    setStatus("");
+
+    try {
+      const body: ReminderUpdateRequest = {
+        cadence,
+        channel,
+        conversationId: window.localStorage.getItem("soulaware_active_conversation") ?? undefined,
+      };
+
+      if (channel === "email") {
+        body.email = email.trim() || undefined;
+      } else if (pushPublicKey) {
+        body.pushSubscription = await subscribeToPush(pushPublicKey);
+      }
+
+      const response = await fetch("/api/reminders", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to save reminder settings.");
+      }
+
+      const saved = (await response.json()) as ReminderSettingsResponse;
+      applySettings(saved);
+      setStatus(
+        saved.reminder?.confirmedAt
+          ? "Reminders saved."
+          : "Check your inbox and confirm the address to start check-ins.",
+      );
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to save reminder settings.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function stop() {
+    setIsBusy(true);
+    setStatus("");
+
+    try {
+      const response = await fetch("/api/reminders", { method: "DELETE" });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to stop reminders.");
+      }
+
+      applySettings((await response.json()) as ReminderSettingsResponse);
+      setStatus("Reminders stopped.");
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to stop reminders.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  if (!isLoaded) {
+    return <p className="text-sm text-stone-500">Loading reminders...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reminder ? (
+        <p className="text-sm text-stone-700">
+          {reminder.confirmedAt
+            ? `Next ${reminder.cadence} check-in: ${new Date(reminder.nextRunAt).toLocaleString()}`
+            : `Waiting for you to confirm ${reminder.email ?? "your address"} from your inbox.`}
+          {reminder.lastError ? ` (last attempt failed: ${reminder.lastError})` : ""}
+        </p>
+      ) : null}
+
+      <form onSubmit={save} className="flex flex-wrap items-center gap-3">
+        <select
+          value={cadence}
+          onChange={(event) => setCadence(event.target.value as ReminderCadence)}
+          className="rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900"
+        >
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+        </select>
+        <select
+          value={channel}
+          onChange={(event) => setChannel(event.target.value as ReminderChannel)}
+          className="rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900"
+        >
+          <option value="email">Email</option>
+          {pushPublicKey ? <option value="push">This browser</option> : null}
+        </select>
+        {channel === "email" ? (
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="you@example.com (defaults to your account email)"
+            className="min-w-0 flex-1 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900 outline-none focus:border-stone-400 focus:ring-2 focus:ring-stone-200"
+          />
+        ) : null}
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="rounded-full bg-stone-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-stone-800 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {reminder ? "Update reminders" : "Turn on reminders"}
+        </button>
+        {reminder ? (
+          <button
+            type="button"
+            onClick={stop}
+            disabled={isBusy}
+            className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800 transition hover:bg-stone-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Stop
+          </button>
+        ) : null}
+      </form>
+
+      {status ? <p className="text-sm text-stone-700">{status}</p> : null}
+    </div>
+  );
+}
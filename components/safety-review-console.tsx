@@ -0,0 +1,331 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type {
+  SafetyEvent,
+  SafetyReviewDetailResponse,
+  SafetyReviewQueueResponse,
+  SafetyReviewStatus,
+  SafetyReviewUpdateRequest,
+} from "@/types/domain";
+
+const SECRET_STORAGE_KEY = "soulaware_admin_secret";
+const REVIEWER_STORAGE_KEY = "soulaware_reviewer_name";
+
+const STATUS_LABELS: Record<SafetyReviewStatus, string> = {
+  new: "New",
+  reviewed: "Reviewed",
+  false_positive: "False positive",
+  escalated: "Escalated",
+};
+
+const STATUSES = Object.keys(STATUS_LABELS) as SafetyReviewStatus[];
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+async function adminFetch<T>(secret: string, path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    cache: "no-store",
+    headers: {
+      ...init?.headers,
+      "Content-Type": "application/json",
+      "x-admin-secret": secret,
+    },
+  });
+  const payload = (await response.json()) as T & { error?: string };
+
+  if (!response.ok) {
+    throw new Error(payload.error ?? "Request failed.");
+  }
+
+  return payload;
+}
+
+export function SafetyReviewConsole() {
+  const [secret, setSecret] = useState("");
+  const [secretInput, setSecretInput] = useState("");
+  const [reviewer, setReviewer] = useState("");
+  const [statusFilter, setStatusFilter] = useState<SafetyReviewStatus | "">("new");
+  const [reasonFilter, setReasonFilter] = useState("");
+  const [queue, setQueue] = useState<SafetyReviewQueueResponse | null>(null);
+  const [detail, setDetail] = useState<SafetyReviewDetailResponse | null>(null);
+  const [notes, setNotes] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    // Session storage keeps the secret out of cookies and clears it with the tab.
+    setSecret(window.sessionStorage.getItem(SECRET_STORAGE_KEY) ?? "");
+    setReviewer(window.localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+  }, []);
+
+  const loadQueue = useCallback(async () => {
+    if (!secret) {
+      return;
+    }
+
+    const params = new URLSearchParams();
+
+    if (statusFilter) {
+      params.set("status", statusFilter);
+    }
+
+    if (reasonFilter.trim()) {
+      params.set("reason", reasonFilter.trim());
+    }
+
+    try {
+      setQueue(
+        await adminFetch<SafetyReviewQueueResponse>(
+          secret,
+          `/api/admin/safety-events?${params.toString()}`,
+        ),
+      );
+      setStatus("");
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to load safety events.");
+    }
+  }, [secret, statusFilter, reasonFilter]);
+
+  useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  function unlock(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    window.sessionStorage.setItem(SECRET_STORAGE_KEY, secretInput);
+    setSecret(secretInput);
+    setSecretInput("");
+  }
+
+  function lock() {
+    window.sessionStorage.removeItem(SECRET_STORAGE_KEY);
+    setSecret("");
+    setQueue(null);
+    setDetail(null);
+  }
+
+  async function open(event: SafetyEvent) {
+    try {
+      const result = await adminFetch<SafetyReviewDetailResponse>(
+        secret,
+        `/api/admin/safety-events/${event.id}`,
+      );
+      setDetail(result);
+      setNotes(result.event.reviewerNotes);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to load safety event.");
+    }
+  }
+
+  async function save(nextStatus?: SafetyReviewStatus) {
+    if (!detail) {
+      return;
+    }
+
+    setIsBusy(true);
+    setStatus("");
+    window.localStorage.setItem(REVIEWER_STORAGE_KEY, reviewer);
+
+    try {
+      const body: SafetyReviewUpdateRequest = { status: nextStatus, notes, reviewer };
+      const result = await adminFetch<{ event: SafetyEvent }>(
+        secret,
+        `/api/admin/safety-events/${detail.event.id}`,
+        { method: "PATCH", body: JSON.stringify(body) },
+      );
+      setDetail({ ...detail, event: result.event });
+      setStatus("Review saved.");
+      await loadQueue();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to save review.");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  if (!secret) {
+    return (
+      <form onSubmit={unlock} className="flex flex-wrap gap-3">
+        <input
+          type="password"
+          value={secretInput}
+          onChange={(event) => setSecretInput(event.target.value)}
+          placeholder="Admin secret"
+          className="flex-1 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900"
+        />
+        <button
+          type="submit"
+          disabled={!secretInput}
+          className="rounded-full bg-stone-900 px-5 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          Unlock
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={(event) => setStatusFilter(event.target.value as SafetyReviewStatus | "")}
+          className="rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900"
+        >
+          <option value="">All statuses</option>
+          {STATUSES.map((entry) => (
+            <option key={entry} value={entry}>
+              {STATUS_LABELS[entry]}
+            </option>
+          ))}
+        </select>
+        <input
+          value={reasonFilter}
+          onChange={(event) => setReasonFilter(event.target.value)}
+          placeholder="Reason prefix, e.g. rule_high_risk"
+          className="flex-1 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900"
+        />
+        <input
+          value={reviewer}
+          onChange={(event) => setReviewer(event.target.value)}
+          placeholder="Your name"
+          className="rounded-full border border-stone-300 bg-white px-4 py-2 text-sm text-stone-900"
+        />
+        <button
+          type="button"
+          onClick={lock}
+          className="rounded-full border border-stone-300 px-4 py-2 text-sm text-stone-700"
+        >
+          Lock
+        </button>
+      </div>
+
+      {status ? <p className="text-sm text-stone-700">{status}</p> : null}
+
+      {queue ? (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-stone-900">
+            Last {Math.round((Date.now() - Date.parse(queue.counts.sinceIso)) / 86_400_000)} days ·{" "}
+            {queue.counts.total} events
+          </h2>
+          <table className="w-full text-left text-sm text-stone-700">
+            <thead>
+              <tr>
+                <th className="py-1">Reason</th>
+                <th className="py-1">Total</th>
+                {STATUSES.map((entry) => (
+                  <th key={entry} className="py-1">
+                    {STATUS_LABELS[entry]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {queue.counts.byReason.map((row) => (
+                <tr key={row.reason} className="border-t border-stone-200">
+                  <td className="py-1 font-mono text-xs">{row.reason}</td>
+                  <td className="py-1">{row.total}</td>
+                  {STATUSES.map((entry) => (
+                    <td key={entry} className="py-1">
+                      {row.byStatus[entry]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <ul className="space-y-2">
+          {queue?.events.length === 0 ? (
+            <li className="text-sm text-stone-500">No safety events match these filters.</li>
+          ) : null}
+          {queue?.events.map((event) => (
+            <li key={event.id}>
+              <button
+                type="button"
+                onClick={() => void open(event)}
+                className={`w-full rounded-2xl border p-3 text-left text-sm ${
+                  detail?.event.id === event.id
+                    ? "border-stone-900 bg-white"
+                    : "border-stone-200 bg-stone-50"
+                }`}
+              >
+                <span className="block font-medium text-stone-900">
+                  {event.level} · {event.action} · {STATUS_LABELS[event.reviewStatus]}
+                </span>
+                <span className="block truncate text-stone-700">{event.triggerText}</span>
+                <span className="block text-xs text-stone-500">
+                  {formatTimestamp(event.createdAt)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {detail ? (
+          <section className="space-y-4">
+            <p className="font-mono text-xs break-all text-stone-500">{detail.event.reason}</p>
+            <ol className="space-y-2">
+              {detail.context.map((message) => (
+                <li
+                  key={message.id}
+                  className={`rounded-2xl p-3 text-sm whitespace-pre-wrap ${
+                    message.role === "user" ? "bg-stone-200 text-stone-900" : "bg-white text-stone-700"
+                  }`}
+                >
+                  <span className="block text-xs text-stone-500">
+                    {message.role === "user" ? "User" : "SoulAware"} ·{" "}
+                    {formatTimestamp(message.createdAt)}
+                  </span>
+                  {message.content}
+                </li>
+              ))}
+            </ol>
+            <textarea
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              maxLength={2000}
+              rows={4}
+              placeholder="Reviewer notes"
+              className="w-full rounded-2xl border border-stone-300 bg-white p-3 text-sm text-stone-900"
+            />
+            {detail.event.reviewedAt ? (
+              <p className="text-xs text-stone-500">
+                Last reviewed {formatTimestamp(detail.event.reviewedAt)}
+                {detail.event.reviewedBy ? ` by ${detail.event.reviewedBy}` : ""}
+              </p>
+            ) : null}
+            <div className="flex flex-wrap gap-2">
+              {STATUSES.filter((entry) => entry !== "new").map((entry) => (
+                <button
+                  key={entry}
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => void save(entry)}
+                  className="rounded-full bg-stone-900 px-4 py-2 text-sm text-white disabled:opacity-60"
+                >
+                  Mark {STATUS_LABELS[entry].toLowerCase()}
+                </button>
+              ))}
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => void save()}
+                className="rounded-full border border-stone-300 px-4 py-2 text-sm text-stone-700 disabled:opacity-60"
+              >
+                Save notes
+              </button>
+            </div>
+          </section>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -37,7 +37,7 @@ export function SettingsActions() {
 
   async function deleteAllData() {
     const shouldContinue = window.confirm(
-      "Delete all SoulAware data for this guest profile? This cannot be undone.",
+      "Delete all SoulAware data for this profile? This cannot be undone.",
     );
 
     if (!shouldContinue) {
@@ -55,7 +55,7 @@ export function SettingsActions() {
       }
 
       clearLocalState();
-      setStatus("All guest data deleted.");
+      setStatus("All data deleted.");
       window.location.href = "/";
     } catch (error) {
       setStatus(error instanceof Error ? error.message : "Unable to delete data.");
@@ -81,7 +81,7 @@ export function SettingsActions() {
         disabled={busyAction !== null}
         className="rounded-full bg-rose-600 px-5 py-2 text-sm font-semibold text-white transition hover:bg-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
       >
-        {busyAction === "delete" ? "Deleting..." : "Delete all stored guest data"}
+        {busyAction === "delete" ? "Deleting..." : "Delete all stored data"}
       </button>
 
       {status ? <p className="text-sm text-stone-700">{status}</p> : null}
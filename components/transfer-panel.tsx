@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import type { TransferCodeResponse } from "@/types/domain";
+
+function formatExpiry(value: string): string {
+  return new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+export function TransferPanel({ initialCode }: { initialCode?: string }) {
+  const [issued, setIssued] = useState<TransferCodeResponse | null>(null);
+  const [code, setCode] = useState(initialCode ?? "");
+  const [status, setStatus] = useState<string>("");
+  const [busyAction, setBusyAction] = useState<"issue" | "redeem" | null>(null);
+
+  async function issueCode() {
+    setBusyAction("issue");
+    setStatus("");
+
+    try {
+      const response = await fetch("/api/transfer", { method: "POST" });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to create transfer code.");
+      }
+
+      setIssued((await response.json()) as TransferCodeResponse);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to create transfer code.");
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
+  async function redeemCode(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const shouldContinue = window.confirm(
+      "Switch this browser to the transferred profile? Conversations started here will move with it.",
+    );
+
+    if (!shouldContinue) {
+      return;
+    }
+
+    setBusyAction("redeem");
+    setStatus("");
+
+    try {
+      const response = await fetch("/api/transfer/redeem", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Unable to redeem transfer code.");
+      }
+
+      window.localStorage.removeItem("soulaware_active_conversation");
+      window.location.href = "/chat";
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to redeem transfer code.");
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
+  const transferLink =
+    issued && typeof window !== "undefined"
+      ? `${window.location.origin}/settings?transfer=${issued.code}`
+      : "";
+
+  return (
+    <div className="space-y-4">
+      {issued ? (
+        <div className="rounded-xl border border-stone-300 bg-white p-4">
+          <p className="font-mono text-2xl font-semibold tracking-[0.2em] text-stone-900">
+            {issued.code}
+          </p>
+          <p className="mt-1 text-xs text-stone-600">
+            Works once, until {formatExpiry(issued.expiresAt)}. Or open{" "}
+            <span className="break-all font-mono">{transferLink}</span> on the other device.
+          </p>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={issueCode}
+          disabled={busyAction !== null}
+          className="rounded-full border border-stone-300 px-5 py-2 text-sm font-semibold text-stone-800 transition hover:bg-stone-100 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busyAction === "issue" ? "Creating..." : "Create transfer code"}
+        </button>
+      )}
+
+      <form onSubmit={redeemCode} className="flex flex-wrap gap-3">
+        <input
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="ABCD-2345"
+          autoComplete="off"
+          className="min-w-0 flex-1 rounded-full border border-stone-300 bg-white px-4 py-2 font-mono text-sm uppercase text-stone-900 outline-none focus:border-stone-400 focus:ring-2 focus:ring-stone-200"
+        />
+        <button
+          type="submit"
+          disabled={busyAction !== null || !code.trim()}
+          className="rounded-full bg-stone-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-stone-800 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busyAction === "redeem" ? "Transferring..." : "Use code on this device"}
+        </button>
+      </form>
+
+      {status ? <p className="text-sm text-stone-700">{status}</p> : null}
+    </div>
+  );
+}
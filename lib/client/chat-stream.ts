@@ -0,0 +1,65 @@
+import type { ChatStreamEvent } from "@/types/domain";
+
+function parseStreamFrame(frame: string): ChatStreamEvent | null {
+  let eventName = "";
+  const dataLines: string[] = [];
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) {
+      eventName = line.slice("event:".length).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice("data:".length).trim());
+    }
+  }
+
+  if (!eventName || dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(dataLines.join("\n")) as Record<string, unknown>;
+    return { type: eventName, ...data } as ChatStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this browser.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const event = parseStreamFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+
+      if (event) {
+        onEvent(event);
+      }
+
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  const trailing = parseStreamFrame(buffer.trim());
+  if (trailing) {
+    onEvent(trailing);
+  }
+}
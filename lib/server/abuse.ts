@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { imposeCooldown, recordHit, type RateLimitKeyType } from "@/lib/server/rate-limit";
+import type { RateLimitCooldown } from "@/lib/server/rate-limit-store";
+
+/**
+ * `guest_churn`: fresh guest ids from a churning IP repeating one message or posting links
+ * between them; `repeated_message`: the same text sent over and over; `link_burst`: a run
+ * of messages carrying links.
+ */
+export type AbuseSignal = "guest_churn" | "repeated_message" | "link_burst";
+
+export type AbuseCooldown = {
+  signal: AbuseSignal;
+  keyType: Extract<RateLimitKeyType, "guest" | "ip">;
+  cooldown: RateLimitCooldown;
+};
+
+type AbuseRule = {
+  keyType: AbuseCooldown["keyType"];
+  /** Observations inside `windowMs` that trip the rule. */
+  threshold: number;
+  windowMs: number;
+  cooldownMs: number;
+};
+
+/**
+ * `guest_churn.threshold` new guest ids in an hour only marks an IP as churning. Busy NAT,
+ * CGNAT and campus addresses reach it too, so nobody is blocked for churn alone: only a new
+ * id whose first message repeats or links like the other new ids from that IP is cooled down.
+ */
+export const ABUSE_RULES: Record<AbuseSignal, AbuseRule> = {
+  guest_churn: {
+    keyType: "guest",
+    threshold: 100,
+    windowMs: 60 * 60_000,
+    cooldownMs: 10 * 60_000,
+  },
+  repeated_message: {
+    keyType: "guest",
+    threshold: 6,
+    windowMs: 10 * 60_000,
+    cooldownMs: 10 * 60_000,
+  },
+  link_burst: { keyType: "guest", threshold: 4, windowMs: 10 * 60_000, cooldownMs: 15 * 60_000 },
+};
+
+/** Shorter messages ("yes", "idk", "ok thanks") are expected to repeat and are not counted. */
+const REPEAT_MIN_LENGTH = 20;
+
+const LINK_PATTERN = /https?:\/\/|www\./gi;
+
+/**
+ * Counts one observation in the rate-limit store, so every instance sees the same history,
+ * and reports whether it reached the rule's threshold.
+ */
+async function observe(signal: AbuseSignal, subject: string): Promise<boolean> {
+  const rule = ABUSE_RULES[signal];
+  const result = await recordHit(`abuse:${signal}:${subject}`, rule.threshold, rule.windowMs);
+  return !result.success || result.remaining === 0;
+}
+
+export function countLinks(text: string): number {
+  return (text.match(LINK_PATTERN) ?? []).length;
+}
+
+function normalizeMessage(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function fingerprint(normalized: string): string {
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+/**
+ * Feeds one accepted chat message into the abuse heuristics and puts offenders on a
+ * rate-limit cooldown, so later `enforceRateLimit` calls for that guest or IP are refused.
+ * Call it after the rate limit passes so refused retries never extend a cooldown, and after
+ * the safety check: `flagged` text never counts as a repeat, so someone resending a message
+ * about being in danger is always answered. Returns the cooldowns this message started.
+ */
+export async function recordChatActivity(params: {
+  guestId: string;
+  ip: string | null;
+  text: string;
+  flagged?: boolean;
+}): Promise<AbuseCooldown[]> {
+  const tripped: AbuseSignal[] = [];
+  const normalized = normalizeMessage(params.text);
+  const messageHash = fingerprint(normalized);
+  const countsAsRepeat = !params.flagged && normalized.length >= REPEAT_MIN_LENGTH;
+  const hasLinks = countLinks(params.text) > 0;
+
+  // Only a guest's first message from this IP inside the window counts toward churn. Once
+  // the IP is churning, new ids are checked for repeats and links across the whole IP,
+  // since each throwaway id on its own never gets the chance to trip the per-guest rules.
+  if (params.ip) {
+    const firstSeen = await recordHit(
+      `abuse:guest_seen:${params.ip}:${params.guestId}`,
+      1,
+      ABUSE_RULES.guest_churn.windowMs,
+    );
+
+    if (firstSeen.success && (await observe("guest_churn", params.ip))) {
+      const repeatedAcrossIp =
+        countsAsRepeat && (await observe("repeated_message", `ip:${params.ip}:${messageHash}`));
+      const linksAcrossIp = hasLinks && (await observe("link_burst", `ip:${params.ip}`));
+
+      if (repeatedAcrossIp || linksAcrossIp) {
+        tripped.push("guest_churn");
+      }
+    }
+  }
+
+  if (
+    countsAsRepeat &&
+    (await observe("repeated_message", `${params.guestId}:${messageHash}`))
+  ) {
+    tripped.push("repeated_message");
+  }
+
+  if (hasLinks && (await observe("link_burst", params.guestId))) {
+    tripped.push("link_burst");
+  }
+
+  return Promise.all(
+    tripped.map(async (signal) => {
+      const rule = ABUSE_RULES[signal];
+      const subject = rule.keyType === "ip" ? (params.ip ?? "") : params.guestId;
+      const cooldown = await imposeCooldown(rule.keyType, subject, rule.cooldownMs, signal);
+
+      return { signal, keyType: rule.keyType, cooldown };
+    }),
+  );
+}
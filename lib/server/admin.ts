@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server";
+import { env } from "@/lib/server/env";
+import { hasSharedSecret } from "@/lib/server/shared-secret";
+
+/**
+ * Accepts `x-admin-secret: <SOULAWARE_ADMIN_SECRET>` or `Authorization: Bearer <...>`.
+ * Kept separate from `CRON_SECRET` so schedulers never get access to conversation content.
+ */
+export function isAdminAuthorized(request: NextRequest): boolean {
+  return hasSharedSecret(request, "x-admin-secret", env.adminSecret);
+}
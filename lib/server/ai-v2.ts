@@ -1,7 +1,16 @@
-import OpenAI from "openai";
-import { env, hasOpenAi } from "@/lib/server/env";
+import { env } from "@/lib/server/env";
+import { SUPPORT_MODE_INSTRUCTION, SUPPORTIVE_ACTION_STEP } from "@/lib/server/safety";
+import {
+  getLlmProvider,
+  type LlmProvider,
+  type LlmRole,
+  type LlmUsage,
+} from "@/lib/server/llm";
+import { createJsonFieldReader, type ReplyStream } from "@/lib/server/reply-stream";
 import type {
+  ActionItem,
   ChatHistoryMessage,
+  ChatReplySegment,
   ChatResponseKind,
   ChatSessionState,
   CoachingLens,
@@ -35,11 +44,7 @@ type CoachDraft = {
   followUpQuestion: string;
 };
 
-type UsageMetrics = {
-  promptTokens: number;
-  completionTokens: number;
-  totalTokens: number;
-};
+type UsageMetrics = LlmUsage;
 
 type SummaryDraft = {
   rollingSummary: string;
@@ -58,6 +63,21 @@ export type GenerateCoachReplyV2Params = {
   history: ChatHistoryMessage[];
   latestSnapshot: StoredPurposeSnapshot | null;
   sessionState: ChatSessionState;
+  actionItems?: ActionItem[];
+  /** Set when the safety policy chose `support`: gentler coaching, no pushy action steps. */
+  supportive?: boolean;
+  /** Receives the first draft's sections as they are written, then the final reply. */
+  stream?: ReplyStream;
+  /** Runs on the final coaching segments before they are streamed or returned. */
+  screenSegments?: (segments: ChatReplySegment[]) => ChatReplySegment[];
+  /** Skips complexity routing and always uses the fast role, e.g. near a guest's budget. */
+  forceFastModel?: boolean;
+  /** Leaves the rolling summary untouched this turn (spend breaker). */
+  skipSummary?: boolean;
+  /** Serves the deterministic fallback without calling a model (spend breaker). */
+  forceFallback?: boolean;
+  /** Overrides the env-configured model per role (used by the eval harness). */
+  models?: Partial<Record<"primary" | "fast" | "summary", string>>;
 };
 
 export type GenerateCoachReplyV2Result = {
@@ -129,14 +149,14 @@ const ACTION_VERBS = new Set([
   "focus",
 ]);
 
-const GENERIC_PATTERNS = [
+export const GENERIC_PATTERNS = [
   /what would progress look like/i,
   /trusted yourself/i,
   /meaningful step/i,
   /clarity is already starting/i,
 ];
 
-const BANNED_QUESTION_PATTERNS = [
+export const BANNED_QUESTION_PATTERNS = [
   /what would progress look like/i,
   /if you trusted yourself/i,
 ];
@@ -171,20 +191,6 @@ const QUESTION_OPENERS = [
   "Check-in question:",
 ];
 
-let aiClient: OpenAI | null = null;
-
-function getOpenAiClient(): OpenAI | null {
-  if (!hasOpenAi) {
-    return null;
-  }
-
-  if (!aiClient) {
-    aiClient = new OpenAI({ apiKey: env.openAiApiKey });
-  }
-
-  return aiClient;
-}
-
 function toWordTokens(text: string): string[] {
   return text
     .toLowerCase()
@@ -211,7 +217,7 @@ function seededIndex(seed: string, size: number): number {
   return Math.abs(hash) % size;
 }
 
-function lexicalOverlapScore(a: string, b: string): number {
+export function lexicalOverlapScore(a: string, b: string): number {
   const wordsA = new Set(
     normalizeForCompare(a)
       .split(" ")
@@ -297,7 +303,7 @@ function detectStage(userTurns: number): SessionStage {
   return "accountability";
 }
 
-function extractKeywords(text: string): string[] {
+export function extractKeywords(text: string): string[] {
   const frequency = new Map<string, number>();
   for (const token of toWordTokens(text)) {
     if (STOPWORDS.has(token)) {
@@ -453,19 +459,13 @@ function estimateTokens(text: string): number {
   return Math.max(1, Math.ceil(text.length / 4));
 }
 
-function safeUsageFromCompletion(
-  usage:
-    | OpenAI.Chat.Completions.ChatCompletion["usage"]
-    | undefined,
+export function safeUsageFromCompletion(
+  usage: LlmUsage | null,
   fallbackInput: string,
   fallbackOutput: string,
 ): UsageMetrics {
   if (usage) {
-    return {
-      promptTokens: usage.prompt_tokens ?? 0,
-      completionTokens: usage.completion_tokens ?? 0,
-      totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
-    };
+    return usage;
   }
 
   const promptTokens = estimateTokens(fallbackInput);
@@ -477,7 +477,7 @@ function safeUsageFromCompletion(
   };
 }
 
-function estimateCostUsd(model: string, usage: UsageMetrics): number {
+export function estimateCostUsd(model: string, usage: UsageMetrics): number {
   // Approximate pricing for observability; values are intentionally conservative.
   const pricing = model.includes("mini")
     ? { promptPer1k: 0.0008, completionPer1k: 0.0032 }
@@ -596,21 +596,38 @@ function normalizeQuestion(question: string, profile: SessionProfile, keyword: s
   return normalized;
 }
 
+const DRAFT_FIELDS = ["reflection", "actionStep", "followUpQuestion"] as const;
+
+function formatAdaptiveSegment(
+  field: keyof CoachDraft,
+  value: string,
+  seed: string,
+): ChatReplySegment {
+  if (field === "reflection") {
+    const opener = REFLECTION_OPENERS[seededIndex(`${seed}:r`, REFLECTION_OPENERS.length)];
+    return { kind: "reflection", text: `${opener} ${value}` };
+  }
+
+  if (field === "actionStep") {
+    const opener = STEP_OPENERS[seededIndex(`${seed}:s`, STEP_OPENERS.length)];
+    return { kind: "action", text: `${opener}: ${value}` };
+  }
+
+  const opener = QUESTION_OPENERS[seededIndex(`${seed}:q`, QUESTION_OPENERS.length)];
+  return { kind: "question", text: `${opener} ${value}` };
+}
+
+function formatAdaptiveSegments(draft: CoachDraft, seed: string): ChatReplySegment[] {
+  return DRAFT_FIELDS.map((field) => formatAdaptiveSegment(field, draft[field], seed));
+}
+
 function formatAdaptiveReply(draft: CoachDraft, seed: string): string {
-  const reflectionOpener =
-    REFLECTION_OPENERS[seededIndex(`${seed}:r`, REFLECTION_OPENERS.length)];
-  const stepOpener = STEP_OPENERS[seededIndex(`${seed}:s`, STEP_OPENERS.length)];
-  const questionOpener =
-    QUESTION_OPENERS[seededIndex(`${seed}:q`, QUESTION_OPENERS.length)];
-
-  return [
-    `${reflectionOpener} ${draft.reflection}`,
-    `${stepOpener}: ${draft.actionStep}`,
-    `${questionOpener} ${draft.followUpQuestion}`,
-  ].join("\n\n");
+  return formatAdaptiveSegments(draft, seed)
+    .map((segment) => segment.text)
+    .join("\n\n");
 }
 
-function isLowQualityReply(candidate: string, assistantMessages: string[]): boolean {
+export function isLowQualityReply(candidate: string, assistantMessages: string[]): boolean {
   if (GENERIC_PATTERNS.some((pattern) => pattern.test(candidate))) {
     return true;
   }
@@ -635,8 +652,25 @@ function isLowQualityReply(candidate: string, assistantMessages: string[]): bool
   return false;
 }
 
+export function describeActionItems(items: ActionItem[], now = Date.now()): string[] {
+  return items
+    .filter((item) => item.status !== "dropped")
+    .slice(-6)
+    .map((item) => {
+      if (item.status === "done") {
+        return `- ${item.title} (done ${item.completedAt?.slice(0, 10) ?? "recently"})`;
+      }
+
+      if (item.dueAt && Date.parse(item.dueAt) < now) {
+        return `- ${item.title} (OVERDUE since ${item.dueAt.slice(0, 10)})`;
+      }
+
+      return `- ${item.title} (open${item.dueAt ? `, due ${item.dueAt.slice(0, 10)}` : ""})`;
+    });
+}
+
 async function generateDraftWithModel(params: {
-  client: OpenAI;
+  provider: LlmProvider;
   model: string;
   profile: SessionProfile;
   lens: CoachingLens;
@@ -644,10 +678,13 @@ async function generateDraftWithModel(params: {
   rollingSummary: string;
   userFacts: string[];
   openLoops: string[];
+  actionItems: ActionItem[];
+  supportive: boolean;
   inputText: string;
   avoidPhrases: string;
   forceVariation: boolean;
   previousCandidate?: string;
+  onDelta?: (delta: string) => void;
 }): Promise<ReplyGeneration> {
   const contextLines = [
     `Intent: ${params.profile.dominantIntent}`,
@@ -668,6 +705,8 @@ async function generateDraftWithModel(params: {
     params.latestSnapshot
       ? `Mission=${params.latestSnapshot.mission}; Values=${params.latestSnapshot.values.join(", ")}; NextActions=${params.latestSnapshot.nextActions.join(" | ")}`
       : "none",
+    "Tracked actions:",
+    ...(params.actionItems.length > 0 ? describeActionItems(params.actionItems) : ["none"]),
     `Current user message: ${params.inputText}`,
   ];
 
@@ -688,6 +727,9 @@ async function generateDraftWithModel(params: {
     "Never ask generic questions.",
     "Return strict JSON with keys reflection, actionStep, followUpQuestion.",
     "Each field must be concise, specific, and grounded in current user context.",
+    params.supportive
+      ? SUPPORT_MODE_INSTRUCTION
+      : "If a tracked action is overdue or was just completed, check in on it briefly before moving on.",
     params.forceVariation
       ? "This is a retry for similarity. Produce a materially different angle and question."
       : "",
@@ -695,17 +737,17 @@ async function generateDraftWithModel(params: {
     .filter(Boolean)
     .join(" ");
 
-  const completion = await params.client.chat.completions.create({
+  const completion = await params.provider.createJsonCompletion({
     model: params.model,
     temperature: params.forceVariation ? 0.95 : 0.82,
-    response_format: { type: "json_object" },
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: userMessage },
     ],
+    onDelta: params.onDelta,
   });
 
-  const raw = completion.choices[0]?.message?.content ?? "";
+  const raw = completion.content;
   const draft = parseCoachDraft(raw);
   const usage = safeUsageFromCompletion(completion.usage, userMessage, raw);
 
@@ -713,7 +755,7 @@ async function generateDraftWithModel(params: {
 }
 
 async function summarizeSessionState(params: {
-  client: OpenAI;
+  provider: LlmProvider;
   summaryModel: string;
   profile: SessionProfile;
   currentSummary: string;
@@ -739,10 +781,9 @@ async function summarizeSessionState(params: {
   ].join("\n\n");
 
   try {
-    const completion = await params.client.chat.completions.create({
+    const completion = await params.provider.createJsonCompletion({
       model: params.summaryModel,
       temperature: 0.3,
-      response_format: { type: "json_object" },
       messages: [
         {
           role: "system",
@@ -758,7 +799,7 @@ async function summarizeSessionState(params: {
       ],
     });
 
-    const raw = completion.choices[0]?.message?.content ?? "";
+    const raw = completion.content;
     const parsed = extractJson(raw);
 
     if (parsed) {
@@ -846,7 +887,6 @@ function deterministicFallbackReply(params: {
 export async function generateCoachReplyV2(
   params: GenerateCoachReplyV2Params,
 ): Promise<GenerateCoachReplyV2Result> {
-  const client = getOpenAiClient();
   const profile = buildSessionProfile({ history: params.history, text: params.text });
   const topic = pickTopic(params.text, profile);
   const initialLens = chooseLens(
@@ -854,12 +894,16 @@ export async function generateCoachReplyV2(
     params.sessionState.lastLens,
     `${params.text}:${params.sessionState.lastLens}:${profile.stage}:${profile.dominantIntent}`,
   );
-  const fastModel = env.openAiChatModelFast;
-  const primaryModel = env.openAiChatModelPrimary;
+  const fastModel = params.models?.fast ?? env.openAiChatModelFast;
+  const primaryModel = params.models?.primary ?? env.openAiChatModelPrimary;
+  const summaryModel = params.models?.summary ?? env.openAiSummaryModel;
 
   if (isLowInformationInput(params.text) && !params.sessionState.pendingClarifier) {
+    const clarifier = buildClarifierQuestion(topic, profile.dominantIntent);
+    params.stream?.settle([{ kind: "question", text: clarifier }]);
+
     return {
-      reply: buildClarifierQuestion(topic, profile.dominantIntent),
+      reply: clarifier,
       responseKind: "clarify",
       lens: "clarify",
       modelUsed: fastModel,
@@ -882,7 +926,9 @@ export async function generateCoachReplyV2(
     ? `${params.sessionState.clarifierTopic}. ${params.text}`.trim()
     : params.text;
   const score = complexityScore(profile, mergedInput);
-  const selectedModel = score >= 4 ? primaryModel : fastModel;
+  const selectedRole: LlmRole = score >= 4 && !params.forceFastModel ? "primary" : "fast";
+  const selectedModel = selectedRole === "primary" ? primaryModel : fastModel;
+  const provider = getLlmProvider(selectedRole);
   const avoidPhrases = buildAvoidPhraseBlock(profile.assistantMessages);
 
   let retryCount = 0;
@@ -904,11 +950,14 @@ export async function generateCoachReplyV2(
   };
 
   let finalDraft: CoachDraft | null = null;
+  const keyword = profile.keywords[0] ?? topic;
+  const segmentSeed = `${mergedInput}:${initialLens}:${profile.stage}:${profile.dominantIntent}`;
+  const stream = params.stream;
 
-  if (client) {
+  if (provider && !params.forceFallback) {
     try {
       const first = await generateDraftWithModel({
-        client,
+        provider,
         model: selectedModel,
         profile,
         lens: initialLens,
@@ -916,15 +965,26 @@ export async function generateCoachReplyV2(
         rollingSummary: params.sessionState.rollingSummary,
         userFacts: params.sessionState.userFacts,
         openLoops: params.sessionState.openLoops,
+        actionItems: params.actionItems ?? [],
+        supportive: params.supportive ?? false,
         inputText: mergedInput,
         avoidPhrases,
         forceVariation: false,
+        onDelta: stream
+          ? createJsonFieldReader(DRAFT_FIELDS, (field, value) => {
+              const draftField = field as keyof CoachDraft;
+              const text =
+                draftField === "followUpQuestion"
+                  ? normalizeQuestion(value.trim(), profile, keyword)
+                  : value.trim();
+              stream.draft(formatAdaptiveSegment(draftField, text, segmentSeed));
+            })
+          : undefined,
       });
 
       addUsage(selectedModel, first.usage);
 
       if (first.draft) {
-        const keyword = profile.keywords[0] ?? topic;
         first.draft.followUpQuestion = normalizeQuestion(
           first.draft.followUpQuestion,
           profile,
@@ -941,7 +1001,7 @@ export async function generateCoachReplyV2(
         } else {
           retryCount = 1;
           const retry = await generateDraftWithModel({
-            client,
+            provider,
             model: selectedModel,
             profile,
             lens: initialLens,
@@ -949,6 +1009,8 @@ export async function generateCoachReplyV2(
             rollingSummary: params.sessionState.rollingSummary,
             userFacts: params.sessionState.userFacts,
             openLoops: params.sessionState.openLoops,
+            actionItems: params.actionItems ?? [],
+            supportive: params.supportive ?? false,
             inputText: mergedInput,
             avoidPhrases,
             forceVariation: true,
@@ -985,13 +1047,19 @@ export async function generateCoachReplyV2(
       lens: initialLens,
       text: mergedInput,
     });
-    lowQualityFallback = true;
+    lowQualityFallback = !params.forceFallback;
+
+    if (params.supportive) {
+      finalDraft.actionStep = SUPPORTIVE_ACTION_STEP;
+    }
   }
 
-  const reply = formatAdaptiveReply(
-    finalDraft,
-    `${mergedInput}:${initialLens}:${profile.stage}:${profile.dominantIntent}`,
-  );
+  const formatted = formatAdaptiveSegments(finalDraft, segmentSeed);
+  const segments = params.screenSegments ? params.screenSegments(formatted) : formatted;
+  const reply = segments.map((segment) => segment.text).join("\n\n");
+
+  // Settle the stream before the (slower) summary pass so the client can render it early.
+  stream?.settle(segments);
 
   let summaryUpdated = false;
   const nextStatePatch: GenerateCoachReplyV2Result["sessionStatePatch"] = {
@@ -1005,10 +1073,12 @@ export async function generateCoachReplyV2(
     profile.userMessages.length > 0 &&
     (profile.userMessages.length % 4 === 0 || profile.totalChars >= 5000);
 
-  if (client && shouldUpdateSummary) {
+  const summaryProvider = getLlmProvider("summary");
+
+  if (summaryProvider && shouldUpdateSummary && !params.skipSummary) {
     const summary = await summarizeSessionState({
-      client,
-      summaryModel: env.openAiSummaryModel,
+      provider: summaryProvider,
+      summaryModel,
       profile,
       currentSummary: params.sessionState.rollingSummary,
       currentFacts: params.sessionState.userFacts,
@@ -1019,7 +1089,7 @@ export async function generateCoachReplyV2(
     nextStatePatch.rollingSummary = summary.summary.rollingSummary;
     nextStatePatch.userFacts = summary.summary.userFacts;
     nextStatePatch.openLoops = summary.summary.openLoops;
-    addUsage(env.openAiSummaryModel, summary.usage);
+    addUsage(summaryModel, summary.usage);
     summaryUpdated = true;
   }
 
@@ -1,6 +1,13 @@
-import OpenAI from "openai";
-import { env, hasOpenAi } from "@/lib/server/env";
-import type { ChatHistoryMessage, StoredPurposeSnapshot } from "@/types/domain";
+import { estimateCostUsd, safeUsageFromCompletion } from "@/lib/server/ai-v2";
+import { env } from "@/lib/server/env";
+import { getLlmProvider, type LlmCompletion } from "@/lib/server/llm";
+import { createJsonFieldReader, type ReplyStream } from "@/lib/server/reply-stream";
+import { SUPPORT_MODE_INSTRUCTION, SUPPORTIVE_ACTION_STEP } from "@/lib/server/safety";
+import type {
+  ChatHistoryMessage,
+  ChatReplySegment,
+  StoredPurposeSnapshot,
+} from "@/types/domain";
 
 type CoachReply = {
   reflection: string;
@@ -14,6 +21,38 @@ type PurposeSnapshotDraft = {
   nextActions: string[];
 };
 
+/** What a generation cost, in the shape `ai-v2` reports it. */
+export type GenerationUsage = {
+  modelUsed: string;
+  approximateTokens: number;
+  estimatedCostUsd: number;
+};
+
+export type CoachReplyResult = GenerationUsage & { reply: CoachReply };
+
+export type PurposeSnapshotResult = GenerationUsage & { snapshot: PurposeSnapshotDraft };
+
+/** Tallies every completion made for one generation; v1 sticks to a single model. */
+function createUsageMeter(model: string) {
+  let approximateTokens = 0;
+  let estimatedCostUsd = 0;
+
+  return {
+    add(completion: LlmCompletion, input: string) {
+      const usage = safeUsageFromCompletion(completion.usage, input, completion.content);
+      approximateTokens += usage.totalTokens;
+      estimatedCostUsd += estimateCostUsd(model, usage);
+    },
+    total(): GenerationUsage {
+      return {
+        modelUsed: model,
+        approximateTokens,
+        estimatedCostUsd: Number(estimatedCostUsd.toFixed(6)),
+      };
+    },
+  };
+}
+
 type SessionStage = "opening" | "exploring" | "planning" | "accountability";
 
 type DominantIntent =
@@ -128,20 +167,6 @@ const GENERIC_PATTERNS = [
   /meaningful step toward change/i,
 ];
 
-let aiClient: OpenAI | null = null;
-
-function getOpenAiClient(): OpenAI | null {
-  if (!hasOpenAi) {
-    return null;
-  }
-
-  if (!aiClient) {
-    aiClient = new OpenAI({ apiKey: env.openAiApiKey });
-  }
-
-  return aiClient;
-}
-
 function truncate(value: string, size: number): string {
   if (value.length <= size) {
     return value;
@@ -703,21 +728,28 @@ function defaultQuestionForIntent(profile: SessionProfile, userText: string): st
   return choices[seededIndex(`${userText}:${keyword}:${profile.stage}`, choices.length)];
 }
 
-function postProcessCoachReply(
-  reply: CoachReply,
+function postProcessCoachField(
+  field: keyof CoachReply,
+  value: string,
   profile: SessionProfile,
   userText: string,
-): CoachReply {
+): string {
   const keyword = profile.topKeywords[0] ?? tokenizeKeywords(userText)[0] ?? "your goal";
 
-  const reflection = truncate(reply.reflection.trim(), 240);
-  let actionStep = truncate(reply.actionStep.trim(), 280);
-  let deeperQuestion = truncate(reply.deeperQuestion.trim(), 220);
+  if (field === "reflection") {
+    return truncate(value.trim(), 240);
+  }
+
+  if (field === "actionStep") {
+    const actionStep = truncate(value.trim(), 280);
 
-  if (!containsKeyword(actionStep, keyword)) {
-    actionStep = `${actionStep} Start with one concrete move on ${keyword} within 24 hours.`;
+    return containsKeyword(actionStep, keyword)
+      ? actionStep
+      : `${actionStep} Start with one concrete move on ${keyword} within 24 hours.`;
   }
 
+  let deeperQuestion = truncate(value.trim(), 220);
+
   if (!deeperQuestion.endsWith("?")) {
     deeperQuestion = `${deeperQuestion.replace(/[.]+$/, "")}?`;
   }
@@ -726,10 +758,23 @@ function postProcessCoachReply(
     deeperQuestion = defaultQuestionForIntent(profile, userText);
   }
 
+  return deeperQuestion;
+}
+
+function postProcessCoachReply(
+  reply: CoachReply,
+  profile: SessionProfile,
+  userText: string,
+): CoachReply {
   return {
-    reflection,
-    actionStep,
-    deeperQuestion,
+    reflection: postProcessCoachField("reflection", reply.reflection, profile, userText),
+    actionStep: postProcessCoachField("actionStep", reply.actionStep, profile, userText),
+    deeperQuestion: postProcessCoachField(
+      "deeperQuestion",
+      reply.deeperQuestion,
+      profile,
+      userText,
+    ),
   };
 }
 
@@ -822,25 +867,62 @@ function fallbackSnapshot(messages: ChatHistoryMessage[]): PurposeSnapshotDraft
   };
 }
 
+const COACH_REPLY_SEGMENTS: Array<{
+  field: keyof CoachReply;
+  kind: ChatReplySegment["kind"];
+  label: string;
+}> = [
+  { field: "reflection", kind: "reflection", label: "Reflection" },
+  { field: "actionStep", kind: "action", label: "Action step" },
+  { field: "deeperQuestion", kind: "question", label: "Deeper question" },
+];
+
+function renderCoachField(field: keyof CoachReply, value: string): ChatReplySegment {
+  const { kind, label } =
+    COACH_REPLY_SEGMENTS.find((entry) => entry.field === field) ?? COACH_REPLY_SEGMENTS[0];
+  return { kind, text: `${label}: ${value}` };
+}
+
+export function renderCoachReplySegments(reply: CoachReply): ChatReplySegment[] {
+  return COACH_REPLY_SEGMENTS.map(({ field }) => renderCoachField(field, reply[field]));
+}
+
 export function renderCoachReply(reply: CoachReply): string {
-  return [
-    `Reflection: ${reply.reflection}`,
-    `Action step: ${reply.actionStep}`,
-    `Deeper question: ${reply.deeperQuestion}`,
-  ].join("\n\n");
+  return renderCoachReplySegments(reply)
+    .map((segment) => segment.text)
+    .join("\n\n");
 }
 
 export async function generateCoachReply(params: {
   text: string;
   history: ChatHistoryMessage[];
   latestSnapshot: StoredPurposeSnapshot | null;
-}): Promise<CoachReply> {
-  const client = getOpenAiClient();
+  /** Provider role for the turn; `fast` also defaults the model to `OPENAI_CHAT_MODEL_FAST`. */
+  role?: "primary" | "fast";
+  model?: string;
+  supportive?: boolean;
+  /** Skips the model and returns the deterministic fallback (spend breaker). */
+  forceFallback?: boolean;
+  /** Receives each section of the first draft as the model finishes writing it. */
+  stream?: ReplyStream;
+}): Promise<CoachReplyResult> {
+  const role = params.role ?? "primary";
+  const provider = getLlmProvider(role);
+  const model = params.model ?? (role === "fast" ? env.openAiChatModelFast : env.openAiModel);
+  const meter = createUsageMeter(model);
   const profile = buildSessionProfile(params.history, params.text);
   const lens = chooseCoachingLens(profile, params.text);
+  const supportInstruction = params.supportive ? SUPPORT_MODE_INSTRUCTION : "";
+  const fallback = (): CoachReplyResult => {
+    const reply = fallbackCoachReply(params.text, params.history, profile);
+    return {
+      reply: params.supportive ? { ...reply, actionStep: SUPPORTIVE_ACTION_STEP } : reply,
+      ...meter.total(),
+    };
+  };
 
-  if (!client) {
-    return fallbackCoachReply(params.text, params.history, profile);
+  if (!provider || params.forceFallback) {
+    return fallback();
   }
 
   const avoidPhraseBlock = buildAvoidPhraseBlock(profile);
@@ -873,15 +955,32 @@ export async function generateCoachReply(params: {
     "Avoid generic questions like 'What would progress look like by next week?'.",
     "Output strict JSON only with keys: reflection, actionStep, deeperQuestion.",
     "Each field must be one to two sentences and under 70 words.",
-  ].join(" ");
+    supportInstruction,
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   let candidate: CoachReply | null = null;
+  const stream = params.stream;
 
   try {
-    const completion = await client.chat.completions.create({
-      model: env.openAiModel,
+    const completion = await provider.createJsonCompletion({
+      model,
       temperature: 0.85,
-      response_format: { type: "json_object" },
+      onDelta: stream
+        ? createJsonFieldReader(
+            COACH_REPLY_SEGMENTS.map(({ field }) => field),
+            (field, value) => {
+              const coachField = field as keyof CoachReply;
+              stream.draft(
+                renderCoachField(
+                  coachField,
+                  postProcessCoachField(coachField, value, profile, params.text),
+                ),
+              );
+            },
+          )
+        : undefined,
       messages: [
         {
           role: "system",
@@ -894,14 +993,16 @@ export async function generateCoachReply(params: {
       ],
     });
 
-    const raw = completion.choices[0]?.message?.content ?? "";
+    meter.add(completion, `${jsonPrompt}\n${baseUserMessage}`);
+
+    const raw = completion.content;
     const parsed =
       normalizeCoachReply(extractJsonObject(raw)) ?? parseLabeledCoachReply(raw);
 
     if (parsed) {
       candidate = postProcessCoachReply(parsed, profile, params.text);
       if (!isReplyTooSimilarToRecent(candidate, params.history)) {
-        return candidate;
+        return { reply: candidate, ...meter.total() };
       }
     }
   } catch (error) {
@@ -918,7 +1019,10 @@ export async function generateCoachReply(params: {
     `Coaching lens for this turn: ${lensInstruction(lens)}`,
     "Your reply must be substantially different from recent assistant wording.",
     "Use one specific keyword from the user context.",
-  ].join(" ");
+    supportInstruction,
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   const variationUserMessage = [
     baseUserMessage,
@@ -930,8 +1034,8 @@ export async function generateCoachReply(params: {
     .join("\n");
 
   try {
-    const completion = await client.chat.completions.create({
-      model: env.openAiModel,
+    const completion = await provider.createCompletion({
+      model,
       temperature: 0.95,
       messages: [
         {
@@ -945,31 +1049,44 @@ export async function generateCoachReply(params: {
       ],
     });
 
-    const raw = completion.choices[0]?.message?.content ?? "";
+    meter.add(completion, `${variationPrompt}\n${variationUserMessage}`);
+
+    const raw = completion.content;
     const parsed =
       parseLabeledCoachReply(raw) ?? normalizeCoachReply(extractJsonObject(raw));
 
     if (parsed) {
       const normalized = postProcessCoachReply(parsed, profile, params.text);
       if (!isReplyTooSimilarToRecent(normalized, params.history)) {
-        return normalized;
+        return { reply: normalized, ...meter.total() };
       }
     }
   } catch (error) {
     console.error("[Soulaware] variation coach response failed", error);
   }
 
-  return fallbackCoachReply(params.text, params.history, profile);
+  return fallback();
 }
 
 export async function generatePurposeSnapshot(params: {
   history: ChatHistoryMessage[];
   latestSnapshot: StoredPurposeSnapshot | null;
-}): Promise<PurposeSnapshotDraft> {
-  const client = getOpenAiClient();
-
-  if (!client) {
-    return fallbackSnapshot(params.history);
+  /** Provider role; `fast` also uses `OPENAI_CHAT_MODEL_FAST`. */
+  role?: "primary" | "fast";
+  /** Skips the model and builds the deterministic snapshot (spend breaker). */
+  forceFallback?: boolean;
+}): Promise<PurposeSnapshotResult> {
+  const role = params.role ?? "primary";
+  const provider = getLlmProvider(role);
+  const model = role === "fast" ? env.openAiChatModelFast : env.openAiModel;
+  const meter = createUsageMeter(model);
+  const fallback = (): PurposeSnapshotResult => ({
+    snapshot: fallbackSnapshot(params.history),
+    ...meter.total(),
+  });
+
+  if (!provider || params.forceFallback) {
+    return fallback();
   }
 
   const prompt = [
@@ -980,12 +1097,23 @@ export async function generatePurposeSnapshot(params: {
     "nextActions must contain exactly 3 concrete actions that can be done in 7 days.",
     "Do not include markdown.",
   ].join(" ");
+  const userMessage = [
+    "Conversation context:",
+    params.history
+      .slice(-12)
+      .map((message) => `${message.role.toUpperCase()}: ${truncate(message.content, 220)}`)
+      .join("\n"),
+    "",
+    "Latest previous snapshot:",
+    formatSnapshotContext(params.latestSnapshot),
+    "",
+    "Generate the updated purpose snapshot now.",
+  ].join("\n");
 
   try {
-    const completion = await client.chat.completions.create({
-      model: env.openAiModel,
+    const completion = await provider.createJsonCompletion({
+      model,
       temperature: 0.55,
-      response_format: { type: "json_object" },
       messages: [
         {
           role: "system",
@@ -993,38 +1121,31 @@ export async function generatePurposeSnapshot(params: {
         },
         {
           role: "user",
-          content: [
-            "Conversation context:",
-            params.history
-              .slice(-12)
-              .map((message) => `${message.role.toUpperCase()}: ${truncate(message.content, 220)}`)
-              .join("\n"),
-            "",
-            "Latest previous snapshot:",
-            formatSnapshotContext(params.latestSnapshot),
-            "",
-            "Generate the updated purpose snapshot now.",
-          ].join("\n"),
+          content: userMessage,
         },
       ],
     });
 
-    const raw = completion.choices[0]?.message?.content ?? "";
+    meter.add(completion, `${prompt}\n${userMessage}`);
+
+    const raw = completion.content;
     const parsed = normalizeSnapshot(extractJsonObject(raw));
 
     if (parsed) {
       return {
-        mission: parsed.mission,
-        values: fillValues(parsed.values),
-        nextActions: fillActions(parsed.nextActions),
+        snapshot: {
+          mission: parsed.mission,
+          values: fillValues(parsed.values),
+          nextActions: fillActions(parsed.nextActions),
+        },
+        ...meter.total(),
       };
     }
   } catch (error) {
     console.error("[Soulaware] Purpose snapshot generation failed", error);
-    return fallbackSnapshot(params.history);
   }
 
-  return fallbackSnapshot(params.history);
+  return fallback();
 }
 
 export {
@@ -0,0 +1,159 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/server/env";
+import { guestCookieName, readGuestId } from "@/lib/server/guest";
+
+const ACCOUNT_COOKIE_NAME = "soulaware_account";
+const ACCOUNT_SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+const DEV_AUTH_SECRET = "soulaware-dev-auth-secret";
+
+export const accountCookieName = ACCOUNT_COOKIE_NAME;
+
+export const MAGIC_LINK_TTL_MINUTES = 15;
+
+function getAuthSecret(): string {
+  if (env.authSecret) {
+    return env.authSecret;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SOULAWARE_AUTH_SECRET is required for accounts in production.");
+  }
+
+  return DEV_AUTH_SECRET;
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", getAuthSecret()).update(value).digest("base64url");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function createMagicLinkToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+/** Owner key stored in `guest_id` columns for rows that belong to an account. */
+export function accountOwnerId(accountId: string): string {
+  return `user:${accountId}`;
+}
+
+export function createAccountSessionToken(accountId: string, now = Date.now()): string {
+  const expiresAt = now + ACCOUNT_SESSION_TTL_SECONDS * 1000;
+  const payload = `${accountId}.${expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyAccountSessionToken(token: string, now = Date.now()): string | null {
+  const [accountId, expiresAtRaw, signature] = token.split(".");
+
+  if (!accountId || !expiresAtRaw || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${accountId}.${expiresAtRaw}`));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  return Number(expiresAtRaw) > now ? accountId : null;
+}
+
+export type ReminderLinkAction = "confirm" | "stop";
+
+const REMINDER_LINK_ACTIONS: ReminderLinkAction[] = ["confirm", "stop"];
+
+/**
+ * Signs a link from a reminder email. The address is part of the signature, so links sent
+ * to an earlier address stop working once the reminder points somewhere else.
+ */
+export function createReminderLinkToken(
+  reminderId: string,
+  action: ReminderLinkAction,
+  destination: string,
+): string {
+  return `${reminderId}.${action}.${sign(`reminder.${reminderId}.${action}.${destination}`)}`;
+}
+
+/** Reads a reminder link token without checking it; pair with `verifyReminderLinkToken`. */
+export function readReminderLinkToken(
+  token: string,
+): { reminderId: string; action: ReminderLinkAction } | null {
+  const [reminderId, action, signature] = token.split(".");
+
+  if (!reminderId || !signature || !REMINDER_LINK_ACTIONS.includes(action as ReminderLinkAction)) {
+    return null;
+  }
+
+  return { reminderId, action: action as ReminderLinkAction };
+}
+
+export function verifyReminderLinkToken(token: string, destination: string): boolean {
+  const link = readReminderLinkToken(token);
+
+  if (!link) {
+    return false;
+  }
+
+  const expected = Buffer.from(createReminderLinkToken(link.reminderId, link.action, destination));
+  const received = Buffer.from(token);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+type CookieReader = {
+  get(name: string): { value: string } | undefined;
+};
+
+function accountIdFromCookies(cookieStore: CookieReader): string | null {
+  const token = cookieStore.get(ACCOUNT_COOKIE_NAME)?.value;
+  return token ? verifyAccountSessionToken(token) : null;
+}
+
+export function readAccountId(request: NextRequest): string | null {
+  return accountIdFromCookies(request.cookies);
+}
+
+/** Signed-in accounts own their data by account id; everyone else by guest cookie. */
+export function readOwnerId(request: NextRequest): string {
+  const accountId = readAccountId(request);
+  return accountId ? accountOwnerId(accountId) : readGuestId(request);
+}
+
+/** Same resolution as `readOwnerId` for server components reading `cookies()`. */
+export function ownerIdFromCookies(cookieStore: CookieReader): string | null {
+  const accountId = accountIdFromCookies(cookieStore);
+
+  return accountId
+    ? accountOwnerId(accountId)
+    : (cookieStore.get(guestCookieName)?.value ?? null);
+}
+
+export function setAccountCookie(response: NextResponse, accountId: string) {
+  response.cookies.set({
+    name: ACCOUNT_COOKIE_NAME,
+    value: createAccountSessionToken(accountId),
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: ACCOUNT_SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearAccountCookie(response: NextResponse) {
+  response.cookies.set({
+    name: ACCOUNT_COOKIE_NAME,
+    value: "",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 0,
+  });
+}
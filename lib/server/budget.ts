@@ -0,0 +1,142 @@
+import { env } from "@/lib/server/env";
+import { getAnalyticsEventsSince, listAnalyticsEventsForGuest } from "@/lib/server/repository";
+import type { AnalyticsEventName, ChatBudgetStatus } from "@/types/domain";
+
+/**
+ * `ok` routes normally, `downgrade` pins the guest to the fast model, and `exhausted`
+ * skips generation until the next UTC day.
+ */
+export type GuestBudget = {
+  status: ChatBudgetStatus;
+  spentUsd: number;
+  spentTokens: number;
+  /** 0 when that cap is disabled. */
+  limitUsd: number;
+  limitTokens: number;
+  /** Share of the tighter cap already used. */
+  usedFraction: number;
+  resetsAt: string;
+};
+
+/**
+ * Written only by the server after a model call, never accepted from `/api/analytics`, so
+ * budgets and the spend breaker cannot be pushed around by forged client events.
+ */
+export const MODEL_USAGE_EVENT = "model_usage_recorded" satisfies AnalyticsEventName;
+
+export const BUDGET_EXHAUSTED_REPLY =
+  "You've reached today's conversation limit, so I need to pause here. Everything you've shared is saved. Come back tomorrow and we'll pick up right where you left off.";
+
+export function getUtcDayStartIso(now = new Date()): string {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  ).toISOString();
+}
+
+export function getNextUtcDayStartIso(now = new Date()): string {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+  ).toISOString();
+}
+
+/**
+ * Uses the cost the engine recorded, else prices `approximateTokens` like `ai-v2` does.
+ * Never negative, so a bad row cannot cancel out real spend.
+ */
+export function estimateCostFromMetadata(metadata: Record<string, unknown>): number {
+  const explicit = metadata.estimatedCostUsd;
+
+  if (typeof explicit === "number" && Number.isFinite(explicit)) {
+    return Math.max(0, explicit);
+  }
+
+  const model = typeof metadata.modelUsed === "string" ? metadata.modelUsed : "";
+  const tokens = readTokens(metadata);
+
+  if (!model || tokens <= 0) {
+    return 0;
+  }
+
+  const promptTokens = tokens * 0.7;
+  const completionTokens = tokens * 0.3;
+
+  const pricing = model.includes("mini")
+    ? { promptPer1k: 0.0008, completionPer1k: 0.0032 }
+    : { promptPer1k: 0.005, completionPer1k: 0.015 };
+
+  return Number(
+    (
+      (promptTokens / 1000) * pricing.promptPer1k +
+      (completionTokens / 1000) * pricing.completionPer1k
+    ).toFixed(6),
+  );
+}
+
+/**
+ * Totals every guest's server-recorded model spend since `sinceIso`. The spend breaker and
+ * the daily cost alert both read it, so they always agree on the day's spend.
+ */
+export async function loadModelSpendSince(
+  sinceIso: string,
+): Promise<{ spentUsd: number; events: number }> {
+  const events = await getAnalyticsEventsSince(sinceIso, { eventName: MODEL_USAGE_EVENT });
+  const spentUsd = events.reduce((sum, event) => sum + estimateCostFromMetadata(event.metadata), 0);
+
+  return { spentUsd, events: events.length };
+}
+
+function readTokens(metadata: Record<string, unknown>): number {
+  const tokens = metadata.approximateTokens;
+  return typeof tokens === "number" && Number.isFinite(tokens) ? Math.max(0, tokens) : 0;
+}
+
+function readLimit(value: number): number {
+  return Number.isFinite(value) ? Math.max(0, value) : 0;
+}
+
+/**
+ * Totals today's `model_usage_recorded` usage for the guest against
+ * `SOULAWARE_GUEST_DAILY_BUDGET_USD` and `SOULAWARE_GUEST_DAILY_TOKEN_BUDGET`.
+ * The check runs before generation, so the turn that crosses a cap still completes.
+ */
+export async function getGuestBudget(guestId: string, now = new Date()): Promise<GuestBudget> {
+  const limitUsd = readLimit(env.soulawareGuestDailyBudgetUsd);
+  const limitTokens = Math.floor(readLimit(env.soulawareGuestDailyTokenBudget));
+  const resetsAt = getNextUtcDayStartIso(now);
+
+  if (limitUsd <= 0 && limitTokens <= 0) {
+    return {
+      status: "ok",
+      spentUsd: 0,
+      spentTokens: 0,
+      limitUsd,
+      limitTokens,
+      usedFraction: 0,
+      resetsAt,
+    };
+  }
+
+  const events = await listAnalyticsEventsForGuest(guestId, {
+    since: getUtcDayStartIso(now),
+    eventName: MODEL_USAGE_EVENT,
+  });
+  const spentUsd = Number(
+    events.reduce((sum, event) => sum + estimateCostFromMetadata(event.metadata), 0).toFixed(6),
+  );
+  const spentTokens = events.reduce((sum, event) => sum + readTokens(event.metadata), 0);
+  const usedFraction = Math.max(
+    limitUsd > 0 ? spentUsd / limitUsd : 0,
+    limitTokens > 0 ? spentTokens / limitTokens : 0,
+  );
+  const downgradeAt = readLimit(env.soulawareGuestBudgetDowngradeAt) || 0.8;
+
+  return {
+    status: usedFraction >= 1 ? "exhausted" : usedFraction >= downgradeAt ? "downgrade" : "ok",
+    spentUsd,
+    spentTokens,
+    limitUsd,
+    limitTokens,
+    usedFraction: Number(usedFraction.toFixed(4)),
+    resetsAt,
+  };
+}
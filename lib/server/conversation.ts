@@ -0,0 +1,27 @@
+import type { Conversation, GuestSession } from "@/types/domain";
+
+const MAX_TITLE_LENGTH = 60;
+
+export function toConversation(session: GuestSession): Conversation {
+  return {
+    id: session.id,
+    title: session.title,
+    archived: Boolean(session.archivedAt),
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+export function normalizeConversationTitle(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const title = value.replace(/\s+/g, " ").trim();
+
+  if (!title) {
+    return null;
+  }
+
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+}
@@ -0,0 +1,259 @@
+import type { NextResponse } from "next/server";
+import type {
+  CrisisHotline,
+  CrisisRegionOption,
+  CrisisRegionSource,
+  CrisisResources,
+} from "@/types/domain";
+
+type CrisisRegion = {
+  name: string;
+  emergencyNumber: string;
+  hotlines: CrisisHotline[];
+};
+
+type HeaderReader = {
+  get(name: string): string | null;
+};
+
+type CookieReader = {
+  get(name: string): { value: string } | undefined;
+};
+
+const REGION_COOKIE_NAME = "soulaware_crisis_region";
+const REGION_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+export const crisisRegionCookieName = REGION_COOKIE_NAME;
+
+export const INTERNATIONAL_DIRECTORY_URL = "https://findahelpline.com";
+
+/** Geo headers set by the hosting edge, checked in order. */
+const GEO_COUNTRY_HEADERS = ["x-vercel-ip-country", "cf-ipcountry", "x-country-code"];
+
+/** Placeholder codes edges send when they cannot place a request. */
+const UNKNOWN_COUNTRY_CODES = new Set(["XX", "ZZ", "EU", "AP"]);
+
+const COUNTRY_ALIASES: Record<string, string> = { UK: "GB" };
+
+function hotline(
+  name: string,
+  contact: { phone?: string; textTo?: string; textKeyword?: string },
+  hours = "24/7",
+): CrisisHotline {
+  return {
+    name,
+    phone: contact.phone ?? null,
+    textTo: contact.textTo ?? null,
+    textKeyword: contact.textKeyword ?? null,
+    hours,
+  };
+}
+
+const CRISIS_REGIONS: Record<string, CrisisRegion> = {
+  US: {
+    name: "United States",
+    emergencyNumber: "911",
+    hotlines: [
+      hotline("988 Suicide & Crisis Lifeline", { phone: "988", textTo: "988" }),
+      hotline("Crisis Text Line", { textTo: "741741", textKeyword: "HOME" }),
+    ],
+  },
+  CA: {
+    name: "Canada",
+    emergencyNumber: "911",
+    hotlines: [hotline("9-8-8 Suicide Crisis Helpline", { phone: "988", textTo: "988" })],
+  },
+  GB: {
+    name: "United Kingdom",
+    emergencyNumber: "999",
+    hotlines: [
+      hotline("Samaritans", { phone: "116 123" }),
+      hotline("Shout", { textTo: "85258", textKeyword: "SHOUT" }),
+    ],
+  },
+  IE: {
+    name: "Ireland",
+    emergencyNumber: "112",
+    hotlines: [
+      hotline("Samaritans", { phone: "116 123" }),
+      hotline("Text About It", { textTo: "50808", textKeyword: "HELLO" }),
+    ],
+  },
+  AU: {
+    name: "Australia",
+    emergencyNumber: "000",
+    hotlines: [hotline("Lifeline", { phone: "13 11 14", textTo: "0477 13 11 14" })],
+  },
+  NZ: {
+    name: "New Zealand",
+    emergencyNumber: "111",
+    hotlines: [hotline("1737, Need to talk?", { phone: "1737", textTo: "1737" })],
+  },
+  DE: {
+    name: "Germany",
+    emergencyNumber: "112",
+    hotlines: [hotline("TelefonSeelsorge", { phone: "0800 111 0 111" })],
+  },
+  FR: {
+    name: "France",
+    emergencyNumber: "112",
+    hotlines: [hotline("3114 Suicide Prevention Line", { phone: "3114" })],
+  },
+  ES: {
+    name: "Spain",
+    emergencyNumber: "112",
+    hotlines: [hotline("Línea 024", { phone: "024" })],
+  },
+  IT: {
+    name: "Italy",
+    emergencyNumber: "112",
+    hotlines: [hotline("Telefono Amico Italia", { phone: "02 2327 2327" }, "daily 10:00–24:00")],
+  },
+  NL: {
+    name: "Netherlands",
+    emergencyNumber: "112",
+    hotlines: [hotline("113 Suicide Prevention", { phone: "113" })],
+  },
+};
+
+export function listCrisisRegions(): CrisisRegionOption[] {
+  return Object.entries(CRISIS_REGIONS)
+    .map(([code, region]) => ({ code, name: region.name }))
+    .sort((left, right) => left.name.localeCompare(right.name));
+}
+
+/** Uppercases and validates an ISO 3166-1 alpha-2 code; returns null for anything else. */
+export function normalizeCountryCode(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase() ?? "";
+  const resolved = COUNTRY_ALIASES[code] ?? code;
+
+  return /^[A-Z]{2}$/.test(resolved) && !UNKNOWN_COUNTRY_CODES.has(resolved) ? resolved : null;
+}
+
+export function isSupportedCrisisRegion(country: string | null): boolean {
+  return country !== null && country in CRISIS_REGIONS;
+}
+
+/**
+ * Picks the region subtag of the most preferred `Accept-Language` entry that has one,
+ * e.g. `en-GB,en;q=0.9` → `GB`. Bare languages (`de`, `fr`) do not name a country.
+ */
+export function countryFromAcceptLanguage(header: string | null): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const entries = header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params
+        .map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find(Boolean);
+
+      return { tag: tag.trim(), quality: quality ? Number(quality) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.quality > 0)
+    .sort((left, right) => right.quality - left.quality || left.index - right.index);
+
+  for (const entry of entries) {
+    const region = entry.tag
+      .split(/[-_]/)
+      .slice(1)
+      .find((subtag) => /^[a-z]{2}$/i.test(subtag));
+    const country = normalizeCountryCode(region);
+
+    if (country) {
+      return country;
+    }
+  }
+
+  return null;
+}
+
+/** Explicit setting wins, then the edge geo header, then the browser language. */
+export function resolveCrisisCountry(
+  headers: HeaderReader,
+  cookieStore: CookieReader,
+): { country: string | null; source: CrisisRegionSource } {
+  const setting = normalizeCountryCode(cookieStore.get(REGION_COOKIE_NAME)?.value);
+
+  if (setting) {
+    return { country: setting, source: "setting" };
+  }
+
+  for (const header of GEO_COUNTRY_HEADERS) {
+    const geo = normalizeCountryCode(headers.get(header));
+
+    if (geo) {
+      return { country: geo, source: "geo" };
+    }
+  }
+
+  const language = countryFromAcceptLanguage(headers.get("accept-language"));
+
+  return language ? { country: language, source: "language" } : { country: null, source: "fallback" };
+}
+
+/** Countries without a registry entry get the international directory. */
+export function getCrisisResources(
+  country: string | null,
+  source: CrisisRegionSource = "fallback",
+): CrisisResources {
+  const region = country ? CRISIS_REGIONS[country] : undefined;
+
+  if (!country || !region) {
+    return {
+      country: null,
+      countryName: null,
+      emergencyNumber: null,
+      hotlines: [],
+      directoryUrl: INTERNATIONAL_DIRECTORY_URL,
+      source: country ? source : "fallback",
+    };
+  }
+
+  return {
+    country,
+    countryName: region.name,
+    emergencyNumber: region.emergencyNumber,
+    hotlines: region.hotlines,
+    directoryUrl: INTERNATIONAL_DIRECTORY_URL,
+    source,
+  };
+}
+
+export function resolveCrisisResources(
+  headers: HeaderReader,
+  cookieStore: CookieReader,
+): CrisisResources {
+  const { country, source } = resolveCrisisCountry(headers, cookieStore);
+  return getCrisisResources(country, source);
+}
+
+/** Markdown contact line, e.g. `call or text **988**` or `text **SHOUT** to **85258**`. */
+export function describeHotlineContact(entry: CrisisHotline): string {
+  const text = entry.textTo
+    ? entry.textKeyword
+      ? `text **${entry.textKeyword}** to **${entry.textTo}**`
+      : `text **${entry.textTo}**`
+    : null;
+
+  if (entry.phone && entry.textTo === entry.phone && !entry.textKeyword) {
+    return `call or text **${entry.phone}**`;
+  }
+
+  return [entry.phone ? `call **${entry.phone}**` : null, text].filter(Boolean).join(" or ");
+}
+
+export function setCrisisRegionCookie(response: NextResponse, country: string | null) {
+  response.cookies.set({
+    name: REGION_COOKIE_NAME,
+    value: country ?? "",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: country ? REGION_COOKIE_MAX_AGE_SECONDS : 0,
+  });
+}
@@ -0,0 +1,8 @@
+import type { NextRequest } from "next/server";
+import { env } from "@/lib/server/env";
+import { hasSharedSecret } from "@/lib/server/shared-secret";
+
+/** Accepts `x-cron-secret: <CRON_SECRET>` or `Authorization: Bearer <CRON_SECRET>`. */
+export function isCronAuthorized(request: NextRequest): boolean {
+  return hasSharedSecret(request, "x-cron-secret", env.cronSecret);
+}
@@ -0,0 +1,332 @@
+import {
+  getSessionState,
+  listActionItems,
+  listAnalyticsEventsForGuest,
+  listMessages,
+  listSafetyEventsForSession,
+  listSessions,
+  listSnapshotsForSession,
+} from "@/lib/server/repository";
+import type {
+  ActionItemStatus,
+  CoachingLens,
+  DataExportArchive,
+  DataExportConversation,
+} from "@/types/domain";
+
+const MAX_IMPORT_CONVERSATIONS = 200;
+const MAX_IMPORT_MESSAGES = 20_000;
+
+const ACTION_ITEM_STATUSES = new Set<string>(["open", "done", "dropped"]);
+const COACHING_LENSES = new Set<string>([
+  "clarify",
+  "blocker",
+  "values",
+  "experiment",
+  "decision",
+  "accountability",
+]);
+
+export async function buildExportArchive(guestId: string): Promise<DataExportArchive> {
+  const sessions = await listSessions(guestId, { includeArchived: true });
+
+  const conversations = await Promise.all(
+    [...sessions].reverse().map(async (session): Promise<DataExportConversation> => {
+      const [messages, snapshots, state, safetyEvents, actionItems] = await Promise.all([
+        listMessages(session.id),
+        listSnapshotsForSession(session.id),
+        getSessionState(session.id),
+        listSafetyEventsForSession(session.id),
+        listActionItems(session.id),
+      ]);
+
+      return {
+        id: session.id,
+        title: session.title,
+        archivedAt: session.archivedAt,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messages,
+        snapshots: snapshots.map((snapshot) => ({
+          id: snapshot.id,
+          mission: snapshot.mission,
+          values: snapshot.values,
+          nextActions: snapshot.nextActions,
+          createdAt: snapshot.createdAt,
+        })),
+        state: state
+          ? {
+              rollingSummary: state.rollingSummary,
+              userFacts: state.userFacts,
+              openLoops: state.openLoops,
+              pendingClarifier: state.pendingClarifier,
+              clarifierTopic: state.clarifierTopic,
+              lastLens: state.lastLens,
+              lastModel: state.lastModel,
+              riskTrajectory: state.riskTrajectory,
+              postCrisisTurnsRemaining: state.postCrisisTurnsRemaining,
+              updatedAt: state.updatedAt,
+            }
+          : null,
+        safetyEvents,
+        actionItems: actionItems.map((item) => ({
+          snapshotId: item.snapshotId,
+          title: item.title,
+          status: item.status,
+          dueAt: item.dueAt,
+          completedAt: item.completedAt,
+          notes: item.notes,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+        })),
+      };
+    }),
+  );
+
+  const analyticsEvents = await listAnalyticsEventsForGuest(guestId);
+
+  return {
+    format: "soulaware-export",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    conversations,
+    analyticsEvents: analyticsEvents.map(({ eventName, metadata, createdAt }) => ({
+      eventName,
+      metadata,
+      createdAt,
+    })),
+  };
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().replace("T", " ").slice(0, 16);
+}
+
+export function renderExportMarkdown(archive: DataExportArchive): string {
+  const lines = [
+    "# SoulAware data export",
+    "",
+    `Exported ${formatDate(archive.exportedAt)} UTC · ${archive.conversations.length} conversation(s)`,
+  ];
+
+  for (const conversation of archive.conversations) {
+    lines.push(
+      "",
+      `## ${conversation.title}${conversation.archivedAt ? " (archived)" : ""}`,
+      "",
+      `Started ${formatDate(conversation.createdAt)} UTC, last active ${formatDate(conversation.updatedAt)} UTC`,
+    );
+
+    for (const message of conversation.messages) {
+      const speaker = message.role === "user" ? "You" : "SoulAware";
+      lines.push("", `**${speaker}** · ${formatDate(message.createdAt)}`, "", message.content);
+    }
+
+    if (conversation.snapshots.length > 0) {
+      lines.push("", "### Purpose snapshots");
+
+      for (const snapshot of conversation.snapshots) {
+        lines.push(
+          "",
+          `- ${formatDate(snapshot.createdAt)}: ${snapshot.mission}`,
+          `  - Values: ${snapshot.values.join(", ")}`,
+          ...snapshot.nextActions.map((action) => `  - Next: ${action}`),
+        );
+      }
+    }
+
+    if (conversation.actionItems.length > 0) {
+      lines.push("", "### Action items", "");
+
+      for (const item of conversation.actionItems) {
+        const box = item.status === "done" ? "[x]" : "[ ]";
+        const suffix = item.status === "dropped" ? " (dropped)" : "";
+        lines.push(`- ${box} ${item.title}${suffix}`);
+
+        if (item.notes) {
+          lines.push(`  - Notes: ${item.notes}`);
+        }
+      }
+    }
+
+    if (conversation.state?.rollingSummary) {
+      lines.push("", "### Coaching memory", "", conversation.state.rollingSummary);
+
+      for (const fact of conversation.state.userFacts) {
+        lines.push(`- Fact: ${fact}`);
+      }
+
+      for (const loop of conversation.state.openLoops) {
+        lines.push(`- Open loop: ${loop}`);
+      }
+    }
+
+    if (conversation.safetyEvents.length > 0) {
+      lines.push("", "### Safety events", "");
+
+      for (const event of conversation.safetyEvents) {
+        lines.push(`- ${formatDate(event.createdAt)}: ${event.level} (${event.action})`);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown, field: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`Invalid export archive: ${field} must be a string.`);
+  }
+
+  return value;
+}
+
+function asDate(value: unknown, field: string): string {
+  const time = typeof value === "string" ? Date.parse(value) : Number.NaN;
+
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid export archive: ${field} must be a date.`);
+  }
+
+  return new Date(time).toISOString();
+}
+
+function optionalDate(value: unknown, field: string): string | null {
+  return value === null || value === undefined || value === "" ? null : asDate(value, field);
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function parseConversation(value: unknown, index: number): DataExportConversation {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid export archive: conversation ${index + 1} is malformed.`);
+  }
+
+  const field = (name: string) => `conversations[${index}].${name}`;
+  const messages = Array.isArray(value.messages) ? value.messages : [];
+  const snapshots = Array.isArray(value.snapshots) ? value.snapshots : [];
+  const state = isRecord(value.state) ? value.state : null;
+  const actionItems = Array.isArray(value.actionItems) ? value.actionItems : [];
+  const optionalString = (entry: unknown) => (typeof entry === "string" ? entry : null);
+
+  return {
+    id: asString(value.id, field("id")),
+    title: asString(value.title, field("title")).slice(0, 120) || "Imported conversation",
+    archivedAt: optionalDate(value.archivedAt, field("archivedAt")),
+    createdAt: asDate(value.createdAt, field("createdAt")),
+    updatedAt: asDate(value.updatedAt, field("updatedAt")),
+    messages: messages.map((message, messageIndex) => {
+      if (
+        !isRecord(message) ||
+        (message.role !== "user" && message.role !== "assistant") ||
+        (message.mode !== "coach" && message.mode !== "safety")
+      ) {
+        throw new Error(`Invalid export archive: ${field(`messages[${messageIndex}]`)} is malformed.`);
+      }
+
+      return {
+        id: asString(message.id, field(`messages[${messageIndex}].id`)),
+        role: message.role,
+        mode: message.mode,
+        content: asString(message.content, field(`messages[${messageIndex}].content`)),
+        createdAt: asDate(message.createdAt, field(`messages[${messageIndex}].createdAt`)),
+      };
+    }),
+    snapshots: snapshots.filter(isRecord).map((snapshot, snapshotIndex) => ({
+      id: asString(snapshot.id, field(`snapshots[${snapshotIndex}].id`)),
+      mission: asString(snapshot.mission, field(`snapshots[${snapshotIndex}].mission`)),
+      values: asStringArray(snapshot.values),
+      nextActions: asStringArray(snapshot.nextActions),
+      createdAt: asDate(snapshot.createdAt, field(`snapshots[${snapshotIndex}].createdAt`)),
+    })),
+    state: state
+      ? {
+          rollingSummary: typeof state.rollingSummary === "string" ? state.rollingSummary : "",
+          userFacts: asStringArray(state.userFacts),
+          openLoops: asStringArray(state.openLoops),
+          pendingClarifier: state.pendingClarifier === true,
+          clarifierTopic: typeof state.clarifierTopic === "string" ? state.clarifierTopic : "",
+          lastLens:
+            typeof state.lastLens === "string" && COACHING_LENSES.has(state.lastLens)
+              ? (state.lastLens as CoachingLens)
+              : "",
+          lastModel: typeof state.lastModel === "string" ? state.lastModel : "",
+          riskTrajectory: Array.isArray(state.riskTrajectory)
+            ? state.riskTrajectory.filter((entry): entry is number => Number.isFinite(entry))
+            : [],
+          postCrisisTurnsRemaining:
+            Number.isInteger(state.postCrisisTurnsRemaining) &&
+            (state.postCrisisTurnsRemaining as number) > 0
+              ? (state.postCrisisTurnsRemaining as number)
+              : 0,
+          updatedAt:
+            optionalDate(state.updatedAt, field("state.updatedAt")) ??
+            asDate(value.updatedAt, field("updatedAt")),
+        }
+      : null,
+    // Safety events feed the admin review queue, so only the server records them.
+    safetyEvents: [],
+    actionItems: actionItems
+      .filter(
+        (item): item is Record<string, unknown> =>
+          isRecord(item) && typeof item.status === "string" && ACTION_ITEM_STATUSES.has(item.status),
+      )
+      .map((item, itemIndex) => {
+        const itemField = (name: string) => field(`actionItems[${itemIndex}].${name}`);
+        const createdAt = asDate(item.createdAt, itemField("createdAt"));
+
+        return {
+          snapshotId: optionalString(item.snapshotId),
+          title: asString(item.title, itemField("title")).slice(0, 300),
+          status: item.status as ActionItemStatus,
+          dueAt: optionalDate(item.dueAt, itemField("dueAt")),
+          completedAt: optionalDate(item.completedAt, itemField("completedAt")),
+          notes: typeof item.notes === "string" ? item.notes.slice(0, 2000) : "",
+          createdAt,
+          updatedAt: optionalDate(item.updatedAt, itemField("updatedAt")) ?? createdAt,
+        };
+      }),
+  };
+}
+
+/** Validates an uploaded archive and returns a normalized copy; throws with a user-facing message. */
+export function parseExportArchive(input: unknown): DataExportArchive {
+  if (!isRecord(input) || input.format !== "soulaware-export" || input.version !== 1) {
+    throw new Error("Invalid export archive: expected a SoulAware export (version 1).");
+  }
+
+  if (!Array.isArray(input.conversations)) {
+    throw new Error("Invalid export archive: conversations are missing.");
+  }
+
+  if (input.conversations.length > MAX_IMPORT_CONVERSATIONS) {
+    throw new Error(
+      `Invalid export archive: at most ${MAX_IMPORT_CONVERSATIONS} conversations can be imported.`,
+    );
+  }
+
+  const conversations = input.conversations.map(parseConversation);
+  const messageCount = conversations.reduce((sum, entry) => sum + entry.messages.length, 0);
+
+  if (messageCount > MAX_IMPORT_MESSAGES) {
+    throw new Error(
+      `Invalid export archive: at most ${MAX_IMPORT_MESSAGES} messages can be imported.`,
+    );
+  }
+
+  return {
+    format: "soulaware-export",
+    version: 1,
+    exportedAt: typeof input.exportedAt === "string" ? input.exportedAt : new Date().toISOString(),
+    conversations,
+    // Analytics drive spend and budget checks; an upload must not be able to write them.
+    analyticsEvents: [],
+  };
+}
@@ -5,6 +5,15 @@ export const env = {
     process.env.OPENAI_CHAT_MODEL_PRIMARY ?? "gpt-4.1",
   openAiChatModelFast: process.env.OPENAI_CHAT_MODEL_FAST ?? "gpt-4.1-mini",
   openAiSummaryModel: process.env.OPENAI_SUMMARY_MODEL ?? "gpt-4.1-mini",
+  llmProvider: process.env.SOULAWARE_LLM_PROVIDER ?? "openai",
+  llmProviderPrimary: process.env.SOULAWARE_LLM_PROVIDER_PRIMARY,
+  llmProviderFast: process.env.SOULAWARE_LLM_PROVIDER_FAST,
+  llmProviderSummary: process.env.SOULAWARE_LLM_PROVIDER_SUMMARY,
+  llmProviderModeration: process.env.SOULAWARE_LLM_PROVIDER_MODERATION,
+  llmLocalBaseUrl: process.env.SOULAWARE_LLM_LOCAL_BASE_URL,
+  llmLocalApiKey: process.env.SOULAWARE_LLM_LOCAL_API_KEY,
+  llmLocalModel: process.env.SOULAWARE_LLM_LOCAL_MODEL,
+  llmFakeScriptPath: process.env.SOULAWARE_LLM_FAKE_SCRIPT,
   supabaseUrl: process.env.SUPABASE_URL,
   supabaseServiceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
   soulawareChatEngine: process.env.SOULAWARE_CHAT_ENGINE ?? "v1",
@@ -13,8 +22,50 @@ export const env = {
     process.env.SOULAWARE_COST_ALERT_DAILY_USD ?? "0",
   ),
   soulawareCostAlertWebhookUrl: process.env.SOULAWARE_COST_ALERT_WEBHOOK_URL,
+  soulawareSpendFastModelAt: Number(process.env.SOULAWARE_SPEND_FAST_MODEL_AT ?? "0.5"),
+  soulawareSpendNoSummariesAt: Number(process.env.SOULAWARE_SPEND_NO_SUMMARIES_AT ?? "0.75"),
+  soulawareSpendFallbackAt: Number(process.env.SOULAWARE_SPEND_FALLBACK_AT ?? "1"),
+  soulawareGuestDailyBudgetUsd: Number(process.env.SOULAWARE_GUEST_DAILY_BUDGET_USD ?? "0.25"),
+  soulawareGuestDailyTokenBudget: Number(process.env.SOULAWARE_GUEST_DAILY_TOKEN_BUDGET ?? "0"),
+  soulawareGuestBudgetDowngradeAt: Number(
+    process.env.SOULAWARE_GUEST_BUDGET_DOWNGRADE_AT ?? "0.8",
+  ),
+  soulawareSafetyPolicy: process.env.SOULAWARE_SAFETY_POLICY ?? "",
+  soulawareSafetyLexiconVersion: process.env.SOULAWARE_SAFETY_LEXICON_VERSION ?? "",
+  soulawareModerationFailurePolicy: process.env.SOULAWARE_MODERATION_FAILURE_POLICY ?? "degrade",
+  soulawareModerationRetries: Number(process.env.SOULAWARE_MODERATION_RETRIES ?? "2"),
+  soulawareModerationAlertThreshold: Number(
+    process.env.SOULAWARE_MODERATION_ALERT_THRESHOLD ?? "3",
+  ),
+  soulawareModerationAlertWindowMinutes: Number(
+    process.env.SOULAWARE_MODERATION_ALERT_WINDOW_MINUTES ?? "15",
+  ),
+  soulawarePostCrisisTurns: Number(process.env.SOULAWARE_POST_CRISIS_TURNS ?? "3"),
+  soulawareOutputSafetyPolicy: process.env.SOULAWARE_OUTPUT_SAFETY_POLICY ?? "rewrite",
+  soulawareRateLimits: process.env.SOULAWARE_RATE_LIMITS ?? "",
+  soulawareRateLimitStore: process.env.SOULAWARE_RATE_LIMIT_STORE ?? "",
+  soulawareRateLimitMemoryMaxKeys: Number(
+    process.env.SOULAWARE_RATE_LIMIT_MEMORY_MAX_KEYS ?? "50000",
+  ),
+  redisUrl: process.env.REDIS_URL ?? "",
+  soulawareTrustedProxies: process.env.SOULAWARE_TRUSTED_PROXIES ?? "",
+  soulawareClientIpHeader: process.env.SOULAWARE_CLIENT_IP_HEADER ?? "x-forwarded-for",
   cronSecret: process.env.CRON_SECRET,
+  adminSecret: process.env.SOULAWARE_ADMIN_SECRET,
+  appUrl: process.env.SOULAWARE_APP_URL ?? "http://localhost:3000",
+  authSecret: process.env.SOULAWARE_AUTH_SECRET,
+  mailTransport: process.env.SOULAWARE_MAIL_TRANSPORT ?? "console",
+  mailFrom: process.env.SOULAWARE_MAIL_FROM ?? "SoulAware <no-reply@soulaware.local>",
+  smtpHost: process.env.SMTP_HOST ?? "localhost",
+  smtpPort: Number(process.env.SMTP_PORT ?? "1025"),
+  smtpUser: process.env.SMTP_USER,
+  smtpPassword: process.env.SMTP_PASSWORD,
+  smtpSecure: process.env.SMTP_SECURE === "true",
+  reminderDelivery: process.env.SOULAWARE_REMINDER_DELIVERY ?? "live",
+  reminderOutboxPath: process.env.SOULAWARE_REMINDER_OUTBOX ?? ".soulaware/reminders.jsonl",
+  vapidPublicKey: process.env.VAPID_PUBLIC_KEY,
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+  vapidSubject: process.env.VAPID_SUBJECT ?? "mailto:support@soulaware.local",
 };
 
-export const hasOpenAi = Boolean(env.openAiApiKey);
 export const hasSupabase = Boolean(env.supabaseUrl && env.supabaseServiceRoleKey);
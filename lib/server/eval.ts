@@ -0,0 +1,356 @@
+import { generateCoachReply, renderCoachReplySegments } from "@/lib/server/ai";
+import {
+  BANNED_QUESTION_PATTERNS,
+  GENERIC_PATTERNS,
+  extractKeywords,
+  generateCoachReplyV2,
+  isLowQualityReply,
+  lexicalOverlapScore,
+} from "@/lib/server/ai-v2";
+import type { ChatHistoryMessage, ChatSessionState } from "@/types/domain";
+
+export type EvalEngine = "v1" | "v2";
+
+export type EvalConversation = {
+  id: string;
+  turns: string[];
+  tags?: string[];
+};
+
+export type EvalConfig = {
+  label: string;
+  engines: EvalEngine[];
+  models?: {
+    v1?: string;
+    primary?: string;
+    fast?: string;
+    summary?: string;
+  };
+};
+
+export type EvalTurnChecks = {
+  notLowQuality: boolean;
+  noGenericPattern: boolean;
+  noBannedQuestion: boolean;
+  actionReferencesKeyword: boolean;
+  endsWithQuestion: boolean;
+};
+
+export type EvalTurnResult = {
+  conversationId: string;
+  engine: EvalEngine;
+  turn: number;
+  userText: string;
+  reply: string;
+  responseKind: "coach" | "clarify";
+  modelUsed: string;
+  maxOverlapWithPrevious: number;
+  checks: EvalTurnChecks | null;
+  score: number | null;
+};
+
+export type EvalEngineSummary = {
+  engine: EvalEngine;
+  turns: number;
+  coachTurns: number;
+  clarifierTurns: number;
+  meanScore: number;
+  checkPassRates: Record<keyof EvalTurnChecks, number>;
+  meanOverlapWithPrevious: number;
+};
+
+export type EvalReport = {
+  label: string;
+  config: EvalConfig;
+  summaries: EvalEngineSummary[];
+  turns: EvalTurnResult[];
+};
+
+const CHECK_NAMES: Array<keyof EvalTurnChecks> = [
+  "notLowQuality",
+  "noGenericPattern",
+  "noBannedQuestion",
+  "actionReferencesKeyword",
+  "endsWithQuestion",
+];
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+export function parseConversationCorpus(raw: string): EvalConversation[] {
+  return raw
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("//"))
+    .map((line, index) => {
+      const parsed = JSON.parse(line) as Partial<EvalConversation>;
+
+      if (!parsed.id || !Array.isArray(parsed.turns) || parsed.turns.length === 0) {
+        throw new Error(`Corpus line ${index + 1} needs an id and at least one turn.`);
+      }
+
+      return {
+        id: parsed.id,
+        turns: parsed.turns.filter((turn): turn is string => typeof turn === "string"),
+        tags: parsed.tags,
+      };
+    });
+}
+
+function emptySessionState(sessionId: string): ChatSessionState {
+  return {
+    sessionId,
+    rollingSummary: "",
+    userFacts: [],
+    openLoops: [],
+    pendingClarifier: false,
+    clarifierTopic: "",
+    lastLens: "",
+    lastModel: "",
+    riskTrajectory: [],
+    postCrisisTurnsRemaining: 0,
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+function scoreCoachTurn(params: {
+  userText: string;
+  reply: string;
+  actionStep: string;
+  question: string;
+  previousReplies: string[];
+}): { checks: EvalTurnChecks; score: number } {
+  const keywords = extractKeywords(params.userText).slice(0, 5);
+  const actionLower = params.actionStep.toLowerCase();
+
+  const checks: EvalTurnChecks = {
+    notLowQuality: !isLowQualityReply(params.reply, params.previousReplies),
+    noGenericPattern: !GENERIC_PATTERNS.some((pattern) => pattern.test(params.reply)),
+    noBannedQuestion: !BANNED_QUESTION_PATTERNS.some((pattern) =>
+      pattern.test(params.question),
+    ),
+    actionReferencesKeyword:
+      keywords.length === 0 || keywords.some((keyword) => actionLower.includes(keyword)),
+    endsWithQuestion: params.question.trim().endsWith("?"),
+  };
+
+  const passed = CHECK_NAMES.filter((name) => checks[name]).length;
+  return { checks, score: round(passed / CHECK_NAMES.length) };
+}
+
+async function replayConversation(
+  conversation: EvalConversation,
+  engine: EvalEngine,
+  config: EvalConfig,
+): Promise<EvalTurnResult[]> {
+  const history: ChatHistoryMessage[] = [];
+  const previousReplies: string[] = [];
+  let sessionState = emptySessionState(`eval-${conversation.id}`);
+  const results: EvalTurnResult[] = [];
+  const baseTime = Date.UTC(2025, 0, 1);
+
+  const pushMessage = (role: ChatHistoryMessage["role"], content: string) => {
+    history.push({
+      id: `${conversation.id}-${history.length}`,
+      role,
+      content,
+      mode: "coach",
+      createdAt: new Date(baseTime + history.length * 1000).toISOString(),
+    });
+  };
+
+  for (const [index, userText] of conversation.turns.entries()) {
+    pushMessage("user", userText);
+
+    let reply: string;
+    let actionStep = "";
+    let question = "";
+    let responseKind: EvalTurnResult["responseKind"] = "coach";
+    let modelUsed: string;
+
+    if (engine === "v2") {
+      const result = await generateCoachReplyV2({
+        text: userText,
+        history: history.slice(-24),
+        latestSnapshot: null,
+        sessionState,
+        models: config.models,
+      });
+
+      sessionState = { ...sessionState, ...result.sessionStatePatch };
+      reply = result.reply;
+      responseKind = result.responseKind;
+      modelUsed = result.modelUsed;
+      [, actionStep = "", question = ""] = result.reply.split("\n\n");
+    } else {
+      const { reply: draft } = await generateCoachReply({
+        text: userText,
+        history: history.slice(-12),
+        latestSnapshot: null,
+        model: config.models?.v1,
+      });
+
+      const segments = renderCoachReplySegments(draft);
+      reply = segments.map((segment) => segment.text).join("\n\n");
+      actionStep = draft.actionStep;
+      question = draft.deeperQuestion;
+      modelUsed = config.models?.v1 ?? "env:OPENAI_MODEL";
+    }
+
+    const maxOverlapWithPrevious = round(
+      previousReplies
+        .slice(-3)
+        .reduce((max, previous) => Math.max(max, lexicalOverlapScore(reply, previous)), 0),
+    );
+
+    const scored =
+      responseKind === "coach"
+        ? scoreCoachTurn({ userText, reply, actionStep, question, previousReplies })
+        : null;
+
+    results.push({
+      conversationId: conversation.id,
+      engine,
+      turn: index + 1,
+      userText,
+      reply,
+      responseKind,
+      modelUsed,
+      maxOverlapWithPrevious,
+      checks: scored?.checks ?? null,
+      score: scored?.score ?? null,
+    });
+
+    pushMessage("assistant", reply);
+    previousReplies.push(reply);
+  }
+
+  return results;
+}
+
+function summarize(engine: EvalEngine, turns: EvalTurnResult[]): EvalEngineSummary {
+  const coachTurns = turns.filter((turn) => turn.checks);
+  const rate = (name: keyof EvalTurnChecks) =>
+    coachTurns.length === 0
+      ? 0
+      : round(coachTurns.filter((turn) => turn.checks?.[name]).length / coachTurns.length);
+
+  return {
+    engine,
+    turns: turns.length,
+    coachTurns: coachTurns.length,
+    clarifierTurns: turns.length - coachTurns.length,
+    meanScore:
+      coachTurns.length === 0
+        ? 0
+        : round(coachTurns.reduce((sum, turn) => sum + (turn.score ?? 0), 0) / coachTurns.length),
+    checkPassRates: Object.fromEntries(
+      CHECK_NAMES.map((name) => [name, rate(name)]),
+    ) as EvalEngineSummary["checkPassRates"],
+    meanOverlapWithPrevious:
+      turns.length === 0
+        ? 0
+        : round(turns.reduce((sum, turn) => sum + turn.maxOverlapWithPrevious, 0) / turns.length),
+  };
+}
+
+export async function runEval(
+  conversations: EvalConversation[],
+  config: EvalConfig,
+): Promise<EvalReport> {
+  const turns: EvalTurnResult[] = [];
+
+  for (const engine of config.engines) {
+    for (const conversation of conversations) {
+      turns.push(...(await replayConversation(conversation, engine, config)));
+    }
+  }
+
+  return {
+    label: config.label,
+    config,
+    summaries: config.engines.map((engine) =>
+      summarize(
+        engine,
+        turns.filter((turn) => turn.engine === engine),
+      ),
+    ),
+    turns,
+  };
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = round(after - before);
+  return delta === 0 ? "0" : delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export function compareEvalReports(base: EvalReport, candidate: EvalReport): string {
+  const lines = [
+    `# Coach eval: ${base.label} → ${candidate.label}`,
+    "",
+    "| engine | metric | " + base.label + " | " + candidate.label + " | delta |",
+    "| --- | --- | --- | --- | --- |",
+  ];
+
+  for (const summary of candidate.summaries) {
+    const previous = base.summaries.find((entry) => entry.engine === summary.engine);
+
+    if (!previous) {
+      continue;
+    }
+
+    const metrics: Array<[string, number, number]> = [
+      ["meanScore", previous.meanScore, summary.meanScore],
+      ["meanOverlapWithPrevious", previous.meanOverlapWithPrevious, summary.meanOverlapWithPrevious],
+      ["clarifierTurns", previous.clarifierTurns, summary.clarifierTurns],
+      ...CHECK_NAMES.map(
+        (name) =>
+          [name, previous.checkPassRates[name], summary.checkPassRates[name]] as [
+            string,
+            number,
+            number,
+          ],
+      ),
+    ];
+
+    for (const [metric, before, after] of metrics) {
+      lines.push(
+        `| ${summary.engine} | ${metric} | ${before} | ${after} | ${formatDelta(before, after)} |`,
+      );
+    }
+  }
+
+  const changedTurns = candidate.turns.filter((turn) => {
+    const previous = base.turns.find(
+      (entry) =>
+        entry.engine === turn.engine &&
+        entry.conversationId === turn.conversationId &&
+        entry.turn === turn.turn,
+    );
+
+    return previous && previous.score !== turn.score;
+  });
+
+  if (changedTurns.length > 0) {
+    lines.push("", "## Turns with changed scores", "");
+
+    for (const turn of changedTurns) {
+      const previous = base.turns.find(
+        (entry) =>
+          entry.engine === turn.engine &&
+          entry.conversationId === turn.conversationId &&
+          entry.turn === turn.turn,
+      );
+      const failing = CHECK_NAMES.filter((name) => turn.checks && !turn.checks[name]);
+
+      lines.push(
+        `- ${turn.engine} ${turn.conversationId}#${turn.turn}: ${previous?.score ?? "n/a"} → ${
+          turn.score ?? "n/a"
+        }${failing.length > 0 ? ` (failing: ${failing.join(", ")})` : ""}`,
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
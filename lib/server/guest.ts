@@ -1,6 +1,7 @@
-import type { NextRequest } from "next/server";
+import type { NextRequest, NextResponse } from "next/server";
 
 const GUEST_COOKIE_NAME = "guest_id";
+const GUEST_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
 
 export const guestCookieName = GUEST_COOKIE_NAME;
 
@@ -13,3 +14,15 @@ export function readGuestId(request: NextRequest): string {
 
   return guestId;
 }
+
+export function setGuestCookie(response: NextResponse, guestId: string) {
+  response.cookies.set({
+    name: GUEST_COOKIE_NAME,
+    value: guestId,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: GUEST_COOKIE_MAX_AGE_SECONDS,
+  });
+}
@@ -0,0 +1,251 @@
+import { readFileSync } from "node:fs";
+import type {
+  LlmCompletion,
+  LlmCompletionParams,
+  LlmModeration,
+  LlmProvider,
+  LlmUsage,
+} from "@/lib/server/llm";
+
+export type FakeCompletionStep = {
+  /** Case-insensitive regex tested against the joined prompt; unmatched steps are skipped. */
+  match?: string;
+  /** Raw completion text, returned verbatim (use this for malformed JSON). */
+  content?: string;
+  /** Serialized as the completion text. */
+  json?: Record<string, unknown>;
+  /** Makes the call throw with this message. */
+  error?: string;
+  usage?: LlmUsage;
+};
+
+export type FakeModerationStep = {
+  match?: string;
+  flagged?: boolean;
+  categories?: Record<string, boolean>;
+  error?: string;
+  unsupported?: boolean;
+};
+
+export type FakeLlmScript = {
+  completions?: FakeCompletionStep[];
+  moderations?: FakeModerationStep[];
+};
+
+export type FakeLlmCall =
+  | { kind: "completion"; jsonMode: boolean; model: string; prompt: string; content: string }
+  | { kind: "moderation"; input: string; flagged: boolean };
+
+type FakeLlmState = {
+  completions: FakeCompletionStep[];
+  moderations: FakeModerationStep[];
+  calls: FakeLlmCall[];
+  loadedFromEnv: boolean;
+};
+
+const globalStore = globalThis as unknown as {
+  __soulawareFakeLlm?: FakeLlmState;
+};
+
+function getState(): FakeLlmState {
+  if (!globalStore.__soulawareFakeLlm) {
+    globalStore.__soulawareFakeLlm = {
+      completions: [],
+      moderations: [],
+      calls: [],
+      loadedFromEnv: false,
+    };
+  }
+
+  return globalStore.__soulawareFakeLlm;
+}
+
+function loadScriptFile(path: string): FakeLlmScript {
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as FakeLlmScript;
+  } catch (error) {
+    throw new Error(
+      `Unable to load fake LLM script at ${path}: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`,
+    );
+  }
+}
+
+function ensureScriptLoaded(scriptPath: string | undefined) {
+  const state = getState();
+
+  if (state.loadedFromEnv || !scriptPath) {
+    return;
+  }
+
+  const script = loadScriptFile(scriptPath);
+  state.completions = [...(script.completions ?? [])];
+  state.moderations = [...(script.moderations ?? [])];
+  state.loadedFromEnv = true;
+}
+
+function takeStep<T extends { match?: string }>(steps: T[], prompt: string): T | null {
+  const index = steps.findIndex(
+    (step) => !step.match || new RegExp(step.match, "i").test(prompt),
+  );
+
+  if (index === -1) {
+    return null;
+  }
+
+  const [step] = steps.splice(index, 1);
+  return step;
+}
+
+function estimateUsage(prompt: string, content: string): LlmUsage {
+  const promptTokens = Math.max(1, Math.ceil(prompt.length / 4));
+  const completionTokens = Math.max(1, Math.ceil(content.length / 4));
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
+
+function extractCurrentMessage(prompt: string): string {
+  const match = prompt.match(/current user message:\s*(.+)/i);
+  return (match?.[1] ?? prompt).trim();
+}
+
+function pickKeyword(text: string): string {
+  const words = text.toLowerCase().match(/[a-z][a-z'-]{4,}/g) ?? [];
+  return words[0] ?? "your goal";
+}
+
+/**
+ * Canned output used when the script has no matching step, shaped so that every
+ * caller (v1 coach, v2 coach, summary, snapshot) parses it successfully.
+ */
+function cannedCompletion(params: LlmCompletionParams, jsonMode: boolean): string {
+  const system = params.messages.find((message) => message.role === "system")?.content ?? "";
+  const prompt = params.messages.map((message) => message.content).join("\n");
+  const message = extractCurrentMessage(prompt);
+  const keyword = pickKeyword(message);
+
+  if (/summarize coaching memory/i.test(system)) {
+    return JSON.stringify({
+      rollingSummary: `User is working through ${keyword}.`,
+      userFacts: [`User mentioned ${keyword}.`],
+      openLoops: [`Decide the next step on ${keyword}.`],
+    });
+  }
+
+  if (/purpose snapshot/i.test(system)) {
+    return JSON.stringify({
+      mission: `Build a life that makes room for ${keyword}.`,
+      values: ["Growth", "Honesty", "Courage", "Connection", "Focus"],
+      nextActions: [
+        `Block 30 minutes for ${keyword} this week.`,
+        `Tell one person about your plan for ${keyword}.`,
+        `Write down what success on ${keyword} looks like.`,
+      ],
+    });
+  }
+
+  const reflection = `You keep returning to ${keyword}, which signals it matters right now.`;
+  const actionStep = `Spend 20 minutes today on one concrete piece of ${keyword}.`;
+  const question = `What would make ${keyword} feel settled by the end of this week?`;
+
+  if (!jsonMode) {
+    return [
+      `Reflection: ${reflection}`,
+      `Action step: ${actionStep}`,
+      `Deeper question: ${question}`,
+    ].join("\n");
+  }
+
+  return JSON.stringify({
+    reflection,
+    actionStep,
+    followUpQuestion: question,
+    deeperQuestion: question,
+  });
+}
+
+export function setFakeLlmScript(script: FakeLlmScript) {
+  const state = getState();
+  state.completions = [...(script.completions ?? [])];
+  state.moderations = [...(script.moderations ?? [])];
+  state.calls = [];
+  state.loadedFromEnv = true;
+}
+
+export function resetFakeLlm() {
+  setFakeLlmScript({});
+}
+
+export function getFakeLlmCalls(): FakeLlmCall[] {
+  return [...getState().calls];
+}
+
+export function createFakeProvider(options: { scriptPath?: string }): LlmProvider {
+  async function complete(
+    params: LlmCompletionParams,
+    jsonMode: boolean,
+  ): Promise<LlmCompletion> {
+    ensureScriptLoaded(options.scriptPath);
+
+    const state = getState();
+    const prompt = params.messages.map((message) => message.content).join("\n");
+    const step = takeStep(state.completions, prompt);
+
+    if (step?.error) {
+      state.calls.push({ kind: "completion", jsonMode, model: params.model, prompt, content: "" });
+      throw new Error(step.error);
+    }
+
+    const content =
+      step?.content ??
+      (step?.json ? JSON.stringify(step.json) : cannedCompletion(params, jsonMode));
+
+    state.calls.push({ kind: "completion", jsonMode, model: params.model, prompt, content });
+
+    // Streams word by word so callers see partial output the way a real model sends it.
+    if (params.onDelta) {
+      for (const delta of content.match(/\s*\S+/g) ?? []) {
+        params.onDelta(delta);
+      }
+    }
+
+    return {
+      content,
+      model: params.model,
+      usage: step?.usage ?? estimateUsage(prompt, content),
+    };
+  }
+
+  return {
+    name: "fake",
+    createCompletion: (params) => complete(params, false),
+    createJsonCompletion: (params) => complete(params, true),
+    async moderate(input) {
+      ensureScriptLoaded(options.scriptPath);
+
+      const state = getState();
+      const step = takeStep(state.moderations, input);
+
+      if (step?.error) {
+        throw new Error(step.error);
+      }
+
+      if (step?.unsupported) {
+        return null;
+      }
+
+      const result: LlmModeration = {
+        flagged: Boolean(step?.flagged),
+        categories: step?.categories ?? {},
+      };
+
+      state.calls.push({ kind: "moderation", input, flagged: result.flagged });
+      return result;
+    },
+  };
+}
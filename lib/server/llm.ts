@@ -0,0 +1,219 @@
+import OpenAI from "openai";
+import { env } from "@/lib/server/env";
+import { createFakeProvider } from "@/lib/server/llm-fake";
+
+export type LlmRole = "primary" | "fast" | "summary" | "moderation";
+
+export type LlmProviderName = "openai" | "local" | "fake";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LlmCompletionParams = {
+  model: string;
+  temperature?: number;
+  messages: LlmMessage[];
+  /** Streams the completion, passing each content delta here as it arrives. */
+  onDelta?: (delta: string) => void;
+};
+
+export type LlmCompletion = {
+  content: string;
+  model: string;
+  usage: LlmUsage | null;
+};
+
+export type LlmModeration = {
+  flagged: boolean;
+  categories: Record<string, boolean>;
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  createCompletion(params: LlmCompletionParams): Promise<LlmCompletion>;
+  createJsonCompletion(params: LlmCompletionParams): Promise<LlmCompletion>;
+  /** Returns null when the backend has no moderation endpoint. */
+  moderate(input: string): Promise<LlmModeration | null>;
+};
+
+type OpenAiCompatibleOptions = {
+  name: LlmProviderName;
+  apiKey: string;
+  baseURL?: string;
+  modelOverride?: string;
+  supportsModeration: boolean;
+};
+
+const SUPPORTED_PROVIDERS: LlmProviderName[] = ["openai", "local", "fake"];
+
+// Callers own retries (moderation retries behind its breaker, chat falls back), so the SDK's
+// own retries and 10-minute default timeout would only stack delay on top of them.
+const COMPLETION_TIMEOUT_MS = 60_000;
+const MODERATION_TIMEOUT_MS = 5_000;
+
+const providerCache = new Map<LlmProviderName, LlmProvider>();
+
+function mapUsage(usage: OpenAI.Completions.CompletionUsage | undefined): LlmUsage | null {
+  if (!usage) {
+    return null;
+  }
+
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    maxRetries: 0,
+    timeout: COMPLETION_TIMEOUT_MS,
+  });
+
+  async function complete(
+    params: LlmCompletionParams,
+    jsonMode: boolean,
+  ): Promise<LlmCompletion> {
+    const model = options.modelOverride || params.model;
+    const request = {
+      model,
+      temperature: params.temperature,
+      messages: params.messages,
+      ...(jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+    };
+
+    if (params.onDelta) {
+      const stream = await client.chat.completions.create({
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      let content = "";
+      let usage: OpenAI.Completions.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content ?? "";
+
+        if (delta) {
+          content += delta;
+          params.onDelta(delta);
+        }
+
+        usage = chunk.usage ?? usage;
+      }
+
+      return { content, model, usage: mapUsage(usage) };
+    }
+
+    const completion = await client.chat.completions.create(request);
+
+    return {
+      content: completion.choices[0]?.message?.content ?? "",
+      model,
+      usage: mapUsage(completion.usage),
+    };
+  }
+
+  return {
+    name: options.name,
+    createCompletion: (params) => complete(params, false),
+    createJsonCompletion: (params) => complete(params, true),
+    async moderate(input) {
+      if (!options.supportsModeration) {
+        return null;
+      }
+
+      const moderation = await client.moderations.create(
+        { model: "omni-moderation-latest", input },
+        { timeout: MODERATION_TIMEOUT_MS },
+      );
+
+      const result = moderation.results[0];
+      const categories = Object.fromEntries(
+        Object.entries(result?.categories ?? {}).map(([key, value]) => [key, Boolean(value)]),
+      );
+
+      return {
+        flagged: Boolean(result?.flagged),
+        categories,
+      };
+    },
+  };
+}
+
+function resolveProviderName(role: LlmRole): LlmProviderName {
+  const perRole: Record<LlmRole, string | undefined> = {
+    primary: env.llmProviderPrimary,
+    fast: env.llmProviderFast,
+    summary: env.llmProviderSummary,
+    moderation: env.llmProviderModeration,
+  };
+
+  const requested = (perRole[role] || env.llmProvider).trim().toLowerCase();
+
+  return SUPPORTED_PROVIDERS.includes(requested as LlmProviderName)
+    ? (requested as LlmProviderName)
+    : "openai";
+}
+
+function buildProvider(name: LlmProviderName): LlmProvider | null {
+  if (name === "fake") {
+    return createFakeProvider({ scriptPath: env.llmFakeScriptPath });
+  }
+
+  if (name === "local") {
+    if (!env.llmLocalBaseUrl) {
+      return null;
+    }
+
+    return createOpenAiCompatibleProvider({
+      name,
+      // OpenAI-compatible local servers usually ignore the key, but the SDK requires one.
+      apiKey: env.llmLocalApiKey || "local",
+      baseURL: env.llmLocalBaseUrl,
+      modelOverride: env.llmLocalModel,
+      supportsModeration: false,
+    });
+  }
+
+  if (!env.openAiApiKey) {
+    return null;
+  }
+
+  return createOpenAiCompatibleProvider({
+    name,
+    apiKey: env.openAiApiKey,
+    supportsModeration: true,
+  });
+}
+
+export function getLlmProvider(role: LlmRole): LlmProvider | null {
+  const name = resolveProviderName(role);
+  const cached = providerCache.get(name);
+
+  if (cached) {
+    return cached;
+  }
+
+  const provider = buildProvider(name);
+
+  if (provider) {
+    providerCache.set(name, provider);
+  }
+
+  return provider;
+}
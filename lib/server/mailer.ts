@@ -0,0 +1,79 @@
+import nodemailer from "nodemailer";
+import { env } from "@/lib/server/env";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;
+};
+
+type MailTransportName = "console" | "smtp" | "memory";
+
+const globalStore = globalThis as unknown as {
+  __soulawareOutbox?: MailMessage[];
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+let smtpTransport: nodemailer.Transporter | null = null;
+
+/** Lower-cases and trims an address, returning null when it is not a plausible email. */
+export function normalizeEmail(value: unknown): string | null {
+  const email = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return email && email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+}
+
+function resolveTransportName(): MailTransportName {
+  const requested = env.mailTransport.trim().toLowerCase();
+  return requested === "smtp" || requested === "memory" ? requested : "console";
+}
+
+function getSmtpTransport(): nodemailer.Transporter {
+  if (!smtpTransport) {
+    smtpTransport = nodemailer.createTransport({
+      host: env.smtpHost,
+      port: env.smtpPort,
+      secure: env.smtpSecure,
+      auth:
+        env.smtpUser && env.smtpPassword
+          ? { user: env.smtpUser, pass: env.smtpPassword }
+          : undefined,
+    });
+  }
+
+  return smtpTransport;
+}
+
+/** Messages captured by the `memory` transport, oldest first. */
+export function getOutbox(): MailMessage[] {
+  return [...(globalStore.__soulawareOutbox ?? [])];
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = resolveTransportName();
+
+  if (transport === "memory") {
+    globalStore.__soulawareOutbox = [...(globalStore.__soulawareOutbox ?? []), message];
+    return;
+  }
+
+  if (transport === "console") {
+    console.info(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    return;
+  }
+
+  try {
+    await getSmtpTransport().sendMail({
+      from: env.mailFrom,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      headers: message.headers,
+    });
+  } catch (error) {
+    throw new Error(
+      `Unable to send email: ${error instanceof Error ? error.message : "unknown error"}`,
+    );
+  }
+}
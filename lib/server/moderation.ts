@@ -0,0 +1,109 @@
+import { env } from "@/lib/server/env";
+import type { LlmModeration, LlmProvider } from "@/lib/server/llm";
+
+/**
+ * What chat does when moderation cannot answer: `fail-open` keeps rules only,
+ * `degrade` keeps rules and treats the turn as at least elevated, and `fail-closed`
+ * refuses the turn unless rules already call for the crisis reply.
+ */
+export type ModerationFailurePolicy = "fail-open" | "degrade" | "fail-closed";
+
+export type ModerationFailure = "failed" | "circuit_open";
+
+export type ModerationOutcome =
+  | { status: "ok"; moderation: LlmModeration; attempts: number }
+  | { status: "unsupported" }
+  | { status: ModerationFailure; attempts: number; error: string };
+
+type BreakerState = {
+  consecutiveFailures: number;
+  openedUntil: number;
+  /** Set while the single half-open trial is in flight. */
+  probing: boolean;
+};
+
+const FAILURE_POLICIES: ModerationFailurePolicy[] = ["fail-open", "degrade", "fail-closed"];
+const RETRY_BASE_DELAY_MS = 100;
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 60_000;
+
+const globalStore = globalThis as unknown as {
+  __soulawareModerationBreaker?: BreakerState;
+};
+
+function getBreaker(): BreakerState {
+  if (!globalStore.__soulawareModerationBreaker) {
+    globalStore.__soulawareModerationBreaker = {
+      consecutiveFailures: 0,
+      openedUntil: 0,
+      probing: false,
+    };
+  }
+
+  return globalStore.__soulawareModerationBreaker;
+}
+
+export function getModerationFailurePolicy(): ModerationFailurePolicy {
+  const requested = env.soulawareModerationFailurePolicy.trim().toLowerCase();
+
+  return FAILURE_POLICIES.includes(requested as ModerationFailurePolicy)
+    ? (requested as ModerationFailurePolicy)
+    : "degrade";
+}
+
+export function isModerationCircuitOpen(now = Date.now()): boolean {
+  return getBreaker().openedUntil > now;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Calls the moderation endpoint with retries behind a circuit breaker. After
+ * `BREAKER_FAILURE_THRESHOLD` failed checks in a row the breaker opens for
+ * `BREAKER_COOLDOWN_MS`. After that one check at a time is let through as a trial that
+ * closes it on success; checks that arrive while the trial runs are still refused.
+ */
+export async function moderateWithRetry(
+  provider: LlmProvider,
+  text: string,
+): Promise<ModerationOutcome> {
+  const breaker = getBreaker();
+
+  if (breaker.openedUntil > Date.now() || breaker.probing) {
+    return { status: "circuit_open", attempts: 0, error: "Moderation circuit is open." };
+  }
+
+  // A breaker that has opened before and not closed since is half-open: this is the trial.
+  breaker.probing = breaker.openedUntil !== 0;
+
+  const maxAttempts = 1 + Math.max(0, Math.floor(env.soulawareModerationRetries) || 0);
+  let lastError = "Unknown moderation error.";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    try {
+      const moderation = await provider.moderate(text);
+      breaker.consecutiveFailures = 0;
+      breaker.openedUntil = 0;
+      breaker.probing = false;
+
+      return moderation ? { status: "ok", moderation, attempts: attempt } : { status: "unsupported" };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : lastError;
+
+      if (attempt < maxAttempts) {
+        await sleep(RETRY_BASE_DELAY_MS * attempt);
+      }
+    }
+  }
+
+  breaker.consecutiveFailures += 1;
+  breaker.probing = false;
+
+  if (breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+    breaker.openedUntil = Date.now() + BREAKER_COOLDOWN_MS;
+  }
+
+  return { status: "failed", attempts: maxAttempts, error: lastError };
+}
@@ -0,0 +1,235 @@
+import { env } from "@/lib/server/env";
+import type { ChatReplySegment } from "@/types/domain";
+
+export type OutputSafetyCategory = "diagnosis" | "medical_advice" | "harmful";
+
+/**
+ * `rewrite` drops the offending sentences and adds a short redirect, replacing the whole
+ * reply only when nothing usable is left; `replace` always swaps in the safe reply.
+ * Harmful content is replaced under either policy.
+ */
+export type OutputSafetyPolicy = "rewrite" | "replace";
+
+export type OutputScreenAction = "allow" | "rewritten" | "replaced";
+
+export type OutputScreenResult = {
+  segments: ChatReplySegment[];
+  action: OutputScreenAction;
+  categories: OutputSafetyCategory[];
+  /** Ids of the rules that fired, recorded on `chat_output_blocked`. */
+  ruleIds: string[];
+};
+
+type OutputRule = {
+  id: string;
+  category: OutputSafetyCategory;
+  pattern: RegExp;
+};
+
+const OUTPUT_POLICIES: OutputSafetyPolicy[] = ["rewrite", "replace"];
+
+const CONDITIONS =
+  "(?:major |clinical |severe |mild |chronic )?(?:depression|depressive disorder|(?:an? )?anxiety disorder|generali[sz]ed anxiety|panic disorder|adhd|bipolar(?: disorder)?|ptsd|c-ptsd|ocd|bpd|borderline personality(?: disorder)?|(?:a )?personality disorder|(?:an )?eating disorder|anorexia|bulimia|schizophrenia|autism|dysthymia)";
+
+const MEDICATIONS =
+  "(?:your |the |some |an? )?(?:meds|medications?|antidepressants?|ssris?|snris?|sertraline|zoloft|fluoxetine|prozac|escitalopram|lexapro|citalopram|paroxetine|venlafaxine|effexor|bupropion|wellbutrin|mirtazapine|benzos|benzodiazepines?|xanax|alprazolam|valium|diazepam|ativan|lorazepam|klonopin|clonazepam|adderall|ritalin|methylphenidate|lithium|quetiapine|seroquel|ambien|zolpidem|sleeping pills?|melatonin)";
+
+/** Where an instruction starts: a new clause, or a lead-in that recommends what follows. */
+const INSTRUCTION_LEAD =
+  "(?:^|[:;,]\\s*|\\b(?:then|and|so|just|you should|you could|you can|you might|you need to|you have to|why not|it's (?:fine|okay|ok) to)\\s+)(?:just |try to )?";
+
+// "stop eating" only counts on its own or with a duration, not "stop eating at your desk".
+const FOOD_RESTRICTION =
+  "(?:skip (?:a |your |some |more )?meals?\\b(?! prep| planning| kits?)|stop eating(?=\\s*(?:[.!?,;]|$|(?:for|until|altogether|entirely|completely)\\b))|purge after (?:eating|you eat|meals?|dinner|lunch|breakfast)|make yourself (?:sick|throw up))";
+
+const OUTPUT_RULES: OutputRule[] = [
+  {
+    id: "diagnosis_you_have",
+    category: "diagnosis",
+    pattern: new RegExp(
+      `\\byou (?:clearly |probably |likely |may |might |definitely |must )?(?:have|suffer from|are suffering from|'ve got|have got) ${CONDITIONS}\\b`,
+      "i",
+    ),
+  },
+  {
+    id: "diagnosis_you_are",
+    category: "diagnosis",
+    pattern:
+      /\byou(?:'re| are) (?:clearly |probably |likely |definitely )?(?:clinically depressed|bipolar|a narcissist|narcissistic|autistic|psychotic|manic|anorexic|bulimic)\b/i,
+  },
+  {
+    id: "diagnosis_sounds_like",
+    category: "diagnosis",
+    pattern: new RegExp(
+      `\\b(?:this|that|it|what you(?:'re| are) describing) (?:sounds|looks|seems) (?:a lot )?like (?:(?:a|an|some|classic|textbook) )?${CONDITIONS}\\b`,
+      "i",
+    ),
+  },
+  {
+    id: "diagnosis_symptoms_of",
+    category: "diagnosis",
+    pattern: new RegExp(`\\b(?:classic|textbook|clear) (?:symptoms|signs) of ${CONDITIONS}\\b`, "i"),
+  },
+  {
+    id: "diagnosis_claim",
+    category: "diagnosis",
+    pattern: /\b(?:i(?:'d| would) diagnose|my diagnosis|diagnos(?:e|ing) you with)\b/i,
+  },
+  {
+    id: "medication_change",
+    category: "medical_advice",
+    pattern: new RegExp(
+      `\\b(?:take|try|start|stop|quit|increase|decrease|lower|raise|double|halve|skip|cut back on|come off|taper off|switch)(?: taking)?(?: (?:half|one|two|\\d+(?:\\.\\d+)?\\s?(?:mg|mcg)?)(?: of)?)? ${MEDICATIONS}\\b`,
+      "i",
+    ),
+  },
+  {
+    id: "medication_dose",
+    category: "medical_advice",
+    pattern: /\b\d+(?:\.\d+)?\s?(?:mg|milligrams?|mcg|micrograms?)\b/i,
+  },
+  {
+    id: "medication_not_needed",
+    category: "medical_advice",
+    pattern: new RegExp(`\\byou (?:don't|do not|no longer) need ${MEDICATIONS}\\b`, "i"),
+  },
+  {
+    id: "harm_encouragement",
+    category: "harmful",
+    pattern:
+      /\b(?:you should|go ahead and|why not|just) (?:hurt|harm|cut|kill|starve|punish) yourself\b/i,
+  },
+  {
+    id: "harm_method",
+    category: "harmful",
+    pattern: /\b(?:lethal|fatal|overdose) (?:dose|amount)\b|\boverdos(?:e|ing) on\b/i,
+  },
+  {
+    id: "harm_worthlessness",
+    category: "harmful",
+    pattern:
+      /\b(?:you(?:'d| would) be better off dead|no one would miss you|(?:the world|everyone) (?:would be|is) better (?:off )?without you)\b/i,
+  },
+  {
+    id: "harm_disordered_eating",
+    category: "harmful",
+    pattern: new RegExp(
+      `${INSTRUCTION_LEAD}${FOOD_RESTRICTION}|\\b(?:try|consider|recommend|suggest)(?:ing)? (?:skipping (?:a |your |some |more )?meals?\\b|purging\\b|making yourself (?:sick|throw up))`,
+      "i",
+    ),
+  },
+];
+
+/** Sentences that send the user to a clinician are the behavior we want, not advice. */
+const CLINICIAN_DEFERRAL =
+  /\b(?:doctor|pharmacist|prescriber|psychiatrist|gp|physician|clinician|nurse|therapist|healthcare provider|medical professional)\b/i;
+
+const REDIRECTS: Record<Exclude<OutputSafetyCategory, "harmful">, string> = {
+  diagnosis:
+    "I can't diagnose anything, but a licensed professional can help you make sense of what you're noticing.",
+  medical_advice:
+    "For anything about medication or symptoms, a doctor or pharmacist is the right person to ask.",
+};
+
+export const SAFE_REPLACEMENT_SEGMENTS: ChatReplySegment[] = [
+  {
+    kind: "reflection",
+    text: "I want to be careful here: I'm a coach, not a clinician, so I won't weigh in on diagnoses, medication, or anything that could put you at risk.",
+  },
+  {
+    kind: "action",
+    text: "If this is about your health or treatment, write down the questions on your mind and bring them to a doctor, pharmacist, or therapist.",
+  },
+  {
+    kind: "question",
+    text: "What part of this would be most helpful to think through together right now?",
+  },
+];
+
+/** Segments the app writes itself (crisis copy, support resources) are never screened. */
+const SCREENED_KINDS = new Set<ChatReplySegment["kind"]>(["reflection", "action", "question"]);
+
+/** Below this many words a rewritten segment is only its opener and is not worth keeping. */
+const MIN_SEGMENT_WORDS = 4;
+
+export function getOutputSafetyPolicy(): OutputSafetyPolicy {
+  const requested = env.soulawareOutputSafetyPolicy.trim().toLowerCase();
+
+  return OUTPUT_POLICIES.includes(requested as OutputSafetyPolicy)
+    ? (requested as OutputSafetyPolicy)
+    : "rewrite";
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).filter(Boolean);
+}
+
+function matchSentence(sentence: string): OutputRule[] {
+  return OUTPUT_RULES.filter(
+    (rule) =>
+      rule.pattern.test(sentence) &&
+      !(rule.category === "medical_advice" && CLINICIAN_DEFERRAL.test(sentence)),
+  );
+}
+
+export function screenReplySegments(
+  segments: ChatReplySegment[],
+  policy: OutputSafetyPolicy = getOutputSafetyPolicy(),
+): OutputScreenResult {
+  const fired = new Map<string, OutputRule>();
+  let rewriteFailed = false;
+
+  const rewritten = segments.map((segment) => {
+    if (!SCREENED_KINDS.has(segment.kind)) {
+      return segment;
+    }
+
+    const removed = new Set<OutputSafetyCategory>();
+    const kept = splitSentences(segment.text).filter((sentence) => {
+      const rules = matchSentence(sentence);
+
+      for (const rule of rules) {
+        fired.set(rule.id, rule);
+        removed.add(rule.category);
+      }
+
+      return rules.length === 0;
+    });
+
+    if (removed.size === 0) {
+      return segment;
+    }
+
+    if (kept.join(" ").split(/\s+/).filter(Boolean).length < MIN_SEGMENT_WORDS) {
+      rewriteFailed = true;
+    }
+
+    const redirects = [...removed]
+      .filter((category): category is keyof typeof REDIRECTS => category in REDIRECTS)
+      .map((category) => REDIRECTS[category]);
+
+    return { ...segment, text: [...kept, ...redirects].join(" ") };
+  });
+
+  const rules = [...fired.values()];
+
+  if (rules.length === 0) {
+    return { segments, action: "allow", categories: [], ruleIds: [] };
+  }
+
+  const categories = [...new Set(rules.map((rule) => rule.category))];
+  const ruleIds = rules.map((rule) => rule.id);
+  const replace = policy === "replace" || rewriteFailed || categories.includes("harmful");
+
+  return {
+    segments: replace
+      ? [
+          ...SAFE_REPLACEMENT_SEGMENTS,
+          ...segments.filter((segment) => !SCREENED_KINDS.has(segment.kind)),
+        ]
+      : rewritten,
+    action: replace ? "replaced" : "rewritten",
+    categories,
+    ruleIds,
+  };
+}
@@ -0,0 +1,237 @@
+import { randomUUID } from "node:crypto";
+import { Ratelimit } from "@upstash/ratelimit";
+import type { Redis } from "@upstash/redis";
+import type { RedisClient } from "@/lib/server/redis";
+
+export type RateLimitStoreName = "memory" | "redis" | "upstash";
+
+export type LimitResult = {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+};
+
+export type RateLimitCooldown = {
+  until: number;
+  reason: string;
+};
+
+/** Where sliding-window hits and abuse cooldowns live; keys arrive fully namespaced. */
+export type RateLimitStore = {
+  name: RateLimitStoreName;
+  /** Records one hit unless `limit` hits already fall inside the trailing window. */
+  hit(key: string, limit: number, windowMs: number): Promise<LimitResult>;
+  getCooldown(key: string): Promise<RateLimitCooldown | null>;
+  /** Stores the cooldown until `cooldown.until`. */
+  setCooldown(key: string, cooldown: RateLimitCooldown): Promise<void>;
+};
+
+export type MemoryRateLimitStore = RateLimitStore & {
+  size(): number;
+};
+
+type MemoryEntry = {
+  expiresAt: number;
+  hits?: number[];
+  cooldown?: RateLimitCooldown;
+};
+
+/** Expired keys are swept at most this often during normal traffic. */
+const MEMORY_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps hits and cooldowns in a `Map` whose entries expire with their window. Expired
+ * entries are swept at most once a minute; between sweeps, a map past `maxKeys` drops its
+ * least recently used keys from the head, so a write never scans the whole map.
+ */
+export function createMemoryRateLimitStore(options: {
+  maxKeys: number;
+  now?: () => number;
+}): MemoryRateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+  const now = options.now ?? (() => Date.now());
+  const maxKeys = Math.max(1, Math.floor(options.maxKeys) || 1);
+  let lastSweep = now();
+
+  const sweep = (at: number) => {
+    lastSweep = at;
+
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= at) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  const read = (key: string, at: number): MemoryEntry | null => {
+    const entry = entries.get(key);
+
+    if (!entry || entry.expiresAt <= at) {
+      entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  };
+
+  // Re-inserting moves the key to the end, so Map order doubles as least-recently-used order.
+  const write = (key: string, entry: MemoryEntry, at: number) => {
+    entries.delete(key);
+    entries.set(key, entry);
+
+    if (at - lastSweep >= MEMORY_SWEEP_INTERVAL_MS) {
+      sweep(at);
+    }
+
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxKeys) {
+        break;
+      }
+
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    name: "memory",
+    async hit(key, limit, windowMs) {
+      const at = now();
+      const hits = (read(key, at)?.hits ?? []).filter((entry) => at - entry < windowMs);
+
+      if (hits.length >= limit) {
+        const oldest = hits[0] ?? at;
+        write(key, { hits, expiresAt: (hits[hits.length - 1] ?? at) + windowMs }, at);
+        return { success: false, limit, remaining: 0, reset: oldest + windowMs };
+      }
+
+      hits.push(at);
+      write(key, { hits, expiresAt: at + windowMs }, at);
+
+      return {
+        success: true,
+        limit,
+        remaining: limit - hits.length,
+        reset: (hits[0] ?? at) + windowMs,
+      };
+    },
+    async getCooldown(key) {
+      return read(key, now())?.cooldown ?? null;
+    },
+    async setCooldown(key, cooldown) {
+      write(key, { cooldown, expiresAt: cooldown.until }, now());
+    },
+    size() {
+      return entries.size;
+    },
+  };
+}
+
+export function createUpstashRateLimitStore(redis: Redis): RateLimitStore {
+  const limiters = new Map<string, Ratelimit>();
+
+  return {
+    name: "upstash",
+    async hit(key, limit, windowMs) {
+      const id = `${windowMs}:${limit}`;
+      let limiter = limiters.get(id);
+
+      if (!limiter) {
+        limiter = new Ratelimit({
+          redis,
+          limiter: Ratelimit.slidingWindow(limit, `${windowMs} ms`),
+          prefix: "soulaware:rl",
+          analytics: false,
+        });
+        limiters.set(id, limiter);
+      }
+
+      const result = await limiter.limit(key);
+      return {
+        success: result.success,
+        limit: result.limit,
+        remaining: result.remaining,
+        reset: result.reset,
+      };
+    },
+    async getCooldown(key) {
+      const cooldown = await redis.get<RateLimitCooldown>(key);
+      return cooldown && cooldown.until > Date.now() ? cooldown : null;
+    },
+    async setCooldown(key, cooldown) {
+      await redis.set(key, cooldown, { px: Math.max(1, cooldown.until - Date.now()) });
+    },
+  };
+}
+
+/**
+ * Trims the window, counts it, and adds the hit only when under the limit, all in one
+ * round trip so concurrent instances cannot both take the last slot.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+local count = redis.call("ZCARD", KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call("PEXPIRE", KEYS[1], window)
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+return {allowed, count, oldest[2] or tostring(now)}
+`;
+
+/** Talks RESP to any Redis-compatible server, e.g. a self-hosted `redis://localhost:6379`. */
+export function createRedisRateLimitStore(client: RedisClient): RateLimitStore {
+  return {
+    name: "redis",
+    async hit(key, limit, windowMs) {
+      const now = Date.now();
+      const reply = await client.command([
+        "EVAL",
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `soulaware:rl:${key}`,
+        now,
+        windowMs,
+        limit,
+        `${now}:${randomUUID()}`,
+      ]);
+
+      if (!Array.isArray(reply) || reply.length < 3) {
+        throw new Error("Unexpected Redis rate-limit reply.");
+      }
+
+      const count = Number(reply[1]);
+      return {
+        success: Number(reply[0]) === 1,
+        limit,
+        remaining: Math.max(0, limit - count),
+        reset: Number(reply[2]) + windowMs,
+      };
+    },
+    async getCooldown(key) {
+      const reply = await client.command(["GET", key]);
+
+      if (typeof reply !== "string") {
+        return null;
+      }
+
+      const cooldown = JSON.parse(reply) as RateLimitCooldown;
+      return cooldown.until > Date.now() ? cooldown : null;
+    },
+    async setCooldown(key, cooldown) {
+      await client.command([
+        "SET",
+        key,
+        JSON.stringify(cooldown),
+        "PX",
+        Math.max(1, cooldown.until - Date.now()),
+      ]);
+    },
+  };
+}
@@ -1,86 +1,512 @@
-import { Ratelimit } from "@upstash/ratelimit";
+import { BlockList, isIP } from "node:net";
 import { Redis } from "@upstash/redis";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { env } from "@/lib/server/env";
+import { createRedisClient } from "@/lib/server/redis";
+import {
+  createMemoryRateLimitStore,
+  createRedisRateLimitStore,
+  createUpstashRateLimitStore,
+  type LimitResult,
+  type MemoryRateLimitStore,
+  type RateLimitCooldown,
+  type RateLimitStore,
+  type RateLimitStoreName,
+} from "@/lib/server/rate-limit-store";
 
-type LimitResult = {
-  success: boolean;
-  limit: number;
-  remaining: number;
-  reset: number;
+export type RateLimitPolicyName =
+  | "chat_message"
+  | "conversation_create"
+  | "purpose_snapshot"
+  | "analytics"
+  | "magic_link"
+  | "transfer_redeem"
+  | "data_import"
+  | "reminder_update";
+
+export type RateLimitKeyType = "guest" | "ip" | "email";
+
+export type RateLimitWindowName = "minute" | "hour" | "day";
+
+/** Requests allowed per window; a missing window is not limited. */
+export type RateLimitQuota = Partial<Record<RateLimitWindowName, number>>;
+
+export type RateLimitPolicy = Partial<Record<RateLimitKeyType, RateLimitQuota>>;
+
+export type RateLimitPolicies = Record<RateLimitPolicyName, RateLimitPolicy>;
+
+export type RateLimitDecision = LimitResult & {
+  policy: RateLimitPolicyName;
+  /** The key type and window the headers describe: the one that blocked, or the tightest. */
+  keyType: RateLimitKeyType | null;
+  /** `cooldown` when an abuse cooldown on one of the keys blocked the request. */
+  window: RateLimitWindowName | "cooldown" | null;
+  cooldownReason?: string;
+};
+
+const WINDOW_MS: Record<RateLimitWindowName, number> = {
+  minute: 60_000,
+  hour: 60 * 60_000,
+  day: 24 * 60 * 60_000,
 };
 
-const LIMIT_PER_MINUTE = 12;
-const WINDOW_MS = 60_000;
+const WINDOW_NAMES = Object.keys(WINDOW_MS) as RateLimitWindowName[];
+const KEY_TYPES: RateLimitKeyType[] = ["guest", "ip", "email"];
+
+export const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPolicies = {
+  chat_message: {
+    guest: { minute: 12, hour: 120, day: 400 },
+    ip: { minute: 30, hour: 400, day: 2000 },
+  },
+  conversation_create: {
+    guest: { minute: 10, hour: 60, day: 200 },
+    ip: { minute: 30, hour: 300, day: 1000 },
+  },
+  purpose_snapshot: {
+    guest: { minute: 3, hour: 20, day: 60 },
+    ip: { minute: 10, hour: 80, day: 300 },
+  },
+  analytics: {
+    guest: { minute: 60, day: 2000 },
+    ip: { minute: 240 },
+  },
+  magic_link: {
+    email: { minute: 3, hour: 10 },
+    ip: { minute: 12, hour: 60 },
+  },
+  transfer_redeem: {
+    guest: { minute: 12, hour: 40 },
+    ip: { minute: 12, hour: 60 },
+  },
+  data_import: {
+    guest: { minute: 2, hour: 10 },
+    ip: { minute: 5, hour: 30 },
+  },
+  reminder_update: {
+    guest: { minute: 5, hour: 30 },
+    ip: { minute: 20, hour: 120 },
+    email: { hour: 3, day: 6 },
+  },
+};
+
+const STORE_NAMES: RateLimitStoreName[] = ["memory", "redis", "upstash"];
 
 const globalStore = globalThis as unknown as {
-  __soulawareRateLimitMap?: Map<string, number[]>;
+  __soulawareRateLimitStore?: MemoryRateLimitStore;
 };
 
-function getMemoryStore(): Map<string, number[]> {
-  if (!globalStore.__soulawareRateLimitMap) {
-    globalStore.__soulawareRateLimitMap = new Map<string, number[]>();
+function getMemoryStore(): MemoryRateLimitStore {
+  if (!globalStore.__soulawareRateLimitStore) {
+    globalStore.__soulawareRateLimitStore = createMemoryRateLimitStore({
+      maxKeys: env.soulawareRateLimitMemoryMaxKeys || 50_000,
+    });
   }
 
-  return globalStore.__soulawareRateLimitMap;
+  return globalStore.__soulawareRateLimitStore;
 }
 
 const upstashUrl = process.env.UPSTASH_REDIS_REST_URL;
 const upstashToken = process.env.UPSTASH_REDIS_REST_TOKEN;
 
-const upstashLimiter =
-  upstashUrl && upstashToken
-    ? new Ratelimit({
-        redis: new Redis({
-          url: upstashUrl,
-          token: upstashToken,
-        }),
-        limiter: Ratelimit.slidingWindow(LIMIT_PER_MINUTE, "1 m"),
-        prefix: "soulaware:chat",
-        analytics: false,
-      })
-    : null;
-
-function applyMemoryLimit(key: string): LimitResult {
-  const now = Date.now();
-  const store = getMemoryStore();
-  const existing = store.get(key) ?? [];
-  const validEntries = existing.filter((entry) => now - entry < WINDOW_MS);
-
-  if (validEntries.length >= LIMIT_PER_MINUTE) {
-    const oldest = validEntries[0] ?? now;
-    return {
-      success: false,
-      limit: LIMIT_PER_MINUTE,
-      remaining: 0,
-      reset: oldest + WINDOW_MS,
+let sharedStore: { name: RateLimitStoreName; store: RateLimitStore } | null = null;
+
+/**
+ * `SOULAWARE_RATE_LIMIT_STORE` picks `memory`, `redis` (`REDIS_URL`) or `upstash`; left
+ * empty it uses `REDIS_URL`, then Upstash, then memory. A store whose settings are
+ * missing falls back to memory.
+ */
+export function resolveRateLimitStoreName(): RateLimitStoreName {
+  const requested = env.soulawareRateLimitStore.trim().toLowerCase() as RateLimitStoreName;
+  const hasUpstash = Boolean(upstashUrl && upstashToken);
+
+  if (STORE_NAMES.includes(requested)) {
+    return (requested === "redis" && !env.redisUrl) || (requested === "upstash" && !hasUpstash)
+      ? "memory"
+      : requested;
+  }
+
+  return env.redisUrl ? "redis" : hasUpstash ? "upstash" : "memory";
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  const name = resolveRateLimitStoreName();
+
+  if (name === "memory") {
+    return getMemoryStore();
+  }
+
+  if (sharedStore?.name !== name) {
+    sharedStore = {
+      name,
+      store:
+        name === "redis"
+          ? createRedisRateLimitStore(createRedisClient(env.redisUrl))
+          : createUpstashRateLimitStore(
+              new Redis({ url: upstashUrl ?? "", token: upstashToken ?? "" }),
+            ),
     };
   }
 
-  validEntries.push(now);
-  store.set(key, validEntries);
+  return sharedStore.store;
+}
+
+function isQuota(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Merges `SOULAWARE_RATE_LIMITS` JSON over the defaults, e.g.
+ * `{"chat_message":{"guest":{"minute":20,"day":0}}}`. A quota of 0 removes that window;
+ * unknown policies, key types and windows are ignored.
+ */
+export function parseRateLimitPolicies(value: string): RateLimitPolicies {
+  const policies = structuredClone(DEFAULT_RATE_LIMIT_POLICIES);
+
+  if (!value.trim()) {
+    return policies;
+  }
+
+  let overrides: unknown;
+
+  try {
+    overrides = JSON.parse(value);
+  } catch {
+    console.error("[Soulaware] SOULAWARE_RATE_LIMITS is not valid JSON; using defaults");
+    return policies;
+  }
+
+  if (typeof overrides !== "object" || overrides === null) {
+    return policies;
+  }
+
+  for (const [policyName, policyOverride] of Object.entries(overrides)) {
+    if (!(policyName in policies) || typeof policyOverride !== "object" || !policyOverride) {
+      continue;
+    }
+
+    const policy = policies[policyName as RateLimitPolicyName];
+
+    for (const [keyType, quotaOverride] of Object.entries(policyOverride)) {
+      if (!KEY_TYPES.includes(keyType as RateLimitKeyType) || typeof quotaOverride !== "object") {
+        continue;
+      }
+
+      const quota: RateLimitQuota = { ...policy[keyType as RateLimitKeyType] };
+
+      for (const window of WINDOW_NAMES) {
+        const limit = (quotaOverride as Record<string, unknown> | null)?.[window];
+
+        if (limit === 0) {
+          delete quota[window];
+        } else if (isQuota(limit)) {
+          quota[window] = limit;
+        }
+      }
+
+      policy[keyType as RateLimitKeyType] = quota;
+    }
+  }
+
+  return policies;
+}
+
+let cachedPolicies: { source: string; policies: RateLimitPolicies } | null = null;
+
+export function getRateLimitPolicies(): RateLimitPolicies {
+  if (cachedPolicies?.source !== env.soulawareRateLimits) {
+    cachedPolicies = {
+      source: env.soulawareRateLimits,
+      policies: parseRateLimitPolicies(env.soulawareRateLimits),
+    };
+  }
+
+  return cachedPolicies.policies;
+}
+
+/**
+ * Records one hit in the shared store, falling back to this instance's memory while the
+ * shared store is unreachable. Also used by the abuse heuristics for their observations.
+ */
+export async function recordHit(
+  key: string,
+  limit: number,
+  windowMs: number,
+): Promise<LimitResult> {
+  const store = getRateLimitStore();
+
+  try {
+    return await store.hit(key, limit, windowMs);
+  } catch (error) {
+    if (store.name === "memory") {
+      throw error;
+    }
+
+    return getMemoryStore().hit(key, limit, windowMs);
+  }
+}
+
+/** Strips ports and brackets and unwraps IPv4-mapped IPv6; null when it is not an address. */
+export function normalizeIp(value: string): string | null {
+  let candidate = value.trim().toLowerCase();
+  const bracketed = candidate.match(/^\[([^\]]+)\](?::\d+)?$/);
+
+  if (bracketed) {
+    candidate = bracketed[1] ?? "";
+  } else if (/^\d{1,3}(?:\.\d{1,3}){3}:\d+$/.test(candidate)) {
+    candidate = candidate.replace(/:\d+$/, "");
+  }
+
+  if (candidate.startsWith("::ffff:") && isIP(candidate.slice(7)) === 4) {
+    candidate = candidate.slice(7);
+  }
+
+  return isIP(candidate) ? candidate : null;
+}
+
+let cachedTrustedProxies: { source: string; list: BlockList } | null = null;
 
+/** Parses `SOULAWARE_TRUSTED_PROXIES`: comma-separated addresses and CIDR ranges. */
+function getTrustedProxies(): BlockList {
+  if (cachedTrustedProxies?.source === env.soulawareTrustedProxies) {
+    return cachedTrustedProxies.list;
+  }
+
+  const list = new BlockList();
+
+  for (const entry of env.soulawareTrustedProxies.split(",").map((value) => value.trim())) {
+    if (!entry) {
+      continue;
+    }
+
+    const [address = "", prefix] = entry.split("/");
+    const ip = normalizeIp(address);
+    const type = ip && isIP(ip) === 6 ? "ipv6" : "ipv4";
+
+    if (!ip || (prefix !== undefined && !/^\d{1,3}$/.test(prefix))) {
+      console.error(`[Soulaware] Ignoring invalid SOULAWARE_TRUSTED_PROXIES entry "${entry}"`);
+      continue;
+    }
+
+    if (prefix === undefined) {
+      list.addAddress(ip, type);
+    } else {
+      list.addSubnet(ip, Number(prefix), type);
+    }
+  }
+
+  cachedTrustedProxies = { source: env.soulawareTrustedProxies, list };
+  return list;
+}
+
+/**
+ * Reads the client address from `SOULAWARE_CLIENT_IP_HEADER` (default `x-forwarded-for`),
+ * walking the hops from the right and skipping the proxies in `SOULAWARE_TRUSTED_PROXIES`.
+ * Hops left of the first untrusted one were written by the client and are ignored, so a
+ * spoofed header cannot choose its own `ip` key. Returns null when no usable address is
+ * present; `enforceRateLimit` then skips the `ip` key rather than pooling unknown callers.
+ */
+export function resolveClientIp(request: NextRequest): string | null {
+  const headerName = env.soulawareClientIpHeader.trim().toLowerCase() || "x-forwarded-for";
+  const header = request.headers.get(headerName);
+
+  if (!header) {
+    return headerName === "x-forwarded-for"
+      ? normalizeIp(request.headers.get("x-real-ip") ?? "")
+      : null;
+  }
+
+  const hops = header.split(",").map(normalizeIp);
+  const trusted = getTrustedProxies();
+
+  for (let index = hops.length - 1; index >= 0; index -= 1) {
+    const hop = hops[index];
+
+    // Nothing left of a malformed hop can be attributed to a proxy we trust.
+    if (!hop) {
+      return null;
+    }
+
+    if (index === 0 || !trusted.check(hop, isIP(hop) === 6 ? "ipv6" : "ipv4")) {
+      return hop;
+    }
+  }
+
+  return null;
+}
+
+function cooldownKey(keyType: RateLimitKeyType, value: string): string {
+  return `soulaware:cooldown:${keyType}:${value}`;
+}
+
+/** Blocks every policy for this key until the cooldown ends; a longer cooldown wins. */
+export async function imposeCooldown(
+  keyType: RateLimitKeyType,
+  value: string,
+  durationMs: number,
+  reason: string,
+): Promise<RateLimitCooldown> {
+  const key = cooldownKey(keyType, value);
+  const existing = await getCooldown(keyType, value);
+  const cooldown: RateLimitCooldown = { until: Date.now() + durationMs, reason };
+
+  if (existing && existing.until >= cooldown.until) {
+    return existing;
+  }
+
+  try {
+    await getRateLimitStore().setCooldown(key, cooldown);
+  } catch {
+    await getMemoryStore().setCooldown(key, cooldown);
+  }
+
+  return cooldown;
+}
+
+export async function getCooldown(
+  keyType: RateLimitKeyType,
+  value: string,
+): Promise<RateLimitCooldown | null> {
+  const key = cooldownKey(keyType, value);
+  const store = getRateLimitStore();
+
+  try {
+    const cooldown = await store.getCooldown(key);
+
+    if (cooldown || store.name === "memory") {
+      return cooldown;
+    }
+  } catch {
+    // fall back to this instance's memory below
+  }
+
+  // Cooldowns written while the shared store was down live only in memory.
+  return getMemoryStore().getCooldown(key);
+}
+
+export function cooldownDecision(
+  policyName: RateLimitPolicyName,
+  keyType: RateLimitKeyType,
+  cooldown: RateLimitCooldown,
+): RateLimitDecision {
   return {
-    success: true,
-    limit: LIMIT_PER_MINUTE,
-    remaining: LIMIT_PER_MINUTE - validEntries.length,
-    reset: now + WINDOW_MS,
+    success: false,
+    limit: 0,
+    remaining: 0,
+    reset: cooldown.until,
+    policy: policyName,
+    keyType,
+    window: "cooldown",
+    cooldownReason: cooldown.reason,
   };
 }
 
-export async function enforceRateLimit(key: string): Promise<LimitResult> {
-  if (!upstashLimiter) {
-    return applyMemoryLimit(key);
+/**
+ * Counts one request against the windows the policy declares for each given key, shortest
+ * windows first, and stops at the first one that blocks so a refused request does not use
+ * up the longer windows too. Reports the blocking window, or the one with the least
+ * headroom. A key on an abuse cooldown is refused outright. Missing or null keys are skipped.
+ */
+export async function enforceRateLimit(
+  policyName: RateLimitPolicyName,
+  keys: Partial<Record<RateLimitKeyType, string | null>>,
+): Promise<RateLimitDecision> {
+  for (const keyType of KEY_TYPES) {
+    const value = keys[keyType];
+    const cooldown = value ? await getCooldown(keyType, value) : null;
+
+    if (cooldown) {
+      return cooldownDecision(policyName, keyType, cooldown);
+    }
   }
 
-  try {
-    const result = await upstashLimiter.limit(key);
+  const policy = getRateLimitPolicies()[policyName];
+  const checks: Array<{ keyType: RateLimitKeyType; window: RateLimitWindowName; limit: number }> =
+    [];
+
+  for (const window of WINDOW_NAMES) {
+    for (const keyType of KEY_TYPES) {
+      const limit = policy[keyType]?.[window];
+
+      if (limit && keys[keyType]) {
+        checks.push({ keyType, window, limit });
+      }
+    }
+  }
+
+  const results: Array<(typeof checks)[number] & { result: LimitResult }> = [];
+
+  for (const check of checks) {
+    const result = await recordHit(
+      `${policyName}:${check.keyType}:${keys[check.keyType]}:${check.window}`,
+      check.limit,
+      WINDOW_MS[check.window],
+    );
+
+    results.push({ ...check, result });
+
+    if (!result.success) {
+      break;
+    }
+  }
+
+  const blocked = results.find((entry) => !entry.result.success);
+  const reported =
+    blocked ??
+    [...results].sort(
+      (left, right) =>
+        left.result.remaining / left.result.limit - right.result.remaining / right.result.limit ||
+        WINDOW_MS[left.window] - WINDOW_MS[right.window],
+    )[0];
 
+  if (!reported) {
     return {
-      success: result.success,
-      limit: result.limit,
-      remaining: result.remaining,
-      reset: result.reset,
+      success: true,
+      limit: 0,
+      remaining: 0,
+      reset: Date.now(),
+      policy: policyName,
+      keyType: null,
+      window: null,
     };
-  } catch {
-    return applyMemoryLimit(key);
   }
+
+  return {
+    ...reported.result,
+    success: !blocked,
+    policy: policyName,
+    keyType: reported.keyType,
+    window: reported.window,
+  };
+}
+
+/** Sets `X-RateLimit-*` (and `Retry-After` when blocked) on any route response. */
+export function applyRateLimitHeaders<T extends Response>(
+  response: T,
+  decision: RateLimitDecision,
+): T {
+  if (!decision.window) {
+    return response;
+  }
+
+  response.headers.set("X-RateLimit-Limit", String(decision.limit));
+  response.headers.set("X-RateLimit-Remaining", String(decision.remaining));
+  response.headers.set("X-RateLimit-Reset", String(Math.floor(decision.reset / 1000)));
+  response.headers.set(
+    "X-RateLimit-Policy",
+    `${decision.policy}:${decision.keyType}:${decision.window}`,
+  );
+
+  if (!decision.success) {
+    response.headers.set(
+      "Retry-After",
+      String(Math.max(1, Math.ceil((decision.reset - Date.now()) / 1000))),
+    );
+  }
+
+  return response;
+}
+
+export function rateLimitExceeded(decision: RateLimitDecision, message: string): NextResponse {
+  return applyRateLimitHeaders(NextResponse.json({ error: message }, { status: 429 }), decision);
 }
@@ -0,0 +1,203 @@
+import { connect, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+/** A decoded RESP2 reply; server errors inside arrays are kept as `Error` values. */
+export type RedisReply = string | number | null | Error | RedisReply[];
+
+export type RedisClient = {
+  command(args: Array<string | number>): Promise<RedisReply>;
+  close(): void;
+};
+
+type PendingCommand = {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 1_000;
+
+export function encodeRedisCommand(args: Array<string | number>): Buffer {
+  const parts = args.map((arg) => {
+    const value = Buffer.from(String(arg));
+    return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from("\r\n")]);
+  });
+
+  return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts]);
+}
+
+/**
+ * Decodes one reply starting at `offset`. Returns null when the buffer does not hold a
+ * complete reply yet, so the caller can wait for more bytes.
+ */
+export function parseRedisReply(
+  buffer: Buffer,
+  offset = 0,
+): { reply: RedisReply; offset: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset] ?? 0);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { reply: line, offset: next };
+    case "-":
+      return { reply: new Error(line), offset: next };
+    case ":":
+      return { reply: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+
+      if (length < 0) {
+        return { reply: null, offset: next };
+      }
+
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+
+      return { reply: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+
+      if (count < 0) {
+        return { reply: null, offset: next };
+      }
+
+      const items: RedisReply[] = [];
+      let cursor = next;
+
+      for (let index = 0; index < count; index += 1) {
+        const item = parseRedisReply(buffer, cursor);
+
+        if (!item) {
+          return null;
+        }
+
+        items.push(item.reply);
+        cursor = item.offset;
+      }
+
+      return { reply: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}".`);
+  }
+}
+
+/**
+ * A minimal pipelined RESP2 client for `redis://` and `rediss://` URLs, enough for the
+ * rate-limit store without pulling in a Redis package. It connects lazily, sends `AUTH` and
+ * `SELECT` from the URL, and drops the connection on any error or timeout so the next
+ * command reconnects.
+ */
+export function createRedisClient(
+  url: string,
+  options: { commandTimeoutMs?: number } = {},
+): RedisClient {
+  const parsed = new URL(url);
+  const timeoutMs = options.commandTimeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+  const database = Number(parsed.pathname.slice(1) || "0");
+  const pending: PendingCommand[] = [];
+  let socket: Socket | null = null;
+  let buffer = Buffer.alloc(0);
+
+  const failAll = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+
+    for (const entry of pending.splice(0)) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    try {
+      let parsedReply = parseRedisReply(buffer);
+
+      while (parsedReply) {
+        buffer = buffer.subarray(parsedReply.offset);
+        const entry = pending.shift();
+
+        if (entry) {
+          clearTimeout(entry.timer);
+
+          if (parsedReply.reply instanceof Error) {
+            entry.reject(parsedReply.reply);
+          } else {
+            entry.resolve(parsedReply.reply);
+          }
+        }
+
+        parsedReply = buffer.length > 0 ? parseRedisReply(buffer) : null;
+      }
+    } catch (error) {
+      failAll(error instanceof Error ? error : new Error("Invalid Redis reply."));
+    }
+  };
+
+  const send = (args: Array<string | number>): Promise<RedisReply> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        failAll(new Error(`Redis command timed out after ${timeoutMs}ms.`));
+      }, timeoutMs);
+
+      pending.push({ resolve, reject, timer });
+      socket?.write(encodeRedisCommand(args));
+    });
+
+  const open = () => {
+    const port = Number(parsed.port || "6379");
+    const host = parsed.hostname || "127.0.0.1";
+    const next =
+      parsed.protocol === "rediss:"
+        ? connectTls({ host, port, servername: host })
+        : connect({ host, port });
+
+    next.on("data", onData);
+    next.on("error", (error) => failAll(error));
+    next.on("close", () => {
+      if (socket === next) {
+        failAll(new Error("Redis connection closed."));
+      }
+    });
+    socket = next;
+
+    // Queued ahead of the caller's command; a failure rejects it along with everything else.
+    if (parsed.password) {
+      const password = decodeURIComponent(parsed.password);
+      const auth = parsed.username
+        ? ["AUTH", decodeURIComponent(parsed.username), password]
+        : ["AUTH", password];
+      send(auth).catch((error: Error) => failAll(error));
+    }
+
+    if (database > 0) {
+      send(["SELECT", database]).catch((error: Error) => failAll(error));
+    }
+  };
+
+  return {
+    command(args) {
+      if (!socket) {
+        open();
+      }
+
+      return send(args);
+    },
+    close() {
+      failAll(new Error("Redis client closed."));
+    },
+  };
+}
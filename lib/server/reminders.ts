@@ -0,0 +1,283 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import webpush from "web-push";
+import { createReminderLinkToken, type ReminderLinkAction } from "@/lib/server/auth";
+import { env } from "@/lib/server/env";
+import { sendMail } from "@/lib/server/mailer";
+import {
+  deleteReminderSubscription,
+  getSessionForGuest,
+  getSessionState,
+  listActionItems,
+  listDueReminderSubscriptions,
+  listSessions,
+  recordReminderDispatch,
+  trackEvent,
+} from "@/lib/server/repository";
+import type {
+  ActionItem,
+  ReminderCadence,
+  ReminderChannel,
+  ReminderDispatchSummary,
+  ReminderSettings,
+  ReminderSubscription,
+  WebPushSubscriptionPayload,
+} from "@/types/domain";
+
+export type ReminderMessage = {
+  subject: string;
+  text: string;
+  url: string;
+};
+
+/** `expired` means the destination is gone for good and the subscription should be dropped. */
+type DeliveryOutcome = "delivered" | "expired";
+
+type ReminderAdapter = (
+  reminder: ReminderSubscription,
+  message: ReminderMessage,
+) => Promise<DeliveryOutcome>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_CHECK_IN_ITEMS = 3;
+
+export function nextReminderRun(cadence: ReminderCadence, from = new Date()): string {
+  return new Date(from.getTime() + (cadence === "weekly" ? 7 : 1) * DAY_MS).toISOString();
+}
+
+export function toReminderSettings(reminder: ReminderSubscription): ReminderSettings {
+  return {
+    id: reminder.id,
+    sessionId: reminder.sessionId,
+    cadence: reminder.cadence,
+    channel: reminder.channel,
+    email: reminder.channel === "email" ? reminder.destination : null,
+    nextRunAt: reminder.nextRunAt,
+    lastSentAt: reminder.lastSentAt,
+    lastError: reminder.lastError,
+    confirmedAt: reminder.confirmedAt,
+    createdAt: reminder.createdAt,
+    updatedAt: reminder.updatedAt,
+  };
+}
+
+export function composeReminderMessage(params: {
+  actionItems: ActionItem[];
+  openLoops: string[];
+  now?: Date;
+}): ReminderMessage {
+  const now = (params.now ?? new Date()).getTime();
+  const openItems = params.actionItems.filter((item) => item.status === "open");
+  const overdue = openItems.filter((item) => item.dueAt && Date.parse(item.dueAt) < now);
+  const upcoming = openItems.filter((item) => !overdue.includes(item));
+
+  const lines = [
+    ...overdue.map((item) => `- ${item.title} (was due ${item.dueAt?.slice(0, 10)})`),
+    ...upcoming.map((item) => `- ${item.title}`),
+    ...params.openLoops.map((loop) => `- ${loop}`),
+  ].slice(0, MAX_CHECK_IN_ITEMS);
+
+  const url = `${env.appUrl}/chat`;
+  const intro =
+    lines.length > 0
+      ? "Checking in on what you were working toward:"
+      : "A few minutes of reflection keeps your direction clear. How are things going?";
+
+  return {
+    subject:
+      overdue.length > 0
+        ? "Your SoulAware check-in (something is overdue)"
+        : "Your SoulAware check-in",
+    text: [intro, ...lines, "", `Pick up where you left off: ${url}`].join("\n"),
+    url,
+  };
+}
+
+/** Builds a signed reminder email link, to the page that asks before acting by default. */
+function reminderLinkUrl(
+  reminder: ReminderSubscription,
+  action: ReminderLinkAction,
+  path = "/reminders/email",
+): string {
+  const token = createReminderLinkToken(reminder.id, action, reminder.destination);
+  return `${env.appUrl}${path}?token=${encodeURIComponent(token)}`;
+}
+
+/** Asks the address to confirm before any check-in (with its action items) is sent to it. */
+export async function sendReminderConfirmation(reminder: ReminderSubscription): Promise<void> {
+  await sendMail({
+    to: reminder.destination,
+    subject: "Confirm your SoulAware check-ins",
+    text: [
+      `Someone asked for ${reminder.cadence} SoulAware check-in emails at this address.`,
+      `Confirm to start them: ${reminderLinkUrl(reminder, "confirm")}`,
+      "",
+      "If this wasn't you, ignore this email and nothing will be sent.",
+    ].join("\n"),
+  });
+}
+
+function parsePushSubscription(destination: string): WebPushSubscriptionPayload {
+  const parsed = JSON.parse(destination) as WebPushSubscriptionPayload;
+
+  if (!parsed?.endpoint || !parsed.keys?.p256dh || !parsed.keys?.auth) {
+    throw new Error("Stored push subscription is malformed.");
+  }
+
+  return parsed;
+}
+
+const deliverByEmail: ReminderAdapter = async (reminder, message) => {
+  await sendMail({
+    to: reminder.destination,
+    subject: message.subject,
+    text: [
+      message.text,
+      "",
+      `Stop these emails: ${reminderLinkUrl(reminder, "stop")}`,
+      `Change them in Settings: ${env.appUrl}/settings`,
+    ].join("\n"),
+    headers: {
+      "List-Unsubscribe": `<${reminderLinkUrl(reminder, "stop", "/api/reminders/email")}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+  return "delivered";
+};
+
+const deliverByPush: ReminderAdapter = async (reminder, message) => {
+  if (!env.vapidPublicKey || !env.vapidPrivateKey) {
+    throw new Error("Web push is not configured (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY).");
+  }
+
+  try {
+    await webpush.sendNotification(
+      parsePushSubscription(reminder.destination),
+      JSON.stringify({ title: message.subject, body: message.text, url: message.url }),
+      {
+        TTL: 12 * 60 * 60,
+        vapidDetails: {
+          subject: env.vapidSubject,
+          publicKey: env.vapidPublicKey,
+          privateKey: env.vapidPrivateKey,
+        },
+      },
+    );
+  } catch (error) {
+    if (error instanceof webpush.WebPushError && [404, 410].includes(error.statusCode)) {
+      return "expired";
+    }
+
+    throw error;
+  }
+
+  return "delivered";
+};
+
+const deliverToConsole: ReminderAdapter = async (reminder, message) => {
+  console.info(
+    `[reminder] guest=${reminder.guestId} channel=${reminder.channel} subject="${message.subject}"\n${message.text}`,
+  );
+  return "delivered";
+};
+
+const deliverToFile: ReminderAdapter = async (reminder, message) => {
+  await mkdir(dirname(env.reminderOutboxPath), { recursive: true });
+  await appendFile(
+    env.reminderOutboxPath,
+    `${JSON.stringify({
+      reminderId: reminder.id,
+      guestId: reminder.guestId,
+      channel: reminder.channel,
+      destination: reminder.channel === "email" ? reminder.destination : "push",
+      ...message,
+      deliveredAt: new Date().toISOString(),
+    })}\n`,
+  );
+  return "delivered";
+};
+
+const CHANNEL_ADAPTERS: Record<ReminderChannel, ReminderAdapter> = {
+  email: deliverByEmail,
+  push: deliverByPush,
+};
+
+/** `SOULAWARE_REMINDER_DELIVERY=console|file` reroutes every channel for local testing. */
+function resolveAdapter(channel: ReminderChannel): ReminderAdapter {
+  const mode = env.reminderDelivery.trim().toLowerCase();
+
+  if (mode === "console") {
+    return deliverToConsole;
+  }
+
+  if (mode === "file") {
+    return deliverToFile;
+  }
+
+  return CHANNEL_ADAPTERS[channel];
+}
+
+async function buildMessageFor(reminder: ReminderSubscription, now: Date) {
+  const session = reminder.sessionId
+    ? await getSessionForGuest({ sessionId: reminder.sessionId, guestId: reminder.guestId })
+    : ((await listSessions(reminder.guestId))[0] ?? null);
+
+  if (!session) {
+    return composeReminderMessage({ actionItems: [], openLoops: [], now });
+  }
+
+  const [actionItems, state] = await Promise.all([
+    listActionItems(session.id),
+    getSessionState(session.id),
+  ]);
+
+  return composeReminderMessage({ actionItems, openLoops: state?.openLoops ?? [], now });
+}
+
+export async function dispatchDueReminders(now = new Date()): Promise<ReminderDispatchSummary> {
+  const due = await listDueReminderSubscriptions(now.toISOString());
+  const summary: ReminderDispatchSummary = {
+    due: due.length,
+    delivered: 0,
+    failed: 0,
+    expired: 0,
+  };
+
+  for (const reminder of due) {
+    try {
+      const message = await buildMessageFor(reminder, now);
+      const outcome = await resolveAdapter(reminder.channel)(reminder, message);
+
+      if (outcome === "expired") {
+        await deleteReminderSubscription(reminder.guestId);
+        summary.expired += 1;
+        continue;
+      }
+
+      await recordReminderDispatch({
+        reminderId: reminder.id,
+        sentAt: now.toISOString(),
+        nextRunAt: nextReminderRun(reminder.cadence, now),
+        error: null,
+      });
+      await trackEvent({
+        guestId: reminder.guestId,
+        eventName: "reminder_sent",
+        metadata: { channel: reminder.channel, cadence: reminder.cadence },
+      });
+      summary.delivered += 1;
+    } catch (error) {
+      await recordReminderDispatch({
+        reminderId: reminder.id,
+        sentAt: null,
+        nextRunAt: new Date(now.getTime() + RETRY_DELAY_MS).toISOString(),
+        error: error instanceof Error ? error.message : "Unknown delivery error.",
+      });
+      summary.failed += 1;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,100 @@
+import type { ChatReplySegment } from "@/types/domain";
+
+/**
+ * Delivers coach segments while the model is still writing. `draft` sends a segment as
+ * soon as it is complete and screened; `settle` then sends the rest of the final reply and,
+ * when a uniqueness retry or a screening replacement changed what was already sent, tells
+ * the client to start over first.
+ */
+export type ReplyStream = {
+  draft(segment: ChatReplySegment): void;
+  settle(segments: ChatReplySegment[]): void;
+};
+
+const JSON_STRING_BODY = String.raw`((?:[^"\\]|\\.)*)`;
+
+export function createReplyStream(params: {
+  onSegment: (segment: ChatReplySegment) => void;
+  onReset: () => void;
+  /** Screens and filters drafts exactly as the final reply will be. */
+  prepare: (segments: ChatReplySegment[]) => ChatReplySegment[];
+}): ReplyStream {
+  let sent: ChatReplySegment[] = [];
+  let holding = false;
+
+  const send = (segment: ChatReplySegment) => {
+    sent.push(segment);
+    params.onSegment(segment);
+  };
+
+  return {
+    draft(segment) {
+      if (holding) {
+        return;
+      }
+
+      const prepared = params.prepare([segment]);
+
+      // A replaced reply swaps in other segments; hold the rest until the reply settles.
+      if (prepared.some((entry) => entry.kind !== segment.kind)) {
+        holding = true;
+        return;
+      }
+
+      prepared.forEach(send);
+    },
+    settle(segments) {
+      const kept = sent.every(
+        (entry, index) =>
+          segments[index]?.kind === entry.kind && segments[index]?.text === entry.text,
+      );
+
+      if (!kept) {
+        params.onReset();
+        sent = [];
+      }
+
+      segments.slice(sent.length).forEach(send);
+      holding = true;
+    },
+  };
+}
+
+/**
+ * Returns an `onDelta` handler for a streamed JSON completion that reports each of `fields`,
+ * in order, once its string value has closed. Differently named keys are left to the final
+ * parse.
+ */
+export function createJsonFieldReader(
+  fields: readonly string[],
+  onField: (field: string, value: string) => void,
+): (delta: string) => void {
+  let raw = "";
+  let next = 0;
+
+  return (delta) => {
+    raw += delta;
+
+    while (next < fields.length) {
+      const field = fields[next];
+      const match = raw.match(new RegExp(`"${field}"\\s*:\\s*"${JSON_STRING_BODY}"`));
+
+      if (!match) {
+        return;
+      }
+
+      let value: string;
+
+      try {
+        value = JSON.parse(`"${match[1]}"`) as string;
+      } catch {
+        // A malformed escape ends streaming for this completion; the final parse decides.
+        next = fields.length;
+        return;
+      }
+
+      next += 1;
+      onField(field, value);
+    }
+  };
+}
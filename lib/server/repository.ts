@@ -1,21 +1,57 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { env, hasSupabase } from "@/lib/server/env";
 import type {
+  Account,
+  ActionItem,
+  ActionItemStatus,
   AnalyticsEvent,
   AnalyticsEventName,
   ChatSessionState,
   ChatHistoryMessage,
   ChatRole,
+  DataExportArchive,
+  DataExportConversation,
   GuestSession,
   PromptMode,
   RecentMessageSlices,
+  ReminderCadence,
+  ReminderChannel,
+  ReminderSubscription,
+  SafetyAction,
   SafetyEvent,
   SafetyLevel,
+  SafetyReviewStatus,
   StoredPurposeSnapshot,
+  TransferAuditEvent,
+  TransferAuditEventName,
 } from "@/types/domain";
 
+type MagicLinkRecord = {
+  tokenHash: string;
+  email: string;
+  guestId: string | null;
+  expiresAt: string;
+  consumedAt: string | null;
+  createdAt: string;
+};
+
+type TransferCodeRecord = {
+  codeHash: string;
+  guestId: string;
+  expiresAt: string;
+  redeemedAt: string | null;
+  redeemedBy: string | null;
+  createdAt: string;
+};
+
 type MemoryStore = {
+  accounts: Account[];
+  magicLinks: MagicLinkRecord[];
+  transferCodes: TransferCodeRecord[];
+  transferAudit: TransferAuditEvent[];
   sessions: GuestSession[];
+  actionItems: ActionItem[];
+  reminders: ReminderSubscription[];
   sessionStates: ChatSessionState[];
   messages: Array<{
     id: string;
@@ -30,9 +66,26 @@ type MemoryStore = {
   analyticsEvents: AnalyticsEvent[];
 };
 
+type AccountRow = {
+  id: string;
+  email: string;
+  created_at: string;
+};
+
+type TransferAuditRow = {
+  id: string;
+  event: TransferAuditEventName;
+  guest_id: string | null;
+  ip: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+};
+
 type SessionRow = {
   id: string;
   guest_id: string;
+  title: string;
+  archived_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -55,6 +108,49 @@ type SnapshotRow = {
   created_at: string;
 };
 
+type ActionItemRow = {
+  id: string;
+  session_id: string;
+  snapshot_id: string | null;
+  title: string;
+  status: ActionItemStatus;
+  due_at: string | null;
+  completed_at: string | null;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type ReminderRow = {
+  id: string;
+  guest_id: string;
+  session_id: string | null;
+  cadence: ReminderCadence;
+  channel: ReminderChannel;
+  destination: string;
+  next_run_at: string;
+  last_sent_at: string | null;
+  last_error: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type SafetyEventRow = {
+  id: string;
+  session_id: string;
+  level: SafetyLevel;
+  action: SafetyAction;
+  reason: string;
+  trigger_text: string;
+  review_status: SafetyReviewStatus;
+  reviewer_notes: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  guest_sessions: { guest_id: string } | null;
+};
+
 type SessionStateRow = {
   session_id: string;
   rolling_summary: string;
@@ -64,6 +160,8 @@ type SessionStateRow = {
   clarifier_topic: string;
   last_lens: string;
   last_model: string;
+  risk_trajectory_json: number[];
+  post_crisis_turns_remaining: number;
   updated_at: string;
 };
 
@@ -75,6 +173,22 @@ type AnalyticsRow = {
   created_at: string;
 };
 
+const SESSION_COLUMNS = "id, guest_id, title, archived_at, created_at, updated_at";
+
+const SESSION_STATE_COLUMNS =
+  "session_id, rolling_summary, user_facts_json, open_loops_json, pending_clarifier, clarifier_topic, last_lens, last_model, risk_trajectory_json, post_crisis_turns_remaining, updated_at";
+
+const ACTION_ITEM_COLUMNS =
+  "id, session_id, snapshot_id, title, status, due_at, completed_at, notes, created_at, updated_at";
+
+const REMINDER_COLUMNS =
+  "id, guest_id, session_id, cadence, channel, destination, next_run_at, last_sent_at, last_error, confirmed_at, created_at, updated_at";
+
+const SAFETY_EVENT_COLUMNS =
+  "id, session_id, level, action, reason, trigger_text, review_status, reviewer_notes, reviewed_by, reviewed_at, created_at, guest_sessions(guest_id)";
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
 const globalStore = globalThis as unknown as {
   __soulawareMemoryStore?: MemoryStore;
 };
@@ -82,7 +196,13 @@ const globalStore = globalThis as unknown as {
 function getMemoryStore(): MemoryStore {
   if (!globalStore.__soulawareMemoryStore) {
     globalStore.__soulawareMemoryStore = {
+      accounts: [],
+      magicLinks: [],
+      transferCodes: [],
+      transferAudit: [],
       sessions: [],
+      actionItems: [],
+      reminders: [],
       sessionStates: [],
       messages: [],
       snapshots: [],
@@ -110,10 +230,20 @@ function getSupabaseClient(): SupabaseClient | null {
   return supabaseClient;
 }
 
+function mapAccount(row: AccountRow): Account {
+  return {
+    id: row.id,
+    email: row.email,
+    createdAt: row.created_at,
+  };
+}
+
 function mapSession(row: SessionRow): GuestSession {
   return {
     id: row.id,
     guestId: row.guest_id,
+    title: row.title ?? DEFAULT_CONVERSATION_TITLE,
+    archivedAt: row.archived_at ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -140,6 +270,55 @@ function mapSnapshot(row: SnapshotRow): StoredPurposeSnapshot {
   };
 }
 
+function mapActionItem(row: ActionItemRow): ActionItem {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    snapshotId: row.snapshot_id ?? null,
+    title: row.title,
+    status: row.status,
+    dueAt: row.due_at ?? null,
+    completedAt: row.completed_at ?? null,
+    notes: row.notes ?? "",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapReminder(row: ReminderRow): ReminderSubscription {
+  return {
+    id: row.id,
+    guestId: row.guest_id,
+    sessionId: row.session_id ?? null,
+    cadence: row.cadence,
+    channel: row.channel,
+    destination: row.destination,
+    nextRunAt: row.next_run_at,
+    lastSentAt: row.last_sent_at ?? null,
+    lastError: row.last_error ?? null,
+    confirmedAt: row.confirmed_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapSafetyEvent(row: SafetyEventRow): SafetyEvent {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    guestId: row.guest_sessions?.guest_id ?? "",
+    level: row.level,
+    action: row.action,
+    reason: row.reason ?? "",
+    triggerText: row.trigger_text,
+    reviewStatus: row.review_status ?? "new",
+    reviewerNotes: row.reviewer_notes ?? "",
+    reviewedBy: row.reviewed_by ?? null,
+    reviewedAt: row.reviewed_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
 function mapSessionState(row: SessionStateRow): ChatSessionState {
   const supportedLenses = new Set([
     "clarify",
@@ -161,26 +340,26 @@ function mapSessionState(row: SessionStateRow): ChatSessionState {
     clarifierTopic: row.clarifier_topic ?? "",
     lastLens: lastLens as ChatSessionState["lastLens"],
     lastModel: row.last_model ?? "",
+    riskTrajectory: Array.isArray(row.risk_trajectory_json) ? row.risk_trajectory_json : [],
+    postCrisisTurnsRemaining: row.post_crisis_turns_remaining ?? 0,
     updatedAt: row.updated_at,
   };
 }
 
-export async function getOrCreateSession(guestId: string): Promise<GuestSession> {
+export async function createSession(
+  guestId: string,
+  title = DEFAULT_CONVERSATION_TITLE,
+): Promise<GuestSession> {
   const now = new Date().toISOString();
   const supabase = getSupabaseClient();
 
   if (!supabase) {
     const store = getMemoryStore();
-    const existing = store.sessions.find((session) => session.guestId === guestId);
-
-    if (existing) {
-      existing.updatedAt = now;
-      return existing;
-    }
-
     const created: GuestSession = {
       id: crypto.randomUUID(),
       guestId,
+      title,
+      archivedAt: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -189,10 +368,44 @@ export async function getOrCreateSession(guestId: string): Promise<GuestSession>
     return created;
   }
 
+  const createdResult = await supabase
+    .from("guest_sessions")
+    .insert({ guest_id: guestId, title, updated_at: now })
+    .select(SESSION_COLUMNS)
+    .single<SessionRow>();
+
+  if (createdResult.error || !createdResult.data) {
+    throw new Error(
+      `Unable to create session: ${createdResult.error?.message ?? "unknown error"}`,
+    );
+  }
+
+  return mapSession(createdResult.data);
+}
+
+export async function getOrCreateSession(guestId: string): Promise<GuestSession> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const existing = store.sessions
+      .filter((session) => session.guestId === guestId && !session.archivedAt)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+    if (existing) {
+      existing.updatedAt = now;
+      return existing;
+    }
+
+    return createSession(guestId);
+  }
+
   const existingResult = await supabase
     .from("guest_sessions")
-    .select("id, guest_id, created_at, updated_at")
+    .select(SESSION_COLUMNS)
     .eq("guest_id", guestId)
+    .is("archived_at", null)
     .order("updated_at", { ascending: false })
     .limit(1)
     .maybeSingle<SessionRow>();
@@ -213,19 +426,174 @@ export async function getOrCreateSession(guestId: string): Promise<GuestSession>
     return session;
   }
 
-  const createdResult = await supabase
+  return createSession(guestId);
+}
+
+// Row ids are uuid columns; anything else would make Postgres reject the query.
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function getSessionForGuest(params: {
+  sessionId: string;
+  guestId: string;
+}): Promise<GuestSession | null> {
+  if (!UUID_PATTERN.test(params.sessionId)) {
+    return null;
+  }
+
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return (
+      store.sessions.find(
+        (session) => session.id === params.sessionId && session.guestId === params.guestId,
+      ) ?? null
+    );
+  }
+
+  const result = await supabase
     .from("guest_sessions")
-    .insert({ guest_id: guestId, updated_at: now })
-    .select("id, guest_id, created_at, updated_at")
-    .single<SessionRow>();
+    .select(SESSION_COLUMNS)
+    .eq("id", params.sessionId)
+    .eq("guest_id", params.guestId)
+    .maybeSingle<SessionRow>();
 
-  if (createdResult.error || !createdResult.data) {
-    throw new Error(
-      `Unable to create session: ${createdResult.error?.message ?? "unknown error"}`,
+  if (result.error) {
+    throw new Error(`Unable to fetch session: ${result.error.message}`);
+  }
+
+  return result.data ? mapSession(result.data) : null;
+}
+
+/**
+ * Resolves the conversation a request targets: the given id when the guest owns it,
+ * otherwise the guest's most recent active conversation. Returns null for foreign ids.
+ */
+export async function resolveSessionForGuest(params: {
+  guestId: string;
+  sessionId?: string | null;
+}): Promise<GuestSession | null> {
+  if (!params.sessionId) {
+    return getOrCreateSession(params.guestId);
+  }
+
+  return getSessionForGuest({ sessionId: params.sessionId, guestId: params.guestId });
+}
+
+export async function listSessions(
+  guestId: string,
+  options: { includeArchived?: boolean } = {},
+): Promise<GuestSession[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.sessions
+      .filter(
+        (session) =>
+          session.guestId === guestId && (options.includeArchived || !session.archivedAt),
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  let query = supabase
+    .from("guest_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("guest_id", guestId)
+    .order("updated_at", { ascending: false });
+
+  if (!options.includeArchived) {
+    query = query.is("archived_at", null);
+  }
+
+  const result = await query;
+
+  if (result.error) {
+    throw new Error(`Unable to list sessions: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => mapSession(row as SessionRow));
+}
+
+export async function updateSession(params: {
+  sessionId: string;
+  guestId: string;
+  title?: string;
+  archived?: boolean;
+}): Promise<GuestSession | null> {
+  if (!UUID_PATTERN.test(params.sessionId)) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const existing = store.sessions.find(
+      (session) => session.id === params.sessionId && session.guestId === params.guestId,
     );
+
+    if (!existing) {
+      return null;
+    }
+
+    if (typeof params.title === "string") {
+      existing.title = params.title;
+    }
+
+    if (typeof params.archived === "boolean") {
+      existing.archivedAt = params.archived ? now : null;
+    }
+
+    existing.updatedAt = now;
+    return existing;
   }
 
-  return mapSession(createdResult.data);
+  const payload: Record<string, unknown> = { updated_at: now };
+
+  if (typeof params.title === "string") {
+    payload.title = params.title;
+  }
+
+  if (typeof params.archived === "boolean") {
+    payload.archived_at = params.archived ? now : null;
+  }
+
+  const result = await supabase
+    .from("guest_sessions")
+    .update(payload)
+    .eq("id", params.sessionId)
+    .eq("guest_id", params.guestId)
+    .select(SESSION_COLUMNS)
+    .maybeSingle<SessionRow>();
+
+  if (result.error) {
+    throw new Error(`Unable to update session: ${result.error.message}`);
+  }
+
+  return result.data ? mapSession(result.data) : null;
+}
+
+export async function getSessionState(sessionId: string): Promise<ChatSessionState | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.sessionStates.find((state) => state.sessionId === sessionId) ?? null;
+  }
+
+  const result = await supabase
+    .from("chat_session_state")
+    .select(SESSION_STATE_COLUMNS)
+    .eq("session_id", sessionId)
+    .maybeSingle<SessionStateRow>();
+
+  if (result.error) {
+    throw new Error(`Unable to fetch session state: ${result.error.message}`);
+  }
+
+  return result.data ? mapSessionState(result.data) : null;
 }
 
 export async function getOrCreateSessionState(
@@ -251,6 +619,8 @@ export async function getOrCreateSessionState(
       clarifierTopic: "",
       lastLens: "",
       lastModel: "",
+      riskTrajectory: [],
+      postCrisisTurnsRemaining: 0,
       updatedAt: now,
     };
 
@@ -260,9 +630,7 @@ export async function getOrCreateSessionState(
 
   const existingResult = await supabase
     .from("chat_session_state")
-    .select(
-      "session_id, rolling_summary, user_facts_json, open_loops_json, pending_clarifier, clarifier_topic, last_lens, last_model, updated_at",
-    )
+    .select(SESSION_STATE_COLUMNS)
     .eq("session_id", sessionId)
     .maybeSingle<SessionStateRow>();
 
@@ -279,9 +647,7 @@ export async function getOrCreateSessionState(
   const createdResult = await supabase
     .from("chat_session_state")
     .insert({ session_id: sessionId, updated_at: now })
-    .select(
-      "session_id, rolling_summary, user_facts_json, open_loops_json, pending_clarifier, clarifier_topic, last_lens, last_model, updated_at",
-    )
+    .select(SESSION_STATE_COLUMNS)
     .single<SessionStateRow>();
 
   if (createdResult.error || !createdResult.data) {
@@ -351,12 +717,18 @@ export async function updateSessionState(
     payload.last_model = patch.lastModel;
   }
 
+  if (Array.isArray(patch.riskTrajectory)) {
+    payload.risk_trajectory_json = patch.riskTrajectory;
+  }
+
+  if (typeof patch.postCrisisTurnsRemaining === "number") {
+    payload.post_crisis_turns_remaining = patch.postCrisisTurnsRemaining;
+  }
+
   const result = await supabase
     .from("chat_session_state")
     .upsert(payload, { onConflict: "session_id" })
-    .select(
-      "session_id, rolling_summary, user_facts_json, open_loops_json, pending_clarifier, clarifier_topic, last_lens, last_model, updated_at",
-    )
+    .select(SESSION_STATE_COLUMNS)
     .single<SessionStateRow>();
 
   if (result.error || !result.data) {
@@ -518,6 +890,31 @@ export async function getLatestSnapshotForSession(
   return result.data ? mapSnapshot(result.data) : null;
 }
 
+export async function listSnapshotsForSession(
+  sessionId: string,
+): Promise<StoredPurposeSnapshot[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.snapshots
+      .filter((snapshot) => snapshot.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  const result = await supabase
+    .from("purpose_snapshots")
+    .select("id, session_id, mission, values_json, next_actions_json, created_at")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (result.error) {
+    throw new Error(`Unable to list snapshots: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => mapSnapshot(row as SnapshotRow));
+}
+
 export async function createPurposeSnapshot(params: {
   sessionId: string;
   mission: string;
@@ -584,15 +981,14 @@ export async function getSnapshotForGuest(params: {
 
   if (!supabase) {
     const store = getMemoryStore();
-    const session = store.sessions.find((entry) => entry.guestId === params.guestId);
-    if (!session) {
-      return null;
-    }
+    const sessionIds = store.sessions
+      .filter((entry) => entry.guestId === params.guestId)
+      .map((entry) => entry.id);
 
     return (
       store.snapshots.find(
         (snapshot) =>
-          snapshot.id === params.snapshotId && snapshot.sessionId === session.id,
+          snapshot.id === params.snapshotId && sessionIds.includes(snapshot.sessionId),
       ) ?? null
     );
   }
@@ -635,6 +1031,8 @@ export async function createSafetyEvent(params: {
   sessionId: string;
   guestId: string;
   level: SafetyLevel;
+  action: SafetyAction;
+  reason: string;
   triggerText: string;
 }): Promise<void> {
   const now = new Date().toISOString();
@@ -644,9 +1042,16 @@ export async function createSafetyEvent(params: {
     const store = getMemoryStore();
     store.safetyEvents.push({
       id: crypto.randomUUID(),
+      sessionId: params.sessionId,
       guestId: params.guestId,
       level: params.level,
+      action: params.action,
+      reason: params.reason,
       triggerText: params.triggerText,
+      reviewStatus: "new",
+      reviewerNotes: "",
+      reviewedBy: null,
+      reviewedAt: null,
       createdAt: now,
     });
     return;
@@ -655,6 +1060,8 @@ export async function createSafetyEvent(params: {
   const result = await supabase.from("safety_events").insert({
     session_id: params.sessionId,
     level: params.level,
+    action: params.action,
+    reason: params.reason,
     trigger_text: params.triggerText,
   });
 
@@ -663,51 +1070,240 @@ export async function createSafetyEvent(params: {
   }
 }
 
-export async function clearSessionData(guestId: string): Promise<void> {
+export async function listSafetyEventsForSession(
+  sessionId: string,
+): Promise<DataExportConversation["safetyEvents"]> {
   const supabase = getSupabaseClient();
 
   if (!supabase) {
     const store = getMemoryStore();
-    const session = store.sessions.find((entry) => entry.guestId === guestId);
+    return store.safetyEvents
+      .filter((event) => event.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(({ level, action, reason, triggerText, createdAt }) => ({
+        level,
+        action,
+        reason,
+        triggerText,
+        createdAt,
+      }));
+  }
 
-    if (!session) {
-      return;
-    }
+  const result = await supabase
+    .from("safety_events")
+    .select("level, action, reason, trigger_text, created_at")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
 
-    store.messages = store.messages.filter((entry) => entry.sessionId !== session.id);
-    store.snapshots = store.snapshots.filter((entry) => entry.sessionId !== session.id);
-    store.sessionStates = store.sessionStates.filter(
-      (entry) => entry.sessionId !== session.id,
-    );
-    store.safetyEvents = store.safetyEvents.filter(
-      (entry) => entry.guestId !== guestId,
-    );
-    session.updatedAt = new Date().toISOString();
-    return;
+  if (result.error) {
+    throw new Error(`Unable to list safety events: ${result.error.message}`);
   }
 
-  const sessionResult = await supabase
-    .from("guest_sessions")
-    .select("id")
-    .eq("guest_id", guestId)
-    .order("updated_at", { ascending: false })
-    .limit(1)
-    .maybeSingle<{ id: string }>();
+  return (result.data ?? []).map((row) => ({
+    level: row.level as SafetyLevel,
+    action: row.action as SafetyAction,
+    reason: row.reason as string,
+    triggerText: row.trigger_text as string,
+    createdAt: row.created_at as string,
+  }));
+}
+
+export async function listSafetyEventsForReview(params: {
+  status?: SafetyReviewStatus;
+  /** Matches reasons that start with this value, e.g. `rule_high_risk`. */
+  reasonPrefix?: string;
+  before?: string;
+  limit: number;
+}): Promise<SafetyEvent[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.safetyEvents
+      .filter(
+        (event) =>
+          (!params.status || event.reviewStatus === params.status) &&
+          (!params.reasonPrefix || event.reason.startsWith(params.reasonPrefix)) &&
+          (!params.before || event.createdAt < params.before),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, params.limit)
+      .map((event) => ({ ...event }));
+  }
+
+  let query = supabase
+    .from("safety_events")
+    .select(SAFETY_EVENT_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(params.limit);
+
+  if (params.status) {
+    query = query.eq("review_status", params.status);
+  }
+
+  if (params.reasonPrefix) {
+    query = query.like("reason", `${params.reasonPrefix}%`);
+  }
+
+  if (params.before) {
+    query = query.lt("created_at", params.before);
+  }
+
+  const result = await query;
+
+  if (result.error) {
+    throw new Error(`Unable to list safety events for review: ${result.error.message}`);
+  }
+
+  return ((result.data ?? []) as unknown as SafetyEventRow[]).map(mapSafetyEvent);
+}
+
+export async function listSafetyEventTallies(
+  sinceIso: string,
+): Promise<Array<Pick<SafetyEvent, "reason" | "reviewStatus">>> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.safetyEvents
+      .filter((event) => event.createdAt >= sinceIso)
+      .map(({ reason, reviewStatus }) => ({ reason, reviewStatus }));
+  }
+
+  const result = await supabase
+    .from("safety_events")
+    .select("reason, review_status")
+    .gte("created_at", sinceIso);
+
+  if (result.error) {
+    throw new Error(`Unable to count safety events: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => ({
+    reason: (row.reason as string) ?? "",
+    reviewStatus: (row.review_status as SafetyReviewStatus) ?? "new",
+  }));
+}
+
+export async function getSafetyEvent(eventId: string): Promise<SafetyEvent | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const event = store.safetyEvents.find((entry) => entry.id === eventId);
+    return event ? { ...event } : null;
+  }
+
+  const result = await supabase
+    .from("safety_events")
+    .select(SAFETY_EVENT_COLUMNS)
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Unable to load safety event: ${result.error.message}`);
+  }
+
+  return result.data ? mapSafetyEvent(result.data as unknown as SafetyEventRow) : null;
+}
+
+export async function updateSafetyEventReview(params: {
+  eventId: string;
+  status?: SafetyReviewStatus;
+  notes?: string;
+  reviewer: string | null;
+}): Promise<SafetyEvent | null> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const event = store.safetyEvents.find((entry) => entry.id === params.eventId);
+
+    if (!event) {
+      return null;
+    }
+
+    event.reviewStatus = params.status ?? event.reviewStatus;
+    event.reviewerNotes = params.notes ?? event.reviewerNotes;
+    event.reviewedBy = params.reviewer;
+    event.reviewedAt = now;
+    return { ...event };
+  }
+
+  const result = await supabase
+    .from("safety_events")
+    .update({
+      ...(params.status ? { review_status: params.status } : {}),
+      ...(params.notes !== undefined ? { reviewer_notes: params.notes } : {}),
+      reviewed_by: params.reviewer,
+      reviewed_at: now,
+    })
+    .eq("id", params.eventId)
+    .select(SAFETY_EVENT_COLUMNS)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Unable to update safety event: ${result.error.message}`);
+  }
+
+  return result.data ? mapSafetyEvent(result.data as unknown as SafetyEventRow) : null;
+}
+
+export async function clearSessionData(
+  guestId: string,
+  sessionId?: string | null,
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const session = sessionId
+      ? store.sessions.find((entry) => entry.id === sessionId && entry.guestId === guestId)
+      : store.sessions
+          .filter((entry) => entry.guestId === guestId && !entry.archivedAt)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+    if (!session) {
+      return;
+    }
+
+    store.messages = store.messages.filter((entry) => entry.sessionId !== session.id);
+    store.snapshots = store.snapshots.filter((entry) => entry.sessionId !== session.id);
+    store.sessionStates = store.sessionStates.filter(
+      (entry) => entry.sessionId !== session.id,
+    );
+    store.safetyEvents = store.safetyEvents.filter(
+      (entry) => entry.sessionId !== session.id,
+    );
+    store.actionItems = store.actionItems.filter((entry) => entry.sessionId !== session.id);
+    session.updatedAt = new Date().toISOString();
+    return;
+  }
+
+  let sessionQuery = supabase.from("guest_sessions").select("id").eq("guest_id", guestId);
+
+  sessionQuery = sessionId
+    ? sessionQuery.eq("id", sessionId)
+    : sessionQuery.is("archived_at", null).order("updated_at", { ascending: false }).limit(1);
+
+  const sessionResult = await sessionQuery.maybeSingle<{ id: string }>();
 
   if (sessionResult.error) {
     throw new Error(`Unable to clear session: ${sessionResult.error.message}`);
   }
 
-  const sessionId = sessionResult.data?.id;
-  if (!sessionId) {
+  const targetSessionId = sessionResult.data?.id;
+  if (!targetSessionId) {
     return;
   }
 
   await Promise.all([
-    supabase.from("chat_messages").delete().eq("session_id", sessionId),
-    supabase.from("purpose_snapshots").delete().eq("session_id", sessionId),
-    supabase.from("chat_session_state").delete().eq("session_id", sessionId),
-    supabase.from("safety_events").delete().eq("session_id", sessionId),
+    supabase.from("chat_messages").delete().eq("session_id", targetSessionId),
+    supabase.from("purpose_snapshots").delete().eq("session_id", targetSessionId),
+    supabase.from("chat_session_state").delete().eq("session_id", targetSessionId),
+    supabase.from("safety_events").delete().eq("session_id", targetSessionId),
+    supabase.from("action_items").delete().eq("session_id", targetSessionId),
   ]);
 }
 
@@ -727,11 +1323,17 @@ export async function deleteGuestData(guestId: string): Promise<void> {
     store.sessionStates = store.sessionStates.filter(
       (entry) => !sessionIds.includes(entry.sessionId),
     );
+    store.actionItems = store.actionItems.filter(
+      (entry) => !sessionIds.includes(entry.sessionId),
+    );
     store.sessions = store.sessions.filter((entry) => entry.guestId !== guestId);
     store.safetyEvents = store.safetyEvents.filter((entry) => entry.guestId !== guestId);
     store.analyticsEvents = store.analyticsEvents.filter(
       (entry) => entry.guestId !== guestId,
     );
+    store.transferCodes = store.transferCodes.filter((entry) => entry.guestId !== guestId);
+    store.transferAudit = store.transferAudit.filter((entry) => entry.guestId !== guestId);
+    store.reminders = store.reminders.filter((entry) => entry.guestId !== guestId);
     return;
   }
 
@@ -752,12 +1354,16 @@ export async function deleteGuestData(guestId: string): Promise<void> {
       supabase.from("purpose_snapshots").delete().in("session_id", sessionIds),
       supabase.from("chat_session_state").delete().in("session_id", sessionIds),
       supabase.from("safety_events").delete().in("session_id", sessionIds),
+      supabase.from("action_items").delete().in("session_id", sessionIds),
     ]);
   }
 
   await Promise.all([
     supabase.from("analytics_events").delete().eq("guest_id", guestId),
     supabase.from("guest_sessions").delete().eq("guest_id", guestId),
+    supabase.from("transfer_codes").delete().eq("guest_id", guestId),
+    supabase.from("transfer_audit_events").delete().eq("guest_id", guestId),
+    supabase.from("reminder_subscriptions").delete().eq("guest_id", guestId),
   ]);
 }
 
@@ -794,23 +1400,38 @@ export async function trackEvent(params: {
   }
 }
 
-export async function getAnalyticsEventsSince(
-  sinceIso: string,
+export async function listAnalyticsEventsForGuest(
+  guestId: string,
+  options: { since?: string; eventName?: AnalyticsEventName } = {},
 ): Promise<AnalyticsEvent[]> {
   const supabase = getSupabaseClient();
 
   if (!supabase) {
     const store = getMemoryStore();
     return store.analyticsEvents
-      .filter((event) => event.createdAt >= sinceIso)
+      .filter(
+        (event) =>
+          event.guestId === guestId &&
+          (!options.since || event.createdAt >= options.since) &&
+          (!options.eventName || event.eventName === options.eventName),
+      )
       .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
-  const result = await supabase
+  let query = supabase
     .from("analytics_events")
     .select("id, guest_id, event_name, metadata, created_at")
-    .gte("created_at", sinceIso)
-    .order("created_at", { ascending: true });
+    .eq("guest_id", guestId);
+
+  if (options.since) {
+    query = query.gte("created_at", options.since);
+  }
+
+  if (options.eventName) {
+    query = query.eq("event_name", options.eventName);
+  }
+
+  const result = await query.order("created_at", { ascending: true });
 
   if (result.error) {
     throw new Error(`Unable to load analytics events: ${result.error.message}`);
@@ -827,3 +1448,1014 @@ export async function getAnalyticsEventsSince(
     };
   });
 }
+
+/** PostgREST caps a response at 1000 rows by default, so longer reads are paged. */
+const ANALYTICS_PAGE_SIZE = 1000;
+
+/**
+ * Loads every analytics event since `sinceIso`, oldest first, optionally of one name.
+ * Reads page through the whole range so a busy day is never cut off at the row cap.
+ */
+export async function getAnalyticsEventsSince(
+  sinceIso: string,
+  options: { eventName?: AnalyticsEventName } = {},
+): Promise<AnalyticsEvent[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.analyticsEvents
+      .filter(
+        (event) =>
+          event.createdAt >= sinceIso &&
+          (!options.eventName || event.eventName === options.eventName),
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  const rows: AnalyticsRow[] = [];
+
+  for (let from = 0; ; from += ANALYTICS_PAGE_SIZE) {
+    let query = supabase
+      .from("analytics_events")
+      .select("id, guest_id, event_name, metadata, created_at")
+      .gte("created_at", sinceIso);
+
+    if (options.eventName) {
+      query = query.eq("event_name", options.eventName);
+    }
+
+    // Ordering on id as well keeps rows that share a timestamp from shifting between pages.
+    const result = await query
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + ANALYTICS_PAGE_SIZE - 1);
+
+    if (result.error) {
+      throw new Error(`Unable to load analytics events: ${result.error.message}`);
+    }
+
+    const page = (result.data ?? []) as AnalyticsRow[];
+    rows.push(...page);
+
+    if (page.length < ANALYTICS_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return rows.map((typed) => ({
+    id: typed.id,
+    guestId: typed.guest_id,
+    eventName: typed.event_name,
+    metadata: typed.metadata ?? {},
+    createdAt: typed.created_at,
+  }));
+}
+
+export async function createMagicLink(params: {
+  tokenHash: string;
+  email: string;
+  guestId: string | null;
+  expiresAt: string;
+}): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    store.magicLinks.push({
+      ...params,
+      consumedAt: null,
+      createdAt: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const result = await supabase.from("magic_link_tokens").insert({
+    token_hash: params.tokenHash,
+    email: params.email,
+    guest_id: params.guestId,
+    expires_at: params.expiresAt,
+  });
+
+  if (result.error) {
+    throw new Error(`Unable to create magic link: ${result.error.message}`);
+  }
+}
+
+/** Marks an unexpired, unused magic link as consumed and returns what it was issued for. */
+export async function consumeMagicLink(
+  tokenHash: string,
+): Promise<{ email: string; guestId: string | null } | null> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const link = store.magicLinks.find(
+      (entry) => entry.tokenHash === tokenHash && !entry.consumedAt && entry.expiresAt > now,
+    );
+
+    if (!link) {
+      return null;
+    }
+
+    link.consumedAt = now;
+    return { email: link.email, guestId: link.guestId };
+  }
+
+  const result = await supabase
+    .from("magic_link_tokens")
+    .update({ consumed_at: now })
+    .eq("token_hash", tokenHash)
+    .is("consumed_at", null)
+    .gt("expires_at", now)
+    .select("email, guest_id")
+    .maybeSingle<{ email: string; guest_id: string | null }>();
+
+  if (result.error) {
+    throw new Error(`Unable to consume magic link: ${result.error.message}`);
+  }
+
+  return result.data ? { email: result.data.email, guestId: result.data.guest_id } : null;
+}
+
+export async function findOrCreateAccount(email: string): Promise<Account> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const existing = store.accounts.find((account) => account.email === email);
+
+    if (existing) {
+      return existing;
+    }
+
+    const created: Account = {
+      id: crypto.randomUUID(),
+      email,
+      createdAt: new Date().toISOString(),
+    };
+
+    store.accounts.push(created);
+    return created;
+  }
+
+  const result = await supabase
+    .from("accounts")
+    .upsert({ email }, { onConflict: "email" })
+    .select("id, email, created_at")
+    .single<AccountRow>();
+
+  if (result.error || !result.data) {
+    throw new Error(`Unable to create account: ${result.error?.message ?? "unknown error"}`);
+  }
+
+  return mapAccount(result.data);
+}
+
+export async function getAccount(accountId: string): Promise<Account | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.accounts.find((account) => account.id === accountId) ?? null;
+  }
+
+  const result = await supabase
+    .from("accounts")
+    .select("id, email, created_at")
+    .eq("id", accountId)
+    .maybeSingle<AccountRow>();
+
+  if (result.error) {
+    throw new Error(`Unable to fetch account: ${result.error.message}`);
+  }
+
+  return result.data ? mapAccount(result.data) : null;
+}
+
+/**
+ * Moves a guest's conversations and analytics under a new owner key. Session-scoped
+ * rows (messages, snapshots, state, safety events) follow their session.
+ */
+export async function claimGuestData(params: {
+  guestId: string;
+  ownerId: string;
+}): Promise<number> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const sessions = store.sessions.filter((entry) => entry.guestId === params.guestId);
+
+    for (const session of sessions) {
+      session.guestId = params.ownerId;
+    }
+
+    for (const event of store.safetyEvents) {
+      if (event.guestId === params.guestId) {
+        event.guestId = params.ownerId;
+      }
+    }
+
+    for (const event of store.analyticsEvents) {
+      if (event.guestId === params.guestId) {
+        event.guestId = params.ownerId;
+      }
+    }
+
+    if (store.reminders.some((entry) => entry.guestId === params.ownerId)) {
+      store.reminders = store.reminders.filter((entry) => entry.guestId !== params.guestId);
+    } else {
+      for (const reminder of store.reminders) {
+        if (reminder.guestId === params.guestId) {
+          reminder.guestId = params.ownerId;
+        }
+      }
+    }
+
+    return sessions.length;
+  }
+
+  const sessionsResult = await supabase
+    .from("guest_sessions")
+    .update({ guest_id: params.ownerId })
+    .eq("guest_id", params.guestId)
+    .select("id");
+
+  if (sessionsResult.error) {
+    throw new Error(`Unable to claim guest sessions: ${sessionsResult.error.message}`);
+  }
+
+  const analyticsResult = await supabase
+    .from("analytics_events")
+    .update({ guest_id: params.ownerId })
+    .eq("guest_id", params.guestId);
+
+  if (analyticsResult.error) {
+    throw new Error(`Unable to claim guest analytics: ${analyticsResult.error.message}`);
+  }
+
+  // The owner keeps their own reminder settings if they already have some.
+  const ownerReminder = await getReminderSubscription(params.ownerId);
+  const reminderResult = ownerReminder
+    ? await supabase.from("reminder_subscriptions").delete().eq("guest_id", params.guestId)
+    : await supabase
+        .from("reminder_subscriptions")
+        .update({ guest_id: params.ownerId })
+        .eq("guest_id", params.guestId);
+
+  if (reminderResult.error) {
+    throw new Error(`Unable to claim guest reminders: ${reminderResult.error.message}`);
+  }
+
+  return (sessionsResult.data ?? []).length;
+}
+
+export async function deleteAccount(accountId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const account = store.accounts.find((entry) => entry.id === accountId);
+    store.accounts = store.accounts.filter((entry) => entry.id !== accountId);
+    store.magicLinks = store.magicLinks.filter((entry) => entry.email !== account?.email);
+    return;
+  }
+
+  const result = await supabase
+    .from("accounts")
+    .delete()
+    .eq("id", accountId)
+    .select("email")
+    .maybeSingle<{ email: string }>();
+
+  if (result.error) {
+    throw new Error(`Unable to delete account: ${result.error.message}`);
+  }
+
+  if (result.data) {
+    await supabase.from("magic_link_tokens").delete().eq("email", result.data.email);
+  }
+}
+
+/** Issues a transfer code for a guest, replacing any code they have not used yet. */
+export async function createTransferCode(params: {
+  codeHash: string;
+  guestId: string;
+  expiresAt: string;
+}): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    store.transferCodes = store.transferCodes.filter(
+      (entry) => entry.guestId !== params.guestId || entry.redeemedAt,
+    );
+    store.transferCodes.push({
+      ...params,
+      redeemedAt: null,
+      redeemedBy: null,
+      createdAt: new Date().toISOString(),
+    });
+    return;
+  }
+
+  await supabase
+    .from("transfer_codes")
+    .delete()
+    .eq("guest_id", params.guestId)
+    .is("redeemed_at", null);
+
+  const result = await supabase.from("transfer_codes").insert({
+    code_hash: params.codeHash,
+    guest_id: params.guestId,
+    expires_at: params.expiresAt,
+  });
+
+  if (result.error) {
+    throw new Error(`Unable to create transfer code: ${result.error.message}`);
+  }
+}
+
+/** Marks an unexpired, unused transfer code as redeemed and returns the source guest id. */
+export async function redeemTransferCode(params: {
+  codeHash: string;
+  redeemedBy: string;
+}): Promise<string | null> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const code = store.transferCodes.find(
+      (entry) => entry.codeHash === params.codeHash && !entry.redeemedAt && entry.expiresAt > now,
+    );
+
+    if (!code) {
+      return null;
+    }
+
+    code.redeemedAt = now;
+    code.redeemedBy = params.redeemedBy;
+    return code.guestId;
+  }
+
+  const result = await supabase
+    .from("transfer_codes")
+    .update({ redeemed_at: now, redeemed_by: params.redeemedBy })
+    .eq("code_hash", params.codeHash)
+    .is("redeemed_at", null)
+    .gt("expires_at", now)
+    .select("guest_id")
+    .maybeSingle<{ guest_id: string }>();
+
+  if (result.error) {
+    throw new Error(`Unable to redeem transfer code: ${result.error.message}`);
+  }
+
+  return result.data?.guest_id ?? null;
+}
+
+export async function recordTransferAudit(params: {
+  event: TransferAuditEventName;
+  guestId: string | null;
+  ip: string | null;
+  metadata?: Record<string, unknown>;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  const metadata = params.metadata ?? {};
+  const ip = params.ip ?? "unknown";
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    store.transferAudit.push({
+      id: crypto.randomUUID(),
+      event: params.event,
+      guestId: params.guestId,
+      ip,
+      metadata,
+      createdAt: now,
+    });
+    return;
+  }
+
+  const result = await supabase.from("transfer_audit_events").insert({
+    event: params.event,
+    guest_id: params.guestId,
+    ip,
+    metadata,
+    created_at: now,
+  });
+
+  if (result.error) {
+    throw new Error(`Unable to record transfer audit event: ${result.error.message}`);
+  }
+}
+
+export async function listTransferAuditEvents(
+  guestId: string,
+  limit = 20,
+): Promise<TransferAuditEvent[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.transferAudit
+      .filter((entry) => entry.guestId === guestId)
+      .reverse()
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  const result = await supabase
+    .from("transfer_audit_events")
+    .select("id, event, guest_id, ip, metadata, created_at")
+    .eq("guest_id", guestId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (result.error) {
+    throw new Error(`Unable to load transfer audit events: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => {
+    const typed = row as TransferAuditRow;
+    return {
+      id: typed.id,
+      event: typed.event,
+      guestId: typed.guest_id,
+      ip: typed.ip,
+      metadata: typed.metadata ?? {},
+      createdAt: typed.created_at,
+    };
+  });
+}
+
+/**
+ * Writes an export archive under a guest with fresh row ids, keeping the original
+ * timestamps. Snapshot links inside messages are rewritten to the new snapshot ids.
+ * Safety and analytics events are never restored; `parseExportArchive` drops them.
+ */
+export async function restoreGuestData(
+  guestId: string,
+  archive: DataExportArchive,
+): Promise<{ conversations: number; messages: number }> {
+  const supabase = getSupabaseClient();
+  let messageCount = 0;
+
+  for (const conversation of archive.conversations) {
+    const sessionId = crypto.randomUUID();
+    const snapshotIds = new Map(
+      conversation.snapshots.map((snapshot) => [snapshot.id, crypto.randomUUID()]),
+    );
+    const rewriteLinks = (content: string) =>
+      content.replace(/\/snapshot\/([\w-]+)/gi, (link, id: string) =>
+        snapshotIds.has(id) ? `/snapshot/${snapshotIds.get(id)}` : link,
+      );
+
+    const messages = conversation.messages.map((message) => ({
+      id: crypto.randomUUID(),
+      sessionId,
+      role: message.role,
+      content: rewriteLinks(message.content),
+      mode: message.mode,
+      createdAt: message.createdAt,
+    }));
+    const snapshots = conversation.snapshots.map((snapshot) => ({
+      ...snapshot,
+      id: snapshotIds.get(snapshot.id)!,
+      sessionId,
+    }));
+    const actionItems: ActionItem[] = conversation.actionItems.map((item) => ({
+      ...item,
+      id: crypto.randomUUID(),
+      sessionId,
+      snapshotId: item.snapshotId ? (snapshotIds.get(item.snapshotId) ?? null) : null,
+    }));
+
+    messageCount += messages.length;
+
+    if (!supabase) {
+      const store = getMemoryStore();
+      store.sessions.push({
+        id: sessionId,
+        guestId,
+        title: conversation.title,
+        archivedAt: conversation.archivedAt,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      });
+      store.messages.push(...messages);
+      store.snapshots.push(...snapshots);
+
+      if (conversation.state) {
+        store.sessionStates.push({ ...conversation.state, sessionId });
+      }
+
+      store.actionItems.push(...actionItems);
+      continue;
+    }
+
+    // Supabase inserts are not transactional, so a failed import removes what it wrote so
+    // far; deleting the guest's sessions cascades to their rows.
+    try {
+      const sessionResult = await supabase.from("guest_sessions").insert({
+        id: sessionId,
+        guest_id: guestId,
+        title: conversation.title,
+        archived_at: conversation.archivedAt,
+        created_at: conversation.createdAt,
+        updated_at: conversation.updatedAt,
+      });
+
+      if (sessionResult.error) {
+        throw new Error(`Unable to restore session: ${sessionResult.error.message}`);
+      }
+
+      const inserts = [
+        messages.length > 0
+          ? supabase.from("chat_messages").insert(
+              messages.map((message) => ({
+                id: message.id,
+                session_id: sessionId,
+                role: message.role,
+                content: message.content,
+                mode: message.mode,
+                created_at: message.createdAt,
+              })),
+            )
+          : null,
+        snapshots.length > 0
+          ? supabase.from("purpose_snapshots").insert(
+              snapshots.map((snapshot) => ({
+                id: snapshot.id,
+                session_id: sessionId,
+                mission: snapshot.mission,
+                values_json: snapshot.values,
+                next_actions_json: snapshot.nextActions,
+                created_at: snapshot.createdAt,
+              })),
+            )
+          : null,
+        actionItems.length > 0
+          ? supabase.from("action_items").insert(
+              actionItems.map((item) => ({
+                id: item.id,
+                session_id: sessionId,
+                snapshot_id: item.snapshotId,
+                title: item.title,
+                status: item.status,
+                due_at: item.dueAt,
+                completed_at: item.completedAt,
+                notes: item.notes,
+                created_at: item.createdAt,
+                updated_at: item.updatedAt,
+              })),
+            )
+          : null,
+        conversation.state
+          ? supabase.from("chat_session_state").insert({
+              session_id: sessionId,
+              rolling_summary: conversation.state.rollingSummary,
+              user_facts_json: conversation.state.userFacts,
+              open_loops_json: conversation.state.openLoops,
+              pending_clarifier: conversation.state.pendingClarifier,
+              clarifier_topic: conversation.state.clarifierTopic,
+              last_lens: conversation.state.lastLens,
+              last_model: conversation.state.lastModel,
+              risk_trajectory_json: conversation.state.riskTrajectory,
+              post_crisis_turns_remaining: conversation.state.postCrisisTurnsRemaining,
+              updated_at: conversation.state.updatedAt,
+            })
+          : null,
+      ];
+
+      for (const result of await Promise.all(inserts)) {
+        if (result?.error) {
+          throw new Error(`Unable to restore conversation data: ${result.error.message}`);
+        }
+      }
+    } catch (error) {
+      await supabase.from("guest_sessions").delete().eq("guest_id", guestId);
+      throw error;
+    }
+  }
+
+  return { conversations: archive.conversations.length, messages: messageCount };
+}
+
+export async function createActionItems(params: {
+  sessionId: string;
+  snapshotId: string | null;
+  titles: string[];
+  dueAt: string | null;
+}): Promise<ActionItem[]> {
+  const now = new Date().toISOString();
+  const titles = params.titles.map((title) => title.trim()).filter(Boolean);
+  const supabase = getSupabaseClient();
+
+  if (titles.length === 0) {
+    return [];
+  }
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const created = titles.map(
+      (title): ActionItem => ({
+        id: crypto.randomUUID(),
+        sessionId: params.sessionId,
+        snapshotId: params.snapshotId,
+        title,
+        status: "open",
+        dueAt: params.dueAt,
+        completedAt: null,
+        notes: "",
+        createdAt: now,
+        updatedAt: now,
+      }),
+    );
+
+    store.actionItems.push(...created);
+    return created;
+  }
+
+  const result = await supabase
+    .from("action_items")
+    .insert(
+      titles.map((title) => ({
+        session_id: params.sessionId,
+        snapshot_id: params.snapshotId,
+        title,
+        due_at: params.dueAt,
+        created_at: now,
+        updated_at: now,
+      })),
+    )
+    .select(ACTION_ITEM_COLUMNS);
+
+  if (result.error) {
+    throw new Error(`Unable to create action items: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => mapActionItem(row as ActionItemRow));
+}
+
+export async function listActionItems(
+  sessionId: string,
+  options: { snapshotId?: string } = {},
+): Promise<ActionItem[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.actionItems
+      .filter(
+        (item) =>
+          item.sessionId === sessionId &&
+          (!options.snapshotId || item.snapshotId === options.snapshotId),
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  let query = supabase
+    .from("action_items")
+    .select(ACTION_ITEM_COLUMNS)
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (options.snapshotId) {
+    query = query.eq("snapshot_id", options.snapshotId);
+  }
+
+  const result = await query;
+
+  if (result.error) {
+    throw new Error(`Unable to list action items: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => mapActionItem(row as ActionItemRow));
+}
+
+/** Applies a user edit to an action item, returning null when the guest does not own it. */
+export async function updateActionItem(params: {
+  actionItemId: string;
+  guestId: string;
+  status?: ActionItemStatus;
+  dueAt?: string | null;
+  notes?: string;
+}): Promise<ActionItem | null> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  const completedAt = (current: string | null) =>
+    params.status === undefined ? current : params.status === "done" ? (current ?? now) : null;
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const item = store.actionItems.find((entry) => entry.id === params.actionItemId);
+    const owned =
+      item &&
+      store.sessions.some(
+        (session) => session.id === item.sessionId && session.guestId === params.guestId,
+      );
+
+    if (!item || !owned) {
+      return null;
+    }
+
+    item.completedAt = completedAt(item.completedAt);
+    item.status = params.status ?? item.status;
+    item.dueAt = params.dueAt === undefined ? item.dueAt : params.dueAt;
+    item.notes = params.notes ?? item.notes;
+    item.updatedAt = now;
+    return item;
+  }
+
+  const existingResult = await supabase
+    .from("action_items")
+    .select(ACTION_ITEM_COLUMNS)
+    .eq("id", params.actionItemId)
+    .maybeSingle<ActionItemRow>();
+
+  if (existingResult.error) {
+    throw new Error(`Unable to load action item: ${existingResult.error.message}`);
+  }
+
+  if (!existingResult.data) {
+    return null;
+  }
+
+  const session = await getSessionForGuest({
+    sessionId: existingResult.data.session_id,
+    guestId: params.guestId,
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const payload: Record<string, unknown> = {
+    updated_at: now,
+    completed_at: completedAt(existingResult.data.completed_at),
+  };
+
+  if (params.status !== undefined) {
+    payload.status = params.status;
+  }
+
+  if (params.dueAt !== undefined) {
+    payload.due_at = params.dueAt;
+  }
+
+  if (params.notes !== undefined) {
+    payload.notes = params.notes;
+  }
+
+  const result = await supabase
+    .from("action_items")
+    .update(payload)
+    .eq("id", params.actionItemId)
+    .select(ACTION_ITEM_COLUMNS)
+    .single<ActionItemRow>();
+
+  if (result.error || !result.data) {
+    throw new Error(
+      `Unable to update action item: ${result.error?.message ?? "unknown error"}`,
+    );
+  }
+
+  return mapActionItem(result.data);
+}
+
+export async function getReminderSubscription(
+  guestId: string,
+): Promise<ReminderSubscription | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.reminders.find((entry) => entry.guestId === guestId) ?? null;
+  }
+
+  const result = await supabase
+    .from("reminder_subscriptions")
+    .select(REMINDER_COLUMNS)
+    .eq("guest_id", guestId)
+    .maybeSingle<ReminderRow>();
+
+  if (result.error) {
+    throw new Error(`Unable to load reminder settings: ${result.error.message}`);
+  }
+
+  return result.data ? mapReminder(result.data) : null;
+}
+
+/** Creates or replaces the guest's single reminder subscription. */
+export async function upsertReminderSubscription(params: {
+  guestId: string;
+  sessionId: string | null;
+  cadence: ReminderCadence;
+  channel: ReminderChannel;
+  destination: string;
+  nextRunAt: string;
+  confirmedAt: string | null;
+}): Promise<ReminderSubscription> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const existing = store.reminders.find((entry) => entry.guestId === params.guestId);
+    const reminder: ReminderSubscription = {
+      id: existing?.id ?? crypto.randomUUID(),
+      guestId: params.guestId,
+      sessionId: params.sessionId,
+      cadence: params.cadence,
+      channel: params.channel,
+      destination: params.destination,
+      nextRunAt: params.nextRunAt,
+      lastSentAt: existing?.lastSentAt ?? null,
+      lastError: null,
+      confirmedAt: params.confirmedAt,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    store.reminders = [
+      ...store.reminders.filter((entry) => entry.guestId !== params.guestId),
+      reminder,
+    ];
+    return reminder;
+  }
+
+  const result = await supabase
+    .from("reminder_subscriptions")
+    .upsert(
+      {
+        guest_id: params.guestId,
+        session_id: params.sessionId,
+        cadence: params.cadence,
+        channel: params.channel,
+        destination: params.destination,
+        next_run_at: params.nextRunAt,
+        last_error: null,
+        confirmed_at: params.confirmedAt,
+        updated_at: now,
+      },
+      { onConflict: "guest_id" },
+    )
+    .select(REMINDER_COLUMNS)
+    .single<ReminderRow>();
+
+  if (result.error || !result.data) {
+    throw new Error(
+      `Unable to save reminder settings: ${result.error?.message ?? "unknown error"}`,
+    );
+  }
+
+  return mapReminder(result.data);
+}
+
+export async function getReminderSubscriptionById(
+  reminderId: string,
+): Promise<ReminderSubscription | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.reminders.find((entry) => entry.id === reminderId) ?? null;
+  }
+
+  if (!UUID_PATTERN.test(reminderId)) {
+    return null;
+  }
+
+  const result = await supabase
+    .from("reminder_subscriptions")
+    .select(REMINDER_COLUMNS)
+    .eq("id", reminderId)
+    .maybeSingle<ReminderRow>();
+
+  if (result.error) {
+    throw new Error(`Unable to load reminder settings: ${result.error.message}`);
+  }
+
+  return result.data ? mapReminder(result.data) : null;
+}
+
+export async function confirmReminderSubscription(reminderId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const reminder = getMemoryStore().reminders.find((entry) => entry.id === reminderId);
+
+    if (reminder) {
+      reminder.confirmedAt = reminder.confirmedAt ?? now;
+      reminder.updatedAt = now;
+    }
+
+    return;
+  }
+
+  const result = await supabase
+    .from("reminder_subscriptions")
+    .update({ confirmed_at: now, updated_at: now })
+    .eq("id", reminderId)
+    .is("confirmed_at", null);
+
+  if (result.error) {
+    throw new Error(`Unable to confirm reminders: ${result.error.message}`);
+  }
+}
+
+export async function deleteReminderSubscription(guestId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    store.reminders = store.reminders.filter((entry) => entry.guestId !== guestId);
+    return;
+  }
+
+  const result = await supabase.from("reminder_subscriptions").delete().eq("guest_id", guestId);
+
+  if (result.error) {
+    throw new Error(`Unable to delete reminder settings: ${result.error.message}`);
+  }
+}
+
+export async function listDueReminderSubscriptions(
+  nowIso: string,
+  limit = 100,
+): Promise<ReminderSubscription[]> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    return store.reminders
+      .filter((entry) => entry.confirmedAt && entry.nextRunAt <= nowIso)
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))
+      .slice(0, limit);
+  }
+
+  const result = await supabase
+    .from("reminder_subscriptions")
+    .select(REMINDER_COLUMNS)
+    .not("confirmed_at", "is", null)
+    .lte("next_run_at", nowIso)
+    .order("next_run_at", { ascending: true })
+    .limit(limit);
+
+  if (result.error) {
+    throw new Error(`Unable to list due reminders: ${result.error.message}`);
+  }
+
+  return (result.data ?? []).map((row) => mapReminder(row as ReminderRow));
+}
+
+/** Records a dispatch attempt; `sentAt` is null when delivery failed. */
+export async function recordReminderDispatch(params: {
+  reminderId: string;
+  sentAt: string | null;
+  nextRunAt: string;
+  error: string | null;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    const store = getMemoryStore();
+    const reminder = store.reminders.find((entry) => entry.id === params.reminderId);
+
+    if (reminder) {
+      reminder.lastSentAt = params.sentAt ?? reminder.lastSentAt;
+      reminder.nextRunAt = params.nextRunAt;
+      reminder.lastError = params.error;
+      reminder.updatedAt = now;
+    }
+
+    return;
+  }
+
+  const payload: Record<string, unknown> = {
+    next_run_at: params.nextRunAt,
+    last_error: params.error,
+    updated_at: now,
+  };
+
+  if (params.sentAt) {
+    payload.last_sent_at = params.sentAt;
+  }
+
+  const result = await supabase
+    .from("reminder_subscriptions")
+    .update(payload)
+    .eq("id", params.reminderId);
+
+  if (result.error) {
+    throw new Error(`Unable to record reminder dispatch: ${result.error.message}`);
+  }
+}
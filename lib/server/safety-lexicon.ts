@@ -0,0 +1,319 @@
+import { env } from "@/lib/server/env";
+import lexiconV1 from "@/lib/server/safety-lexicons/v1.json";
+import lexiconV2 from "@/lib/server/safety-lexicons/v2.json";
+import type { SafetyLevel } from "@/types/domain";
+
+export type LexiconLevel = Exclude<SafetyLevel, "none">;
+
+export type LexiconPattern = {
+  /** Stable id recorded in safety event reasons; never reuse one for a different meaning. */
+  id: string;
+  level: LexiconLevel;
+  pattern: string;
+  /** Whether a first-person denial right before the match ("I would never ...") cancels it. */
+  negatable: boolean;
+};
+
+export type LexiconFile = {
+  version: number;
+  publishedAt: string;
+  notes: string;
+  normalize: boolean;
+  negation: { cues: string[]; fillers: string[] };
+  patterns: LexiconPattern[];
+};
+
+export type SafetyLexicon = {
+  version: number;
+  normalize: boolean;
+  patterns: Array<LexiconPattern & { regex: RegExp }>;
+  negation: RegExp | null;
+};
+
+export type LexiconMatch = {
+  id: string;
+  level: LexiconLevel;
+  negated: boolean;
+};
+
+export type LexiconClassification = {
+  level: SafetyLevel;
+  /** Pattern that decided the level; for `none` the negated pattern, if any. */
+  patternId: string | null;
+  negated: boolean;
+};
+
+export type SafetyCorpusExample = {
+  id: string;
+  text: string;
+  label: SafetyLevel;
+  tags?: string[];
+};
+
+export type LexiconClassMetrics = {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+};
+
+export type LexiconReport = {
+  version: number;
+  examples: number;
+  accuracy: number;
+  /** `any` scores "flagged at all" (elevated or high) against "labeled at all". */
+  classes: Record<LexiconLevel | "any", LexiconClassMetrics>;
+  mistakes: Array<{
+    id: string;
+    text: string;
+    label: SafetyLevel;
+    predicted: SafetyLevel;
+    patternId: string | null;
+  }>;
+};
+
+const LEXICON_FILES: LexiconFile[] = [lexiconV1 as LexiconFile, lexiconV2 as LexiconFile];
+
+export const SAFETY_LEXICON_VERSIONS = LEXICON_FILES.map((file) => file.version);
+export const LATEST_SAFETY_LEXICON_VERSION = Math.max(...SAFETY_LEXICON_VERSIONS);
+
+const LEVEL_RANK: Record<SafetyLevel, number> = { none: 0, elevated: 1, high: 2 };
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+const CLAUSE_BREAK = /[.,;!?]+|\b(?:but|and|although|though)\b/;
+
+const compiled = new Map<number, SafetyLexicon>();
+
+function compile(file: LexiconFile): SafetyLexicon {
+  const { cues, fillers } = file.negation;
+
+  return {
+    version: file.version,
+    normalize: file.normalize,
+    patterns: file.patterns.map((entry) => ({ ...entry, regex: new RegExp(entry.pattern, "gi") })),
+    negation:
+      cues.length > 0
+        ? new RegExp(`\\b(?:${cues.join("|")})(?: (?:${fillers.join("|")}))*$`, "i")
+        : null,
+  };
+}
+
+/**
+ * Returns the requested lexicon version, defaulting to `SOULAWARE_SAFETY_LEXICON_VERSION`
+ * and then the latest. Unknown versions fall back to the latest rather than disabling rules.
+ */
+export function getSafetyLexicon(
+  version: number = Number(env.soulawareSafetyLexiconVersion) || LATEST_SAFETY_LEXICON_VERSION,
+): SafetyLexicon {
+  const file =
+    LEXICON_FILES.find((entry) => entry.version === version) ??
+    LEXICON_FILES.find((entry) => entry.version === LATEST_SAFETY_LEXICON_VERSION)!;
+  const cached = compiled.get(file.version);
+
+  if (cached) {
+    return cached;
+  }
+
+  const lexicon = compile(file);
+  compiled.set(file.version, lexicon);
+  return lexicon;
+}
+
+/**
+ * Undoes the usual ways people dodge keyword filters: accents, leetspeak inside words
+ * (`k1ll`, `$uicide`), spaced or dotted letters (`s u i c i d e`), and stretched letters
+ * (`diiiie`). Clause punctuation and apostrophes are kept for negation handling.
+ */
+export function normalizeForLexicon(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\u2018\u2019\u02bc`]/g, "'")
+    .split(/\s+/)
+    .map((token) =>
+      /[a-z]/.test(token) && /[0-9@$]/.test(token)
+        ? token.replace(/[0-9@$]/g, (char) => LEET_SUBSTITUTIONS[char] ?? char)
+        : token,
+    )
+    .join(" ")
+    .replace(/\b(?:[a-z][\s.*_-]+){2,}[a-z]\b/g, (run) => run.replace(/[^a-z]/g, ""))
+    .replace(/([a-z])\1{2,}/g, "$1$1")
+    .replace(/[^a-z0-9'.,;!?\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function matchLexicon(
+  text: string,
+  lexicon: SafetyLexicon = getSafetyLexicon(),
+): LexiconMatch[] {
+  const clauses = lexicon.normalize
+    ? normalizeForLexicon(text)
+        .split(CLAUSE_BREAK)
+        .map((clause) => clause.trim())
+        .filter(Boolean)
+    : [text];
+  const matches: LexiconMatch[] = [];
+
+  for (const entry of lexicon.patterns) {
+    let hit: LexiconMatch | null = null;
+
+    for (const clause of clauses) {
+      for (const match of clause.matchAll(entry.regex)) {
+        const prefix = clause.slice(0, match.index).trim();
+        const negated = Boolean(entry.negatable && lexicon.negation?.test(prefix));
+        hit = { id: entry.id, level: entry.level, negated };
+
+        if (!negated) {
+          break;
+        }
+      }
+
+      if (hit && !hit.negated) {
+        break;
+      }
+    }
+
+    if (hit) {
+      matches.push(hit);
+    }
+  }
+
+  return matches;
+}
+
+export function classifyWithLexicon(
+  text: string,
+  lexicon: SafetyLexicon = getSafetyLexicon(),
+): LexiconClassification {
+  const matches = matchLexicon(text, lexicon);
+  const decisive = matches
+    .filter((match) => !match.negated)
+    .sort((left, right) => LEVEL_RANK[right.level] - LEVEL_RANK[left.level])[0];
+
+  if (decisive) {
+    return { level: decisive.level, patternId: decisive.id, negated: false };
+  }
+
+  const negated = matches[0];
+  return { level: "none", patternId: negated?.id ?? null, negated: Boolean(negated) };
+}
+
+export function parseSafetyCorpus(raw: string): SafetyCorpusExample[] {
+  return raw
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("//"))
+    .map((line, index) => {
+      const parsed = JSON.parse(line) as Partial<SafetyCorpusExample>;
+
+      if (
+        !parsed.id ||
+        typeof parsed.text !== "string" ||
+        !parsed.label ||
+        !(parsed.label in LEVEL_RANK)
+      ) {
+        throw new Error(
+          `Safety corpus line ${index + 1} needs an id, text and a none/elevated/high label.`,
+        );
+      }
+
+      return { id: parsed.id, text: parsed.text, label: parsed.label, tags: parsed.tags };
+    });
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function metrics(pairs: Array<[boolean, boolean]>): LexiconClassMetrics {
+  const truePositives = pairs.filter(([actual, predicted]) => actual && predicted).length;
+  const falsePositives = pairs.filter(([actual, predicted]) => !actual && predicted).length;
+  const falseNegatives = pairs.filter(([actual, predicted]) => actual && !predicted).length;
+
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: round(truePositives / Math.max(1, truePositives + falsePositives)),
+    recall: round(truePositives / Math.max(1, truePositives + falseNegatives)),
+  };
+}
+
+export function scoreLexicon(lexicon: SafetyLexicon, corpus: SafetyCorpusExample[]): LexiconReport {
+  const results = corpus.map((example) => ({
+    example,
+    result: classifyWithLexicon(example.text, lexicon),
+  }));
+  const pairs = (test: (level: SafetyLevel) => boolean) =>
+    results.map(({ example, result }): [boolean, boolean] => [
+      test(example.label),
+      test(result.level),
+    ]);
+
+  return {
+    version: lexicon.version,
+    examples: corpus.length,
+    accuracy: round(
+      results.filter(({ example, result }) => example.label === result.level).length /
+        Math.max(1, corpus.length),
+    ),
+    classes: {
+      high: metrics(pairs((level) => level === "high")),
+      elevated: metrics(pairs((level) => level === "elevated")),
+      any: metrics(pairs((level) => level !== "none")),
+    },
+    mistakes: results
+      .filter(({ example, result }) => example.label !== result.level)
+      .map(({ example, result }) => ({
+        id: example.id,
+        text: example.text,
+        label: example.label,
+        predicted: result.level,
+        patternId: result.patternId,
+      })),
+  };
+}
+
+export function formatLexiconReports(reports: LexiconReport[]): string {
+  const header = reports.map((report) => `v${report.version}`);
+  const lines = [
+    `# Safety lexicon report (${reports[0]?.examples ?? 0} examples)`,
+    "",
+    `| metric | ${header.join(" | ")} |`,
+    `| --- | ${header.map(() => "---").join(" | ")} |`,
+    `| accuracy | ${reports.map((report) => report.accuracy).join(" | ")} |`,
+  ];
+
+  for (const level of ["high", "elevated", "any"] as const) {
+    lines.push(
+      `| ${level} precision | ${reports.map((report) => report.classes[level].precision).join(" | ")} |`,
+      `| ${level} recall | ${reports.map((report) => report.classes[level].recall).join(" | ")} |`,
+    );
+  }
+
+  for (const report of reports) {
+    lines.push("", `## v${report.version} mistakes (${report.mistakes.length})`);
+
+    for (const mistake of report.mistakes) {
+      lines.push(
+        `- ${mistake.id}: labeled ${mistake.label}, got ${mistake.predicted}` +
+          `${mistake.patternId ? ` (${mistake.patternId})` : ""}: "${mistake.text}"`,
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
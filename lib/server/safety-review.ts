@@ -0,0 +1,85 @@
+import type {
+  ChatHistoryMessage,
+  SafetyEvent,
+  SafetyReviewCounts,
+  SafetyReviewStatus,
+} from "@/types/domain";
+
+export const SAFETY_REVIEW_STATUSES: SafetyReviewStatus[] = [
+  "new",
+  "reviewed",
+  "false_positive",
+  "escalated",
+];
+
+const CONTEXT_MESSAGES_BEFORE = 6;
+const CONTEXT_MESSAGES_AFTER = 2;
+
+export function isSafetyReviewStatus(value: unknown): value is SafetyReviewStatus {
+  return SAFETY_REVIEW_STATUSES.includes(value as SafetyReviewStatus);
+}
+
+function emptyStatusCounts(): Record<SafetyReviewStatus, number> {
+  return { new: 0, reviewed: 0, false_positive: 0, escalated: 0 };
+}
+
+/**
+ * Reasons are `+`-joined (`conversation_clear+rule_high_risk:kill_myself+moderation_clear`);
+ * the leading part is what decided the level, so counts group on it.
+ */
+export function primarySafetyReason(reason: string): string {
+  return reason.split("+")[0] || "unknown";
+}
+
+export function summarizeSafetyEvents(
+  events: Array<Pick<SafetyEvent, "reason" | "reviewStatus">>,
+  sinceIso: string,
+): SafetyReviewCounts {
+  const byStatus = emptyStatusCounts();
+  const byReason = new Map<string, SafetyReviewCounts["byReason"][number]>();
+
+  for (const event of events) {
+    const reason = primarySafetyReason(event.reason);
+    const entry = byReason.get(reason) ?? { reason, total: 0, byStatus: emptyStatusCounts() };
+
+    entry.total += 1;
+    entry.byStatus[event.reviewStatus] += 1;
+    byStatus[event.reviewStatus] += 1;
+    byReason.set(reason, entry);
+  }
+
+  return {
+    sinceIso,
+    total: events.length,
+    byStatus,
+    byReason: [...byReason.values()].sort(
+      (left, right) => right.total - left.total || left.reason.localeCompare(right.reason),
+    ),
+  };
+}
+
+/**
+ * The event is written right after the user turn that triggered it, so the anchor is the
+ * last user message at or before the event. Reviewers see the lead-up and the reply.
+ */
+export function buildReviewContext(
+  event: Pick<SafetyEvent, "createdAt">,
+  messages: ChatHistoryMessage[],
+): ChatHistoryMessage[] {
+  let anchor = -1;
+
+  messages.forEach((message, index) => {
+    if (message.role === "user" && message.createdAt <= event.createdAt) {
+      anchor = index;
+    }
+  });
+
+  if (anchor === -1) {
+    return messages.slice(0, CONTEXT_MESSAGES_AFTER + 1);
+  }
+
+  return messages.slice(
+    Math.max(0, anchor - CONTEXT_MESSAGES_BEFORE),
+    anchor + CONTEXT_MESSAGES_AFTER + 1,
+  );
+}
@@ -1,159 +1,479 @@
-import OpenAI from "openai";
-import { env, hasOpenAi } from "@/lib/server/env";
-import type { SafetyLevel } from "@/types/domain";
+import { describeHotlineContact } from "@/lib/server/crisis-resources";
+import { env } from "@/lib/server/env";
+import { getLlmProvider } from "@/lib/server/llm";
+import {
+  getModerationFailurePolicy,
+  moderateWithRetry,
+  type ModerationFailure,
+  type ModerationFailurePolicy,
+} from "@/lib/server/moderation";
+import { classifyWithLexicon, matchLexicon } from "@/lib/server/safety-lexicon";
+import type { CrisisHotline, CrisisResources, SafetyAction, SafetyLevel } from "@/types/domain";
 
-type SafetyResult = {
+type Classification = {
   level: SafetyLevel;
-  isTriggered: boolean;
   reason: string;
 };
 
-const HIGH_RISK_PATTERNS = [
-  /\bkill myself\b/i,
-  /\bend my life\b/i,
-  /\bsuicide\b/i,
-  /\bi want to die\b/i,
-  /\bhurt someone\b/i,
-  /\bself harm\b/i,
-  /\boverdose\b/i,
-  /\bno reason to live\b/i,
-];
+type MessageClassification = Classification & {
+  moderationFailure: ModerationFailure | null;
+  blocked: boolean;
+  precautionary: boolean;
+};
+
+export type SafetyResult = Classification & {
+  action: SafetyAction;
+  /** True when the turn must get the crisis response instead of coaching. */
+  isTriggered: boolean;
+  /** Set when moderation errored or its circuit breaker was open for this turn. */
+  moderationFailure: ModerationFailure | null;
+  /** True under the `fail-closed` policy when the turn must be refused rather than coached. */
+  blocked: boolean;
+  /**
+   * True when the level comes only from the `degrade` policy standing in for moderation,
+   * so nothing the user wrote is a risk signal.
+   */
+  precautionary: boolean;
+};
 
-const ELEVATED_PATTERNS = [
-  /\bhopeless\b/i,
-  /\bcan'?t go on\b/i,
-  /\bpanic attack\b/i,
-  /\bworthless\b/i,
+export type SafetyPolicy = Record<SafetyLevel, SafetyAction>;
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  none: "allow",
+  elevated: "support",
+  high: "crisis",
+};
+
+const SAFETY_LEVELS: SafetyLevel[] = ["none", "elevated", "high"];
+const SAFETY_ACTIONS: SafetyAction[] = ["allow", "support", "crisis"];
+
+/** Softer cues that only matter when they pile up across turns; weights are per message. */
+const CUMULATIVE_SIGNALS: Array<{ pattern: RegExp; weight: number }> = [
+  { pattern: /\btired of (everything|it all|life|living)\b/i, weight: 2 },
+  { pattern: /\b(don'?t|do not|can'?t) see the point\b/i, weight: 3 },
+  { pattern: /\bwhat'?s the point\b/i, weight: 2 },
+  { pattern: /\bno point (anymore|in anything|in trying)\b/i, weight: 3 },
+  { pattern: /\bcan'?t do this anymore\b/i, weight: 3 },
+  { pattern: /\b(nobody|no one) would (care|notice|miss me)\b/i, weight: 4 },
+  { pattern: /\b(i'?m|i am) (just )?a burden\b/i, weight: 3 },
+  { pattern: /\bbetter off without me\b/i, weight: 5 },
+  { pattern: /\bwant (it|everything) to (stop|end)\b/i, weight: 4 },
+  { pattern: /\bgive up\b/i, weight: 1 },
+  { pattern: /\b(exhausted|numb|empty inside)\b/i, weight: 1 },
+  { pattern: /\b(so|completely|totally) alone\b/i, weight: 1 },
 ];
 
-const SAFETY_RESPONSE = [
-  "I’m really glad you reached out. Your safety matters most right now.",
-  "I can’t provide crisis support, but I strongly encourage you to connect with immediate help:",
-  "- Call or text **988** (Suicide & Crisis Lifeline, US, 24/7)",
-  "- If you may act on these thoughts or are in immediate danger, call **911** now",
-  "- If possible, contact a trusted person who can stay with you right now",
-].join("\n");
+const ELEVATED_PATTERN_WEIGHT = 2;
+const RISK_WINDOW_TURNS = 6;
+const RISK_DECAY_PER_TURN = 0.75;
+const RISK_TRAJECTORY_LENGTH = 10;
+const CONVERSATION_ELEVATED_SCORE = 3;
+const CONVERSATION_HIGH_SCORE = 7;
+/** Consecutive increases that, ending at or above the elevated score, escalate to high. */
+const RISING_TURNS_FOR_ESCALATION = 3;
+
+export const SUPPORT_MODE_INSTRUCTION = [
+  "The user sounds distressed.",
+  "Lead with warmth and validation before anything else.",
+  "Do not push productivity, deadlines, challenges, or accountability.",
+  "Any suggested step must be tiny, optional, and self-caring (rest, breathing, reaching out to someone).",
+].join(" ");
+
+export const SUPPORTIVE_ACTION_STEP =
+  "If it feels okay, do one small kind thing for yourself today, like resting, stepping outside, or messaging someone you trust.";
+
+/**
+ * Parses `SOULAWARE_SAFETY_POLICY` entries like `elevated=allow,none=allow` over the
+ * defaults. `high` is pinned to `crisis`: configuration may not relax it.
+ */
+export function parseSafetyPolicy(value: string): SafetyPolicy {
+  const policy: SafetyPolicy = { ...DEFAULT_SAFETY_POLICY };
+
+  for (const entry of value.split(",")) {
+    const [level, action] = entry.split("=").map((part) => part.trim().toLowerCase());
+
+    if (
+      SAFETY_LEVELS.includes(level as SafetyLevel) &&
+      SAFETY_ACTIONS.includes(action as SafetyAction) &&
+      level !== "high"
+    ) {
+      policy[level as SafetyLevel] = action as SafetyAction;
+    }
+  }
+
+  return policy;
+}
 
-let moderationClient: OpenAI | null = null;
+export function getSafetyPolicy(): SafetyPolicy {
+  return parseSafetyPolicy(env.soulawareSafetyPolicy);
+}
+
+function evaluateRuleBased(text: string): Classification {
+  const result = classifyWithLexicon(text);
 
-function getOpenAiClient(): OpenAI | null {
-  if (!hasOpenAi) {
-    return null;
+  if (result.level === "high") {
+    return { level: "high", reason: `rule_high_risk:${result.patternId}` };
   }
 
-  if (!moderationClient) {
-    moderationClient = new OpenAI({ apiKey: env.openAiApiKey });
+  if (result.level === "elevated") {
+    return { level: "elevated", reason: `rule_elevated:${result.patternId}` };
   }
 
-  return moderationClient;
+  return {
+    level: "none",
+    reason: result.negated ? `rule_negated:${result.patternId}` : "rule_clear",
+  };
 }
 
-function evaluateRuleBased(text: string): SafetyResult {
-  if (HIGH_RISK_PATTERNS.some((pattern) => pattern.test(text))) {
+async function evaluateModeration(
+  text: string,
+): Promise<Classification & { failure: ModerationFailure | null }> {
+  const provider = getLlmProvider("moderation");
+
+  if (!provider) {
+    return {
+      level: "none",
+      reason: "moderation_skipped_no_api_key",
+      failure: null,
+    };
+  }
+
+  const outcome = await moderateWithRetry(provider, text);
+
+  if (outcome.status === "unsupported") {
+    return {
+      level: "none",
+      reason: "moderation_unsupported",
+      failure: null,
+    };
+  }
+
+  if (outcome.status !== "ok") {
+    return {
+      level: "none",
+      reason: `moderation_${outcome.status}`,
+      failure: outcome.status,
+    };
+  }
+
+  const categories = outcome.moderation.categories;
+  const isSelfHarm =
+    Boolean(categories["self-harm"]) ||
+    Boolean(categories["self-harm/intent"]) ||
+    Boolean(categories["self-harm/instructions"]);
+
+  if (isSelfHarm) {
     return {
       level: "high",
-      isTriggered: true,
-      reason: "rule_high_risk",
+      reason: "moderation_self_harm",
+      failure: null,
     };
   }
 
-  if (ELEVATED_PATTERNS.some((pattern) => pattern.test(text))) {
+  if (outcome.moderation.flagged) {
     return {
       level: "elevated",
-      isTriggered: false,
-      reason: "rule_elevated",
+      reason: "moderation_flagged",
+      failure: null,
     };
   }
 
   return {
     level: "none",
-    isTriggered: false,
-    reason: "rule_clear",
+    reason: "moderation_clear",
+    failure: null,
   };
 }
 
-async function evaluateModeration(text: string): Promise<SafetyResult> {
-  const client = getOpenAiClient();
+function combine(rule: Classification, moderation: Classification | null): Classification {
+  if (rule.level === "high") {
+    return rule;
+  }
 
-  if (!client) {
-    return {
-      level: "none",
-      isTriggered: false,
-      reason: "moderation_skipped_no_api_key",
-    };
+  if (moderation?.level === "high") {
+    return moderation;
   }
 
-  try {
-    const moderation = await client.moderations.create({
-      model: "omni-moderation-latest",
-      input: text,
-    });
-
-    const result = moderation.results[0];
-    const categories = result?.categories;
-    const isSelfHarm =
-      Boolean(categories?.["self-harm"]) ||
-      Boolean(categories?.["self-harm/intent"]) ||
-      Boolean(categories?.["self-harm/instructions"]);
-
-    if (isSelfHarm) {
-      return {
-        level: "high",
-        isTriggered: true,
-        reason: "moderation_self_harm",
-      };
-    }
+  return {
+    level: rule.level === "elevated" || moderation?.level === "elevated" ? "elevated" : "none",
+    reason: `${rule.reason}+${moderation?.reason ?? "moderation_skipped"}`,
+  };
+}
 
-    if (result?.flagged) {
-      return {
-        level: "elevated",
-        isTriggered: false,
-        reason: "moderation_flagged",
-      };
-    }
+/** Applies the moderation failure policy when moderation had no answer for the turn. */
+function withoutModeration(
+  rule: Classification,
+  failure: ModerationFailure,
+  failurePolicy: ModerationFailurePolicy,
+): MessageClassification {
+  const reason = `${rule.reason}+moderation_${failure}`;
 
+  if (failurePolicy === "fail-closed") {
     return {
-      level: "none",
-      isTriggered: false,
-      reason: "moderation_clear",
+      ...rule,
+      reason: `${reason}_blocked`,
+      moderationFailure: failure,
+      blocked: true,
+      precautionary: false,
     };
-  } catch {
+  }
+
+  if (failurePolicy === "degrade") {
     return {
-      level: "none",
-      isTriggered: false,
-      reason: "moderation_failed",
+      level: "elevated",
+      reason: `${reason}_caution`,
+      moderationFailure: failure,
+      blocked: false,
+      precautionary: rule.level === "none",
     };
   }
+
+  return { ...rule, reason, moderationFailure: failure, blocked: false, precautionary: false };
 }
 
-export async function evaluateSafety(text: string): Promise<SafetyResult> {
+async function classifyMessage(
+  text: string,
+  failurePolicy: ModerationFailurePolicy = getModerationFailurePolicy(),
+): Promise<MessageClassification> {
   const ruleResult = evaluateRuleBased(text);
 
-  if (ruleResult.isTriggered) {
-    return ruleResult;
+  // A rule-level crisis needs no second opinion.
+  if (ruleResult.level === "high") {
+    return { ...ruleResult, moderationFailure: null, blocked: false, precautionary: false };
   }
 
   const moderationResult = await evaluateModeration(text);
 
-  if (moderationResult.isTriggered) {
-    return moderationResult;
+  if (moderationResult.failure) {
+    return withoutModeration(ruleResult, moderationResult.failure, failurePolicy);
   }
 
-  if (ruleResult.level === "elevated" || moderationResult.level === "elevated") {
-    return {
-      level: "elevated",
-      isTriggered: false,
-      reason: `${ruleResult.reason}+${moderationResult.reason}`,
-    };
+  return {
+    ...combine(ruleResult, moderationResult),
+    moderationFailure: null,
+    blocked: false,
+    precautionary: false,
+  };
+}
+
+function applyPolicy(
+  classification: Classification,
+  policy: SafetyPolicy,
+  message: MessageClassification,
+): SafetyResult {
+  const action = policy[classification.level];
+
+  return {
+    level: classification.level,
+    reason: classification.reason,
+    action,
+    isTriggered: action === "crisis",
+    moderationFailure: message.moderationFailure,
+    // The crisis reply never depends on moderation, so it is always allowed through.
+    blocked: message.blocked && action !== "crisis",
+    precautionary: message.precautionary && classification.level === message.level,
+  };
+}
+
+export async function evaluateSafety(
+  text: string,
+  policy: SafetyPolicy = getSafetyPolicy(),
+): Promise<SafetyResult> {
+  const message = await classifyMessage(text);
+  return applyPolicy(message, policy, message);
+}
+
+export type ConversationRisk = Classification & {
+  score: number;
+  trajectory: number[];
+};
+
+function scoreMessage(text: string): number {
+  const cumulative = CUMULATIVE_SIGNALS.reduce(
+    (sum, signal) => sum + (signal.pattern.test(text) ? signal.weight : 0),
+    0,
+  );
+  const elevated = matchLexicon(text).filter(
+    (match) => match.level === "elevated" && !match.negated,
+  ).length;
+
+  return cumulative + elevated * ELEVATED_PATTERN_WEIGHT;
+}
+
+/**
+ * Scores the recent user turns (oldest first, current turn last) with older turns
+ * decaying, appends the score to the session's trajectory, and grades the result.
+ */
+export function assessConversationRisk(
+  userMessages: string[],
+  previousTrajectory: number[] = [],
+): ConversationRisk {
+  const window = userMessages.slice(-RISK_WINDOW_TURNS);
+  const score = Number(
+    window
+      .reduce(
+        (sum, text, index) =>
+          sum + scoreMessage(text) * RISK_DECAY_PER_TURN ** (window.length - 1 - index),
+        0,
+      )
+      .toFixed(2),
+  );
+  const trajectory = [...previousTrajectory, score].slice(-RISK_TRAJECTORY_LENGTH);
+  const recent = trajectory.slice(-(RISING_TURNS_FOR_ESCALATION + 1));
+  const isRising =
+    recent.length === RISING_TURNS_FOR_ESCALATION + 1 &&
+    recent.every((value, index) => index === 0 || value > recent[index - 1]);
+
+  if (score >= CONVERSATION_HIGH_SCORE) {
+    return { level: "high", reason: "conversation_cumulative", score, trajectory };
+  }
+
+  if (score >= CONVERSATION_ELEVATED_SCORE && isRising) {
+    return { level: "high", reason: "conversation_rising", score, trajectory };
   }
 
+  if (score >= CONVERSATION_ELEVATED_SCORE) {
+    return { level: "elevated", reason: "conversation_cumulative", score, trajectory };
+  }
+
+  return { level: "none", reason: "conversation_clear", score, trajectory };
+}
+
+const LEVEL_RANK: Record<SafetyLevel, number> = { none: 0, elevated: 1, high: 2 };
+
+/**
+ * Grades the current turn against both the message itself and the recent conversation,
+ * taking whichever level is higher. Returns the updated risk trajectory to persist.
+ */
+export async function evaluateConversationSafety(params: {
+  text: string;
+  recentUserMessages: string[];
+  riskTrajectory: number[];
+  policy?: SafetyPolicy;
+}): Promise<SafetyResult & { riskTrajectory: number[] }> {
+  const message = await classifyMessage(params.text);
+  const conversation = assessConversationRisk(params.recentUserMessages, params.riskTrajectory);
+  const escalated = LEVEL_RANK[conversation.level] > LEVEL_RANK[message.level];
+  const classification: Classification = escalated
+    ? { level: conversation.level, reason: `${conversation.reason}+${message.reason}` }
+    : message;
+
+  const result = applyPolicy(classification, params.policy ?? getSafetyPolicy(), message);
+
   return {
-    level: "none",
-    isTriggered: false,
-    reason: `${ruleResult.reason}+${moderationResult.reason}`,
+    ...result,
+    // A conversation-level signal is real even when moderation was down.
+    precautionary: result.precautionary && conversation.level === "none",
+    riskTrajectory: conversation.trajectory,
   };
 }
 
-export function getSafetyResponseText(): string {
-  return SAFETY_RESPONSE;
+/** Ways a user says the crisis has passed; only read on turns with no risk signal. */
+const SAFETY_CONFIRMATIONS = [
+  /\bi(?:'m| am) (?:safe|in a safe place)(?: now)?\b/i,
+  /\bi(?:'m| am) (?:okay|ok|alright|all right|doing better) now\b/i,
+  /\bi feel safe\b/i,
+  /\bi(?:'m| am) not (?:going to|gonna) (?:hurt|harm|kill) myself\b/i,
+  /\bi won'?t (?:hurt|harm|kill) myself\b/i,
+  /\bi(?:'m| am) (?:no longer|not) in danger\b/i,
+];
+
+const SAFETY_CONFIRMATION_DOUBT = /\b(?:not sure|unsure|don'?t know|do not know|doubt|maybe|i guess)\b/i;
+
+export function isSafetyConfirmation(text: string): boolean {
+  const normalized = text.replace(/[\u2018\u2019]/g, "'");
+
+  return (
+    SAFETY_CONFIRMATIONS.some((pattern) => pattern.test(normalized)) &&
+    !SAFETY_CONFIRMATION_DOUBT.test(normalized)
+  );
+}
+
+export type PostCrisisExit = "confirmed_safe" | "turns_elapsed";
+
+export type PostCrisisStep = {
+  /** True when this turn gets post-crisis handling (supportive, resources, no action step). */
+  active: boolean;
+  /** Value to persist as `chat_session_state.post_crisis_turns_remaining`. */
+  turnsRemaining: number;
+  /** Set on the turn that ends the mode. */
+  exit: PostCrisisExit | null;
+};
+
+export function getPostCrisisTurns(): number {
+  const turns = Math.floor(env.soulawarePostCrisisTurns);
+  return Number.isFinite(turns) ? Math.max(0, turns) : 0;
+}
+
+/**
+ * Follow-up handling after a crisis reply. A crisis turn (re)starts the countdown.
+ * While it runs, every coached turn is supportive; the countdown only moves on turns
+ * with no risk signal. The mode ends after the last counted turn, or early when the user
+ * says they are safe on a turn with no risk signal. Either way that turn is still handled
+ * as post-crisis. A precautionary level from a moderation outage is not a risk signal: it
+ * neither restarts nor holds the countdown.
+ */
+export function advancePostCrisis(
+  turnsRemaining: number,
+  safety: Pick<SafetyResult, "level" | "isTriggered" | "precautionary">,
+  text: string,
+): PostCrisisStep {
+  if (safety.isTriggered && !safety.precautionary) {
+    return { active: false, turnsRemaining: getPostCrisisTurns(), exit: null };
+  }
+
+  if (turnsRemaining <= 0) {
+    return { active: false, turnsRemaining: 0, exit: null };
+  }
+
+  if (safety.level !== "none" && !safety.precautionary) {
+    return { active: true, turnsRemaining, exit: null };
+  }
+
+  if (isSafetyConfirmation(text)) {
+    return { active: true, turnsRemaining: 0, exit: "confirmed_safe" };
+  }
+
+  const remaining = turnsRemaining - 1;
+  return { active: true, turnsRemaining: remaining, exit: remaining === 0 ? "turns_elapsed" : null };
+}
+
+function capitalize(value: string): string {
+  return `${value.charAt(0).toUpperCase()}${value.slice(1)}`;
+}
+
+function describeHotline(resources: CrisisResources, entry: CrisisHotline): string {
+  return `${describeHotlineContact(entry)} (${entry.name}, ${resources.countryName}, ${entry.hours})`;
+}
+
+export function getSafetyResponseText(resources: CrisisResources): string {
+  const helpLines =
+    resources.hotlines.length > 0
+      ? resources.hotlines.map((entry) => `- ${capitalize(describeHotline(resources, entry))}`)
+      : [
+          `- Find a free, confidential crisis line in your country at ${resources.directoryUrl}`,
+        ];
+  const emergencyLine = resources.emergencyNumber
+    ? `- If you may act on these thoughts or are in immediate danger, call **${resources.emergencyNumber}** now`
+    : "- If you may act on these thoughts or are in immediate danger, call your local emergency number now";
+
+  return [
+    "I’m really glad you reached out. Your safety matters most right now.",
+    "I can’t provide crisis support, but I strongly encourage you to connect with immediate help:",
+    ...helpLines,
+    emergencyLine,
+    "- If possible, contact a trusted person who can stay with you right now",
+  ].join("\n");
+}
+
+export function getSupportResourcesText(resources: CrisisResources): string {
+  const primary = resources.hotlines[0];
+  const option = primary
+    ? `you can ${describeHotline(resources, primary)}`
+    : `you can find a free, confidential helpline near you at ${resources.directoryUrl}`;
+
+  return [
+    "If things feel heavier than you can carry right now, you don’t have to wait for it to get worse:",
+    `${option}, or reach out to someone you trust.`,
+  ].join(" ");
 }
@@ -0,0 +1,26 @@
+import type { NextRequest } from "next/server";
+import { env } from "@/lib/server/env";
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when the browser reports the request came from this app: `Sec-Fetch-Site:
+ * same-origin`, or, where that header is missing, an `Origin` matching `SOULAWARE_APP_URL`
+ * or the request's own origin. A request with neither header is refused.
+ */
+export function isSameOriginRequest(request: NextRequest): boolean {
+  const fetchSite = request.headers.get("sec-fetch-site");
+
+  if (fetchSite) {
+    return fetchSite === "same-origin";
+  }
+
+  const origin = request.headers.get("origin");
+  return Boolean(origin) && [request.nextUrl.origin, originOf(env.appUrl)].includes(origin);
+}
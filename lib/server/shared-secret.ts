@@ -0,0 +1,31 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * True when `headerName: <expected>` or `Authorization: Bearer <expected>` carries the secret.
+ * An unset secret never matches, so a route stays closed until it is configured.
+ */
+export function hasSharedSecret(
+  request: NextRequest,
+  headerName: string,
+  expected: string | undefined,
+): boolean {
+  if (!expected) {
+    return false;
+  }
+
+  const authHeader = request.headers.get("authorization");
+  const candidates = [
+    request.headers.get(headerName),
+    authHeader?.startsWith("Bearer ") ? authHeader.slice("Bearer ".length) : null,
+  ];
+
+  // Hashing first keeps the comparison constant-time regardless of the candidate's length.
+  return candidates.some(
+    (candidate) => candidate !== null && timingSafeEqual(digest(candidate), digest(expected)),
+  );
+}
@@ -0,0 +1,132 @@
+import type {
+  MissionDiffSegment,
+  PurposeSnapshotDiff,
+  PurposeSnapshotHistoryEntry,
+  StoredPurposeSnapshot,
+} from "@/types/domain";
+
+// Actions rarely survive word-for-word between snapshots, so near-matches count as carried over.
+const CARRIED_OVER_THRESHOLD = 0.6;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function wordOverlap(a: string, b: string): number {
+  const left = new Set(normalize(a).split(" ").filter(Boolean));
+  const right = new Set(normalize(b).split(" ").filter(Boolean));
+
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+function pushSegment(segments: MissionDiffSegment[], kind: MissionDiffSegment["kind"], word: string) {
+  const last = segments.at(-1);
+
+  if (last?.kind === kind) {
+    last.text = `${last.text} ${word}`;
+    return;
+  }
+
+  segments.push({ kind, text: word });
+}
+
+/** Word-level diff of two mission statements using a longest-common-subsequence table. */
+export function diffMission(previous: string, next: string): MissionDiffSegment[] {
+  const before = previous.split(/\s+/).filter(Boolean);
+  const after = next.split(/\s+/).filter(Boolean);
+  const table = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      table[i][j] =
+        normalize(before[i]) === normalize(after[j])
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const segments: MissionDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && normalize(before[i]) === normalize(after[j])) {
+      pushSegment(segments, "same", after[j]);
+      i += 1;
+      j += 1;
+    } else if (j < after.length && (i === before.length || table[i][j + 1] > table[i + 1][j])) {
+      pushSegment(segments, "added", after[j]);
+      j += 1;
+    } else {
+      pushSegment(segments, "removed", before[i]);
+      i += 1;
+    }
+  }
+
+  return segments;
+}
+
+export function diffSnapshots(
+  previous: StoredPurposeSnapshot,
+  next: StoredPurposeSnapshot,
+): PurposeSnapshotDiff {
+  const previousValues = new Set(previous.values.map(normalize));
+  const nextValues = new Set(next.values.map(normalize));
+  const mission = diffMission(previous.mission, next.mission);
+
+  const remainingPrevious = [...previous.nextActions];
+  const actionsCarriedOver: string[] = [];
+  const actionsAdded: string[] = [];
+
+  for (const action of next.nextActions) {
+    const matchIndex = remainingPrevious.findIndex(
+      (candidate) => wordOverlap(candidate, action) >= CARRIED_OVER_THRESHOLD,
+    );
+
+    if (matchIndex === -1) {
+      actionsAdded.push(action);
+    } else {
+      actionsCarriedOver.push(action);
+      remainingPrevious.splice(matchIndex, 1);
+    }
+  }
+
+  return {
+    previousSnapshotId: previous.id,
+    missionChanged: mission.some((segment) => segment.kind !== "same"),
+    mission,
+    valuesAdded: next.values.filter((value) => !previousValues.has(normalize(value))),
+    valuesDropped: previous.values.filter((value) => !nextValues.has(normalize(value))),
+    valuesKept: next.values.filter((value) => previousValues.has(normalize(value))),
+    actionsCarriedOver,
+    actionsAdded,
+    actionsDropped: remainingPrevious,
+  };
+}
+
+/** Oldest-first timeline where each entry carries its diff from the snapshot before it. */
+export function buildSnapshotHistory(
+  snapshots: StoredPurposeSnapshot[],
+): PurposeSnapshotHistoryEntry[] {
+  const ordered = [...snapshots].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return ordered.map((snapshot, index) => ({
+    snapshotId: snapshot.id,
+    mission: snapshot.mission,
+    values: snapshot.values,
+    nextActions: snapshot.nextActions,
+    createdAt: snapshot.createdAt,
+    diff: index === 0 ? null : diffSnapshots(ordered[index - 1], snapshot),
+  }));
+}
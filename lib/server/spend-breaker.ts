@@ -0,0 +1,162 @@
+import type { GenerationUsage } from "@/lib/server/ai";
+import {
+  MODEL_USAGE_EVENT,
+  getNextUtcDayStartIso,
+  getUtcDayStartIso,
+  loadModelSpendSince,
+} from "@/lib/server/budget";
+import { env } from "@/lib/server/env";
+import { trackEvent } from "@/lib/server/repository";
+
+/**
+ * Rungs of the global degradation ladder, each including the ones before it:
+ * `fast_model` routes every turn to `OPENAI_CHAT_MODEL_FAST`, `no_summaries` also skips
+ * rolling summaries, and `fallback_only` serves the deterministic reply without a model call.
+ */
+export type SpendDegradationStep = "normal" | "fast_model" | "no_summaries" | "fallback_only";
+
+export type SpendBreakerStatus = {
+  enabled: boolean;
+  step: SpendDegradationStep;
+  spentUsd: number;
+  dailyBudgetUsd: number;
+  usedFraction: number;
+  /** Share of the daily budget at which each step starts. */
+  thresholds: Record<Exclude<SpendDegradationStep, "normal">, number>;
+  dayStart: string;
+  resetsAt: string;
+};
+
+type SpendBreakerState = {
+  dayStart: string;
+  spentUsd: number;
+  refreshedAt: number;
+};
+
+const SPEND_STEPS: SpendDegradationStep[] = [
+  "normal",
+  "fast_model",
+  "no_summaries",
+  "fallback_only",
+];
+
+/** Other instances' spend is picked up from analytics at most this often. */
+const REFRESH_INTERVAL_MS = 60_000;
+
+const globalStore = globalThis as unknown as {
+  __soulawareSpendBreaker?: SpendBreakerState;
+};
+
+function readFraction(value: number, fallback: number): number {
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getSpendThresholds(): SpendBreakerStatus["thresholds"] {
+  return {
+    fast_model: readFraction(env.soulawareSpendFastModelAt, 0.5),
+    no_summaries: readFraction(env.soulawareSpendNoSummariesAt, 0.75),
+    fallback_only: readFraction(env.soulawareSpendFallbackAt, 1),
+  };
+}
+
+export function isSpendStepAtLeast(
+  step: SpendDegradationStep,
+  minimum: SpendDegradationStep,
+): boolean {
+  return SPEND_STEPS.indexOf(step) >= SPEND_STEPS.indexOf(minimum);
+}
+
+async function loadSpend(now: Date): Promise<SpendBreakerState> {
+  const dayStart = getUtcDayStartIso(now);
+  const current = globalStore.__soulawareSpendBreaker;
+
+  if (current?.dayStart === dayStart && now.getTime() - current.refreshedAt < REFRESH_INTERVAL_MS) {
+    return current;
+  }
+
+  const { spentUsd } = await loadModelSpendSince(dayStart);
+
+  globalStore.__soulawareSpendBreaker = { dayStart, spentUsd, refreshedAt: now.getTime() };
+  return globalStore.__soulawareSpendBreaker;
+}
+
+/**
+ * Compares today's spend with `SOULAWARE_COST_ALERT_DAILY_USD` and picks the highest step
+ * whose threshold has been reached. A new UTC day starts back at `normal`.
+ */
+export async function getSpendBreakerStatus(now = new Date()): Promise<SpendBreakerStatus> {
+  const dailyBudgetUsd = Number.isFinite(env.soulawareCostAlertDailyUsd)
+    ? Math.max(0, env.soulawareCostAlertDailyUsd)
+    : 0;
+  const thresholds = getSpendThresholds();
+  const dayStart = getUtcDayStartIso(now);
+  const resetsAt = getNextUtcDayStartIso(now);
+
+  if (dailyBudgetUsd <= 0) {
+    return {
+      enabled: false,
+      step: "normal",
+      spentUsd: 0,
+      dailyBudgetUsd,
+      usedFraction: 0,
+      thresholds,
+      dayStart,
+      resetsAt,
+    };
+  }
+
+  const { spentUsd } = await loadSpend(now);
+  const usedFraction = spentUsd / dailyBudgetUsd;
+  const step =
+    [...SPEND_STEPS]
+      .reverse()
+      .find((candidate) => candidate !== "normal" && usedFraction >= thresholds[candidate]) ??
+    "normal";
+
+  return {
+    enabled: true,
+    step,
+    spentUsd: Number(spentUsd.toFixed(6)),
+    dailyBudgetUsd,
+    usedFraction: Number(usedFraction.toFixed(4)),
+    thresholds,
+    dayStart,
+    resetsAt,
+  };
+}
+
+/** Adds a turn's cost right away so this instance does not wait for the next refresh. */
+export function recordSpend(costUsd: number, now = new Date()): void {
+  const state = globalStore.__soulawareSpendBreaker;
+
+  if (state && state.dayStart === getUtcDayStartIso(now) && Number.isFinite(costUsd)) {
+    state.spentUsd += Math.max(0, costUsd);
+  }
+}
+
+/**
+ * Records a generation's usage for the guest's budget and adds its cost to the breaker.
+ * A failed write is logged rather than failing a reply that was already generated.
+ */
+export async function recordModelUsage(
+  guestId: string,
+  source: "chat_v1" | "chat_v2" | "purpose_snapshot",
+  usage: GenerationUsage,
+): Promise<void> {
+  recordSpend(usage.estimatedCostUsd);
+
+  try {
+    await trackEvent({
+      guestId,
+      eventName: MODEL_USAGE_EVENT,
+      metadata: {
+        source,
+        modelUsed: usage.modelUsed,
+        approximateTokens: usage.approximateTokens,
+        estimatedCostUsd: usage.estimatedCostUsd,
+      },
+    });
+  } catch (error) {
+    console.error("[Soulaware] recording model usage failed", error);
+  }
+}
@@ -0,0 +1,40 @@
+import { randomInt } from "node:crypto";
+import { hashToken } from "@/lib/server/auth";
+
+// No 0/O or 1/I so codes survive being read aloud or typed on a phone.
+const TRANSFER_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const TRANSFER_CODE_LENGTH = 8;
+
+export const TRANSFER_CODE_TTL_MINUTES = 10;
+
+export function generateTransferCode(): { code: string; codeHash: string } {
+  const characters = Array.from(
+    { length: TRANSFER_CODE_LENGTH },
+    () => TRANSFER_CODE_ALPHABET[randomInt(TRANSFER_CODE_ALPHABET.length)],
+  ).join("");
+  const code = `${characters.slice(0, 4)}-${characters.slice(4)}`;
+
+  return { code, codeHash: hashTransferCode(code) };
+}
+
+/** Accepts codes with any casing, spacing or dashes; returns null when they cannot be valid. */
+export function normalizeTransferCode(input: unknown): string | null {
+  if (typeof input !== "string") {
+    return null;
+  }
+
+  const characters = input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+  if (
+    characters.length !== TRANSFER_CODE_LENGTH ||
+    [...characters].some((character) => !TRANSFER_CODE_ALPHABET.includes(character))
+  ) {
+    return null;
+  }
+
+  return `${characters.slice(0, 4)}-${characters.slice(4)}`;
+}
+
+export function hashTransferCode(code: string): string {
+  return hashToken(`transfer:${code}`);
+}
@@ -0,0 +1,15 @@
+self.addEventListener("push", (event) => {
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "SoulAware check-in", {
+      body: payload.body || "",
+      data: { url: payload.url || "/chat" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow(event.notification.data.url));
+});
@@ -0,0 +1,107 @@
+import { createServer, type Socket } from "node:net";
+
+/**
+ * Minimal SMTP sink for local development. Accepts any message on SMTP_PORT
+ * (default 1025) and prints it, so magic links can be clicked from the terminal.
+ * Point the app at it with SOULAWARE_MAIL_TRANSPORT=smtp.
+ */
+
+const port = Number(process.env.SMTP_PORT ?? "1025");
+
+function decodeBody(raw: string): string {
+  const [headers, ...rest] = raw.split(/\r?\n\r?\n/);
+  const body = rest.join("\n\n");
+
+  if (/content-transfer-encoding:\s*quoted-printable/i.test(headers)) {
+    return body
+      .replace(/=\r?\n/g, "")
+      .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  }
+
+  if (/content-transfer-encoding:\s*base64/i.test(headers)) {
+    return Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf8");
+  }
+
+  return body;
+}
+
+function printMessage(envelope: { from: string; to: string[] }, raw: string) {
+  const subject = raw.match(/^subject:\s*(.+)$/im)?.[1] ?? "(no subject)";
+
+  console.log(
+    [
+      "",
+      `── mail ${new Date().toISOString()} ──`,
+      `from:    ${envelope.from}`,
+      `to:      ${envelope.to.join(", ")}`,
+      `subject: ${subject}`,
+      "",
+      decodeBody(raw).trim(),
+      "",
+    ].join("\n"),
+  );
+}
+
+function handleConnection(socket: Socket) {
+  let buffer = "";
+  let readingData = false;
+  let data: string[] = [];
+  let envelope = { from: "", to: [] as string[] };
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  reply("220 soulaware-dev-mail ready");
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+
+    let newline = buffer.indexOf("\r\n");
+
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      newline = buffer.indexOf("\r\n");
+
+      if (readingData) {
+        if (line === ".") {
+          readingData = false;
+          printMessage(envelope, data.join("\n"));
+          data = [];
+          envelope = { from: "", to: [] };
+          reply("250 OK: queued");
+        } else {
+          data.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+
+      if (command === "EHLO" || command === "HELO") {
+        reply("250 soulaware-dev-mail");
+      } else if (command === "MAIL") {
+        envelope.from = line.replace(/^MAIL FROM:\s*/i, "");
+        reply("250 OK");
+      } else if (command === "RCPT") {
+        envelope.to.push(line.replace(/^RCPT TO:\s*/i, ""));
+        reply("250 OK");
+      } else if (command === "DATA") {
+        readingData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+      } else if (command === "QUIT") {
+        reply("221 Bye");
+        socket.end();
+      } else if (command === "RSET" || command === "NOOP") {
+        reply("250 OK");
+      } else {
+        reply("502 Command not implemented");
+      }
+    }
+  });
+
+  socket.on("error", () => undefined);
+}
+
+createServer(handleConnection).listen(port, () => {
+  console.log(`Dev mail server listening on smtp://localhost:${port}`);
+});
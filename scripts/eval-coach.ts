@@ -0,0 +1,86 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import {
+  compareEvalReports,
+  parseConversationCorpus,
+  runEval,
+  type EvalConfig,
+  type EvalReport,
+} from "@/lib/server/eval";
+
+const USAGE = [
+  "Usage:",
+  "  npm run eval -- --corpus <file.jsonl> --config <a.json> [--config <b.json>] [--out <dir>]",
+  "  npm run eval -- --compare <base-report.json> <candidate-report.json>",
+].join("\n");
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, "utf8")) as T;
+}
+
+function writeReport(outDir: string, report: EvalReport): string {
+  const path = `${outDir}/${report.label}.json`;
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(report, null, 2)}\n`);
+  return path;
+}
+
+async function main(argv: string[]) {
+  const configs: string[] = [];
+  let corpusPath = "eval/golden-conversations.jsonl";
+  let outDir = "eval/reports";
+
+  if (argv[0] === "--compare") {
+    const [basePath, candidatePath] = argv.slice(1);
+
+    if (!basePath || !candidatePath) {
+      throw new Error(USAGE);
+    }
+
+    console.log(compareEvalReports(readJson(basePath), readJson(candidatePath)));
+    return;
+  }
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const flag = argv[index];
+    const value = argv[index + 1];
+
+    if (!value) {
+      throw new Error(USAGE);
+    }
+
+    if (flag === "--config") {
+      configs.push(value);
+    } else if (flag === "--corpus") {
+      corpusPath = value;
+    } else if (flag === "--out") {
+      outDir = value;
+    } else {
+      throw new Error(USAGE);
+    }
+
+    index += 1;
+  }
+
+  if (configs.length === 0 || configs.length > 2) {
+    throw new Error(USAGE);
+  }
+
+  const conversations = parseConversationCorpus(readFileSync(corpusPath, "utf8"));
+  const reports: EvalReport[] = [];
+
+  for (const configPath of configs) {
+    const report = await runEval(conversations, readJson<EvalConfig>(configPath));
+    reports.push(report);
+    console.log(`Wrote ${writeReport(outDir, report)}`);
+  }
+
+  const [base, candidate] = reports;
+  console.log("");
+  console.log(compareEvalReports(base, candidate ?? base));
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+import { readFileSync } from "node:fs";
+import {
+  SAFETY_LEXICON_VERSIONS,
+  formatLexiconReports,
+  getSafetyLexicon,
+  parseSafetyCorpus,
+  scoreLexicon,
+} from "@/lib/server/safety-lexicon";
+
+const USAGE = "Usage: npm run eval:safety -- [--corpus <file.jsonl>] [--version <n>]...";
+
+function main(argv: string[]) {
+  let corpusPath = "eval/safety-corpus.jsonl";
+  const versions: number[] = [];
+
+  for (let index = 0; index < argv.length; index += 2) {
+    const flag = argv[index];
+    const value = argv[index + 1];
+
+    if (flag === "--corpus" && value) {
+      corpusPath = value;
+    } else if (flag === "--version" && SAFETY_LEXICON_VERSIONS.includes(Number(value))) {
+      versions.push(Number(value));
+    } else {
+      throw new Error(USAGE);
+    }
+  }
+
+  const corpus = parseSafetyCorpus(readFileSync(corpusPath, "utf8"));
+  const reports = (versions.length > 0 ? versions : SAFETY_LEXICON_VERSIONS).map((version) =>
+    scoreLexicon(getSafetyLexicon(version), corpus),
+  );
+
+  console.log(formatLexiconReports(reports));
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,8 @@
+alter table guest_sessions drop constraint if exists guest_sessions_guest_id_key;
+
+alter table guest_sessions
+  add column if not exists title text not null default 'New conversation',
+  add column if not exists archived_at timestamptz;
+
+create index if not exists idx_guest_sessions_guest_updated
+  on guest_sessions(guest_id, updated_at desc);
@@ -0,0 +1,35 @@
+create table if not exists accounts (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create table if not exists magic_link_tokens (
+  token_hash text primary key,
+  email text not null,
+  guest_id text,
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_magic_link_tokens_email
+  on magic_link_tokens(email);
+
+alter table accounts enable row level security;
+alter table magic_link_tokens enable row level security;
+
+drop policy if exists "service_role_full_accounts" on accounts;
+drop policy if exists "service_role_full_magic_link_tokens" on magic_link_tokens;
+
+create policy "service_role_full_accounts"
+  on accounts
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create policy "service_role_full_magic_link_tokens"
+  on magic_link_tokens
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
@@ -0,0 +1,41 @@
+create table if not exists transfer_codes (
+  code_hash text primary key,
+  guest_id text not null,
+  expires_at timestamptz not null,
+  redeemed_at timestamptz,
+  redeemed_by text,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_transfer_codes_guest
+  on transfer_codes(guest_id);
+
+create table if not exists transfer_audit_events (
+  id uuid primary key default gen_random_uuid(),
+  event text not null check (event in ('issued', 'redeemed', 'rejected')),
+  guest_id text,
+  ip text not null,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_transfer_audit_events_guest_created
+  on transfer_audit_events(guest_id, created_at desc);
+
+alter table transfer_codes enable row level security;
+alter table transfer_audit_events enable row level security;
+
+drop policy if exists "service_role_full_transfer_codes" on transfer_codes;
+drop policy if exists "service_role_full_transfer_audit_events" on transfer_audit_events;
+
+create policy "service_role_full_transfer_codes"
+  on transfer_codes
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create policy "service_role_full_transfer_audit_events"
+  on transfer_audit_events
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
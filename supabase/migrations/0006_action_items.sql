@@ -0,0 +1,43 @@
+create table if not exists action_items (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references guest_sessions(id) on delete cascade,
+  snapshot_id uuid references purpose_snapshots(id) on delete set null,
+  title text not null,
+  status text not null default 'open' check (status in ('open', 'done', 'dropped')),
+  due_at timestamptz,
+  completed_at timestamptz,
+  notes text not null default '',
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_action_items_session_status
+  on action_items(session_id, status, due_at);
+
+create index if not exists idx_action_items_snapshot
+  on action_items(snapshot_id);
+
+-- Backfill: every existing snapshot's next actions become open items due a week after it.
+insert into action_items (session_id, snapshot_id, title, due_at, created_at, updated_at)
+select
+  snapshots.session_id,
+  snapshots.id,
+  actions.title,
+  snapshots.created_at + interval '7 days',
+  snapshots.created_at,
+  snapshots.created_at
+from purpose_snapshots snapshots
+cross join lateral jsonb_array_elements_text(snapshots.next_actions_json) as actions(title)
+where not exists (
+  select 1 from action_items existing where existing.snapshot_id = snapshots.id
+);
+
+alter table action_items enable row level security;
+
+drop policy if exists "service_role_full_action_items" on action_items;
+
+create policy "service_role_full_action_items"
+  on action_items
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
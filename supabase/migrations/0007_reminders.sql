@@ -0,0 +1,26 @@
+create table if not exists reminder_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  guest_id text not null unique,
+  session_id uuid references guest_sessions(id) on delete set null,
+  cadence text not null check (cadence in ('daily', 'weekly')),
+  channel text not null check (channel in ('email', 'push')),
+  destination text not null,
+  next_run_at timestamptz not null,
+  last_sent_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_reminder_subscriptions_next_run
+  on reminder_subscriptions(next_run_at);
+
+alter table reminder_subscriptions enable row level security;
+
+drop policy if exists "service_role_full_reminder_subscriptions" on reminder_subscriptions;
+
+create policy "service_role_full_reminder_subscriptions"
+  on reminder_subscriptions
+  for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
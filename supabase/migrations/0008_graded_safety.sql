@@ -0,0 +1,12 @@
+-- Every non-clear safety decision is recorded with the policy action taken and why.
+-- Rows written before graded safety were all crisis responses.
+alter table safety_events
+  add column if not exists action text not null default 'crisis'
+    check (action in ('allow', 'support', 'crisis')),
+  add column if not exists reason text not null default '';
+
+alter table safety_events
+  alter column action drop default;
+
+create index if not exists idx_safety_events_action_created
+  on safety_events(action, created_at desc);
@@ -0,0 +1,3 @@
+-- Cumulative conversation risk score after each recent user turn, oldest first.
+alter table chat_session_state
+  add column if not exists risk_trajectory_json jsonb not null default '[]'::jsonb;
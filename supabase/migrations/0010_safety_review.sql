@@ -0,0 +1,10 @@
+-- Triage state for the trust-and-safety review console.
+alter table safety_events
+  add column if not exists review_status text not null default 'new'
+    check (review_status in ('new', 'reviewed', 'false_positive', 'escalated')),
+  add column if not exists reviewer_notes text not null default '',
+  add column if not exists reviewed_by text,
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists idx_safety_events_review_created
+  on safety_events(review_status, created_at desc);
@@ -0,0 +1,4 @@
+-- Coached turns left in post-crisis mode after a crisis reply; 0 when the mode is off.
+alter table chat_session_state
+  add column if not exists post_crisis_turns_remaining integer not null default 0
+    check (post_crisis_turns_remaining >= 0);
@@ -0,0 +1,8 @@
+-- Email reminders wait for the address to be confirmed; push subscriptions count as
+-- confirmed when the browser grants permission.
+alter table reminder_subscriptions
+  add column if not exists confirmed_at timestamptz;
+
+update reminder_subscriptions
+  set confirmed_at = created_at
+  where channel = 'push' and confirmed_at is null;
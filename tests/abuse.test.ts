@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ABUSE_RULES, recordChatActivity } from "@/lib/server/abuse";
+import { getCooldown } from "@/lib/server/rate-limit";
+
+const REPEATED = "I keep thinking about quitting my job";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("recordChatActivity", () => {
+  it("cools down a guest that keeps sending the same message", async () => {
+    const texts = [REPEATED, `${REPEATED}!`, "Something else entirely, for once", REPEATED];
+    const results = [];
+
+    for (const text of [...texts, `${REPEATED.toUpperCase()}.`, REPEATED, `  ${REPEATED}`]) {
+      results.push(await recordChatActivity({ guestId: "g1", ip: "203.0.113.10", text }));
+    }
+
+    expect(results.slice(0, 6).flat()).toEqual([]);
+    expect(results[6]).toMatchObject([{ signal: "repeated_message", keyType: "guest" }]);
+    expect(await getCooldown("guest", "g1")).toMatchObject({ reason: "repeated_message" });
+    expect(await getCooldown("ip", "203.0.113.10")).toBeNull();
+  });
+
+  it("never counts short replies or flagged text as repeats", async () => {
+    const cooldowns = [];
+
+    for (let index = 0; index < ABUSE_RULES.repeated_message.threshold * 2; index += 1) {
+      cooldowns.push(...(await recordChatActivity({ guestId: "g1", ip: null, text: "idk" })));
+      cooldowns.push(
+        ...(await recordChatActivity({
+          guestId: "g1",
+          ip: null,
+          text: "I don't want to be alive anymore",
+          flagged: true,
+        })),
+      );
+    }
+
+    expect(cooldowns).toEqual([]);
+  });
+
+  it("cools down a burst of messages carrying links", async () => {
+    const signals = [];
+
+    for (let index = 0; index < ABUSE_RULES.link_burst.threshold; index += 1) {
+      const cooldowns = await recordChatActivity({
+        guestId: "g1",
+        ip: null,
+        text: `Look at https://example.com/${index}`,
+      });
+      signals.push(...cooldowns.map((cooldown) => cooldown.signal));
+    }
+
+    expect(signals).toEqual(["link_burst"]);
+  });
+
+  it("never blocks a busy shared IP for churn alone", async () => {
+    const ip = "198.51.100.8";
+
+    for (let index = 1; index <= ABUSE_RULES.guest_churn.threshold + 10; index += 1) {
+      const cooldowns = await recordChatActivity({
+        guestId: `guest-${index}`,
+        ip,
+        text: `Visitor ${index} wondering how to plan their week`,
+      });
+
+      expect(cooldowns).toEqual([]);
+    }
+
+    expect(await getCooldown("ip", ip)).toBeNull();
+  });
+
+  it("cools down new ids from a churning IP once they repeat each other", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const ip = "198.51.100.9";
+    const { threshold, windowMs } = ABUSE_RULES.guest_churn;
+    const spam = (guestId: string) => recordChatActivity({ guestId, ip, text: REPEATED });
+
+    for (let index = 1; index < threshold; index += 1) {
+      await recordChatActivity({ guestId: `regular-${index}`, ip, text: `Visitor ${index} here` });
+    }
+
+    const results = [];
+
+    for (let index = 1; index <= ABUSE_RULES.repeated_message.threshold; index += 1) {
+      results.push(await spam(`throwaway-${index}`));
+    }
+
+    expect(results.slice(0, -1).flat()).toEqual([]);
+    expect(results.at(-1)).toMatchObject([{ signal: "guest_churn", keyType: "guest" }]);
+    expect(
+      await getCooldown("guest", `throwaway-${ABUSE_RULES.repeated_message.threshold}`),
+    ).toMatchObject({ reason: "guest_churn" });
+    expect(await getCooldown("guest", "regular-1")).toBeNull();
+    expect(await getCooldown("ip", ip)).toBeNull();
+
+    vi.setSystemTime(Date.now() + windowMs);
+    expect(await spam("throwaway-later")).toEqual([]);
+  });
+});
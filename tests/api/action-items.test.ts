@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { PATCH as patchActionItem } from "@/app/api/action-items/[id]/route";
+import { GET as listActionItems } from "@/app/api/action-items/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import { POST as createSnapshot } from "@/app/api/purpose-snapshot/route";
+import { getFakeLlmCalls, setFakeLlmScript } from "@/lib/server/llm-fake";
+import { buildRequest, recordedEvents, setChatEngine } from "@/tests/support/harness";
+import type {
+  ActionItem,
+  ActionItemListResponse,
+  PurposeSnapshotResponse,
+} from "@/types/domain";
+
+async function snapshotWithItems(guestId = "guest-test") {
+  const created = await createSnapshot(buildRequest("/api/purpose-snapshot", { guestId, body: {} }));
+  const snapshot = (await created.json()) as PurposeSnapshotResponse;
+  const listed = await listActionItems(
+    buildRequest(`/api/action-items?snapshotId=${snapshot.snapshotId}`, { guestId }),
+  );
+
+  return { snapshot, items: ((await listed.json()) as ActionItemListResponse).actionItems };
+}
+
+function patchRequest(id: string, body: unknown, guestId = "guest-test") {
+  return patchActionItem(
+    buildRequest(`/api/action-items/${id}`, { method: "PATCH", guestId, body }),
+    { params: Promise.resolve({ id }) },
+  );
+}
+
+describe("action item routes", () => {
+  it("creates an open item for each snapshot next action", async () => {
+    const { snapshot, items } = await snapshotWithItems();
+
+    expect(items.map((item) => item.title)).toEqual(snapshot.nextActions);
+    expect(items.every((item) => item.status === "open" && item.snapshotId === snapshot.snapshotId)).toBe(true);
+    expect(Date.parse(items[0].dueAt ?? "")).toBeGreaterThan(Date.now());
+  });
+
+  it("marks items done with a completion time and reopens them", async () => {
+    const { items } = await snapshotWithItems();
+
+    const done = (await (await patchRequest(items[0].id, { status: "done", notes: " Sent it " })).json()) as ActionItem;
+    expect(done.status).toBe("done");
+    expect(done.completedAt).not.toBeNull();
+    expect(done.notes).toBe("Sent it");
+    expect(await recordedEvents("guest-test")).toContain("action_item_completed");
+
+    const reopened = (await (await patchRequest(items[0].id, { status: "open" })).json()) as ActionItem;
+    expect(reopened.completedAt).toBeNull();
+  });
+
+  it("rejects invalid updates and hides other guests' items", async () => {
+    const { items } = await snapshotWithItems();
+
+    expect((await patchRequest(items[0].id, { status: "finished" })).status).toBe(400);
+    expect((await patchRequest(items[0].id, { dueAt: "not a date" })).status).toBe(400);
+    expect((await patchRequest(items[0].id, {})).status).toBe(400);
+
+    const foreign = await patchRequest(items[0].id, { status: "done" }, "someone-else");
+    expect(foreign.status).toBe(404);
+    expect(await foreign.json()).toEqual({ error: "Action item not found." });
+  });
+
+  it("tells the v2 coach about overdue actions", async () => {
+    const { items } = await snapshotWithItems();
+    await patchRequest(items[0].id, { dueAt: "2020-01-01T00:00:00.000Z" });
+    await patchRequest(items[1].id, { status: "done" });
+
+    setChatEngine("v2");
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            reflection: "You have been circling the same decision for weeks.",
+            actionStep: "Block thirty minutes tomorrow to finish the overdue step.",
+            followUpQuestion: "What got in the way of that step last week?",
+          },
+        },
+      ],
+    });
+
+    await postMessage(
+      buildRequest("/api/chat/message", {
+        body: {
+          text: "I need to decide between staying in my stable engineering job and starting a design studio.",
+        },
+      }),
+    );
+
+    const [call] = getFakeLlmCalls().filter((entry) => entry.kind === "completion");
+    expect(call?.kind === "completion" ? call.prompt : "").toContain(
+      `${items[0].title} (OVERDUE since 2020-01-01)`,
+    );
+    expect(call?.kind === "completion" ? call.prompt : "").toContain(`${items[1].title} (done `);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { GET as getMe } from "@/app/api/auth/me/route";
+import { POST as requestMagicLink } from "@/app/api/auth/magic-link/route";
+import { POST as signOut } from "@/app/api/auth/sign-out/route";
+import { GET as openLegacyLink, POST as confirmMagicLink } from "@/app/api/auth/verify/route";
+import { GET as getHistory } from "@/app/api/chat/history/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import { POST as deleteData } from "@/app/api/data/delete/route";
+import { GET as listConversations } from "@/app/api/conversations/route";
+import { accountCookieName } from "@/lib/server/auth";
+import { env } from "@/lib/server/env";
+import { getOutbox } from "@/lib/server/mailer";
+import { buildRequest, setChatEngine } from "@/tests/support/harness";
+import type {
+  AccountResponse,
+  ChatHistoryResponse,
+  ConversationListResponse,
+} from "@/types/domain";
+
+function latestLinkToken(): string {
+  const link = getOutbox().at(-1)?.text.match(/https?:\/\/\S+/)?.[0];
+  const token = link ? new URL(link).searchParams.get("token") : null;
+
+  if (!token) {
+    throw new Error("No magic link was sent.");
+  }
+
+  return token;
+}
+
+function confirm(
+  token: string,
+  guestId = "guest-test",
+  headers: Record<string, string> = { origin: env.appUrl },
+) {
+  return confirmMagicLink(buildRequest("/api/auth/verify", { guestId, body: { token }, headers }));
+}
+
+async function signIn(email: string, guestId = "guest-test"): Promise<string> {
+  await requestMagicLink(buildRequest("/api/auth/magic-link", { guestId, body: { email } }));
+
+  const response = await confirm(latestLinkToken(), guestId);
+
+  expect(response.headers.get("location")).toContain("/settings?account=signed-in");
+  return response.cookies.get(accountCookieName)?.value ?? "";
+}
+
+describe("magic-link accounts", () => {
+  it("rejects malformed email addresses", async () => {
+    const response = await requestMagicLink(
+      buildRequest("/api/auth/magic-link", { body: { email: "not-an-email" } }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it("claims the guest's conversations when the link is verified", async () => {
+    setChatEngine("v1");
+    await postMessage(
+      buildRequest("/api/chat/message", {
+        body: { text: "I want to change careers into product design." },
+      }),
+    );
+
+    const accountToken = await signIn("Person@Example.com");
+    const me = (await (
+      await getMe(buildRequest("/api/auth/me", { cookies: { [accountCookieName]: accountToken } }))
+    ).json()) as AccountResponse;
+
+    expect(me.account?.email).toBe("person@example.com");
+
+    // A fresh device with a different guest cookie sees the same history once signed in.
+    const history = (await (
+      await getHistory(
+        buildRequest("/api/chat/history", {
+          guestId: "other-device",
+          cookies: { [accountCookieName]: accountToken },
+        }),
+      )
+    ).json()) as ChatHistoryResponse;
+
+    expect(history.messages[0].content).toContain("product design");
+
+    const guestHistory = (await (
+      await getHistory(buildRequest("/api/chat/history"))
+    ).json()) as ChatHistoryResponse;
+
+    expect(guestHistory.messages).toEqual([]);
+  });
+
+  it("only accepts each link once", async () => {
+    await requestMagicLink(
+      buildRequest("/api/auth/magic-link", { body: { email: "once@example.com" } }),
+    );
+
+    const token = latestLinkToken();
+
+    await confirm(token);
+    const replay = await confirm(token);
+
+    expect(replay.headers.get("location")).toContain("account=invalid");
+    expect(replay.cookies.get(accountCookieName)).toBeUndefined();
+  });
+
+  it("leaves the token alone when the link is only opened", async () => {
+    await requestMagicLink(
+      buildRequest("/api/auth/magic-link", { body: { email: "scanned@example.com" } }),
+    );
+
+    const token = latestLinkToken();
+    const opened = openLegacyLink(buildRequest(`/api/auth/verify?token=${token}`));
+
+    expect(getOutbox().at(-1)?.text).toContain(`/auth/verify?token=${token}`);
+    expect(opened.headers.get("location")).toContain(`/auth/verify?token=${token}`);
+    expect(opened.cookies.get(accountCookieName)).toBeUndefined();
+    expect((await confirm(token)).headers.get("location")).toContain("account=signed-in");
+  });
+
+  it("refuses a sign-in posted from another site", async () => {
+    await requestMagicLink(
+      buildRequest("/api/auth/magic-link", { body: { email: "attacker@example.com" } }),
+    );
+
+    const token = latestLinkToken();
+    const crossSite: Array<Record<string, string>> = [
+      { origin: "https://evil.example" },
+      { "sec-fetch-site": "cross-site" },
+      {},
+    ];
+
+    for (const headers of crossSite) {
+      const response = await confirm(token, "victim-browser", headers);
+
+      expect(response.status).toBe(403);
+      expect(response.cookies.get(accountCookieName)).toBeUndefined();
+    }
+
+    const sameSite = await confirm(token, "guest-test", { "sec-fetch-site": "same-origin" });
+    expect(sameSite.headers.get("location")).toContain("account=signed-in");
+  });
+
+  it("does not move the requester's guest data into someone else's account", async () => {
+    setChatEngine("v1");
+    await postMessage(
+      buildRequest("/api/chat/message", {
+        guestId: "requester",
+        body: { text: "Planting this in another person's account." },
+      }),
+    );
+    await requestMagicLink(
+      buildRequest("/api/auth/magic-link", {
+        guestId: "requester",
+        body: { email: "victim@example.com" },
+      }),
+    );
+
+    const response = await confirm(latestLinkToken(), "victim-browser");
+    const history = (await (
+      await getHistory(
+        buildRequest("/api/chat/history", {
+          cookies: { [accountCookieName]: response.cookies.get(accountCookieName)?.value ?? "" },
+        }),
+      )
+    ).json()) as ChatHistoryResponse;
+    const requesterHistory = (await (
+      await getHistory(buildRequest("/api/chat/history", { guestId: "requester" }))
+    ).json()) as ChatHistoryResponse;
+
+    expect(history.messages).toEqual([]);
+    expect(requesterHistory.messages).toHaveLength(2);
+  });
+
+  it("ignores tampered account cookies", async () => {
+    const accountToken = await signIn("tamper@example.com");
+    const [accountId, expiresAt] = accountToken.split(".");
+    const forged = `${accountId}.${expiresAt}.not-a-signature`;
+
+    const me = (await (
+      await getMe(buildRequest("/api/auth/me", { cookies: { [accountCookieName]: forged } }))
+    ).json()) as AccountResponse;
+
+    expect(me.account).toBeNull();
+  });
+
+  it("signs out by clearing the account cookie", async () => {
+    const response = await signOut();
+
+    expect(response.cookies.get(accountCookieName)?.value).toBe("");
+  });
+
+  it("deletes account data and the account itself", async () => {
+    const accountToken = await signIn("delete@example.com");
+    const cookies = { [accountCookieName]: accountToken };
+
+    setChatEngine("v1");
+    await postMessage(
+      buildRequest("/api/chat/message", {
+        cookies,
+        body: { text: "Help me plan a sabbatical next year." },
+      }),
+    );
+
+    const response = await deleteData(buildRequest("/api/data/delete", { method: "POST", cookies }));
+    const me = (await (await getMe(buildRequest("/api/auth/me", { cookies }))).json()) as AccountResponse;
+    const conversations = (await (
+      await listConversations(buildRequest("/api/conversations", { cookies }))
+    ).json()) as ConversationListResponse;
+
+    expect(response.cookies.get(accountCookieName)?.value).toBe("");
+    expect(me.account).toBeNull();
+    expect(conversations.conversations).toEqual([]);
+  });
+});
@@ -0,0 +1,860 @@
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/chat/message/route";
+import { BUDGET_EXHAUSTED_REPLY, getGuestBudget } from "@/lib/server/budget";
+import { env } from "@/lib/server/env";
+import { getFakeLlmCalls, setFakeLlmScript } from "@/lib/server/llm-fake";
+import {
+  getAnalyticsEventsSince,
+  getOrCreateSession,
+  getOrCreateSessionState,
+  listMessages,
+  listSafetyEventsForSession,
+  trackEvent,
+} from "@/lib/server/repository";
+import { SUPPORT_MODE_INSTRUCTION, parseSafetyPolicy } from "@/lib/server/safety";
+import {
+  buildRequest,
+  readStreamEvents,
+  recordedEvents,
+  setChatEngine,
+  streamedReply,
+} from "@/tests/support/harness";
+import type { ChatMessageResponse } from "@/types/domain";
+
+const DETAILED_MESSAGE =
+  "I need to decide between staying in my stable engineering job and starting a design studio with a friend.";
+
+function sendMessage(
+  text: string,
+  options: {
+    guestId?: string | null;
+    ip?: string;
+    stream?: boolean;
+    headers?: Record<string, string>;
+    cookies?: Record<string, string>;
+  } = {},
+) {
+  return POST(
+    buildRequest("/api/chat/message", {
+      guestId: options.guestId,
+      body: { text, stream: options.stream },
+      headers: { "x-forwarded-for": options.ip ?? "203.0.113.10", ...options.headers },
+      cookies: options.cookies,
+    }),
+  );
+}
+
+const goodDraft = {
+  reflection: "You want stability and creative ownership at the same time.",
+  actionStep: "List three things the design studio must prove before you leave the engineering job.",
+  followUpQuestion: "Which of those three proofs could you test in the next two weeks?",
+};
+
+describe("POST /api/chat/message validation", () => {
+  it("returns 500 when the guest cookie is missing", async () => {
+    const response = await sendMessage(DETAILED_MESSAGE, { guestId: null });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: "Guest session is missing. Refresh and try again.",
+    });
+  });
+
+  it("rejects empty, oversized, and link-heavy messages", async () => {
+    const empty = await sendMessage("   ");
+    const long = await sendMessage("a".repeat(1201));
+    const links = await sendMessage("see https://a.test https://b.test www.c.test");
+
+    expect(empty.status).toBe(400);
+    expect(long.status).toBe(400);
+    expect(links.status).toBe(400);
+    expect(await recordedEvents("guest-test")).toEqual([]);
+  });
+
+  it("returns 429 with rate-limit headers once the guest exceeds the window", async () => {
+    setChatEngine("v1");
+
+    for (let index = 0; index < 12; index += 1) {
+      const response = await sendMessage(`${DETAILED_MESSAGE} (${index})`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("X-RateLimit-Remaining")).toBe(String(11 - index));
+    }
+
+    const limited = await sendMessage(DETAILED_MESSAGE);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("X-RateLimit-Limit")).toBe("12");
+    expect(limited.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("puts a guest repeating the same message on a cooldown", async () => {
+    setChatEngine("v1");
+    const statuses = [];
+
+    for (let index = 0; index < 7; index += 1) {
+      statuses.push((await sendMessage("Tell me what to do about my job.")).status);
+    }
+
+    const otherGuest = await sendMessage("Tell me what to do about my job.", {
+      guestId: "guest-other",
+    });
+    const cooledDown = await sendMessage(DETAILED_MESSAGE);
+
+    expect(statuses).toEqual([200, 200, 200, 200, 200, 429, 429]);
+    expect(otherGuest.status).toBe(200);
+    expect(cooledDown.status).toBe(429);
+    expect(cooledDown.headers.get("X-RateLimit-Policy")).toBe("chat_message:guest:cooldown");
+    expect(await recordedEvents("guest-test")).toContain("abuse_cooldown");
+  });
+
+  it("keeps answering a repeated crisis message", async () => {
+    const statuses = [];
+
+    for (let index = 0; index < 8; index += 1) {
+      statuses.push((await sendMessage("I want to kill myself tonight")).status);
+    }
+
+    expect(new Set(statuses)).toEqual(new Set([200]));
+    expect(await recordedEvents("guest-test")).not.toContain("abuse_cooldown");
+  });
+
+  it("keys the IP limit on the nearest untrusted hop, not a spoofed one", async () => {
+    setChatEngine("v1");
+    env.soulawareRateLimits = JSON.stringify({ chat_message: { guest: { minute: 0 } } });
+    env.soulawareTrustedProxies = "10.0.0.0/8";
+    const statuses = [];
+
+    for (let index = 0; index < 31; index += 1) {
+      const response = await sendMessage(`${DETAILED_MESSAGE} (${index})`, {
+        guestId: `guest-${index % 3}`,
+        ip: `192.0.2.${index}, 203.0.113.10, 10.0.0.1`,
+      });
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, 30).every((status) => status === 200)).toBe(true);
+    expect(statuses[30]).toBe(429);
+  });
+});
+
+describe("POST /api/chat/message safety", () => {
+  it("short-circuits with the safety response and records the event", async () => {
+    setChatEngine("v2");
+
+    const response = await sendMessage("I want to kill myself tonight");
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.mode).toBe("safety");
+    expect(payload.safetyTriggered).toBe(true);
+    expect(payload.modelUsed).toBe("safety-guardrail");
+    expect(await recordedEvents("guest-test")).toEqual(["safety_triggered"]);
+  });
+
+  it("renders crisis resources for the caller's country", async () => {
+    const uk = await sendMessage("I want to end my life", {
+      headers: { "accept-language": "en-GB,en;q=0.8" },
+    });
+    const ukReply = ((await uk.json()) as ChatMessageResponse).reply;
+
+    expect(ukReply).toContain("Call **116 123** (Samaritans, United Kingdom, 24/7)");
+    expect(ukReply).toContain("call **999** now");
+    expect(ukReply).not.toContain("988");
+
+    const australia = await sendMessage("I want to end my life", {
+      guestId: "guest-au",
+      headers: { "accept-language": "en-GB", "x-vercel-ip-country": "AU" },
+    });
+
+    expect(((await australia.json()) as ChatMessageResponse).reply).toContain("**13 11 14**");
+  });
+
+  it("falls back to the international directory when the country is unknown", async () => {
+    const response = await sendMessage("I want to end my life", {
+      headers: { "accept-language": "fr" },
+    });
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.reply).toContain("https://findahelpline.com");
+    expect(payload.reply).toContain("call your local emergency number now");
+    expect(payload.reply).not.toMatch(/988|911/);
+  });
+
+  it("triggers on moderation self-harm flags", async () => {
+    setFakeLlmScript({
+      moderations: [{ flagged: true, categories: { "self-harm/intent": true } }],
+    });
+
+    const response = await sendMessage(DETAILED_MESSAGE);
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.safetyTriggered).toBe(true);
+  });
+
+  it("streams only the safety segment when triggered", async () => {
+    const response = await sendMessage("I want to end my life", { stream: true });
+    const events = await readStreamEvents(response);
+
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    expect(events.map((event) => event.type)).toEqual(["segment", "done"]);
+    expect(events[0]).toMatchObject({ segment: { kind: "safety" } });
+  });
+});
+
+describe("POST /api/chat/message post-crisis mode", () => {
+  async function postCrisisTurnsRemaining() {
+    const session = await getOrCreateSession("guest-test");
+    return (await getOrCreateSessionState(session.id)).postCrisisTurnsRemaining;
+  }
+
+  it("keeps the turns after a crisis supportive, with resources and no action step", async () => {
+    setChatEngine("v1");
+    await sendMessage("I want to kill myself tonight");
+    expect(await postCrisisTurnsRemaining()).toBe(3);
+
+    const response = await sendMessage(DETAILED_MESSAGE, {
+      headers: { "accept-language": "en-US" },
+    });
+    const payload = (await response.json()) as ChatMessageResponse;
+    const [call] = getFakeLlmCalls().filter((entry) => entry.kind === "completion");
+
+    expect(payload.postCrisis).toBe(true);
+    expect(payload.supportMode).toBe(true);
+    expect(payload.reply).toContain("**988**");
+    expect(payload.reply).not.toContain("Action step:");
+    expect(call?.kind === "completion" ? call.prompt : "").toContain(SUPPORT_MODE_INSTRUCTION);
+    expect(await postCrisisTurnsRemaining()).toBe(2);
+  });
+
+  it("drops the streamed action segment under v2", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({ completions: [{ json: goodDraft }] });
+    await sendMessage("I want to end my life");
+
+    const events = await readStreamEvents(await sendMessage(DETAILED_MESSAGE, { stream: true }));
+    const kinds = events.map((event) => (event.type === "segment" ? event.segment.kind : event.type));
+
+    expect(kinds).toEqual(["reflection", "question", "support", "done"]);
+  });
+
+  it("returns to normal coaching after the configured turns or a safety confirmation", async () => {
+    setChatEngine("v1");
+    env.soulawarePostCrisisTurns = 2;
+    await sendMessage("I want to kill myself tonight");
+
+    const first = (await (await sendMessage("Work was long today.")).json()) as ChatMessageResponse;
+    const second = (await (await sendMessage("Dinner helped a bit.")).json()) as ChatMessageResponse;
+    const third = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect([first.postCrisis, second.postCrisis, third.postCrisis]).toEqual([true, true, false]);
+    expect(third.reply).toContain("Action step:");
+
+    await sendMessage("I want to kill myself tonight");
+    const confirmed = (await (
+      await sendMessage("Thanks, I'm safe now. My roommate is home.")
+    ).json()) as ChatMessageResponse;
+    const after = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect(confirmed.postCrisis).toBe(true);
+    expect(after.postCrisis).toBe(false);
+    expect(await postCrisisTurnsRemaining()).toBe(0);
+  });
+
+  it("keeps counting down while moderation is down", async () => {
+    setChatEngine("v1");
+    env.soulawareModerationRetries = 0;
+    await sendMessage("I want to kill myself tonight");
+    setFakeLlmScript({
+      moderations: Array.from({ length: 3 }, () => ({ error: "moderation unavailable" })),
+    });
+
+    const turns = [];
+
+    for (const text of ["Work was long today.", "Dinner helped a bit.", DETAILED_MESSAGE]) {
+      turns.push((await (await sendMessage(text)).json()) as ChatMessageResponse);
+    }
+
+    expect(turns.map((turn) => turn.postCrisis)).toEqual([true, true, true]);
+    expect(await postCrisisTurnsRemaining()).toBe(0);
+  });
+});
+
+describe("POST /api/chat/message graded safety", () => {
+  const ELEVATED_MESSAGE =
+    "I feel hopeless about the engineering job and I keep wondering if the studio is worth it.";
+
+  async function storedSafetyEvents() {
+    const session = await getOrCreateSession("guest-test");
+    return listSafetyEventsForSession(session.id);
+  }
+
+  it("coaches gently with inline resources on elevated turns", async () => {
+    setChatEngine("v1");
+
+    const response = await sendMessage(ELEVATED_MESSAGE, {
+      headers: { "accept-language": "en-US,en;q=0.9" },
+    });
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.mode).toBe("coach");
+    expect(payload.safetyTriggered).toBe(false);
+    expect(payload.supportMode).toBe(true);
+    expect(payload.reply).toContain("**988**");
+    expect(await storedSafetyEvents()).toEqual([
+      expect.objectContaining({
+        level: "elevated",
+        action: "support",
+        reason: expect.stringContaining("rule_elevated"),
+      }),
+    ]);
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+    ]);
+  });
+
+  it("steers the v2 prompt and streams a support segment", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({ completions: [{ json: goodDraft }] });
+
+    const events = await readStreamEvents(await sendMessage(ELEVATED_MESSAGE, { stream: true }));
+    const [call] = getFakeLlmCalls().filter((entry) => entry.kind === "completion");
+
+    expect(call?.kind === "completion" ? call.prompt : "").toContain(SUPPORT_MODE_INSTRUCTION);
+    const kinds = events.map((event) => (event.type === "segment" ? event.segment.kind : event.type));
+    expect(kinds).toEqual([
+      "reflection",
+      "action",
+      "question",
+      "support",
+      "done",
+    ]);
+  });
+
+  it("escalates on risk that builds across turns", async () => {
+    setChatEngine("v1");
+
+    const first = await (await sendMessage("I'm so tired of everything lately.")).json();
+    const second = await (await sendMessage("I don't see the point anymore.")).json();
+    const session = await getOrCreateSession("guest-test");
+
+    expect(first.supportMode).toBe(false);
+    expect(second.supportMode).toBe(true);
+    expect((await getOrCreateSessionState(session.id)).riskTrajectory).toEqual([2, 4.5]);
+    expect(await storedSafetyEvents()).toEqual([
+      expect.objectContaining({
+        level: "elevated",
+        reason: expect.stringMatching(/^conversation_cumulative/),
+      }),
+    ]);
+  });
+
+  it("follows the configured policy table but never relaxes high risk", async () => {
+    env.soulawareSafetyPolicy = "elevated=allow,high=allow";
+    setChatEngine("v1");
+
+    const elevated = (await (await sendMessage(ELEVATED_MESSAGE)).json()) as ChatMessageResponse;
+    const high = (await (await sendMessage("I want to end my life")).json()) as ChatMessageResponse;
+
+    expect(elevated.supportMode).toBe(false);
+    expect(high.mode).toBe("safety");
+    expect((await storedSafetyEvents()).map((event) => event.action)).toEqual(["allow", "crisis"]);
+    expect(parseSafetyPolicy("none=support, bogus=crisis")).toEqual({
+      none: "support",
+      elevated: "support",
+      high: "crisis",
+    });
+  });
+});
+
+describe("POST /api/chat/message moderation failures", () => {
+  const outage = (count: number) => ({
+    moderations: Array.from({ length: count }, () => ({ error: "moderation unavailable" })),
+  });
+
+  it("retries before giving up on moderation", async () => {
+    setChatEngine("v1");
+    setFakeLlmScript({ moderations: [{ error: "timeout" }, { flagged: false }] });
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect(payload.supportMode).toBe(false);
+    expect(await recordedEvents("guest-test")).not.toContain("moderation_failed");
+  });
+
+  it("degrades to rules plus supportive coaching by default", async () => {
+    setChatEngine("v1");
+    setFakeLlmScript(outage(3));
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+    const session = await getOrCreateSession("guest-test");
+
+    expect(payload.supportMode).toBe(true);
+    expect(await listSafetyEventsForSession(session.id)).toEqual([
+      expect.objectContaining({
+        level: "elevated",
+        reason: "rule_clear+moderation_failed_caution",
+      }),
+    ]);
+    expect(await recordedEvents("guest-test")).toContain("moderation_failed");
+  });
+
+  it("refuses the turn without storing it when failing closed", async () => {
+    env.soulawareModerationFailurePolicy = "fail-closed";
+    env.soulawareModerationRetries = 0;
+    setFakeLlmScript(outage(1));
+
+    const response = await sendMessage(DETAILED_MESSAGE);
+    const session = await getOrCreateSession("guest-test");
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("Retry-After")).toBe("60");
+    expect(await listMessages(session.id)).toEqual([]);
+    expect(await recordedEvents("guest-test")).toEqual(["moderation_failed"]);
+  });
+
+  it("keeps coaching normally when failing open", async () => {
+    setChatEngine("v1");
+    env.soulawareModerationFailurePolicy = "fail-open";
+    env.soulawareModerationRetries = 0;
+    setFakeLlmScript(outage(1));
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect(payload.supportMode).toBe(false);
+    expect(await recordedEvents("guest-test")).toContain("moderation_failed");
+  });
+
+  it("opens the circuit after repeated failures and skips moderation", async () => {
+    setChatEngine("v1");
+    env.soulawareModerationFailurePolicy = "fail-open";
+    env.soulawareModerationRetries = 0;
+    setFakeLlmScript(outage(5));
+
+    for (let index = 0; index < 5; index += 1) {
+      await sendMessage(`${DETAILED_MESSAGE} (${index})`);
+    }
+
+    await sendMessage(DETAILED_MESSAGE);
+    const failures = (await getAnalyticsEventsSince(new Date(0).toISOString())).filter(
+      (event) => event.eventName === "moderation_failed",
+    );
+
+    expect(failures.map((event) => event.metadata.failure)).toEqual([
+      ...Array<string>(5).fill("failed"),
+      "circuit_open",
+    ]);
+    expect(getFakeLlmCalls().filter((call) => call.kind === "moderation")).toEqual([]);
+  });
+});
+
+describe("POST /api/chat/message output screening", () => {
+  async function outputBlockedEvents() {
+    const events = await getAnalyticsEventsSince(new Date(0).toISOString());
+    return events
+      .filter((event) => event.eventName === "chat_output_blocked")
+      .map((event) => event.metadata);
+  }
+
+  it("rewrites diagnosis language before storing the reply", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            ...goodDraft,
+            reflection: `${goodDraft.reflection} Honestly, it sounds like you have an anxiety disorder.`,
+          },
+        },
+      ],
+    });
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+    const session = await getOrCreateSession("guest-test");
+    const [, stored] = await listMessages(session.id);
+
+    expect(payload.reply).not.toContain("anxiety disorder");
+    expect(payload.reply).toContain("I can't diagnose anything");
+    expect(payload.reply).toContain(goodDraft.actionStep);
+    expect(stored.content).toBe(payload.reply);
+    expect(await outputBlockedEvents()).toEqual([
+      {
+        engine: "v2",
+        action: "rewritten",
+        categories: ["diagnosis"],
+        ruleIds: ["diagnosis_you_have"],
+        policy: "rewrite",
+      },
+    ]);
+  });
+
+  it("never streams harmful text", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            ...goodDraft,
+            actionStep: "Skip meals this week so the design studio gets every spare hour.",
+          },
+        },
+      ],
+    });
+
+    const events = await readStreamEvents(await sendMessage(DETAILED_MESSAGE, { stream: true }));
+    const everything = events
+      .flatMap((event) => (event.type === "segment" ? [event.segment.text] : []))
+      .join("\n\n");
+    const done = events.find((event) => event.type === "done");
+
+    expect(everything).not.toContain("Skip meals");
+    expect(events.map((event) => event.type)).toContain("reset");
+    expect(done?.type === "done" ? done.response.reply : "").toBe(streamedReply(events));
+    expect(await outputBlockedEvents()).toEqual([
+      expect.objectContaining({ action: "replaced", categories: ["harmful"] }),
+    ]);
+  });
+
+  it("screens v1 replies for medication advice", async () => {
+    setChatEngine("v1");
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            reflection: "You want stability and creative ownership at the same time.",
+            actionStep: "Stop taking your antidepressants for a week and see how the engineering job feels.",
+            deeperQuestion: "Which of those feelings would you trust most when deciding?",
+          },
+        },
+      ],
+    });
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect(payload.reply).not.toContain("antidepressants");
+    expect(await outputBlockedEvents()).toEqual([
+      expect.objectContaining({ engine: "v1", categories: ["medical_advice"] }),
+    ]);
+  });
+});
+
+describe("POST /api/chat/message daily budget", () => {
+  async function seedSpend(estimatedCostUsd: number) {
+    await trackEvent({
+      guestId: "guest-test",
+      eventName: "model_usage_recorded",
+      metadata: { source: "chat_v2", modelUsed: "gpt-4.1", estimatedCostUsd },
+    });
+  }
+
+  it("pins a guest near the cap to the fast model", async () => {
+    setChatEngine("v2");
+    env.openAiChatModelPrimary = "primary-model";
+    env.openAiChatModelFast = "fast-model";
+    env.soulawareGuestDailyBudgetUsd = 0.1;
+    await seedSpend(0.085);
+    setFakeLlmScript({ completions: [{ json: goodDraft }] });
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect(payload.budgetStatus).toBe("downgrade");
+    expect(payload.modelUsed).toBe("fast-model");
+    expect(payload.reply).toContain(goodDraft.actionStep);
+    expect(
+      getFakeLlmCalls().filter((call) => call.kind === "completion").map((call) => call.model),
+    ).toEqual(["fast-model"]);
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_budget_limited",
+      "model_usage_recorded",
+      "chat_model_selected",
+    ]);
+  });
+
+  it("answers with a come-back-tomorrow reply once the budget is spent", async () => {
+    setChatEngine("v2");
+    env.soulawareGuestDailyBudgetUsd = 0.1;
+    await seedSpend(0.06);
+    await seedSpend(0.05);
+
+    const response = await sendMessage(DETAILED_MESSAGE);
+    const payload = (await response.json()) as ChatMessageResponse;
+    const session = await getOrCreateSession("guest-test");
+    const [, stored] = await listMessages(session.id);
+
+    expect(response.status).toBe(200);
+    expect(payload).toMatchObject({
+      reply: BUDGET_EXHAUSTED_REPLY,
+      budgetStatus: "exhausted",
+      modelUsed: "budget-guardrail",
+    });
+    expect(stored.content).toBe(BUDGET_EXHAUSTED_REPLY);
+    expect(getFakeLlmCalls().filter((call) => call.kind === "completion")).toHaveLength(0);
+
+    const crisis = (await (await sendMessage("I want to end my life")).json()) as ChatMessageResponse;
+    expect(crisis.safetyTriggered).toBe(true);
+  });
+
+  it("counts only server-recorded usage and never negative costs", async () => {
+    env.soulawareGuestDailyBudgetUsd = 0.1;
+    await seedSpend(0.02);
+    await seedSpend(-5);
+    await trackEvent({
+      guestId: "guest-test",
+      eventName: "chat_model_selected",
+      metadata: { estimatedCostUsd: 5 },
+    });
+
+    expect(await getGuestBudget("guest-test")).toMatchObject({ status: "ok", spentUsd: 0.02 });
+  });
+
+  it("records v1 usage and sends a downgraded turn to the fast model", async () => {
+    setChatEngine("v1");
+    env.openAiChatModelFast = "fast-model";
+    env.soulawareGuestDailyBudgetUsd = 0.1;
+    await seedSpend(0.085);
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+    const events = await getAnalyticsEventsSince(new Date(0).toISOString());
+    const usage = events.filter((event) => event.eventName === "model_usage_recorded").at(-1);
+
+    expect(payload.modelUsed).toBe("fast-model");
+    expect(
+      getFakeLlmCalls().filter((call) => call.kind === "completion").map((call) => call.model),
+    ).toContain("fast-model");
+    expect(usage?.metadata).toMatchObject({ source: "chat_v1", modelUsed: "fast-model" });
+    expect(usage?.metadata.approximateTokens).toBeGreaterThan(0);
+    expect(usage?.metadata.estimatedCostUsd).toBeGreaterThan(0);
+  });
+
+  it("only counts the guest's own spend since the UTC day started", async () => {
+    env.soulawareGuestDailyBudgetUsd = 0.1;
+    await seedSpend(0.09);
+    await trackEvent({
+      guestId: "guest-other",
+      eventName: "model_usage_recorded",
+      metadata: { estimatedCostUsd: 1 },
+    });
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60_000);
+
+    expect(await getGuestBudget("guest-test")).toMatchObject({
+      status: "downgrade",
+      spentUsd: 0.09,
+    });
+    expect(await getGuestBudget("guest-test", tomorrow)).toMatchObject({
+      status: "ok",
+      spentUsd: 0,
+    });
+  });
+});
+
+describe("POST /api/chat/message spend breaker", () => {
+  async function modelSelectedMetadata() {
+    const events = await getAnalyticsEventsSince(new Date(0).toISOString());
+    return events
+      .filter((event) => event.guestId === "guest-test")
+      .filter((event) => event.eventName === "chat_model_selected")
+      .map((event) => event.metadata);
+  }
+
+  it("forces the fast model and skips summaries past their thresholds", async () => {
+    setChatEngine("v2");
+    env.openAiChatModelPrimary = "primary-model";
+    env.openAiChatModelFast = "fast-model";
+    env.soulawareCostAlertDailyUsd = 1;
+    await trackEvent({
+      guestId: "guest-other",
+      eventName: "model_usage_recorded",
+      metadata: { estimatedCostUsd: 0.8 },
+    });
+
+    for (let index = 1; index <= 4; index += 1) {
+      await sendMessage(`${DETAILED_MESSAGE} Update number ${index} on the studio plan.`);
+    }
+
+    const models = getFakeLlmCalls()
+      .filter((call) => call.kind === "completion")
+      .map((call) => call.model);
+    expect(new Set(models)).toEqual(new Set(["fast-model"]));
+    expect(await recordedEvents("guest-test")).not.toContain("chat_summary_updated");
+    expect((await modelSelectedMetadata())[0]).toMatchObject({ degradation: "no_summaries" });
+  });
+
+  it("serves the deterministic reply without a model call once the budget is spent", async () => {
+    setChatEngine("v2");
+    env.soulawareCostAlertDailyUsd = 1;
+    await trackEvent({
+      guestId: "guest-other",
+      eventName: "model_usage_recorded",
+      metadata: { estimatedCostUsd: 1.2 },
+    });
+
+    const payload = (await (await sendMessage(DETAILED_MESSAGE)).json()) as ChatMessageResponse;
+
+    expect(payload.responseKind).toBe("coach");
+    expect(payload.reply.length).toBeGreaterThan(0);
+    expect(getFakeLlmCalls().filter((call) => call.kind === "completion")).toHaveLength(0);
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+    ]);
+    expect(await modelSelectedMetadata()).toEqual([
+      expect.objectContaining({ degradation: "fallback_only", estimatedCostUsd: 0 }),
+    ]);
+  });
+});
+
+describe("POST /api/chat/message v1 engine", () => {
+  it("returns a labeled coach reply", async () => {
+    setChatEngine("v1");
+
+    const response = await sendMessage(DETAILED_MESSAGE);
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.responseKind).toBe("coach");
+    expect(payload.reply).toMatch(/^Reflection: /);
+    expect(payload.reply).toContain("Deeper question:");
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+    ]);
+  });
+});
+
+describe("POST /api/chat/message v2 engine", () => {
+  it("asks a clarifier for low-information input", async () => {
+    setChatEngine("v2");
+
+    const response = await sendMessage("help me please");
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.responseKind).toBe("clarify");
+    expect(payload.clarifierPending).toBe(true);
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+      "chat_clarifier_triggered",
+    ]);
+  });
+
+  it("returns a coach reply from the model draft", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({ completions: [{ json: goodDraft }] });
+
+    const response = await sendMessage(DETAILED_MESSAGE);
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.responseKind).toBe("coach");
+    expect(payload.reply).toContain(goodDraft.actionStep);
+    expect(payload.lens).toBeDefined();
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+    ]);
+  });
+
+  it("retries once when the first draft is generic", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            ...goodDraft,
+            reflection: "You are taking a meaningful step by asking this.",
+          },
+        },
+        { json: goodDraft },
+      ],
+    });
+
+    const response = await sendMessage(DETAILED_MESSAGE);
+    const payload = (await response.json()) as ChatMessageResponse;
+
+    expect(payload.reply).toContain(goodDraft.reflection);
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+      "chat_retry_for_uniqueness",
+    ]);
+  });
+
+  it("falls back deterministically on malformed output and model errors", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({ completions: [{ content: "{not json" }] });
+
+    await sendMessage(DETAILED_MESSAGE);
+
+    setFakeLlmScript({ completions: [{ error: "upstream timeout" }] });
+    await sendMessage(`${DETAILED_MESSAGE} Again.`);
+
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+      "chat_low_quality_fallback",
+      "model_usage_recorded",
+      "chat_model_selected",
+      "chat_low_quality_fallback",
+    ]);
+  });
+
+  it("updates the rolling summary every fourth user turn", async () => {
+    setChatEngine("v2");
+
+    for (let index = 1; index <= 4; index += 1) {
+      await sendMessage(`${DETAILED_MESSAGE} Update number ${index} on the studio plan.`);
+    }
+
+    const events = await recordedEvents("guest-test");
+    expect(events.filter((event) => event === "chat_summary_updated")).toHaveLength(1);
+  });
+
+  it("streams reply segments followed by a metadata frame", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({ completions: [{ json: goodDraft }] });
+
+    const response = await sendMessage(DETAILED_MESSAGE, { stream: true });
+    const events = await readStreamEvents(response);
+
+    expect(events.map((event) => event.type)).toEqual([
+      "segment",
+      "segment",
+      "segment",
+      "done",
+    ]);
+
+    const done = events[3];
+    if (done.type !== "done") {
+      throw new Error("expected done frame");
+    }
+
+    const session = await getOrCreateSession("guest-test");
+    const stored = await listMessages(session.id);
+
+    expect(done.response.messageId).toBe(stored[stored.length - 1]?.id);
+    expect(done.response.reply).toBe(streamedReply(events));
+  });
+
+  it("streams the first draft as the model writes it and resets after a retry", async () => {
+    setChatEngine("v2");
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            ...goodDraft,
+            reflection: "You are taking a meaningful step by asking this.",
+          },
+        },
+        { json: goodDraft },
+      ],
+    });
+
+    const events = await readStreamEvents(await sendMessage(DETAILED_MESSAGE, { stream: true }));
+    const types = events.map((event) => event.type);
+    const done = events[events.length - 1];
+
+    expect(types.slice(0, 4)).toEqual(["segment", "segment", "segment", "reset"]);
+    expect(types.slice(4)).toEqual(["segment", "segment", "segment", "done"]);
+    expect(done.type === "done" ? done.response.reply : "").toBe(streamedReply(events));
+    expect(streamedReply(events)).toContain(goodDraft.reflection);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { GET as getHistory } from "@/app/api/chat/history/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import { PATCH as patchConversation } from "@/app/api/conversations/[id]/route";
+import { GET as listConversations, POST as createConversation } from "@/app/api/conversations/route";
+import { POST as clearSession } from "@/app/api/session/clear/route";
+import { DEFAULT_RATE_LIMIT_POLICIES } from "@/lib/server/rate-limit";
+import { buildRequest, setChatEngine } from "@/tests/support/harness";
+import type {
+  ChatHistoryResponse,
+  Conversation,
+  ConversationListResponse,
+} from "@/types/domain";
+
+async function startConversation(guestId = "guest-test"): Promise<Conversation> {
+  const response = await createConversation(
+    buildRequest("/api/conversations", { guestId, body: {} }),
+  );
+  return (await response.json()) as Conversation;
+}
+
+async function sendMessage(text: string, conversationId?: string, guestId = "guest-test") {
+  setChatEngine("v1");
+  return postMessage(
+    buildRequest("/api/chat/message", { guestId, body: { text, conversationId } }),
+  );
+}
+
+async function historyFor(conversationId: string, guestId = "guest-test") {
+  return getHistory(
+    buildRequest(`/api/chat/history?conversationId=${conversationId}`, { guestId }),
+  );
+}
+
+function patchRequest(id: string, body: unknown, guestId = "guest-test") {
+  return patchConversation(
+    buildRequest(`/api/conversations/${id}`, { method: "PATCH", guestId, body }),
+    { params: Promise.resolve({ id }) },
+  );
+}
+
+describe("conversation routes", () => {
+  it("keeps separate transcripts per conversation", async () => {
+    const career = await startConversation();
+    const health = await startConversation();
+
+    await sendMessage("Should I ask for the promotion this quarter?", career.id);
+    await sendMessage("I keep skipping my morning runs.", health.id);
+
+    const careerHistory = (await (await historyFor(career.id)).json()) as ChatHistoryResponse;
+    const healthHistory = (await (await historyFor(health.id)).json()) as ChatHistoryResponse;
+
+    expect(careerHistory.messages[0].content).toContain("promotion");
+    expect(healthHistory.messages[0].content).toContain("morning runs");
+    expect(careerHistory.messages).toHaveLength(2);
+  });
+
+  it("titles a new conversation from its first message", async () => {
+    const conversation = await startConversation();
+    await sendMessage("Planning a move to Lisbon next spring", conversation.id);
+    await sendMessage("Also thinking about money", conversation.id);
+
+    const list = (await (await listConversations(buildRequest("/api/conversations"))).json()) as ConversationListResponse;
+
+    expect(list.conversations.map((entry) => entry.title)).toEqual([
+      "Planning a move to Lisbon next spring",
+    ]);
+  });
+
+  it("rate limits creating conversations", async () => {
+    const perMinute = DEFAULT_RATE_LIMIT_POLICIES.conversation_create.guest?.minute ?? 0;
+    const statuses: number[] = [];
+
+    for (let attempt = 0; attempt <= perMinute; attempt += 1) {
+      const response = await createConversation(
+        buildRequest("/api/conversations", { body: {} }),
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, perMinute).every((status) => status === 201)).toBe(true);
+    expect(statuses.at(-1)).toBe(429);
+    expect((await startConversation("guest-other")).id).toBeTruthy();
+  });
+
+  it("renames and archives conversations", async () => {
+    const conversation = await startConversation();
+
+    const renamed = await patchRequest(conversation.id, { title: "  Career  " });
+    expect(((await renamed.json()) as Conversation).title).toBe("Career");
+
+    await patchRequest(conversation.id, { archived: true });
+
+    const active = (await (await listConversations(buildRequest("/api/conversations"))).json()) as ConversationListResponse;
+    const all = (await (
+      await listConversations(buildRequest("/api/conversations?archived=1"))
+    ).json()) as ConversationListResponse;
+
+    expect(active.conversations).toEqual([]);
+    expect(all.conversations[0]).toMatchObject({ id: conversation.id, archived: true });
+    expect((await sendMessage("One more thought on this", conversation.id)).status).toBe(409);
+
+    await patchRequest(conversation.id, { archived: false });
+    expect((await sendMessage("One more thought on this", conversation.id)).status).toBe(200);
+  });
+
+  it("rejects empty titles and empty updates", async () => {
+    const conversation = await startConversation();
+
+    expect((await patchRequest(conversation.id, { title: "   " })).status).toBe(400);
+    expect((await patchRequest(conversation.id, {})).status).toBe(400);
+  });
+
+  it("hides conversations owned by other guests", async () => {
+    const conversation = await startConversation("someone-else");
+
+    const sent = await sendMessage("Hello there, coach", conversation.id);
+
+    expect((await historyFor(conversation.id)).status).toBe(404);
+    expect(sent.status).toBe(404);
+    expect(sent.headers.get("X-RateLimit-Policy")).toContain("chat_message");
+    expect((await patchRequest(conversation.id, { title: "Mine now" })).status).toBe(404);
+  });
+
+  it("treats malformed conversation ids as not found", async () => {
+    expect((await historyFor("not-a-uuid")).status).toBe(404);
+    expect((await sendMessage("Hello there, coach", "1; drop table")).status).toBe(404);
+    expect((await patchRequest("not-a-uuid", { title: "Nope" })).status).toBe(404);
+  });
+
+  it("clears only the targeted conversation", async () => {
+    const first = await startConversation();
+    const second = await startConversation();
+
+    await sendMessage("First thread about my job search", first.id);
+    await sendMessage("Second thread about my sleep", second.id);
+
+    await clearSession(
+      buildRequest("/api/session/clear", { body: { conversationId: first.id } }),
+    );
+
+    const firstHistory = (await (await historyFor(first.id)).json()) as ChatHistoryResponse;
+    const secondHistory = (await (await historyFor(second.id)).json()) as ChatHistoryResponse;
+
+    expect(firstHistory.messages).toEqual([]);
+    expect(secondHistory.messages).toHaveLength(2);
+  });
+});
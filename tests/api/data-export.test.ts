@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { GET as getHistory } from "@/app/api/chat/history/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import { GET as listConversations } from "@/app/api/conversations/route";
+import { GET as exportData } from "@/app/api/data/export/route";
+import { POST as importData } from "@/app/api/data/import/route";
+import { POST as createSnapshot } from "@/app/api/purpose-snapshot/route";
+import { GET as getSnapshot } from "@/app/api/purpose-snapshot/[id]/route";
+import { guestCookieName } from "@/lib/server/guest";
+import { setFakeLlmScript } from "@/lib/server/llm-fake";
+import { buildRequest, recordedEvents, setChatEngine } from "@/tests/support/harness";
+import type {
+  ChatHistoryResponse,
+  ConversationListResponse,
+  DataExportArchive,
+  DataImportResponse,
+} from "@/types/domain";
+
+async function seedGuest(guestId = "guest-test") {
+  setChatEngine("v1");
+  await postMessage(
+    buildRequest("/api/chat/message", {
+      guestId,
+      body: { text: "I want to finish my novel draft by spring." },
+    }),
+  );
+  await createSnapshot(buildRequest("/api/purpose-snapshot", { guestId, body: {} }));
+
+  setFakeLlmScript({ moderations: [{ flagged: true, categories: { "self-harm": true } }] });
+  await postMessage(
+    buildRequest("/api/chat/message", { guestId, body: { text: "Everything feels heavy." } }),
+  );
+}
+
+async function exportArchive(guestId = "guest-test"): Promise<DataExportArchive> {
+  const response = await exportData(buildRequest("/api/data/export", { guestId }));
+  return (await response.json()) as DataExportArchive;
+}
+
+describe("GET /api/data/export", () => {
+  it("bundles every stored row for the guest", async () => {
+    await seedGuest();
+
+    const response = await exportData(buildRequest("/api/data/export"));
+    const archive = (await response.json()) as DataExportArchive;
+    const [conversation] = archive.conversations;
+
+    expect(response.headers.get("content-disposition")).toMatch(/attachment; filename=".+\.json"/);
+    expect(archive).toMatchObject({ format: "soulaware-export", version: 1 });
+    expect(conversation.messages.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "assistant",
+      "user",
+      "assistant",
+    ]);
+    expect(conversation.snapshots).toHaveLength(1);
+    expect(conversation.actionItems.map((item) => item.snapshotId)).toEqual(
+      conversation.snapshots[0].nextActions.map(() => conversation.snapshots[0].id),
+    );
+    expect(conversation.safetyEvents).toEqual([
+      expect.objectContaining({ triggerText: "Everything feels heavy." }),
+    ]);
+    expect(archive.analyticsEvents.map((event) => event.eventName)).toContain("snapshot_created");
+  });
+
+  it("renders a Markdown transcript", async () => {
+    await seedGuest();
+
+    const response = await exportData(buildRequest("/api/data/export?format=markdown"));
+    const markdown = await response.text();
+
+    expect(response.headers.get("content-type")).toContain("text/markdown");
+    expect(markdown).toContain("# SoulAware data export");
+    expect(markdown).toContain("**You**");
+    expect(markdown).toContain("novel draft");
+    expect(markdown).toContain("### Purpose snapshots");
+    expect(markdown).toContain("### Safety events");
+  });
+
+  it("does not include other guests' data", async () => {
+    await seedGuest("someone-else");
+
+    const archive = await exportArchive();
+
+    expect(archive.conversations).toEqual([]);
+    expect(archive.analyticsEvents).toEqual([]);
+  });
+});
+
+describe("POST /api/data/import", () => {
+  it("restores an archive into a fresh guest with working snapshot links", async () => {
+    await seedGuest();
+    const archive = await exportArchive();
+
+    const response = await importData(
+      buildRequest("/api/data/import", { guestId: "new-browser", body: archive }),
+    );
+    const payload = (await response.json()) as DataImportResponse;
+    const importedGuest = response.cookies.get(guestCookieName)?.value ?? "";
+
+    expect(payload).toEqual({ conversations: 1, messages: 5 });
+    expect(importedGuest).not.toBe("new-browser");
+    expect(importedGuest).not.toBe("guest-test");
+
+    const history = (await (
+      await getHistory(buildRequest("/api/chat/history", { guestId: importedGuest }))
+    ).json()) as ChatHistoryResponse;
+    const snapshotPath = history.messages
+      .map((message) => message.content.match(/\/snapshot\/([\w-]+)/)?.[1])
+      .find(Boolean)!;
+
+    expect(snapshotPath).not.toBe(archive.conversations[0].snapshots[0].id);
+
+    const snapshot = await getSnapshot(
+      buildRequest(`/api/purpose-snapshot/${snapshotPath}`, { guestId: importedGuest }),
+      { params: Promise.resolve({ id: snapshotPath }) },
+    );
+    expect(snapshot.status).toBe(200);
+
+    const conversations = (await (
+      await listConversations(buildRequest("/api/conversations", { guestId: importedGuest }))
+    ).json()) as ConversationListResponse;
+    expect(conversations.conversations[0].title).toBe(archive.conversations[0].title);
+  });
+
+  it("leaves out safety and analytics events", async () => {
+    await seedGuest();
+    const archive = await exportArchive();
+
+    archive.analyticsEvents.push({
+      eventName: "chat_model_selected",
+      metadata: { estimatedCostUsd: 1_000_000 },
+      createdAt: new Date().toISOString(),
+    });
+
+    const response = await importData(buildRequest("/api/data/import", { body: archive }));
+    const importedGuest = response.cookies.get(guestCookieName)?.value ?? "";
+    const restored = await exportArchive(importedGuest);
+
+    expect(response.status).toBe(200);
+    expect(restored.conversations[0].messages).toHaveLength(5);
+    expect(restored.conversations[0].safetyEvents).toEqual([]);
+    expect(await recordedEvents(importedGuest)).toEqual([]);
+  });
+
+  it("rejects timestamps that are not dates", async () => {
+    await seedGuest();
+    const archive = await exportArchive();
+
+    archive.conversations[0].messages[1].createdAt = "yesterday-ish";
+
+    const response = await importData(buildRequest("/api/data/import", { body: archive }));
+    const importedGuest = response.cookies.get(guestCookieName)?.value;
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { error: string }).error).toContain(
+      "messages[1].createdAt must be a date",
+    );
+    expect(importedGuest).toBeUndefined();
+  });
+
+  it("limits how often a browser can import", async () => {
+    const statuses: number[] = [];
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      const response = await importData(
+        buildRequest("/api/data/import", { body: { format: "other" } }),
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses).toEqual([400, 400, 429]);
+  });
+
+  it("rejects files that are not SoulAware exports", async () => {
+    const wrongFormat = await importData(
+      buildRequest("/api/data/import", { body: { format: "other", conversations: [] } }),
+    );
+    const badMessage = await importData(
+      buildRequest("/api/data/import", {
+        body: {
+          format: "soulaware-export",
+          version: 1,
+          conversations: [
+            {
+              id: "c1",
+              title: "Broken",
+              createdAt: "2025-01-01T00:00:00.000Z",
+              updatedAt: "2025-01-01T00:00:00.000Z",
+              messages: [{ id: "m1", role: "system", mode: "coach", content: "x", createdAt: "" }],
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(wrongFormat.status).toBe(400);
+    expect(badMessage.status).toBe(400);
+    expect(((await badMessage.json()) as { error: string }).error).toContain("messages[0]");
+  });
+});
@@ -0,0 +1,248 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GET as dispatchReminders } from "@/app/api/ops/reminders/route";
+import { POST as followReminderLink } from "@/app/api/reminders/email/route";
+import { POST as createSnapshot } from "@/app/api/purpose-snapshot/route";
+import {
+  DELETE as stopReminders,
+  GET as getReminders,
+  PUT as saveReminders,
+} from "@/app/api/reminders/route";
+import { env } from "@/lib/server/env";
+import { getOutbox } from "@/lib/server/mailer";
+import { getReminderSubscription } from "@/lib/server/repository";
+import { buildRequest, recordedEvents } from "@/tests/support/harness";
+import type { PurposeSnapshotResponse, ReminderSettingsResponse } from "@/types/domain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function saveRequest(body: unknown, guestId = "guest-test") {
+  return saveReminders(buildRequest("/api/reminders", { method: "PUT", guestId, body }));
+}
+
+function reminderLink(mail = getOutbox().at(-1)): string {
+  const link = mail?.text.match(/https?:\/\/\S+\/reminders\/email\?\S+/)?.[0];
+
+  if (!link) {
+    throw new Error("No reminder link was sent.");
+  }
+
+  return link;
+}
+
+function followLink(link: string) {
+  const token = new URL(link).searchParams.get("token") ?? "";
+  return followReminderLink(buildRequest("/api/reminders/email", { body: { token } }));
+}
+
+async function saveConfirmed(body: unknown) {
+  await saveRequest(body);
+  await followLink(reminderLink());
+}
+
+function runCron(secret = "test-cron-secret") {
+  return dispatchReminders(
+    buildRequest("/api/ops/reminders", { headers: { authorization: `Bearer ${secret}` } }),
+  );
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("reminder settings routes", () => {
+  it("saves, reads back, and stops a subscription", async () => {
+    const saved = await saveRequest({ cadence: "daily", channel: "email", email: " Me@Example.com " });
+    const payload = (await saved.json()) as ReminderSettingsResponse;
+
+    expect(payload.reminder).toMatchObject({
+      cadence: "daily",
+      channel: "email",
+      email: "me@example.com",
+      confirmedAt: null,
+    });
+    expect(Date.parse(payload.reminder?.nextRunAt ?? "")).toBeGreaterThan(Date.now() + DAY_MS - 60_000);
+
+    const read = (await (await getReminders(buildRequest("/api/reminders"))).json()) as ReminderSettingsResponse;
+    expect(read.reminder?.id).toBe(payload.reminder?.id);
+
+    await stopReminders(buildRequest("/api/reminders", { method: "DELETE" }));
+    expect(await getReminderSubscription("guest-test")).toBeNull();
+  });
+
+  it("rejects invalid settings", async () => {
+    expect((await saveRequest({ cadence: "hourly", channel: "email", email: "a@b.co" })).status).toBe(400);
+    expect((await saveRequest({ cadence: "daily", channel: "email", email: "nope" })).status).toBe(400);
+    expect((await saveRequest({ cadence: "daily", channel: "push" })).status).toBe(400);
+    expect(
+      (await saveRequest({ cadence: "daily", channel: "email", email: "a@b.co", conversationId: "missing" })).status,
+    ).toBe(404);
+  });
+
+  it("only accepts push subscriptions from known push services", async () => {
+    env.vapidPublicKey = "test-public-key";
+    const savePush = (endpoint: string) =>
+      saveRequest({
+        cadence: "daily",
+        channel: "push",
+        pushSubscription: { endpoint, keys: { p256dh: "p", auth: "a" } },
+      });
+
+    for (const endpoint of [
+      "https://169.254.169.254/latest/meta-data",
+      "https://internal.service.local/hook",
+      "https://fcm.googleapis.com.attacker.example/send/abc",
+      "https://evilnotify.windows.com/w/abc",
+      "https://fcm.googleapis.com:8443/fcm/send/abc",
+      "http://fcm.googleapis.com/fcm/send/abc",
+      "not a url",
+    ]) {
+      expect((await savePush(endpoint)).status, endpoint).toBe(400);
+    }
+
+    for (const endpoint of [
+      "https://fcm.googleapis.com/fcm/send/abc",
+      "https://updates.push.services.mozilla.com/wpush/v2/abc",
+      "https://web.push.apple.com/abc",
+      "https://wns2-par02p.notify.windows.com/w/?token=abc",
+    ]) {
+      expect((await savePush(endpoint)).status, endpoint).toBe(200);
+    }
+  });
+
+  it("asks the address to confirm before sending anything to it", async () => {
+    await saveRequest({ cadence: "daily", channel: "email", email: "me@example.com" });
+
+    const [confirmation] = getOutbox();
+    expect(confirmation).toMatchObject({ to: "me@example.com", subject: "Confirm your SoulAware check-ins" });
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * DAY_MS);
+    expect(await (await runCron()).json()).toMatchObject({ due: 0 });
+
+    const confirmed = await followLink(reminderLink(confirmation));
+    expect(confirmed.headers.get("location")).toContain("/settings?reminders=confirmed");
+    expect(await (await runCron()).json()).toMatchObject({ due: 1, delivered: 1 });
+
+    // Re-saving the same confirmed address keeps it confirmed without another email.
+    await saveRequest({ cadence: "weekly", channel: "email", email: "me@example.com" });
+    expect((await getReminderSubscription("guest-test"))?.confirmedAt).not.toBeNull();
+    expect(getOutbox()).toHaveLength(2);
+  });
+
+  it("rejects links that were tampered with or sent to an earlier address", async () => {
+    await saveRequest({ cadence: "daily", channel: "email", email: "old@example.com" });
+    const oldLink = reminderLink();
+    await saveRequest({ cadence: "daily", channel: "email", email: "new@example.com" });
+
+    const forged = await followReminderLink(
+      buildRequest("/api/reminders/email", { body: { token: `${reminderLink().split("token=")[1]}x` } }),
+    );
+
+    expect((await followLink(oldLink)).headers.get("location")).toContain("reminders=invalid");
+    expect(forged.headers.get("location")).toContain("reminders=invalid");
+    expect((await getReminderSubscription("guest-test"))?.confirmedAt).toBeNull();
+  });
+
+  it("rate limits saves that send confirmation emails", async () => {
+    const statuses: number[] = [];
+
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      const response = await saveRequest(
+        { cadence: "daily", channel: "email", email: "target@example.com" },
+        `guest-${attempt}`,
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 429]);
+    expect(getOutbox()).toHaveLength(3);
+  });
+});
+
+describe("GET /api/ops/reminders", () => {
+  it("requires the cron secret", async () => {
+    expect((await runCron("wrong")).status).toBe(401);
+  });
+
+  it("emails due check-ins that mention open action items", async () => {
+    const created = await createSnapshot(buildRequest("/api/purpose-snapshot", { body: {} }));
+    const snapshot = (await created.json()) as PurposeSnapshotResponse;
+    await saveConfirmed({ cadence: "weekly", channel: "email", email: "me@example.com" });
+
+    expect(await (await runCron()).json()).toMatchObject({ due: 0, delivered: 0 });
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 8 * DAY_MS);
+
+    expect(await (await runCron()).json()).toMatchObject({ due: 1, delivered: 1 });
+    expect(await (await runCron()).json()).toMatchObject({ due: 0 });
+
+    const mail = getOutbox().at(-1)!;
+    expect(mail.to).toBe("me@example.com");
+    expect(mail.subject).toContain("overdue");
+    expect(mail.text).toContain(snapshot.nextActions[0]);
+    expect(mail.headers?.["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+    expect(await recordedEvents("guest-test")).toContain("reminder_sent");
+
+    const reminder = await getReminderSubscription("guest-test");
+    expect(Date.parse(reminder?.nextRunAt ?? "")).toBe(Date.now() + 7 * DAY_MS);
+  });
+
+  it("writes to the local outbox file when delivery is rerouted", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "soulaware-reminders-"));
+    env.reminderDelivery = "file";
+    env.reminderOutboxPath = join(dir, "outbox.jsonl");
+
+    try {
+      await saveConfirmed({ cadence: "daily", channel: "email", email: "me@example.com" });
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + 2 * DAY_MS);
+
+      await runCron();
+
+      const [line] = readFileSync(env.reminderOutboxPath, "utf8").trim().split("\n");
+      expect(JSON.parse(line)).toMatchObject({ channel: "email", subject: "Your SoulAware check-in" });
+      expect(getOutbox().map((mail) => mail.subject)).toEqual(["Confirm your SoulAware check-ins"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("stops check-ins from the one-click unsubscribe link", async () => {
+    await saveConfirmed({ cadence: "daily", channel: "email", email: "me@example.com" });
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * DAY_MS);
+    await runCron();
+
+    const mail = getOutbox().at(-1)!;
+    const oneClick = new URL(mail.headers?.["List-Unsubscribe"].slice(1, -1) ?? "");
+    const response = await followReminderLink(
+      buildRequest(`${oneClick.pathname}${oneClick.search}`, { method: "POST" }),
+    );
+
+    expect(mail.text).toContain(reminderLink(mail));
+    expect(response.headers.get("location")).toContain("reminders=stopped");
+    expect(await getReminderSubscription("guest-test")).toBeNull();
+  });
+
+  it("records failures and retries an hour later", async () => {
+    env.vapidPublicKey = "test-public-key";
+    await saveRequest({
+      cadence: "daily",
+      channel: "push",
+      pushSubscription: { endpoint: "https://fcm.googleapis.com/fcm/send/abc", keys: { p256dh: "p", auth: "a" } },
+    });
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * DAY_MS);
+
+    expect(await (await runCron()).json()).toMatchObject({ due: 1, failed: 1 });
+
+    const reminder = await getReminderSubscription("guest-test");
+    expect(reminder?.lastError).toContain("Web push is not configured");
+    expect(Date.parse(reminder?.nextRunAt ?? "")).toBe(Date.now() + 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, expect, it } from "vitest";
+import { POST as postAnalytics } from "@/app/api/analytics/route";
+import { GET as getHistory } from "@/app/api/chat/history/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import {
+  GET as getCrisisResources,
+  PUT as putCrisisRegion,
+} from "@/app/api/crisis-resources/route";
+import { POST as deleteData } from "@/app/api/data/delete/route";
+import { GET as getCostAlert } from "@/app/api/ops/cost-alert/route";
+import { GET as getOpsStatus } from "@/app/api/ops/status/route";
+import {
+  POST as createSnapshot,
+  GET as listSnapshotHistory,
+} from "@/app/api/purpose-snapshot/route";
+import { GET as getSnapshot } from "@/app/api/purpose-snapshot/[id]/route";
+import { POST as clearSession } from "@/app/api/session/clear/route";
+import { env } from "@/lib/server/env";
+import { setFakeLlmScript } from "@/lib/server/llm-fake";
+import { getAnalyticsEventsSince, trackEvent } from "@/lib/server/repository";
+import { buildRequest, recordedEvents, setChatEngine } from "@/tests/support/harness";
+import type {
+  ChatHistoryResponse,
+  CrisisResourcesResponse,
+  PurposeSnapshotHistoryResponse,
+  PurposeSnapshotResponse,
+} from "@/types/domain";
+
+async function seedConversation(guestId = "guest-test") {
+  setChatEngine("v1");
+  await postMessage(
+    buildRequest("/api/chat/message", {
+      guestId,
+      body: { text: "I want my weekends to feel less like recovery from work." },
+    }),
+  );
+}
+
+describe("GET /api/chat/history", () => {
+  it("returns the transcript for the current guest session", async () => {
+    await seedConversation();
+
+    const response = await getHistory(buildRequest("/api/chat/history"));
+    const payload = (await response.json()) as ChatHistoryResponse;
+
+    expect(payload.sessionId).toBeTruthy();
+    expect(payload.messages.map((message) => message.role)).toEqual(["user", "assistant"]);
+  });
+});
+
+describe("purpose snapshot routes", () => {
+  it("creates a snapshot and only serves it to its owner", async () => {
+    await seedConversation();
+
+    const created = await createSnapshot(buildRequest("/api/purpose-snapshot", { body: {} }));
+    const snapshot = (await created.json()) as PurposeSnapshotResponse;
+
+    expect(snapshot.values).toHaveLength(5);
+    expect(snapshot.nextActions).toHaveLength(3);
+    expect(await recordedEvents("guest-test")).toContain("snapshot_created");
+    expect(
+      (await getAnalyticsEventsSince(new Date(0).toISOString())).map(
+        (event) => event.metadata.source,
+      ),
+    ).toContain("purpose_snapshot");
+
+    const context = { params: Promise.resolve({ id: snapshot.snapshotId }) };
+    const owned = await getSnapshot(buildRequest(`/api/purpose-snapshot/${snapshot.snapshotId}`), context);
+    const foreign = await getSnapshot(
+      buildRequest(`/api/purpose-snapshot/${snapshot.snapshotId}`, { guestId: "someone-else" }),
+      { params: Promise.resolve({ id: snapshot.snapshotId }) },
+    );
+
+    expect(owned.status).toBe(200);
+    expect(foreign.status).toBe(404);
+  });
+});
+
+describe("GET /api/purpose-snapshot", () => {
+  it("lists every snapshot in the conversation with diffs", async () => {
+    await seedConversation();
+
+    await createSnapshot(buildRequest("/api/purpose-snapshot", { body: {} }));
+    await createSnapshot(buildRequest("/api/purpose-snapshot", { body: {} }));
+
+    const response = await listSnapshotHistory(buildRequest("/api/purpose-snapshot"));
+    const payload = (await response.json()) as PurposeSnapshotHistoryResponse;
+
+    expect(payload.snapshots).toHaveLength(2);
+    expect(payload.snapshots[0].diff).toBeNull();
+    expect(payload.snapshots[1].diff?.previousSnapshotId).toBe(payload.snapshots[0].snapshotId);
+  });
+
+  it("rate limits snapshot generation per guest", async () => {
+    await seedConversation();
+
+    const statuses: number[] = [];
+    let last: Response | null = null;
+
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      last = await createSnapshot(buildRequest("/api/purpose-snapshot", { body: {} }));
+      statuses.push(last.status);
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 429]);
+    expect(last?.headers.get("X-RateLimit-Policy")).toBe("purpose_snapshot:guest:minute");
+    expect(Number(last?.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("returns 404 for another guest's conversation", async () => {
+    await seedConversation("someone-else");
+    const foreign = (await (
+      await getHistory(buildRequest("/api/chat/history", { guestId: "someone-else" }))
+    ).json()) as ChatHistoryResponse;
+
+    const response = await listSnapshotHistory(
+      buildRequest(`/api/purpose-snapshot?conversationId=${foreign.sessionId}`),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("data control routes", () => {
+  it("clears the session transcript but keeps analytics", async () => {
+    await seedConversation();
+
+    await clearSession(buildRequest("/api/session/clear", { method: "POST" }));
+    const history = (await (await getHistory(buildRequest("/api/chat/history"))).json()) as ChatHistoryResponse;
+
+    expect(history.messages).toEqual([]);
+    expect(await recordedEvents("guest-test")).toEqual([
+      "model_usage_recorded",
+      "chat_model_selected",
+    ]);
+  });
+
+  it("deletes all guest data and rotates the guest cookie", async () => {
+    await seedConversation();
+
+    const response = await deleteData(buildRequest("/api/data/delete", { method: "POST" }));
+
+    expect(response.status).toBe(200);
+    expect(response.cookies.get("guest_id")?.value).not.toBe("guest-test");
+    expect(await recordedEvents("guest-test")).toEqual([]);
+  });
+});
+
+describe("POST /api/analytics", () => {
+  it("accepts known events and rejects unknown ones", async () => {
+    const accepted = await postAnalytics(
+      buildRequest("/api/analytics", { body: { eventName: "session_started" } }),
+    );
+    const rejected = await postAnalytics(
+      buildRequest("/api/analytics", { body: { eventName: "made_up_event" } }),
+    );
+
+    expect(accepted.status).toBe(200);
+    expect(rejected.status).toBe(400);
+    expect(await recordedEvents("guest-test")).toEqual(["session_started"]);
+  });
+
+  it("refuses the events that carry model spend", async () => {
+    for (const eventName of ["chat_model_selected", "model_usage_recorded"]) {
+      const response = await postAnalytics(
+        buildRequest("/api/analytics", {
+          body: { eventName, metadata: { estimatedCostUsd: 1_000 } },
+        }),
+      );
+
+      expect(response.status).toBe(400);
+    }
+
+    expect(await recordedEvents("guest-test")).toEqual([]);
+  });
+});
+
+describe("GET /api/ops/cost-alert", () => {
+  it("requires the cron secret", async () => {
+    const response = await getCostAlert(buildRequest("/api/ops/cost-alert"));
+    expect(response.status).toBe(401);
+  });
+
+  it("reports spend against the configured threshold", async () => {
+    env.soulawareCostAlertDailyUsd = 0.0001;
+    setChatEngine("v2");
+    await postMessage(
+      buildRequest("/api/chat/message", {
+        body: { text: "I need to decide between two job offers with very different salaries." },
+      }),
+    );
+
+    const response = await getCostAlert(
+      buildRequest("/api/ops/cost-alert", {
+        headers: { authorization: `Bearer ${env.cronSecret}` },
+      }),
+    );
+    const payload = (await response.json()) as Record<string, unknown>;
+
+    expect(payload).toMatchObject({ enabled: true, exceeded: true, eventsEvaluated: 1 });
+  });
+
+  it("totals the same server-recorded usage as the spend breaker", async () => {
+    env.soulawareCostAlertDailyUsd = 1;
+    await trackEvent({
+      guestId: "guest-test",
+      eventName: "model_usage_recorded",
+      metadata: { source: "purpose_snapshot", estimatedCostUsd: 0.6 },
+    });
+    await trackEvent({
+      guestId: "guest-test",
+      eventName: "chat_model_selected",
+      metadata: { estimatedCostUsd: 5 },
+    });
+
+    const headers = { authorization: `Bearer ${env.cronSecret}` };
+    const alert = (await (
+      await getCostAlert(buildRequest("/api/ops/cost-alert", { headers }))
+    ).json()) as Record<string, unknown>;
+    const status = (await (
+      await getOpsStatus(buildRequest("/api/ops/status", { headers }))
+    ).json()) as { spend: Record<string, unknown> };
+
+    expect(alert).toMatchObject({ exceeded: false, estimatedCostUsd: 0.6, eventsEvaluated: 1 });
+    expect(status.spend.spentUsd).toBe(alert.estimatedCostUsd);
+  });
+
+  it("alerts when moderation keeps failing", async () => {
+    env.soulawareModerationAlertThreshold = 2;
+    env.soulawareModerationRetries = 0;
+    setChatEngine("v1");
+    setFakeLlmScript({ moderations: [{ error: "down" }, { error: "down" }] });
+
+    for (const text of ["I want a calmer job.", "How do I tell my manager?"]) {
+      await postMessage(buildRequest("/api/chat/message", { body: { text } }));
+    }
+
+    const response = await getCostAlert(
+      buildRequest("/api/ops/cost-alert", {
+        headers: { authorization: `Bearer ${env.cronSecret}` },
+      }),
+    );
+    const payload = (await response.json()) as { moderation: Record<string, unknown> };
+
+    expect(payload.moderation).toMatchObject({
+      exceeded: true,
+      failures: 2,
+      blockedTurns: 0,
+      circuitOpen: false,
+    });
+  });
+});
+
+describe("GET /api/ops/status", () => {
+  it("requires the cron secret and reports the spend breaker step", async () => {
+    env.soulawareCostAlertDailyUsd = 2;
+    await trackEvent({
+      guestId: "guest-test",
+      eventName: "model_usage_recorded",
+      metadata: { estimatedCostUsd: 1.2 },
+    });
+
+    const unauthorized = await getOpsStatus(buildRequest("/api/ops/status"));
+    const response = await getOpsStatus(
+      buildRequest("/api/ops/status", {
+        headers: { authorization: `Bearer ${env.cronSecret}` },
+      }),
+    );
+    const payload = (await response.json()) as Record<string, unknown>;
+
+    expect(unauthorized.status).toBe(401);
+    expect(payload).toMatchObject({
+      ok: true,
+      spend: {
+        enabled: true,
+        step: "fast_model",
+        spentUsd: 1.2,
+        dailyBudgetUsd: 2,
+        thresholds: { fast_model: 0.5, no_summaries: 0.75, fallback_only: 1 },
+      },
+      moderation: { circuitOpen: false },
+    });
+  });
+});
+
+describe("/api/crisis-resources", () => {
+  it("resolves the region and lets an explicit choice override it", async () => {
+    const detected = (await (
+      await getCrisisResources(
+        buildRequest("/api/crisis-resources", { headers: { "cf-ipcountry": "CA" } }),
+      )
+    ).json()) as CrisisResourcesResponse;
+
+    expect(detected.resources).toMatchObject({ country: "CA", source: "geo" });
+    expect(detected.selectedCountry).toBeNull();
+
+    const saved = await putCrisisRegion(
+      buildRequest("/api/crisis-resources", { method: "PUT", body: { country: "ie" } }),
+    );
+
+    expect(saved.status).toBe(200);
+    expect(saved.cookies.get("soulaware_crisis_region")?.value).toBe("IE");
+
+    const chosen = (await (
+      await getCrisisResources(
+        buildRequest("/api/crisis-resources", {
+          headers: { "cf-ipcountry": "CA" },
+          cookies: { soulaware_crisis_region: "IE" },
+        }),
+      )
+    ).json()) as CrisisResourcesResponse;
+
+    expect(chosen.resources).toMatchObject({ country: "IE", source: "setting", emergencyNumber: "112" });
+    expect(chosen.selectedCountry).toBe("IE");
+  });
+
+  it("rejects regions without a registry entry", async () => {
+    const response = await putCrisisRegion(
+      buildRequest("/api/crisis-resources", { method: "PUT", body: { country: "BR" } }),
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
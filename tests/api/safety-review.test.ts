@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { GET as listSafetyEvents } from "@/app/api/admin/safety-events/route";
+import {
+  GET as getSafetyEvent,
+  PATCH as reviewSafetyEvent,
+} from "@/app/api/admin/safety-events/[id]/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import { env } from "@/lib/server/env";
+import { buildRequest, setChatEngine } from "@/tests/support/harness";
+import type {
+  SafetyEvent,
+  SafetyReviewDetailResponse,
+  SafetyReviewQueueResponse,
+} from "@/types/domain";
+
+const adminHeaders = () => ({ "x-admin-secret": env.adminSecret ?? "" });
+
+async function send(text: string, guestId = "guest-test") {
+  await postMessage(buildRequest("/api/chat/message", { guestId, body: { text } }));
+}
+
+async function listQueue(query = ""): Promise<SafetyReviewQueueResponse> {
+  const response = await listSafetyEvents(
+    buildRequest(`/api/admin/safety-events${query}`, { headers: adminHeaders() }),
+  );
+  expect(response.status).toBe(200);
+  return (await response.json()) as SafetyReviewQueueResponse;
+}
+
+function eventContext(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe("safety review queue", () => {
+  it("requires the admin secret, not the cron secret", async () => {
+    const withoutSecret = await listSafetyEvents(buildRequest("/api/admin/safety-events"));
+    const withCronSecret = await listSafetyEvents(
+      buildRequest("/api/admin/safety-events", {
+        headers: { authorization: `Bearer ${env.cronSecret}` },
+      }),
+    );
+    const detail = await getSafetyEvent(
+      buildRequest("/api/admin/safety-events/any"),
+      eventContext("any"),
+    );
+
+    expect(withoutSecret.status).toBe(401);
+    expect(withCronSecret.status).toBe(401);
+    expect(detail.status).toBe(401);
+
+    env.adminSecret = undefined;
+    const unconfigured = await listSafetyEvents(
+      buildRequest("/api/admin/safety-events", { headers: { "x-admin-secret": "" } }),
+    );
+    expect(unconfigured.status).toBe(401);
+  });
+
+  it("lists events with counts by reason and status", async () => {
+    setChatEngine("v1");
+    await send("I keep putting off the job search.");
+    await send("I want to kill myself tonight");
+    await send("I want to end my life", "guest-other");
+
+    const queue = await listQueue();
+
+    expect(queue.events).toHaveLength(2);
+    expect(queue.events.map((event) => event.guestId).sort()).toEqual(["guest-other", "guest-test"]);
+    expect(queue.events.every((event) => event.reviewStatus === "new")).toBe(true);
+    expect(queue.counts.total).toBe(2);
+    expect(queue.counts.byStatus.new).toBe(2);
+    expect(queue.counts.byReason.map((row) => row.total).reduce((a, b) => a + b, 0)).toBe(2);
+
+    const filtered = await listQueue("?status=escalated");
+    expect(filtered.events).toEqual([]);
+
+    const invalid = await listSafetyEvents(
+      buildRequest("/api/admin/safety-events?status=closed", { headers: adminHeaders() }),
+    );
+    expect(invalid.status).toBe(400);
+  });
+
+  it("shows surrounding conversation and records triage decisions", async () => {
+    setChatEngine("v1");
+    await send("Work has been relentless lately.");
+    await send("I want to kill myself tonight");
+
+    const [queued] = (await listQueue()).events;
+    const detailResponse = await getSafetyEvent(
+      buildRequest(`/api/admin/safety-events/${queued.id}`, { headers: adminHeaders() }),
+      eventContext(queued.id),
+    );
+    const detail = (await detailResponse.json()) as SafetyReviewDetailResponse;
+
+    expect(detail.context.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant",
+    ]);
+    expect(detail.context[2].content).toBe("I want to kill myself tonight");
+    expect(detail.context[3].mode).toBe("safety");
+
+    const update = await reviewSafetyEvent(
+      buildRequest(`/api/admin/safety-events/${queued.id}`, {
+        method: "PATCH",
+        headers: adminHeaders(),
+        body: { status: "escalated", notes: "Followed up with on-call.", reviewer: "sam" },
+      }),
+      eventContext(queued.id),
+    );
+    const { event } = (await update.json()) as { event: SafetyEvent };
+
+    expect(event.reviewStatus).toBe("escalated");
+    expect(event.reviewerNotes).toBe("Followed up with on-call.");
+    expect(event.reviewedBy).toBe("sam");
+    expect(event.reviewedAt).toBeTruthy();
+
+    const queue = await listQueue("?status=escalated");
+    expect(queue.events.map((entry) => entry.id)).toEqual([queued.id]);
+    expect(queue.counts.byStatus).toMatchObject({ new: 0, escalated: 1 });
+
+    const rejected = await reviewSafetyEvent(
+      buildRequest(`/api/admin/safety-events/${queued.id}`, {
+        method: "PATCH",
+        headers: adminHeaders(),
+        body: { status: "closed" },
+      }),
+      eventContext(queued.id),
+    );
+    expect(rejected.status).toBe(400);
+
+    const missing = await getSafetyEvent(
+      buildRequest("/api/admin/safety-events/missing", { headers: adminHeaders() }),
+      eventContext("missing"),
+    );
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GET as getHistory } from "@/app/api/chat/history/route";
+import { POST as postMessage } from "@/app/api/chat/message/route";
+import { POST as redeemCode } from "@/app/api/transfer/redeem/route";
+import { GET as getTransferActivity, POST as issueCode } from "@/app/api/transfer/route";
+import { guestCookieName } from "@/lib/server/guest";
+import { normalizeTransferCode } from "@/lib/server/transfer";
+import { buildRequest, setChatEngine } from "@/tests/support/harness";
+import type {
+  ChatHistoryResponse,
+  TransferAuditResponse,
+  TransferCodeResponse,
+} from "@/types/domain";
+
+async function issue(guestId = "laptop"): Promise<TransferCodeResponse> {
+  const response = await issueCode(buildRequest("/api/transfer", { method: "POST", guestId }));
+  return (await response.json()) as TransferCodeResponse;
+}
+
+function redeem(code: string, guestId = "phone") {
+  return redeemCode(
+    buildRequest("/api/transfer/redeem", {
+      guestId,
+      body: { code },
+      headers: { "x-forwarded-for": "203.0.113.7" },
+    }),
+  );
+}
+
+async function activity(guestId: string) {
+  const response = await getTransferActivity(buildRequest("/api/transfer", { guestId }));
+  return ((await response.json()) as TransferAuditResponse).events;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("transfer codes", () => {
+  it("normalizes typed codes and rejects ambiguous characters", () => {
+    expect(normalizeTransferCode(" abcd 2345 ")).toBe("ABCD-2345");
+    expect(normalizeTransferCode("ABCD-0000")).toBeNull();
+    expect(normalizeTransferCode("ABC")).toBeNull();
+  });
+
+  it("moves the guest profile to the redeeming browser", async () => {
+    setChatEngine("v1");
+    await postMessage(
+      buildRequest("/api/chat/message", {
+        guestId: "laptop",
+        body: { text: "I am deciding whether to move closer to family." },
+      }),
+    );
+
+    const { code } = await issue();
+    const response = await redeem(code.toLowerCase());
+
+    expect(response.status).toBe(200);
+    expect(response.cookies.get(guestCookieName)?.value).toBe("laptop");
+
+    const history = (await (
+      await getHistory(buildRequest("/api/chat/history", { guestId: "laptop" }))
+    ).json()) as ChatHistoryResponse;
+
+    expect(history.messages[0].content).toContain("closer to family");
+    expect((await activity("laptop")).map((event) => event.event)).toEqual([
+      "redeemed",
+      "issued",
+    ]);
+  });
+
+  it("accepts each code only once", async () => {
+    const { code } = await issue();
+
+    expect((await redeem(code)).status).toBe(200);
+    expect((await redeem(code, "tablet")).status).toBe(400);
+
+    const [rejected] = await activity("tablet");
+    expect(rejected).toMatchObject({
+      event: "rejected",
+      ip: "203.0.113.7",
+      metadata: { reason: "invalid_or_expired" },
+    });
+  });
+
+  it("rejects expired codes", async () => {
+    const { code } = await issue();
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    expect((await redeem(code)).status).toBe(400);
+  });
+
+  it("replaces an unused code when a new one is issued", async () => {
+    const first = await issue();
+    const second = await issue();
+
+    expect((await redeem(first.code)).status).toBe(400);
+    expect((await redeem(second.code)).status).toBe(200);
+  });
+
+  it("rate limits repeated guesses", async () => {
+    const statuses: number[] = [];
+
+    for (let attempt = 0; attempt < 13; attempt += 1) {
+      statuses.push((await redeem("ZZZZ-ZZZZ")).status);
+    }
+
+    expect(statuses.slice(0, 12).every((status) => status === 400)).toBe(true);
+    expect(statuses[12]).toBe(429);
+    expect((await activity("phone"))[0].metadata).toEqual({ reason: "rate_limited" });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  countryFromAcceptLanguage,
+  getCrisisResources,
+  resolveCrisisCountry,
+} from "@/lib/server/crisis-resources";
+import { getSafetyResponseText, getSupportResourcesText } from "@/lib/server/safety";
+
+function resolve(headers: Record<string, string>, region?: string) {
+  return resolveCrisisCountry(new Headers(headers), {
+    get: (name) =>
+      region && name === "soulaware_crisis_region" ? { value: region } : undefined,
+  });
+}
+
+describe("countryFromAcceptLanguage", () => {
+  it("uses the most preferred tag that names a region", () => {
+    expect(countryFromAcceptLanguage("en-GB,en;q=0.9")).toBe("GB");
+    expect(countryFromAcceptLanguage("fr;q=0.9,en-CA;q=0.8,en-US;q=0.5")).toBe("CA");
+    expect(countryFromAcceptLanguage("en-US;q=0.2, en-AU")).toBe("AU");
+    expect(countryFromAcceptLanguage("zh-Hant-TW")).toBe("TW");
+  });
+
+  it("ignores bare languages and numeric regions", () => {
+    expect(countryFromAcceptLanguage("de, fr;q=0.8")).toBeNull();
+    expect(countryFromAcceptLanguage("es-419")).toBeNull();
+    expect(countryFromAcceptLanguage(null)).toBeNull();
+  });
+});
+
+describe("resolveCrisisCountry", () => {
+  it("prefers the explicit setting, then geo headers, then language", () => {
+    const headers = { "x-vercel-ip-country": "nz", "accept-language": "en-GB" };
+
+    expect(resolve(headers, "de")).toEqual({ country: "DE", source: "setting" });
+    expect(resolve(headers)).toEqual({ country: "NZ", source: "geo" });
+    expect(resolve({ "cf-ipcountry": "XX", "accept-language": "en-GB" })).toEqual({
+      country: "GB",
+      source: "language",
+    });
+    expect(resolve({})).toEqual({ country: null, source: "fallback" });
+  });
+
+  it("accepts the UK alias", () => {
+    expect(resolve({}, "uk")).toEqual({ country: "GB", source: "setting" });
+  });
+});
+
+describe("crisis response rendering", () => {
+  it("renders local hotlines and the emergency number", () => {
+    const text = getSafetyResponseText(getCrisisResources("GB", "language"));
+
+    expect(text).toContain("- Call **116 123** (Samaritans, United Kingdom, 24/7)");
+    expect(text).toContain("- Text **SHOUT** to **85258** (Shout, United Kingdom, 24/7)");
+    expect(text).toContain("call **999** now");
+  });
+
+  it("keeps the US lifeline wording", () => {
+    const resources = getCrisisResources("US", "geo");
+
+    expect(getSafetyResponseText(resources)).toContain(
+      "- Call or text **988** (988 Suicide & Crisis Lifeline, United States, 24/7)",
+    );
+    expect(getSupportResourcesText(resources)).toContain("you can call or text **988**");
+  });
+
+  it("falls back to the international directory for unsupported countries", () => {
+    const resources = getCrisisResources("BR", "geo");
+
+    expect(resources).toMatchObject({ country: null, emergencyNumber: null, hotlines: [] });
+    expect(getSafetyResponseText(resources)).toContain(
+      "- Find a free, confidential crisis line in your country at https://findahelpline.com",
+    );
+    expect(getSafetyResponseText(resources)).toContain("call your local emergency number now");
+    expect(getSupportResourcesText(resources)).toContain("https://findahelpline.com");
+  });
+});
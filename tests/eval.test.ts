@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { compareEvalReports, parseConversationCorpus, runEval } from "@/lib/server/eval";
+import { setFakeLlmScript } from "@/lib/server/llm-fake";
+
+const corpus = parseConversationCorpus(
+  [
+    '{"id":"decision","turns":["I need to choose between a remote contract and a full-time studio role.","The studio role pays less but the team feels like my people."]}',
+    '{"id":"vague","turns":["not sure"]}',
+  ].join("\n"),
+);
+
+describe("coach eval harness", () => {
+  it("rejects corpus lines without turns", () => {
+    expect(() => parseConversationCorpus('{"id":"empty","turns":[]}')).toThrow(/line 1/);
+  });
+
+  it("scores coach turns and counts clarifiers separately", async () => {
+    const report = await runEval(corpus, { label: "base", engines: ["v2"] });
+
+    expect(report.turns).toHaveLength(3);
+    expect(report.summaries[0]).toMatchObject({ engine: "v2", clarifierTurns: 1, coachTurns: 2 });
+    expect(report.turns.find((turn) => turn.checks)?.checks).toMatchObject({
+      endsWithQuestion: true,
+      noBannedQuestion: true,
+    });
+  });
+
+  it("flags off-topic actions and reports the delta between configurations", async () => {
+    const base = await runEval(corpus, { label: "base", engines: ["v2"] });
+
+    setFakeLlmScript({
+      completions: [
+        {
+          json: {
+            reflection: "You are weighing security against belonging.",
+            actionStep: "Take a short walk before deciding anything.",
+            followUpQuestion: "Which of these would you regret avoiding a year from now?",
+          },
+        },
+      ],
+    });
+
+    const candidate = await runEval(corpus, { label: "offtopic", engines: ["v2"] });
+    const comparison = compareEvalReports(base, candidate);
+
+    expect(candidate.turns[0].checks?.actionReferencesKeyword).toBe(false);
+    expect(candidate.summaries[0].meanScore).toBeLessThan(base.summaries[0].meanScore);
+    expect(comparison).toContain("| v2 | meanScore |");
+    expect(comparison).toContain("v2 decision#1");
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { env } from "@/lib/server/env";
+import type { LlmModeration, LlmProvider } from "@/lib/server/llm";
+import { isModerationCircuitOpen, moderateWithRetry } from "@/lib/server/moderation";
+
+const CLEAN: LlmModeration = { flagged: false, categories: {} };
+
+function providerWith(moderate: LlmProvider["moderate"]): LlmProvider {
+  return {
+    name: "fake",
+    createCompletion: () => Promise.reject(new Error("unused")),
+    createJsonCompletion: () => Promise.reject(new Error("unused")),
+    moderate,
+  };
+}
+
+async function tripBreaker() {
+  const failing = providerWith(() => Promise.reject(new Error("moderation down")));
+
+  for (let index = 0; index < 5; index += 1) {
+    await moderateWithRetry(failing, "text");
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("moderateWithRetry", () => {
+  it("lets a single trial through once the breaker cools down", async () => {
+    env.soulawareModerationRetries = 0;
+    await tripBreaker();
+    expect(isModerationCircuitOpen()).toBe(true);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 61_000);
+
+    let finishTrial: (value: LlmModeration) => void = () => undefined;
+    const moderate = vi.fn(
+      () => new Promise<LlmModeration>((resolve) => (finishTrial = resolve)),
+    );
+    const provider = providerWith(moderate);
+
+    const trial = moderateWithRetry(provider, "first");
+    const concurrent = await moderateWithRetry(provider, "second");
+
+    expect(concurrent.status).toBe("circuit_open");
+    expect(moderate).toHaveBeenCalledTimes(1);
+
+    finishTrial(CLEAN);
+    expect((await trial).status).toBe("ok");
+    expect(
+      (await moderateWithRetry(providerWith(() => Promise.resolve(CLEAN)), "third")).status,
+    ).toBe("ok");
+  });
+
+  it("reopens when the trial fails", async () => {
+    env.soulawareModerationRetries = 0;
+    await tripBreaker();
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 61_000);
+
+    const outcome = await moderateWithRetry(
+      providerWith(() => Promise.reject(new Error("still down"))),
+      "text",
+    );
+
+    expect(outcome.status).toBe("failed");
+    expect(isModerationCircuitOpen()).toBe(true);
+  });
+});
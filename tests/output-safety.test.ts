@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { env } from "@/lib/server/env";
+import {
+  SAFE_REPLACEMENT_SEGMENTS,
+  getOutputSafetyPolicy,
+  screenReplySegments,
+} from "@/lib/server/output-safety";
+import type { ChatReplySegment } from "@/types/domain";
+
+function reply(reflection: string, action: string, question: string): ChatReplySegment[] {
+  return [
+    { kind: "reflection", text: `Reflection: ${reflection}` },
+    { kind: "action", text: `Action step: ${action}` },
+    { kind: "question", text: `Deeper question: ${question}` },
+  ];
+}
+
+const CLEAN_ACTION = "Block thirty minutes tomorrow to list what the new role must offer.";
+const CLEAN_QUESTION = "Which of those needs feels least negotiable?";
+
+describe("screenReplySegments", () => {
+  it("passes ordinary coaching through untouched", () => {
+    const segments = reply(
+      "You sound worn down by the pace at work, and that makes sense after this quarter.",
+      CLEAN_ACTION,
+      CLEAN_QUESTION,
+    );
+    const result = screenReplySegments(segments, "rewrite");
+
+    expect(result).toEqual({ segments, action: "allow", categories: [], ruleIds: [] });
+  });
+
+  it("drops diagnosis sentences and adds a redirect", () => {
+    const result = screenReplySegments(
+      reply(
+        "You have been carrying this for months. Honestly, it sounds like you have clinical depression.",
+        CLEAN_ACTION,
+        CLEAN_QUESTION,
+      ),
+      "rewrite",
+    );
+
+    expect(result.action).toBe("rewritten");
+    expect(result.categories).toEqual(["diagnosis"]);
+    expect(result.ruleIds).toEqual(["diagnosis_you_have"]);
+    expect(result.segments[0].text).toBe(
+      "Reflection: You have been carrying this for months. I can't diagnose anything, but a licensed professional can help you make sense of what you're noticing.",
+    );
+    expect(result.segments[1].text).toBe(`Action step: ${CLEAN_ACTION}`);
+  });
+
+  it("flags medication advice but not a referral to a clinician", () => {
+    const advice = screenReplySegments(
+      reply(
+        "Sleep has been rough for weeks and it is wearing on you.",
+        "Take 10mg of melatonin tonight. Then keep your phone out of the bedroom all week.",
+        CLEAN_QUESTION,
+      ),
+      "rewrite",
+    );
+
+    expect(advice.action).toBe("rewritten");
+    expect(advice.ruleIds).toEqual(["medication_change", "medication_dose"]);
+    expect(advice.segments[1].text).not.toContain("melatonin");
+
+    const referral = screenReplySegments(
+      reply(
+        "Sleep has been rough for weeks and it is wearing on you.",
+        "Ask your doctor whether to stop your medication before changing anything.",
+        CLEAN_QUESTION,
+      ),
+      "rewrite",
+    );
+
+    expect(referral.action).toBe("allow");
+  });
+
+  it("replaces the reply when a rewrite would leave a segment empty", () => {
+    const result = screenReplySegments(
+      reply("You are clearly bipolar.", CLEAN_ACTION, CLEAN_QUESTION),
+      "rewrite",
+    );
+
+    expect(result.action).toBe("replaced");
+    expect(result.segments).toEqual(SAFE_REPLACEMENT_SEGMENTS);
+  });
+
+  it("always replaces harmful content and keeps app-written segments", () => {
+    const result = screenReplySegments(
+      [
+        ...reply(
+          "The launch is close and you want every hour back.",
+          "Skip meals until Friday so you can focus on the launch. Then celebrate.",
+          CLEAN_QUESTION,
+        ),
+        { kind: "support", text: "You can call or text **988** any time." },
+      ],
+      "rewrite",
+    );
+
+    expect(result.action).toBe("replaced");
+    expect(result.categories).toEqual(["harmful"]);
+    expect(result.segments).toEqual([
+      ...SAFE_REPLACEMENT_SEGMENTS,
+      { kind: "support", text: "You can call or text **988** any time." },
+    ]);
+  });
+
+  it("flags instructions to restrict food however they are phrased", () => {
+    for (const action of [
+      "Just skip meals until the deadline passes.",
+      "If the week gets tight, skip lunch meetings and skip a meal or two.",
+      "You could stop eating until Friday and see how focused you feel.",
+      "Consider skipping meals on your busiest days.",
+    ]) {
+      const result = screenReplySegments(reply(CLEAN_ACTION, action, CLEAN_QUESTION), "rewrite");
+
+      expect(result.ruleIds, action).toEqual(["harm_disordered_eating"]);
+    }
+  });
+
+  it("does not flag advice to eat regularly or ordinary talk about meals", () => {
+    for (const action of [
+      "Don't skip meals while you're this stretched; pack lunch the night before.",
+      "Stop eating at your desk and take a real twenty-minute break.",
+      "Try not to skip meals this week, even when the studio runs late.",
+      "Skipping meals won't buy you more time, so block a proper lunch.",
+      "You can skip meal prep on Sunday and cook something simple instead.",
+    ]) {
+      const result = screenReplySegments(reply(CLEAN_ACTION, action, CLEAN_QUESTION), "rewrite");
+
+      expect(result.action, action).toBe("allow");
+    }
+  });
+
+  it("replaces instead of rewriting under the replace policy", () => {
+    env.soulawareOutputSafetyPolicy = "replace";
+
+    const result = screenReplySegments(
+      reply(
+        "You have been carrying this for months. It sounds like you have an anxiety disorder.",
+        CLEAN_ACTION,
+        CLEAN_QUESTION,
+      ),
+    );
+
+    expect(getOutputSafetyPolicy()).toBe("replace");
+    expect(result.action).toBe("replaced");
+  });
+});
@@ -0,0 +1,177 @@
+import { createServer, type AddressInfo, type Server } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createRedisClient, encodeRedisCommand, parseRedisReply } from "@/lib/server/redis";
+import {
+  createMemoryRateLimitStore,
+  createRedisRateLimitStore,
+} from "@/lib/server/rate-limit-store";
+
+describe("createMemoryRateLimitStore", () => {
+  it("evicts keys once their window has passed", async () => {
+    let clock = 1_000_000;
+    const store = createMemoryRateLimitStore({ maxKeys: 100, now: () => clock });
+
+    await store.hit("a", 2, 60_000);
+    await store.hit("b", 2, 60_000);
+    await store.setCooldown("c", { until: clock + 30_000, reason: "link_burst" });
+    expect(store.size()).toBe(3);
+
+    clock += 61_000;
+    await store.hit("d", 2, 60_000);
+
+    expect(store.size()).toBe(1);
+    expect(await store.getCooldown("c")).toBeNull();
+    expect(await store.hit("a", 2, 60_000)).toMatchObject({ success: true, remaining: 1 });
+  });
+
+  it("drops the least recently used keys past the size cap", async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 3 });
+
+    await store.hit("a", 1, 60_000);
+    await store.hit("b", 1, 60_000);
+    await store.hit("c", 1, 60_000);
+    await store.hit("a", 1, 60_000);
+    await store.hit("d", 1, 60_000);
+
+    expect(store.size()).toBe(3);
+    expect((await store.hit("a", 1, 60_000)).success).toBe(false);
+    expect((await store.hit("b", 1, 60_000)).success).toBe(true);
+  });
+
+  it("evicts from the head between sweeps instead of scanning every key", async () => {
+    let clock = 1_000_000;
+    const store = createMemoryRateLimitStore({ maxKeys: 2, now: () => clock });
+
+    await store.hit("oldest", 1, 60_000);
+    await store.hit("expired", 1, 1_000);
+    clock += 2_000;
+    await store.hit("newest", 1, 60_000);
+
+    expect(store.size()).toBe(2);
+    expect((await store.hit("oldest", 1, 60_000)).success).toBe(true);
+  });
+});
+
+describe("Redis protocol", () => {
+  it("round-trips commands and waits for complete replies", () => {
+    const command = parseRedisReply(encodeRedisCommand(["SET", "key", "välue", "PX", 10]));
+    const reply = Buffer.from("*3\r\n:1\r\n$-1\r\n*1\r\n-ERR nope\r\n");
+
+    expect(command?.reply).toEqual(["SET", "key", "välue", "PX", "10"]);
+    expect(parseRedisReply(reply.subarray(0, reply.length - 3))).toBeNull();
+    expect(parseRedisReply(reply)?.reply).toEqual([1, null, [new Error("ERR nope")]]);
+  });
+});
+
+function encodeReply(reply: unknown): string {
+  if (reply === null) {
+    return "$-1\r\n";
+  }
+
+  if (typeof reply === "number") {
+    return `:${reply}\r\n`;
+  }
+
+  if (Array.isArray(reply)) {
+    return `*${reply.length}\r\n${reply.map(encodeReply).join("")}`;
+  }
+
+  const text = String(reply);
+  return `$${Buffer.byteLength(text)}\r\n${text}\r\n`;
+}
+
+/** Speaks just enough RESP to stand in for a local Redis, emulating the limiter script. */
+function startFakeRedis(): Promise<{ server: Server; port: number; commands: string[][] }> {
+  const commands: string[][] = [];
+  const windows = new Map<string, number[]>();
+  const values = new Map<string, string>();
+
+  const server = createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = parseRedisReply(buffer);
+
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset);
+        const args = parsed.reply as string[];
+        commands.push(args);
+
+        const [name, ...rest] = args;
+        let reply: unknown = "OK";
+
+        if (name === "EVAL") {
+          const [, , key = "", now, windowMs, limit] = rest;
+          const hits = (windows.get(key) ?? []).filter(
+            (at) => Number(now) - at < Number(windowMs),
+          );
+          const allowed = hits.length < Number(limit);
+
+          if (allowed) {
+            hits.push(Number(now));
+          }
+
+          windows.set(key, hits);
+          reply = [allowed ? 1 : 0, hits.length, String(hits[0] ?? now)];
+        } else if (name === "SET") {
+          values.set(rest[0] ?? "", rest[1] ?? "");
+        } else if (name === "GET") {
+          reply = values.get(rest[0] ?? "") ?? null;
+        }
+
+        socket.write(name === "EVAL" || name === "GET" ? encodeReply(reply) : "+OK\r\n");
+        parsed = buffer.length > 0 ? parseRedisReply(buffer) : null;
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, commands });
+    });
+  });
+}
+
+describe("createRedisRateLimitStore", () => {
+  const cleanup: Array<() => void> = [];
+
+  afterEach(() => {
+    for (const close of cleanup.splice(0)) {
+      close();
+    }
+  });
+
+  it("limits and stores cooldowns through a plain Redis connection", async () => {
+    const { server, port, commands } = await startFakeRedis();
+    const client = createRedisClient(`redis://:secret@127.0.0.1:${port}/2`);
+    cleanup.push(() => client.close(), () => server.close());
+    const store = createRedisRateLimitStore(client);
+
+    const first = await store.hit("chat_message:guest:g1:minute", 2, 60_000);
+    const second = await store.hit("chat_message:guest:g1:minute", 2, 60_000);
+    const third = await store.hit("chat_message:guest:g1:minute", 2, 60_000);
+    await store.setCooldown("soulaware:cooldown:guest:g1", {
+      until: Date.now() + 60_000,
+      reason: "repeated_message",
+    });
+
+    expect([first.success, second.success, third.success]).toEqual([true, true, false]);
+    expect(second.remaining).toBe(0);
+    expect(await store.getCooldown("soulaware:cooldown:guest:g1")).toMatchObject({
+      reason: "repeated_message",
+    });
+    expect(await store.getCooldown("soulaware:cooldown:guest:g2")).toBeNull();
+    expect(commands.slice(0, 2)).toEqual([["AUTH", "secret"], ["SELECT", "2"]]);
+    expect(commands[2]?.[3]).toBe("soulaware:rl:chat_message:guest:g1:minute");
+  });
+
+  it("rejects pending commands when the server is unreachable", async () => {
+    const { server, port } = await startFakeRedis();
+    await new Promise((resolve) => server.close(resolve));
+    const client = createRedisClient(`redis://127.0.0.1:${port}`);
+    cleanup.push(() => client.close());
+
+    await expect(createRedisRateLimitStore(client).hit("k", 1, 1_000)).rejects.toThrow();
+  });
+});
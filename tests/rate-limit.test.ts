@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { env } from "@/lib/server/env";
+import {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  applyRateLimitHeaders,
+  enforceRateLimit,
+  imposeCooldown,
+  parseRateLimitPolicies,
+  resolveClientIp,
+} from "@/lib/server/rate-limit";
+import { buildRequest } from "@/tests/support/harness";
+
+describe("parseRateLimitPolicies", () => {
+  it("merges overrides over the defaults and drops windows set to 0", () => {
+    const policies = parseRateLimitPolicies(
+      JSON.stringify({
+        chat_message: { guest: { minute: 20, day: 0 }, ip: { hour: -5 } },
+        analytics: { email: { minute: 1 }, session: { minute: 1 } },
+        unknown_route: { guest: { minute: 1 } },
+      }),
+    );
+
+    expect(policies.chat_message.guest).toEqual({ minute: 20, hour: 120 });
+    expect(policies.chat_message.ip).toEqual(DEFAULT_RATE_LIMIT_POLICIES.chat_message.ip);
+    expect(policies.analytics.email).toEqual({ minute: 1 });
+    expect(policies).not.toHaveProperty("unknown_route");
+  });
+
+  it("falls back to the defaults on malformed config", () => {
+    expect(parseRateLimitPolicies("{not json")).toEqual(DEFAULT_RATE_LIMIT_POLICIES);
+  });
+});
+
+describe("enforceRateLimit", () => {
+  it("reports the tightest window until one blocks", async () => {
+    env.soulawareRateLimits = JSON.stringify({
+      purpose_snapshot: {
+        guest: { minute: 5, hour: 2, day: 0 },
+        ip: { minute: 0, hour: 0, day: 0 },
+      },
+    });
+
+    const first = await enforceRateLimit("purpose_snapshot", { guest: "g1", ip: "198.51.100.1" });
+    const second = await enforceRateLimit("purpose_snapshot", { guest: "g1" });
+    const third = await enforceRateLimit("purpose_snapshot", { guest: "g1" });
+    const otherGuest = await enforceRateLimit("purpose_snapshot", { guest: "g2" });
+
+    expect(first).toMatchObject({ success: true, keyType: "guest", window: "hour", remaining: 1 });
+    expect(second).toMatchObject({ success: true, window: "hour", remaining: 0 });
+    expect(third).toMatchObject({ success: false, window: "hour", limit: 2 });
+    expect(otherGuest.success).toBe(true);
+  });
+
+  it("does not count longer windows once a shorter one blocks", async () => {
+    env.soulawareRateLimits = JSON.stringify({
+      purpose_snapshot: {
+        guest: { minute: 1, hour: 3, day: 0 },
+        ip: { minute: 0, hour: 0, day: 0 },
+      },
+    });
+
+    await enforceRateLimit("purpose_snapshot", { guest: "g1" });
+    const refused = [
+      await enforceRateLimit("purpose_snapshot", { guest: "g1" }),
+      await enforceRateLimit("purpose_snapshot", { guest: "g1" }),
+    ];
+
+    // Lifting the minute quota leaves the hour window with only the one allowed hit in it.
+    env.soulawareRateLimits = JSON.stringify({
+      purpose_snapshot: {
+        guest: { minute: 0, hour: 3, day: 0 },
+        ip: { minute: 0, hour: 0, day: 0 },
+      },
+    });
+
+    expect(refused.map((decision) => decision.window)).toEqual(["minute", "minute"]);
+    expect(await enforceRateLimit("purpose_snapshot", { guest: "g1" })).toMatchObject({
+      success: true,
+      window: "hour",
+      remaining: 1,
+    });
+  });
+
+  it("sets consistent headers on any response", async () => {
+    env.soulawareRateLimits = JSON.stringify({ analytics: { guest: { minute: 1 } } });
+
+    await enforceRateLimit("analytics", { guest: "g1" });
+    const blocked = await enforceRateLimit("analytics", { guest: "g1" });
+    const response = applyRateLimitHeaders(new Response(null, { status: 429 }), blocked);
+
+    expect(response.headers.get("X-RateLimit-Limit")).toBe("1");
+    expect(response.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(response.headers.get("X-RateLimit-Policy")).toBe("analytics:guest:minute");
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+});
+
+describe("enforceRateLimit cooldowns", () => {
+  it("refuses a key on cooldown under every policy", async () => {
+    await imposeCooldown("ip", "198.51.100.9", 60_000, "guest_churn");
+
+    const blocked = await enforceRateLimit("magic_link", {
+      email: "a@example.com",
+      ip: "198.51.100.9",
+    });
+    const unknownIp = await enforceRateLimit("magic_link", { email: "a@example.com", ip: null });
+    const response = applyRateLimitHeaders(new Response(null, { status: 429 }), blocked);
+
+    expect(blocked).toMatchObject({
+      success: false,
+      keyType: "ip",
+      window: "cooldown",
+      cooldownReason: "guest_churn",
+    });
+    expect(unknownIp).toMatchObject({ success: true, keyType: "email" });
+    expect(response.headers.get("X-RateLimit-Policy")).toBe("magic_link:ip:cooldown");
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(50);
+  });
+});
+
+describe("resolveClientIp", () => {
+  function resolve(headers: Record<string, string>) {
+    return resolveClientIp(buildRequest("/api/chat/message", { headers }));
+  }
+
+  it("ignores client-supplied hops left of the nearest untrusted proxy", () => {
+    expect(resolve({ "x-forwarded-for": "1.2.3.4, 203.0.113.10" })).toBe("203.0.113.10");
+
+    env.soulawareTrustedProxies = "10.0.0.0/8, 2001:db8::/32";
+    expect(resolve({ "x-forwarded-for": "1.2.3.4, 203.0.113.10, 2001:db8::5, 10.1.2.3" })).toBe(
+      "203.0.113.10",
+    );
+    expect(resolve({ "x-forwarded-for": "10.0.0.7" })).toBe("10.0.0.7");
+  });
+
+  it("normalizes ports, brackets and mapped addresses", () => {
+    expect(resolve({ "x-forwarded-for": "203.0.113.10:51234" })).toBe("203.0.113.10");
+    expect(resolve({ "x-forwarded-for": "[2001:DB8::1]:443" })).toBe("2001:db8::1");
+    expect(resolve({ "x-forwarded-for": "::ffff:203.0.113.10" })).toBe("203.0.113.10");
+    expect(resolve({ "x-real-ip": "198.51.100.4" })).toBe("198.51.100.4");
+  });
+
+  it("returns null instead of a shared bucket when the address is unusable", () => {
+    expect(resolve({})).toBeNull();
+    expect(resolve({ "x-forwarded-for": "203.0.113.10, not-an-ip" })).toBeNull();
+
+    env.soulawareClientIpHeader = "cf-connecting-ip";
+    expect(resolve({ "x-forwarded-for": "203.0.113.10" })).toBeNull();
+    expect(resolve({ "cf-connecting-ip": "198.51.100.4" })).toBe("198.51.100.4");
+  });
+});
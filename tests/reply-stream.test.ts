@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createJsonFieldReader, createReplyStream } from "@/lib/server/reply-stream";
+import type { ChatReplySegment } from "@/types/domain";
+
+describe("createJsonFieldReader", () => {
+  it("reports each field in order once its value closes", () => {
+    const fields: string[] = [];
+    const read = createJsonFieldReader(["reflection", "actionStep"], (field, value) => {
+      fields.push(`${field}=${value}`);
+    });
+
+    read('{"actionStep": "Write it down", "reflec');
+    expect(fields).toEqual([]);
+
+    read('tion": "You said \\"maybe\\" twice');
+    expect(fields).toEqual([]);
+
+    read('."}');
+    expect(fields).toEqual(['reflection=You said "maybe" twice.', "actionStep=Write it down"]);
+  });
+});
+
+describe("createReplyStream", () => {
+  function record() {
+    const events: string[] = [];
+    const stream = createReplyStream({
+      onSegment: (segment) => events.push(`${segment.kind}:${segment.text}`),
+      onReset: () => events.push("reset"),
+      prepare: (segments) =>
+        segments.some((segment) => segment.text.includes("unsafe"))
+          ? [{ kind: "reflection", text: "safe" }, { kind: "question", text: "safe?" }]
+          : segments,
+    });
+
+    return { events, stream };
+  }
+
+  const reflection: ChatReplySegment = { kind: "reflection", text: "seen" };
+  const question: ChatReplySegment = { kind: "question", text: "next?" };
+
+  it("keeps streamed drafts that match the settled reply", () => {
+    const { events, stream } = record();
+
+    stream.draft(reflection);
+    stream.settle([reflection, question]);
+
+    expect(events).toEqual(["reflection:seen", "question:next?"]);
+  });
+
+  it("holds drafts that screening replaces and resets before the final reply", () => {
+    const { events, stream } = record();
+
+    stream.draft(reflection);
+    stream.draft({ kind: "action", text: "unsafe" });
+    stream.draft(question);
+    stream.settle([{ kind: "reflection", text: "safe" }]);
+
+    expect(events).toEqual(["reflection:seen", "reset", "reflection:safe"]);
+  });
+});
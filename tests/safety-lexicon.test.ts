@@ -0,0 +1,74 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { env } from "@/lib/server/env";
+import {
+  LATEST_SAFETY_LEXICON_VERSION,
+  classifyWithLexicon,
+  getSafetyLexicon,
+  normalizeForLexicon,
+  parseSafetyCorpus,
+  scoreLexicon,
+} from "@/lib/server/safety-lexicon";
+
+const corpus = parseSafetyCorpus(readFileSync("eval/safety-corpus.jsonl", "utf8"));
+
+describe("normalizeForLexicon", () => {
+  it("undoes leetspeak, spacing, accents and stretched letters", () => {
+    expect(normalizeForLexicon("I want to k1ll mys3lf")).toBe("i want to kill myself");
+    expect(normalizeForLexicon("s.u.i.c.i.d.e")).toBe("suicide");
+    expect(normalizeForLexicon("Ça va, I’m sooooo tired")).toBe("ca va, i'm soo tired");
+    expect(normalizeForLexicon("I ran 10 kms")).toBe("i ran 10 kms");
+  });
+});
+
+describe("classifyWithLexicon", () => {
+  it("cancels first-person denials but not a later clause", () => {
+    expect(classifyWithLexicon("I would never kill myself")).toEqual({
+      level: "none",
+      patternId: "kill_myself",
+      negated: true,
+    });
+    expect(classifyWithLexicon("I would never kill myself, but I want to die")).toMatchObject({
+      level: "high",
+      patternId: "want_to_die",
+    });
+  });
+
+  it("only treats known filler words as part of a denial", () => {
+    expect(classifyWithLexicon("I don't really want to die")).toMatchObject({ level: "none" });
+    expect(classifyWithLexicon("I never thought I'd want to die")).toMatchObject({
+      level: "high",
+    });
+  });
+
+  it("honours the configured lexicon version", () => {
+    env.soulawareSafetyLexiconVersion = "1";
+    expect(getSafetyLexicon().version).toBe(1);
+    expect(classifyWithLexicon("kms").level).toBe("none");
+
+    env.soulawareSafetyLexiconVersion = "99";
+    expect(getSafetyLexicon().version).toBe(LATEST_SAFETY_LEXICON_VERSION);
+  });
+});
+
+describe("safety corpus", () => {
+  it("only misses examples tagged as known gaps with the latest lexicon", () => {
+    const report = scoreLexicon(getSafetyLexicon(LATEST_SAFETY_LEXICON_VERSION), corpus);
+    const knownGaps = corpus
+      .filter((example) => example.tags?.includes("known-gap"))
+      .map((example) => example.id);
+
+    expect(report.mistakes.map((mistake) => mistake.id)).toEqual(knownGaps);
+    expect(report.classes.high.recall).toBeGreaterThanOrEqual(0.95);
+    expect(report.classes.any.precision).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it("improves on the original rule list", () => {
+    const [original, latest] = [1, LATEST_SAFETY_LEXICON_VERSION].map((version) =>
+      scoreLexicon(getSafetyLexicon(version), corpus),
+    );
+
+    expect(latest.classes.any.recall).toBeGreaterThan(original.classes.any.recall);
+    expect(latest.classes.any.precision).toBeGreaterThanOrEqual(original.classes.any.precision);
+  });
+});
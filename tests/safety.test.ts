@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { env } from "@/lib/server/env";
+import { setFakeLlmScript } from "@/lib/server/llm-fake";
+import {
+  advancePostCrisis,
+  assessConversationRisk,
+  evaluateConversationSafety,
+  isSafetyConfirmation,
+} from "@/lib/server/safety";
+
+/** Replays a transcript turn by turn, carrying the trajectory like the chat route does. */
+function replay(turns: string[]) {
+  let trajectory: number[] = [];
+
+  return turns.map((_, index) => {
+    const risk = assessConversationRisk(turns.slice(0, index + 1), trajectory);
+    trajectory = risk.trajectory;
+    return risk;
+  });
+}
+
+describe("assessConversationRisk", () => {
+  it("stays clear for an ordinary coaching conversation", () => {
+    const levels = replay([
+      "I want to move from support engineering into product management.",
+      "Honestly I'm exhausted after this sprint.",
+      "What should I say to my manager about the transition?",
+      "I think I could pitch a six-month trial.",
+    ]).map((risk) => risk.level);
+
+    expect(levels).toEqual(["none", "none", "none", "none"]);
+  });
+
+  it("grades risk that builds gradually across turns", () => {
+    const risks = replay([
+      "I'm so tired of everything lately.",
+      "I don't see the point anymore.",
+    ]);
+
+    expect(risks.map((risk) => risk.level)).toEqual(["none", "elevated"]);
+    expect(risks[1]).toMatchObject({ reason: "conversation_cumulative", score: 4.5 });
+  });
+
+  it("escalates to high when the trajectory keeps rising", () => {
+    const risks = replay([
+      "Work has been a lot this month.",
+      "I'm so tired of everything.",
+      "I feel completely numb most days.",
+      "I can't do this anymore, what's the point.",
+    ]);
+
+    expect(risks.map((risk) => risk.level)).toEqual(["none", "none", "none", "high"]);
+    expect(risks[3].reason).toBe("conversation_rising");
+    expect(risks[3].trajectory).toHaveLength(4);
+  });
+
+  it("escalates on a heavy cumulative score without a trend", () => {
+    const [risk] = replay([
+      "Everyone would be better off without me, nobody would miss me.",
+    ]);
+
+    expect(risk).toMatchObject({ level: "high", reason: "conversation_cumulative" });
+  });
+
+  it("lets old signals decay out of the window", () => {
+    const risks = replay([
+      "I'm so tired of everything and I don't see the point.",
+      "Anyway, I booked the interview for Thursday.",
+      "I practiced my answers with a friend.",
+      "The recruiter said the team is growing.",
+      "I'm going to ask about the on-call rotation.",
+    ]);
+
+    expect(risks[0].level).toBe("elevated");
+    expect(risks[4].level).toBe("none");
+    expect(risks[4].score).toBeLessThan(2);
+  });
+
+  it("keeps only the most recent trajectory points", () => {
+    const risk = assessConversationRisk(["Hello"], Array.from({ length: 10 }, () => 0));
+
+    expect(risk.trajectory).toHaveLength(10);
+  });
+});
+
+describe("evaluateConversationSafety", () => {
+  it("takes the higher of the message and conversation levels", async () => {
+    const turns = ["I'm so tired of everything.", "I don't see the point anymore."];
+    const result = await evaluateConversationSafety({
+      text: turns[1],
+      recentUserMessages: turns,
+      riskTrajectory: [2],
+    });
+
+    expect(result).toMatchObject({ level: "elevated", action: "support", isTriggered: false });
+    expect(result.reason).toMatch(/^conversation_cumulative\+rule_clear/);
+    expect(result.riskTrajectory).toEqual([2, 4.5]);
+  });
+
+  it("keeps a single high-risk message at crisis regardless of history", async () => {
+    const result = await evaluateConversationSafety({
+      text: "I want to end my life",
+      recentUserMessages: ["I want to end my life"],
+      riskTrajectory: [],
+    });
+
+    expect(result).toMatchObject({
+      level: "high",
+      reason: "rule_high_risk:end_my_life",
+      isTriggered: true,
+    });
+  });
+
+  it("lets a conversation-level crisis through when moderation fails closed", async () => {
+    env.soulawareModerationFailurePolicy = "fail-closed";
+    env.soulawareModerationRetries = 0;
+    setFakeLlmScript({ moderations: [{ error: "down" }] });
+
+    const text = "Everyone would be better off without me, nobody would miss me.";
+    const result = await evaluateConversationSafety({
+      text,
+      recentUserMessages: [text],
+      riskTrajectory: [],
+    });
+
+    expect(result).toMatchObject({
+      level: "high",
+      isTriggered: true,
+      moderationFailure: "failed",
+      blocked: false,
+    });
+  });
+});
+
+describe("advancePostCrisis", () => {
+  const clear = { level: "none" as const, isTriggered: false, precautionary: false };
+  const crisis = { level: "high" as const, isTriggered: true, precautionary: false };
+
+  it("starts the countdown on a crisis turn and counts down on clear turns", () => {
+    const started = advancePostCrisis(0, crisis, "...");
+    expect(started).toEqual({ active: false, turnsRemaining: 3, exit: null });
+
+    const steps = [
+      advancePostCrisis(3, clear, "Work was long today."),
+      advancePostCrisis(2, clear, "Dinner helped a bit."),
+      advancePostCrisis(1, clear, "Tomorrow is a quieter day."),
+      advancePostCrisis(0, clear, "Anyway, about my job."),
+    ];
+
+    expect(steps).toEqual([
+      { active: true, turnsRemaining: 2, exit: null },
+      { active: true, turnsRemaining: 1, exit: null },
+      { active: true, turnsRemaining: 0, exit: "turns_elapsed" },
+      { active: false, turnsRemaining: 0, exit: null },
+    ]);
+  });
+
+  it("holds the countdown while risk signals continue", () => {
+    expect(
+      advancePostCrisis(2, { ...clear, level: "elevated" }, "I'm safe now"),
+    ).toEqual({ active: true, turnsRemaining: 2, exit: null });
+  });
+
+  it("keeps counting down through a moderation outage", () => {
+    const degraded = { level: "elevated" as const, isTriggered: false, precautionary: true };
+
+    expect(advancePostCrisis(2, degraded, "Work was long today.")).toEqual({
+      active: true,
+      turnsRemaining: 1,
+      exit: null,
+    });
+    // Even a policy that sends elevated turns to the crisis reply does not restart it.
+    expect(
+      advancePostCrisis(2, { ...degraded, isTriggered: true }, "Work was long today.").turnsRemaining,
+    ).toBe(1);
+  });
+
+  it("ends early when the user says they are safe", () => {
+    expect(advancePostCrisis(3, clear, "Thank you, I’m safe now and my sister is here.")).toEqual({
+      active: true,
+      turnsRemaining: 0,
+      exit: "confirmed_safe",
+    });
+  });
+
+  it("reads only clear confirmations", () => {
+    expect(isSafetyConfirmation("I won't hurt myself, I promise.")).toBe(true);
+    expect(isSafetyConfirmation("I'm not sure I'm safe")).toBe(false);
+    expect(isSafetyConfirmation("I don't feel safe")).toBe(false);
+    expect(isSafetyConfirmation("I'm fine")).toBe(false);
+  });
+
+  it("is off when post-crisis turns are set to zero", () => {
+    env.soulawarePostCrisisTurns = 0;
+    expect(advancePostCrisis(0, crisis, "...").turnsRemaining).toBe(0);
+  });
+});
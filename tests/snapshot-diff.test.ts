@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { buildSnapshotHistory, diffMission, diffSnapshots } from "@/lib/server/snapshot-diff";
+import type { StoredPurposeSnapshot } from "@/types/domain";
+
+function snapshot(
+  id: string,
+  createdAt: string,
+  overrides: Partial<StoredPurposeSnapshot> = {},
+): StoredPurposeSnapshot {
+  return {
+    id,
+    sessionId: "session-1",
+    mission: "Build a calm life around meaningful work.",
+    values: ["Growth", "Honesty", "Courage", "Connection", "Focus"],
+    nextActions: [
+      "Block 30 minutes for writing this week.",
+      "Tell one friend about the plan.",
+      "Write down what success looks like.",
+    ],
+    createdAt,
+    ...overrides,
+  };
+}
+
+describe("diffMission", () => {
+  it("marks replaced words as removed and added", () => {
+    expect(
+      diffMission(
+        "Build a calm life around meaningful work.",
+        "Build a brave life around meaningful work.",
+      ),
+    ).toEqual([
+      { kind: "same", text: "Build a" },
+      { kind: "removed", text: "calm" },
+      { kind: "added", text: "brave" },
+      { kind: "same", text: "life around meaningful work." },
+    ]);
+  });
+
+  it("ignores casing and punctuation differences", () => {
+    expect(diffMission("Live with purpose.", "live with purpose")).toEqual([
+      { kind: "same", text: "live with purpose" },
+    ]);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("reports values added/dropped and actions carried over", () => {
+    const previous = snapshot("a", "2025-01-01T00:00:00.000Z");
+    const next = snapshot("b", "2025-02-01T00:00:00.000Z", {
+      values: ["Growth", "honesty", "Courage", "Connection", "Play"],
+      nextActions: [
+        "Block 45 minutes for writing this week.",
+        "Sign up for a pottery class.",
+        "Write down what success looks like.",
+      ],
+    });
+
+    const diff = diffSnapshots(previous, next);
+
+    expect(diff.missionChanged).toBe(false);
+    expect(diff.valuesAdded).toEqual(["Play"]);
+    expect(diff.valuesDropped).toEqual(["Focus"]);
+    expect(diff.valuesKept).toHaveLength(4);
+    expect(diff.actionsCarriedOver).toEqual([
+      "Block 45 minutes for writing this week.",
+      "Write down what success looks like.",
+    ]);
+    expect(diff.actionsAdded).toEqual(["Sign up for a pottery class."]);
+    expect(diff.actionsDropped).toEqual(["Tell one friend about the plan."]);
+  });
+});
+
+describe("buildSnapshotHistory", () => {
+  it("orders snapshots oldest first and diffs each against its predecessor", () => {
+    const history = buildSnapshotHistory([
+      snapshot("c", "2025-03-01T00:00:00.000Z"),
+      snapshot("a", "2025-01-01T00:00:00.000Z"),
+      snapshot("b", "2025-02-01T00:00:00.000Z"),
+    ]);
+
+    expect(history.map((entry) => entry.snapshotId)).toEqual(["a", "b", "c"]);
+    expect(history[0].diff).toBeNull();
+    expect(history[2].diff?.previousSnapshotId).toBe("b");
+  });
+});
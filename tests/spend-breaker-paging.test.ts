@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+
+type Row = {
+  id: string;
+  guest_id: string;
+  event_name: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+};
+
+const rows: Row[] = [];
+
+/** Mimics a PostgREST table read: filters, ordering and a 1000-row cap per response. */
+function selectRows() {
+  const filters: Array<(row: Row) => boolean> = [];
+  let range: [number, number] = [0, Number.MAX_SAFE_INTEGER];
+  const builder = {
+    gte(column: keyof Row, value: string) {
+      filters.push((row) => String(row[column]) >= value);
+      return builder;
+    },
+    eq(column: keyof Row, value: string) {
+      filters.push((row) => row[column] === value);
+      return builder;
+    },
+    order() {
+      return builder;
+    },
+    range(from: number, to: number) {
+      range = [from, to];
+      return builder;
+    },
+    then(resolve: (result: { data: Row[]; error: null }) => void) {
+      const matching = rows
+        .filter((row) => filters.every((filter) => filter(row)))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+      const end = Math.min(range[1] + 1, range[0] + 1000);
+      resolve({ data: matching.slice(range[0], end), error: null });
+    },
+  };
+
+  return builder;
+}
+
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: () => ({ from: () => ({ select: selectRows }) }),
+}));
+
+vi.mock("@/lib/server/env", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/server/env")>();
+  return { ...actual, hasSupabase: true };
+});
+
+// The shared setup already loaded the repository without Supabase; load fresh copies.
+vi.resetModules();
+const { env } = await import("@/lib/server/env");
+const { getSpendBreakerStatus } = await import("@/lib/server/spend-breaker");
+
+function seed(count: number, eventName: string, metadata: Record<string, unknown>) {
+  const createdAt = new Date().toISOString();
+
+  for (let index = 0; index < count; index += 1) {
+    rows.push({
+      id: `${eventName}-${String(index).padStart(5, "0")}`,
+      guest_id: "guest-test",
+      event_name: eventName,
+      metadata,
+      created_at: createdAt,
+    });
+  }
+}
+
+describe("getSpendBreakerStatus with Supabase", () => {
+  it("counts usage past the first page of the day's analytics", async () => {
+    env.soulawareCostAlertDailyUsd = 10;
+    seed(1_500, "message_sent", {});
+    seed(1_200, "model_usage_recorded", { estimatedCostUsd: 0.01 });
+
+    expect(await getSpendBreakerStatus()).toMatchObject({
+      step: "fallback_only",
+      spentUsd: 12,
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { env } from "@/lib/server/env";
+import { trackEvent } from "@/lib/server/repository";
+import { getSpendBreakerStatus, recordSpend } from "@/lib/server/spend-breaker";
+
+function seedSpend(estimatedCostUsd: number) {
+  return trackEvent({
+    guestId: "guest-test",
+    eventName: "model_usage_recorded",
+    metadata: { source: "chat_v2", modelUsed: "gpt-4.1", estimatedCostUsd },
+  });
+}
+
+describe("getSpendBreakerStatus", () => {
+  it("stays normal while no daily budget is configured", async () => {
+    env.soulawareCostAlertDailyUsd = 0;
+    await seedSpend(50);
+
+    expect(await getSpendBreakerStatus()).toMatchObject({ enabled: false, step: "normal" });
+  });
+
+  it("climbs the ladder as spend crosses each threshold", async () => {
+    env.soulawareCostAlertDailyUsd = 10;
+    await seedSpend(4);
+    const now = new Date();
+
+    expect((await getSpendBreakerStatus(now)).step).toBe("normal");
+
+    recordSpend(1.5, now);
+    expect((await getSpendBreakerStatus(now)).step).toBe("fast_model");
+
+    recordSpend(2.5, now);
+    expect((await getSpendBreakerStatus(now)).step).toBe("no_summaries");
+
+    recordSpend(2, now);
+    expect(await getSpendBreakerStatus(now)).toMatchObject({
+      step: "fallback_only",
+      spentUsd: 10,
+      usedFraction: 1,
+    });
+  });
+
+  it("ignores spend the server did not record", async () => {
+    env.soulawareCostAlertDailyUsd = 10;
+    await seedSpend(-20);
+    await trackEvent({
+      guestId: "guest-test",
+      eventName: "chat_model_selected",
+      metadata: { estimatedCostUsd: 50 },
+    });
+
+    expect(await getSpendBreakerStatus()).toMatchObject({ step: "normal", spentUsd: 0 });
+  });
+
+  it("honors configured thresholds and resets at the UTC day boundary", async () => {
+    env.soulawareCostAlertDailyUsd = 10;
+    env.soulawareSpendFastModelAt = 0.1;
+    env.soulawareSpendNoSummariesAt = 0.2;
+    env.soulawareSpendFallbackAt = 0.3;
+    await seedSpend(3);
+
+    expect((await getSpendBreakerStatus()).step).toBe("fallback_only");
+
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60_000);
+    expect(await getSpendBreakerStatus(tomorrow)).toMatchObject({
+      step: "normal",
+      spentUsd: 0,
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { NextRequest } from "next/server";
+import { env } from "@/lib/server/env";
+import { guestCookieName } from "@/lib/server/guest";
+import { getAnalyticsEventsSince } from "@/lib/server/repository";
+import type { AnalyticsEventName, ChatStreamEvent } from "@/types/domain";
+
+const baselineEnv = { ...env };
+
+const globalStore = globalThis as unknown as {
+  __soulawareMemoryStore?: unknown;
+  __soulawareRateLimitStore?: unknown;
+  __soulawareOutbox?: unknown;
+  __soulawareModerationBreaker?: unknown;
+  __soulawareSpendBreaker?: unknown;
+};
+
+export function resetTestStores() {
+  globalStore.__soulawareMemoryStore = undefined;
+  globalStore.__soulawareRateLimitStore = undefined;
+  globalStore.__soulawareOutbox = undefined;
+  globalStore.__soulawareModerationBreaker = undefined;
+  globalStore.__soulawareSpendBreaker = undefined;
+}
+
+export function resetTestEnv() {
+  Object.assign(env, baselineEnv);
+}
+
+export function setChatEngine(engine: "v1" | "v2") {
+  env.soulawareChatEngine = engine;
+  env.soulawareChatV2Percent = engine === "v2" ? 100 : 0;
+}
+
+export function buildRequest(
+  path: string,
+  options: {
+    method?: string;
+    guestId?: string | null;
+    body?: unknown;
+    headers?: Record<string, string>;
+    cookies?: Record<string, string>;
+  } = {},
+): NextRequest {
+  const headers = new Headers(options.headers);
+  const guestId = options.guestId === undefined ? "guest-test" : options.guestId;
+
+  const cookies = { ...(guestId ? { [guestCookieName]: guestId } : {}), ...options.cookies };
+  const cookieHeader = Object.entries(cookies)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("; ");
+
+  if (cookieHeader) {
+    headers.set("cookie", cookieHeader);
+  }
+
+  if (options.body !== undefined) {
+    headers.set("content-type", "application/json");
+  }
+
+  return new NextRequest(new URL(path, "http://localhost"), {
+    method: options.method ?? (options.body === undefined ? "GET" : "POST"),
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+}
+
+export async function recordedEvents(guestId: string): Promise<AnalyticsEventName[]> {
+  const events = await getAnalyticsEventsSince(new Date(0).toISOString());
+  return events.filter((event) => event.guestId === guestId).map((event) => event.eventName);
+}
+
+export async function readStreamEvents(response: Response): Promise<ChatStreamEvent[]> {
+  const body = await response.text();
+
+  return body
+    .split("\n\n")
+    .map((frame) => frame.trim())
+    .filter(Boolean)
+    .map((frame) => {
+      const [eventLine, dataLine] = frame.split("\n");
+      const type = eventLine.replace(/^event:\s*/, "");
+      const data = JSON.parse(dataLine.replace(/^data:\s*/, "")) as Record<string, unknown>;
+      return { type, ...data } as ChatStreamEvent;
+    });
+}
+
+/** The reply text a client shows once the stream ends, honoring `reset` frames. */
+export function streamedReply(events: ChatStreamEvent[]): string {
+  const lastReset = events.map((event) => event.type).lastIndexOf("reset");
+
+  return events
+    .slice(lastReset + 1)
+    .flatMap((event) => (event.type === "segment" ? [event.segment.text] : []))
+    .join("\n\n");
+}
@@ -0,0 +1,9 @@
+import { beforeEach } from "vitest";
+import { resetFakeLlm } from "@/lib/server/llm-fake";
+import { resetTestEnv, resetTestStores } from "@/tests/support/harness";
+
+beforeEach(() => {
+  resetTestStores();
+  resetTestEnv();
+  resetFakeLlm();
+});
@@ -2,6 +2,9 @@ export type PromptMode = "coach" | "safety";
 
 export type SafetyLevel = "none" | "elevated" | "high";
 
+/** What the chat route does for a turn: coach normally, coach gently with resources, or crisis-only reply. */
+export type SafetyAction = "allow" | "support" | "crisis";
+
 export type ChatRole = "user" | "assistant";
 
 export type CoachingLens =
@@ -16,6 +19,18 @@ export type ChatResponseKind = "clarify" | "coach" | "safety";
 
 export type ChatMessageRequest = {
   text: string;
+  stream?: boolean;
+  conversationId?: string;
+};
+
+export type ChatReplySegmentKind = "reflection" | "action" | "question" | "support" | "safety";
+
+/** Where the guest stands against their daily model budget; see `lib/server/budget.ts`. */
+export type ChatBudgetStatus = "ok" | "downgrade" | "exhausted";
+
+export type ChatReplySegment = {
+  kind: ChatReplySegmentKind;
+  text: string;
 };
 
 export type ChatMessageResponse = {
@@ -23,12 +38,23 @@ export type ChatMessageResponse = {
   mode: PromptMode;
   messageId: string;
   safetyTriggered: boolean;
+  supportMode?: boolean;
+  /** True while replies are held in post-crisis mode after a crisis turn. */
+  postCrisis?: boolean;
+  budgetStatus?: ChatBudgetStatus;
   responseKind?: ChatResponseKind;
   modelUsed?: string;
   lens?: CoachingLens;
   clarifierPending?: boolean;
 };
 
+export type ChatStreamEvent =
+  | { type: "segment"; segment: ChatReplySegment }
+  /** Drops the segments streamed so far; the replacement reply follows. */
+  | { type: "reset" }
+  | { type: "done"; response: ChatMessageResponse }
+  | { type: "error"; error: string };
+
 export type ChatHistoryMessage = {
   id: string;
   role: ChatRole;
@@ -44,6 +70,7 @@ export type ChatHistoryResponse = {
 
 export type PurposeSnapshotRequest = {
   contextWindow?: number;
+  conversationId?: string;
 };
 
 export type PurposeSnapshotResponse = {
@@ -53,21 +80,118 @@ export type PurposeSnapshotResponse = {
   nextActions: string[];
 };
 
+export type SafetyReviewStatus = "new" | "reviewed" | "false_positive" | "escalated";
+
 export type SafetyEvent = {
   id: string;
+  sessionId: string;
   guestId: string;
   level: SafetyLevel;
+  action: SafetyAction;
+  reason: string;
   triggerText: string;
+  reviewStatus: SafetyReviewStatus;
+  reviewerNotes: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
   createdAt: string;
 };
 
+export type SafetyReasonCount = {
+  /** First component of the stored reason, e.g. `rule_high_risk:kill_myself`. */
+  reason: string;
+  total: number;
+  byStatus: Record<SafetyReviewStatus, number>;
+};
+
+export type SafetyReviewCounts = {
+  sinceIso: string;
+  total: number;
+  byStatus: Record<SafetyReviewStatus, number>;
+  byReason: SafetyReasonCount[];
+};
+
+export type SafetyReviewQueueResponse = {
+  events: SafetyEvent[];
+  counts: SafetyReviewCounts;
+};
+
+export type SafetyReviewDetailResponse = {
+  event: SafetyEvent;
+  /** Messages around the flagged turn, oldest first. */
+  context: ChatHistoryMessage[];
+};
+
+export type SafetyReviewUpdateRequest = {
+  status?: SafetyReviewStatus;
+  notes?: string;
+  reviewer?: string;
+};
+
 export type GuestSession = {
   id: string;
   guestId: string;
+  title: string;
+  archivedAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type Account = {
+  id: string;
+  email: string;
+  createdAt: string;
+};
+
+export type AccountResponse = {
+  account: Account | null;
+};
+
+export type MagicLinkRequest = {
+  email: string;
+};
+
+export type TransferAuditEventName = "issued" | "redeemed" | "rejected";
+
+export type TransferAuditEvent = {
+  id: string;
+  event: TransferAuditEventName;
+  guestId: string | null;
+  ip: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type TransferCodeResponse = {
+  code: string;
+  expiresAt: string;
+};
+
+export type TransferRedeemRequest = {
+  code: string;
+};
+
+export type TransferAuditResponse = {
+  events: TransferAuditEvent[];
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ConversationListResponse = {
+  conversations: Conversation[];
+};
+
+export type ConversationUpdateRequest = {
+  title?: string;
+  archived?: boolean;
+};
+
 export type StoredChatMessage = {
   id: string;
   sessionId: string;
@@ -77,6 +201,146 @@ export type StoredChatMessage = {
   createdAt: string;
 };
 
+export type MissionDiffSegment = {
+  kind: "same" | "added" | "removed";
+  text: string;
+};
+
+export type PurposeSnapshotDiff = {
+  previousSnapshotId: string;
+  missionChanged: boolean;
+  mission: MissionDiffSegment[];
+  valuesAdded: string[];
+  valuesDropped: string[];
+  valuesKept: string[];
+  actionsCarriedOver: string[];
+  actionsAdded: string[];
+  actionsDropped: string[];
+};
+
+export type PurposeSnapshotHistoryEntry = PurposeSnapshotResponse & {
+  createdAt: string;
+  diff: PurposeSnapshotDiff | null;
+};
+
+export type PurposeSnapshotHistoryResponse = {
+  sessionId: string;
+  snapshots: PurposeSnapshotHistoryEntry[];
+};
+
+export type ActionItemStatus = "open" | "done" | "dropped";
+
+export type ActionItem = {
+  id: string;
+  sessionId: string;
+  snapshotId: string | null;
+  title: string;
+  status: ActionItemStatus;
+  dueAt: string | null;
+  completedAt: string | null;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ActionItemListResponse = {
+  actionItems: ActionItem[];
+};
+
+export type ActionItemUpdateRequest = {
+  status?: ActionItemStatus;
+  dueAt?: string | null;
+  notes?: string;
+};
+
+export type ReminderCadence = "daily" | "weekly";
+
+export type ReminderChannel = "email" | "push";
+
+export type ReminderSubscription = {
+  id: string;
+  guestId: string;
+  sessionId: string | null;
+  cadence: ReminderCadence;
+  channel: ReminderChannel;
+  /** Email address, or a serialized Web Push subscription for the push channel. */
+  destination: string;
+  nextRunAt: string;
+  lastSentAt: string | null;
+  lastError: string | null;
+  /** Null until the address is confirmed from its email; nothing is sent before then. */
+  confirmedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebPushSubscriptionPayload = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+export type ReminderSettings = Omit<ReminderSubscription, "guestId" | "destination"> & {
+  email: string | null;
+};
+
+export type ReminderSettingsResponse = {
+  reminder: ReminderSettings | null;
+  pushPublicKey: string | null;
+};
+
+export type ReminderUpdateRequest = {
+  cadence?: ReminderCadence;
+  channel?: ReminderChannel;
+  email?: string;
+  pushSubscription?: WebPushSubscriptionPayload;
+  conversationId?: string;
+};
+
+export type ReminderDispatchSummary = {
+  due: number;
+  delivered: number;
+  failed: number;
+  expired: number;
+};
+
+/** Where the crisis region came from, highest priority first; `fallback` means no usable signal. */
+export type CrisisRegionSource = "setting" | "geo" | "language" | "fallback";
+
+export type CrisisHotline = {
+  name: string;
+  phone: string | null;
+  /** SMS short code or number; `textKeyword` is the word to send when the service needs one. */
+  textTo: string | null;
+  textKeyword: string | null;
+  hours: string;
+};
+
+export type CrisisResources = {
+  /** ISO 3166-1 alpha-2 code the resources are for, or null for the international directory. */
+  country: string | null;
+  countryName: string | null;
+  emergencyNumber: string | null;
+  hotlines: CrisisHotline[];
+  directoryUrl: string;
+  source: CrisisRegionSource;
+};
+
+export type CrisisRegionOption = {
+  code: string;
+  name: string;
+};
+
+export type CrisisResourcesResponse = {
+  resources: CrisisResources;
+  /** Explicit choice stored for this browser, if any. */
+  selectedCountry: string | null;
+  regions: CrisisRegionOption[];
+};
+
+export type CrisisRegionUpdateRequest = {
+  country: string | null;
+};
+
 export type StoredPurposeSnapshot = {
   id: string;
   sessionId: string;
@@ -95,6 +359,10 @@ export type ChatSessionState = {
   clarifierTopic: string;
   lastLens: CoachingLens | "";
   lastModel: string;
+  /** Cumulative conversation risk score after each recent user turn, oldest first. */
+  riskTrajectory: number[];
+  /** Coached turns left in post-crisis mode; 0 when the mode is off. */
+  postCrisisTurnsRemaining: number;
   updatedAt: string;
 };
 
@@ -111,10 +379,18 @@ export type AnalyticsEventName =
   | "safety_triggered"
   | "returned_within_7d"
   | "chat_model_selected"
+  | "model_usage_recorded"
   | "chat_retry_for_uniqueness"
   | "chat_clarifier_triggered"
   | "chat_summary_updated"
-  | "chat_low_quality_fallback";
+  | "chat_low_quality_fallback"
+  | "account_signed_in"
+  | "action_item_completed"
+  | "reminder_sent"
+  | "moderation_failed"
+  | "chat_output_blocked"
+  | "chat_budget_limited"
+  | "abuse_cooldown";
 
 export type AnalyticsEvent = {
   id: string;
@@ -123,3 +399,31 @@ export type AnalyticsEvent = {
   metadata: Record<string, unknown>;
   createdAt: string;
 };
+
+export type DataExportConversation = {
+  id: string;
+  title: string;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatHistoryMessage[];
+  snapshots: Array<Omit<StoredPurposeSnapshot, "sessionId">>;
+  state: Omit<ChatSessionState, "sessionId"> | null;
+  safetyEvents: Array<
+    Pick<SafetyEvent, "level" | "action" | "reason" | "triggerText" | "createdAt">
+  >;
+  actionItems: Array<Omit<ActionItem, "id" | "sessionId">>;
+};
+
+export type DataExportArchive = {
+  format: "soulaware-export";
+  version: 1;
+  exportedAt: string;
+  conversations: DataExportConversation[];
+  analyticsEvents: Array<Pick<AnalyticsEvent, "eventName" | "metadata" | "createdAt">>;
+};
+
+export type DataImportResponse = {
+  conversations: number;
+  messages: number;
+};
@@ -0,0 +1,28 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    setupFiles: ["tests/support/setup.ts"],
+    env: {
+      SOULAWARE_LLM_PROVIDER: "fake",
+      OPENAI_API_KEY: "",
+      SUPABASE_URL: "",
+      SUPABASE_SERVICE_ROLE_KEY: "",
+      UPSTASH_REDIS_REST_URL: "",
+      UPSTASH_REDIS_REST_TOKEN: "",
+      REDIS_URL: "",
+      CRON_SECRET: "test-cron-secret",
+      SOULAWARE_ADMIN_SECRET: "test-admin-secret",
+      SOULAWARE_AUTH_SECRET: "test-auth-secret",
+      SOULAWARE_MAIL_TRANSPORT: "memory",
+    },
+  },
+});